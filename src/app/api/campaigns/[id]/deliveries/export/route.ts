@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  deliveryLogFileName,
+  isDeliveryStatus,
+  normalizeDeliveryLogEntry,
+  toDeliveryLogCsvHeader,
+  toDeliveryLogCsvRow,
+} from '@/utils/delivery-log';
+
+const API_BASE_URL = (process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001') + '/api';
+
+// Log entries fetched from the backend per request while streaming
+const PAGE_SIZE = 500;
+
+// Streams a campaign's delivery log as a CSV download, optionally only one status.
+// Submitted as a form post (token, status) so the browser writes the response straight
+// to disk instead of holding it in memory.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const form = await request.formData();
+    const token = form.get('token');
+    const requestedStatus = form.get('status');
+    const status = isDeliveryStatus(requestedStatus) ? requestedStatus : null;
+
+    const headers = {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    };
+
+    const campaignResponse = await fetch(`${API_BASE_URL}/campaigns/${id}`, { headers });
+    const campaignData = await campaignResponse.json();
+
+    if (!campaignResponse.ok) {
+      return NextResponse.json(
+        { success: false, message: campaignData.message || 'Failed to fetch campaign' },
+        { status: campaignResponse.status }
+      );
+    }
+
+    const campaign = campaignData.data || campaignData;
+    const encoder = new TextEncoder();
+    let page = 1;
+    let pages = 1;
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(encoder.encode(toDeliveryLogCsvHeader()));
+      },
+
+      // One backend page per pull, so a slow download doesn't buffer the whole log
+      async pull(controller) {
+        try {
+          if (page > pages) {
+            controller.close();
+            return;
+          }
+
+          const query = `page=${page}&limit=${PAGE_SIZE}${status ? `&status=${status}` : ''}`;
+          const response = await fetch(`${API_BASE_URL}/campaigns/${id}/deliveries?${query}`, { headers });
+          const data = await response.json();
+          if (!response.ok) {
+            throw new Error(data.message || 'Failed to fetch delivery log');
+          }
+
+          const entries: Record<string, unknown>[] = data.data || [];
+          pages = entries.length > 0 ? data.pagination?.pages || 1 : 0;
+          page++;
+
+          controller.enqueue(encoder.encode(entries.map((entry) => toDeliveryLogCsvRow(normalizeDeliveryLogEntry(entry))).join('')));
+        } catch (error) {
+          console.error('Error streaming delivery log export:', error);
+          controller.error(error);
+        }
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${deliveryLogFileName(campaign.name || id, status)}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting delivery log:', error);
+    return NextResponse.json(
+      { success: false, message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  ReviewerIdentity,
+  getSubmitter,
+  isSameReviewer,
+  normalizeReviewHistory,
+  validateReviewComment,
+} from '@/utils/approval';
+
+const API_BASE_URL = (process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001') + '/api';
+
+// The user a bearer token claims to be issued to. The signature isn't checked here, so
+// this identity is only good for turning away an honest submitter early.
+function getTokenIdentity(token: string): ReviewerIdentity | null {
+  try {
+    const payload = JSON.parse(Buffer.from(token.split('.')[1] || '', 'base64url').toString('utf8'));
+    const id = payload.id ?? payload.userId ?? payload.user_id ?? payload.sub;
+    const email = typeof payload.email === 'string' ? payload.email : null;
+    return id || email ? { id: id ? String(id) : null, email } : null;
+  } catch {
+    return null;
+  }
+}
+
+// Approves or rejects a submitted campaign on the backend. Body: { action: 'approve' |
+// 'reject', comment }. Refusing the campaign's own submitter here only saves them a
+// round trip with a clearer message: the backend's approve and reject endpoints are
+// what enforce it, since they can be called without going through this route.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+    const action = body.action;
+    const comment = typeof body.comment === 'string' ? body.comment : '';
+
+    if (action !== 'approve' && action !== 'reject') {
+      return NextResponse.json(
+        { success: false, message: 'Action must be approve or reject' },
+        { status: 400 }
+      );
+    }
+
+    const commentIssue = validateReviewComment(action, comment);
+    if (commentIssue) {
+      return NextResponse.json({ success: false, message: commentIssue }, { status: 400 });
+    }
+
+    const token = request.headers.get('authorization')?.replace(/^Bearer\s+/i, '') || '';
+    const reviewer = getTokenIdentity(token);
+    if (!reviewer) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const headers = {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${token}`,
+    };
+
+    const [campaignResponse, reviewsResponse] = await Promise.all([
+      fetch(`${API_BASE_URL}/campaigns/${id}`, { headers }),
+      fetch(`${API_BASE_URL}/campaigns/${id}/reviews`, { headers }),
+    ]);
+    const [campaignData, reviewsData] = await Promise.all([campaignResponse.json(), reviewsResponse.json()]);
+
+    if (!campaignResponse.ok || !reviewsResponse.ok) {
+      const failed = campaignResponse.ok ? reviewsResponse : campaignResponse;
+      const data = campaignResponse.ok ? reviewsData : campaignData;
+      return NextResponse.json(
+        { success: false, message: data.message || 'Failed to fetch campaign' },
+        { status: failed.status }
+      );
+    }
+
+    const campaign = campaignData.data || campaignData;
+    if (campaign.status !== 'submitted') {
+      return NextResponse.json(
+        { success: false, message: 'Only submitted campaigns can be reviewed' },
+        { status: 409 }
+      );
+    }
+
+    const submitter = getSubmitter(normalizeReviewHistory(reviewsData.data ?? reviewsData), campaign.created_by);
+    if (isSameReviewer(reviewer, submitter)) {
+      return NextResponse.json(
+        { success: false, message: 'You submitted this campaign, so someone else has to review it' },
+        { status: 403 }
+      );
+    }
+
+    const response = await fetch(`${API_BASE_URL}/campaigns/${id}/${action}`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ comment: comment.trim() || undefined }),
+    });
+    const data = await response.json();
+
+    if (!response.ok) {
+      return NextResponse.json(
+        { success: false, message: data.message || `Failed to ${action} campaign` },
+        { status: response.status }
+      );
+    }
+
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error('Error reviewing campaign:', error);
+    return NextResponse.json(
+      { success: false, message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Customer } from '@/utils/rule-evaluator';
+import {
+  DEFAULT_EXPORT_COLUMNS,
+  ExportFormat,
+  exportFileName,
+  parseExportColumns,
+  toCsvHeader,
+  toCsvRow,
+  toJsonRecord,
+} from '@/utils/segment-export';
+
+const API_BASE_URL = (process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001') + '/api';
+
+// Members fetched from the backend per request while streaming
+const PAGE_SIZE = 500;
+
+// Streams every customer in the segment as a CSV or JSON download. Membership comes
+// from the backend's members endpoint, the same list campaigns are sent to (rules for
+// dynamic segments, the frozen list for snapshots). Submitted as a form post (token,
+// format, columns) so the browser writes the response straight to disk instead of
+// holding it in memory.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const form = await request.formData();
+    const token = form.get('token');
+    const format: ExportFormat = form.get('format') === 'json' ? 'json' : 'csv';
+    const requestedColumns = parseExportColumns(form.getAll('columns').map(String));
+    const columns = requestedColumns.length > 0 ? requestedColumns : DEFAULT_EXPORT_COLUMNS;
+
+    const headers = {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    };
+
+    const segmentResponse = await fetch(`${API_BASE_URL}/segments/${id}`, { headers });
+    const segmentData = await segmentResponse.json();
+
+    if (!segmentResponse.ok) {
+      return NextResponse.json(
+        { success: false, message: segmentData.message || 'Failed to fetch segment' },
+        { status: segmentResponse.status }
+      );
+    }
+
+    const segment = segmentData.data || segmentData;
+    const encoder = new TextEncoder();
+    let page = 1;
+    let pages = 1;
+    let exported = 0;
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(encoder.encode(format === 'csv' ? toCsvHeader(columns) : '[\n'));
+      },
+
+      // One backend page per pull, so a slow download doesn't buffer the whole list. A
+      // pull must enqueue something or it won't be called again, so the stream is closed
+      // in the pull that finds no more members.
+      async pull(controller) {
+        const finish = () => {
+          if (format === 'json') controller.enqueue(encoder.encode('\n]\n'));
+          controller.close();
+        };
+
+        try {
+          if (page > pages) {
+            finish();
+            return;
+          }
+
+          const response = await fetch(
+            `${API_BASE_URL}/segments/${id}/members?page=${page}&limit=${PAGE_SIZE}`,
+            { headers }
+          );
+          const data = await response.json();
+          if (!response.ok) {
+            throw new Error(data.message || 'Failed to fetch segment members');
+          }
+
+          const members: Customer[] = data.data || [];
+          if (members.length === 0) {
+            finish();
+            return;
+          }
+          pages = data.pagination?.pages || 1;
+          page++;
+
+          controller.enqueue(encoder.encode(
+            members
+              .map((customer) =>
+                format === 'csv'
+                  ? toCsvRow(customer, columns)
+                  : `${exported++ > 0 ? ',\n' : ''}  ${JSON.stringify(toJsonRecord(customer, columns))}`
+              )
+              .join('')
+          ));
+        } catch (error) {
+          console.error('Error streaming segment export:', error);
+          controller.error(error);
+        }
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${exportFileName(segment.name || id, format)}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting segment:', error);
+    return NextResponse.json(
+      { success: false, message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
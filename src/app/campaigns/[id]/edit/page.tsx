@@ -5,6 +5,19 @@ import { useRouter, useParams } from 'next/navigation';
 import { useAuth } from '@/contexts/auth-context';
 import { useApiClient } from '@/utils/api-client';
 import Navigation from '@/components/navigation';
+import MessagePreview from '@/components/message-preview';
+import ChannelFields, { ChannelSelector } from '@/components/channel-composer';
+import {
+    CampaignChannel,
+    ChannelContent,
+    createChannelContent,
+    getCampaignChannel,
+    pickChannelContent,
+    validateChannelContent,
+} from '@/utils/channels';
+import { validateTemplate } from '@/utils/message-template';
+import { APPROVAL_STATUSES, REAPPROVAL_STATUSES } from '@/utils/approval';
+import CampaignReview from '@/components/campaign-review';
 import { FiSave, FiArrowLeft, FiLoader, FiUsers, FiMessageSquare, FiTag } from 'react-icons/fi';
 
 // Segment interface
@@ -25,6 +38,10 @@ interface Campaign {
     tags?: string[];
     status: string;
     audience_size?: number;
+    channel?: CampaignChannel;
+    content?: ChannelContent;
+    scheduled_at?: string;
+    timezone?: string;
 }
 
 export default function EditCampaignPage() {
@@ -50,8 +67,9 @@ export default function EditCampaignPage() {
         segmentId: '',
         messageTemplate: '',
         objective: '',
-        status: 'draft',
-        tags: [] as string[]
+        tags: [] as string[],
+        channel: 'sms' as CampaignChannel,
+        content: createChannelContent('sms')
     });
 
     // Tag input
@@ -71,8 +89,9 @@ export default function EditCampaignPage() {
                     segmentId: campaignData.segment_id || '',
                     messageTemplate: campaignData.message_template || '',
                     objective: campaignData.ai_summary || '',
-                    status: campaignData.status || 'draft',
-                    tags: campaignData.tags || []
+                    tags: campaignData.tags || [],
+                    channel: getCampaignChannel(campaignData),
+                    content: { ...createChannelContent(getCampaignChannel(campaignData)), ...campaignData.content }
                 });
                 setAudienceSize(campaignData.audience_size || 0);
             }
@@ -117,6 +136,13 @@ export default function EditCampaignPage() {
         }
     }, [apiClient.campaigns, formData.segmentId, formData.objective]);
 
+    const templateIssues = validateTemplate(formData.messageTemplate);
+    const channelIssues = validateChannelContent(formData.channel, formData.messageTemplate, formData.content);
+
+    const handleChannelChange = (channel: CampaignChannel) => {
+        setFormData(prev => ({ ...prev, channel, content: { ...createChannelContent(channel), ...prev.content } }));
+    };
+
     // Handle form submission
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
@@ -126,17 +152,46 @@ export default function EditCampaignPage() {
             return;
         }
 
+        // Unknown merge fields would go out as blanks
+        if (templateIssues.length > 0) {
+            setError(`Fix the message template before saving: ${templateIssues[0].message}`);
+            return;
+        }
+        if (channelIssues.length > 0) {
+            setError(channelIssues[0]);
+            return;
+        }
+
+        // Approval covers the content as reviewed, so changes need approving again
+        const needsReapproval = campaign !== null && REAPPROVAL_STATUSES.includes(campaign.status);
+        const isScheduled = campaign?.status === 'scheduled';
+        const reapprovalNote = isScheduled
+            ? 'Saving changes cancels the scheduled send and takes this campaign back to draft.'
+            : 'Saving changes takes this campaign back to draft.';
+        if (needsReapproval && !confirm(`${reapprovalNote} It will need to be submitted and approved again before it can be sent.`)) {
+            return;
+        }
+
         try {
             setIsSaving(true);
             setError(null);
 
-            const response = await apiClient.campaigns.updateCampaign(campaignId, formData);
+            // Take it off the schedule first so the unreviewed changes can't go out
+            if (isScheduled) {
+                await apiClient.campaigns.cancelScheduledCampaign(campaignId);
+            }
+
+            const response = await apiClient.campaigns.updateCampaign(campaignId, {
+                ...formData,
+                ...(needsReapproval ? { status: 'draft' } : {}),
+                content: pickChannelContent(formData.channel, formData.content)
+            });
             
             if (response.success) {
                 // Show success message
                 alert('Campaign updated successfully!');
                 
-                // If status was changed, refetch campaign data to reflect changes
+                // Refetch so the status reflects any return to draft
                 await fetchCampaign();
                 
                 // Navigate back to campaigns list
@@ -244,7 +299,22 @@ export default function EditCampaignPage() {
 
     // Allow editing all campaigns (just show warning for executed campaigns)
     const canEdit = true;
-    const isExecutedCampaign = campaign && !['draft', 'pending'].includes(campaign.status);
+    const isExecutedCampaign = campaign && !['draft', 'pending', 'scheduled', ...APPROVAL_STATUSES].includes(campaign.status);
+
+    const getStatusColor = (status: string) => {
+        switch (status) {
+            case 'submitted':
+                return 'bg-purple-500/20 text-purple-300 border-purple-500/30';
+            case 'approved':
+                return 'bg-emerald-500/20 text-emerald-300 border-emerald-500/30';
+            case 'rejected':
+                return 'bg-rose-500/20 text-rose-300 border-rose-500/30';
+            case 'scheduled':
+                return 'bg-cyan-500/20 text-cyan-300 border-cyan-500/30';
+            default:
+                return 'bg-gray-500/20 text-gray-300 border-gray-500/30';
+        }
+    };
 
     if (!canEdit) {
         return (
@@ -385,37 +455,46 @@ export default function EditCampaignPage() {
                             </div>
 
                             {/* Campaign Status */}
-                            <div className="bg-white/5 backdrop-blur-xl border border-white/10 rounded-2xl p-6 shadow-xl">
-                                <label className="block text-sm font-semibold text-gray-300 mb-3">
-                                    Campaign Status
-                                </label>
-                                <select
-                                    value={formData.status}
-                                    onChange={(e) => setFormData(prev => ({ ...prev, status: e.target.value }))}
-                                    className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                                >
-                                    <option value="draft" className="bg-gray-800">Draft</option>
-                                    <option value="pending" className="bg-gray-800">Pending</option>
-                                    <option value="processing" className="bg-gray-800">Processing</option>
-                                    <option value="completed" className="bg-gray-800">Completed</option>
-                                    <option value="failed" className="bg-gray-800">Failed</option>
-                                    <option value="paused" className="bg-gray-800">Paused</option>
-                                </select>
-                                <p className="text-xs text-gray-400 mt-2">
-                                    Control campaign visibility and execution state
-                                </p>
-                            </div>
+                            {campaign && (
+                                <div className="bg-white/5 backdrop-blur-xl border border-white/10 rounded-2xl p-6 shadow-xl">
+                                    <div className="flex items-center justify-between mb-3">
+                                        <label className="text-sm font-semibold text-gray-300">
+                                            Approval
+                                        </label>
+                                        <span className={`px-3 py-1 text-xs font-semibold rounded-full border ${getStatusColor(campaign.status)}`}>
+                                            {campaign.status}
+                                        </span>
+                                    </div>
+                                    <p className="text-xs text-gray-400 mb-4">
+                                        Campaigns are sent only after a reviewer approves them. Save your changes before submitting.
+                                    </p>
+                                    <CampaignReview campaign={campaign} onReviewed={fetchCampaign} />
+                                </div>
+                            )}
 
                             {/* Message Template */}
                             <div className="bg-white/5 backdrop-blur-xl border border-white/10 rounded-2xl p-6 shadow-xl">
+                                <div className="mb-4">
+                                    <ChannelSelector value={formData.channel} onChange={handleChannelChange} />
+                                </div>
+                                {formData.channel === 'email' && (
+                                    <div className="mb-4">
+                                        <ChannelFields
+                                            channel={formData.channel}
+                                            messageTemplate={formData.messageTemplate}
+                                            content={formData.content}
+                                            onContentChange={(content) => setFormData(prev => ({ ...prev, content }))}
+                                        />
+                                    </div>
+                                )}
                                 <div className="flex items-center justify-between mb-3">
                                     <label className="text-sm font-semibold text-gray-300">
-                                        Message Template *
+                                        {formData.channel === 'email' ? 'Plain-text Body' : formData.channel === 'whatsapp' ? 'Template Body' : 'Message Template'} *
                                     </label>
                                     <div className="flex items-center space-x-2">
                                         <FiMessageSquare size={16} className="text-gray-400" />
                                         <span className="text-xs text-gray-400">
-                                            {formData.messageTemplate.length}/160 characters
+                                            {formData.messageTemplate.length} characters
                                         </span>
                                     </div>
                                 </div>
@@ -423,11 +502,44 @@ export default function EditCampaignPage() {
                                     value={formData.messageTemplate}
                                     onChange={(e) => setFormData(prev => ({ ...prev, messageTemplate: e.target.value }))}
                                     className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
-                                    rows={3}
-                                    maxLength={160}
+                                    rows={formData.channel === 'sms' ? 3 : 6}
                                     placeholder="Enter your message template..."
                                     required
                                 />
+                                {formData.messageTemplate && templateIssues.length > 0 && (
+                                    <ul className="mt-2 space-y-1">
+                                        {templateIssues.map((issue, index) => (
+                                            <li key={index} className="text-sm text-red-300">• {issue.message}</li>
+                                        ))}
+                                    </ul>
+                                )}
+                                {formData.channel !== 'email' && (
+                                    <div className="mt-3">
+                                        <ChannelFields
+                                            channel={formData.channel}
+                                            messageTemplate={formData.messageTemplate}
+                                            content={formData.content}
+                                            onContentChange={(content) => setFormData(prev => ({ ...prev, content }))}
+                                        />
+                                    </div>
+                                )}
+                                {channelIssues.length > 0 && (formData.messageTemplate || formData.channel !== 'sms') && (
+                                    <ul className="mt-2 space-y-1">
+                                        {channelIssues.map((issue, index) => (
+                                            <li key={index} className="text-sm text-amber-300">• {issue}</li>
+                                        ))}
+                                    </ul>
+                                )}
+                                {formData.segmentId && (
+                                    <div className="mt-4">
+                                        <MessagePreview
+                                            template={formData.messageTemplate}
+                                            segmentId={formData.segmentId}
+                                            channel={formData.channel}
+                                            subject={formData.content.email?.subject}
+                                        />
+                                    </div>
+                                )}
 
                                 {/* AI Suggestions */}
                                 {(suggestions.length > 0 || isLoadingSuggestions) && (
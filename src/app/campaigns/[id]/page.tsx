@@ -1,10 +1,27 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/contexts/auth-context';
 import { useApiClient } from '@/utils/api-client';
 import Navigation from '@/components/navigation';
+import DeliveryLog from '@/components/delivery-log';
+import CampaignAttribution from '@/components/campaign-attribution';
+import { getCampaignChannel } from '@/utils/channels';
+import { HoldoutSettings, HoldoutSplit, estimateHoldoutSplit, splitAudience } from '@/utils/holdout';
+import { formatSchedule, getCampaignSchedule } from '@/utils/schedule';
+import { CampaignAction, IN_FLIGHT_STATUSES, getActionConfirmation, getActionLabel, getAvailableActions, getCampaignProgress } from '@/utils/campaign-progress';
+import { useLiveProgress, withLiveProgress } from '@/utils/live-progress';
+import { formatDuration, formatThroughput } from '@/utils/progress-stream';
+import {
+    ABTestSettings,
+    Significance,
+    TestOutcome,
+    VariantStats,
+    evaluateABTest,
+    getWinnerMetricLabel,
+    normalizeVariantStats,
+} from '@/utils/ab-test';
 
 interface CampaignDetails {
     id: string;
@@ -22,6 +39,25 @@ interface CampaignDetails {
     message_template?: string;
     segment_id?: string;
     ai_summary?: string;
+    holdout?: HoldoutSettings;
+    holdout_percentage?: number;
+    holdout_seed?: string;
+    treatment_size?: number;
+    control_size?: number;
+    ab_test?: ABTestSettings;
+    abTest?: ABTestSettings;
+    started_at?: string;
+    sent_at?: string;
+    scheduled_at?: string;
+    scheduledAt?: string;
+    timezone?: string;
+    channel?: string;
+}
+
+interface ABTestResults {
+    variants: VariantStats[];
+    // Set once the backend has sent the winner to the rest of the audience
+    winnerId: string | null;
 }
 
 // Helper functions to handle field name variations
@@ -37,37 +73,175 @@ const getCreatedAt = (campaign: CampaignDetails) => {
     return campaign.created_at || campaign.createdAt || '';
 };
 
+const getHoldout = (campaign: CampaignDetails): HoldoutSettings | null => {
+    if (campaign.holdout) return campaign.holdout;
+    if (campaign.holdout_percentage && campaign.holdout_seed) {
+        return { percentage: campaign.holdout_percentage, seed: campaign.holdout_seed };
+    }
+    return null;
+};
+
+const getABTest = (campaign: CampaignDetails): ABTestSettings | null =>
+    campaign.ab_test || campaign.abTest || null;
+
+// The test clock starts when sending starts
+const getStartedAt = (campaign: CampaignDetails): string | null =>
+    campaign.started_at || campaign.sent_at || null;
+
+const SIGNIFICANCE_BADGES: Record<Significance, { label: string; className: string }> = {
+    significant: { label: 'Significant (95%)', className: 'bg-green-100 text-green-800' },
+    trending: { label: 'Trending (90%)', className: 'bg-yellow-100 text-yellow-800' },
+    not_significant: { label: 'Not significant', className: 'bg-gray-100 text-gray-600' },
+};
+
+const TEST_STATUS_LABELS: Record<TestOutcome['status'], string> = {
+    not_started: 'Not started',
+    collecting: 'Collecting samples',
+    running: 'Test running',
+    inconclusive: 'No clear winner',
+    decided: 'Winner found',
+};
+
+const formatRate = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+
 export default function CampaignDetails({ params }: { params: { id: string } }) {
     const { isAuthenticated, isLoading } = useAuth();
     const router = useRouter();
     const api = useApiClient();
     const [campaign, setCampaign] = useState<CampaignDetails | null>(null);
     const [isLoadingCampaign, setIsLoadingCampaign] = useState(true);
+    // Recorded by the backend at send time, or a current estimate from the segment
+    const [holdoutSplit, setHoldoutSplit] = useState<(HoldoutSplit & { basis: 'recorded' | 'members' | 'audience' }) | null>(null);
+    const [abTestResults, setABTestResults] = useState<ABTestResults | null>(null);
+    const [pendingAction, setPendingAction] = useState<CampaignAction | null>(null);
+
+    const fetchCampaign = useCallback(async () => {
+        try {
+            const response = await api.campaigns.getCampaignById(params.id);
+
+            if (response.success && response.data) {
+                setCampaign(response.data);
+            } else {
+                router.push('/campaigns');
+            }
+        } catch (error) {
+            console.error('Error fetching campaign:', error);
+            router.push('/campaigns');
+        } finally {
+            setIsLoadingCampaign(false);
+        }
+    }, [api, params.id, router]);
 
     // Fetch campaign details
     useEffect(() => {
         if (isAuthenticated) {
-            const fetchCampaign = async () => {
-                try {
-                    setIsLoadingCampaign(true);
-                    const response = await api.campaigns.getCampaignById(params.id);
-
-                    if (response.success && response.data) {
-                        setCampaign(response.data);
-                    } else {
-                        router.push('/campaigns');
-                    }
-                } catch (error) {
-                    console.error('Error fetching campaign:', error);
-                    router.push('/campaigns');
-                } finally {
-                    setIsLoadingCampaign(false);
-                }
-            };
-
+            setIsLoadingCampaign(true);
             fetchCampaign();
         }
-    }, [isAuthenticated, api, params.id, router]);
+    }, [isAuthenticated, fetchCampaign]);
+
+    // Live counts while the campaign is sending; reloaded once it stops
+    const { progress: liveProgress, mode: progressMode } = useLiveProgress(
+        campaign && IN_FLIGHT_STATUSES.includes(campaign.status) ? [campaign.id] : [],
+        { onFinished: fetchCampaign }
+    );
+
+    // Pause, resume or cancel an in-flight send
+    const handleCampaignAction = async (action: CampaignAction) => {
+        if (!campaign || !confirm(getActionConfirmation(action, campaign.name, getCampaignProgress(campaign)))) return;
+
+        try {
+            setPendingAction(action);
+            if (action === 'pause') {
+                await api.campaigns.pauseCampaign(campaign.id);
+            } else if (action === 'resume') {
+                await api.campaigns.resumeCampaign(campaign.id);
+            } else {
+                await api.campaigns.cancelCampaign(campaign.id);
+            }
+            await fetchCampaign();
+        } catch (error: unknown) {
+            console.error(`Error running ${action} on campaign:`, error);
+            alert(error instanceof Error ? error.message : `Failed to ${action} campaign`);
+        } finally {
+            setPendingAction(null);
+        }
+    };
+
+    // Treatment vs. control sizes: as recorded by the backend when the campaign sent, or
+    // else estimated from the segment's current members with the campaign's seed. Members
+    // join and leave, so that estimate can differ from the groups at send time. Loading the
+    // members is costly, so it only runs again when the segment or holdout changes, not on
+    // every refetch of the campaign.
+    const segmentId = campaign?.segment_id;
+    const holdoutPercentage = campaign ? getHoldout(campaign)?.percentage : undefined;
+    const holdoutSeed = campaign ? getHoldout(campaign)?.seed : undefined;
+    const controlSize = campaign?.control_size;
+    const treatmentSize = campaign?.treatment_size;
+    const audienceSize = campaign ? getAudienceSize(campaign) : 0;
+
+    useEffect(() => {
+        if (!holdoutPercentage || !holdoutSeed) {
+            setHoldoutSplit(null);
+            return;
+        }
+
+        if (controlSize !== undefined && treatmentSize !== undefined) {
+            setHoldoutSplit({ treatment: treatmentSize, control: controlSize, basis: 'recorded' });
+            return;
+        }
+
+        const fetchHoldoutSplit = async () => {
+            try {
+                if (!segmentId) throw new Error('Campaign has no segment');
+                const memberIds = await api.segments.getSegmentMemberIds(segmentId);
+                setHoldoutSplit({ ...splitAudience(memberIds, { percentage: holdoutPercentage, seed: holdoutSeed }), basis: 'members' });
+            } catch (error) {
+                console.error('Error computing holdout split:', error);
+                setHoldoutSplit({ ...estimateHoldoutSplit(audienceSize, holdoutPercentage), basis: 'audience' });
+            }
+        };
+
+        fetchHoldoutSplit();
+    }, [segmentId, holdoutPercentage, holdoutSeed, controlSize, treatmentSize, audienceSize, api.segments]);
+
+    // Per-variant counts for A/B tests
+    useEffect(() => {
+        if (!campaign || !getABTest(campaign)) {
+            setABTestResults(null);
+            return;
+        }
+
+        const fetchABTestResults = async () => {
+            try {
+                const response = await api.campaigns.getCampaignStats(campaign.id);
+                const stats = response.data || {};
+                const variants: Record<string, unknown>[] = Array.isArray(stats.variants) ? stats.variants : [];
+                setABTestResults({
+                    variants: variants.map(normalizeVariantStats),
+                    winnerId: stats.winner_variant_id ?? stats.winnerVariantId ?? null,
+                });
+            } catch (error) {
+                console.error('Error fetching A/B test stats:', error);
+                setABTestResults({ variants: [], winnerId: null });
+            }
+        };
+
+        fetchABTestResults();
+    }, [campaign, api.campaigns]);
+
+    const abTest = campaign ? getABTest(campaign) : null;
+    const abTestOutcome = campaign && abTest && abTestResults
+        ? evaluateABTest(
+            // Variants with no stats yet still get a row
+            abTest.variants.map((variant) =>
+                abTestResults.variants.find((stats) => stats.variantId === variant.id) ??
+                { variantId: variant.id, sent: 0, delivered: 0, opened: 0, clicked: 0, converted: 0 }
+            ),
+            abTest.winnerRule,
+            getStartedAt(campaign)
+        )
+        : null;
 
     if (isLoading || !isAuthenticated || isLoadingCampaign) {
         return (
@@ -81,6 +255,12 @@ export default function CampaignDetails({ params }: { params: { id: string } })
         return null;
     }
 
+    const schedule = campaign.status === 'scheduled' ? getCampaignSchedule(campaign) : null;
+    const liveCampaign = withLiveProgress(campaign, liveProgress[campaign.id]);
+    const isSending = IN_FLIGHT_STATUSES.includes(liveCampaign.status);
+    const progress = getCampaignProgress(liveCampaign);
+    const throughput = liveProgress[campaign.id]?.throughput ?? null;
+
     return (
         <div className="flex h-screen bg-gray-50">
             {/* Navigation */}
@@ -94,19 +274,45 @@ export default function CampaignDetails({ params }: { params: { id: string } })
                 <header className="bg-white shadow-sm z-10">
                     <div className="px-4 sm:px-6 lg:px-8 py-4">
                         <div className="flex items-center justify-between">
-                            <h1 className="text-lg font-medium text-gray-900">{campaign.name}</h1>
-                            <span
-                                className={`px-2 py-1 text-xs font-medium rounded-full ${campaign.status === 'completed'
-                                    ? 'bg-green-100 text-green-800'
-                                    : campaign.status === 'sending'
-                                        ? 'bg-yellow-100 text-yellow-800'
-                                        : campaign.status === 'failed'
-                                            ? 'bg-red-100 text-red-800'
-                                            : 'bg-gray-100 text-gray-800'
-                                    }`}
-                            >
-                                {campaign.status}
-                            </span>
+                            <div>
+                                <h1 className="text-lg font-medium text-gray-900">{campaign.name}</h1>
+                                {schedule && (
+                                    <p className="text-sm text-gray-500">Scheduled for {formatSchedule(schedule)}</p>
+                                )}
+                            </div>
+                            <div className="flex items-center space-x-3">
+                                {getAvailableActions(liveCampaign.status).map((action) => (
+                                    <button
+                                        key={action}
+                                        onClick={() => handleCampaignAction(action)}
+                                        disabled={pendingAction !== null}
+                                        className={`px-3 py-1.5 text-sm font-medium rounded-md border transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${action === 'cancel'
+                                            ? 'border-red-200 text-red-700 hover:bg-red-50'
+                                            : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                                            }`}
+                                    >
+                                        {pendingAction === action ? 'Working...' : getActionLabel(action)}
+                                    </button>
+                                ))}
+                                <span
+                                    className={`px-2 py-1 text-xs font-medium rounded-full ${liveCampaign.status === 'completed'
+                                        ? 'bg-green-100 text-green-800'
+                                        : liveCampaign.status === 'sending'
+                                            ? 'bg-yellow-100 text-yellow-800'
+                                            : liveCampaign.status === 'failed'
+                                                ? 'bg-red-100 text-red-800'
+                                                : liveCampaign.status === 'paused'
+                                                    ? 'bg-orange-100 text-orange-800'
+                                                    : liveCampaign.status === 'approved'
+                                                        ? 'bg-emerald-100 text-emerald-800'
+                                                        : liveCampaign.status === 'rejected'
+                                                            ? 'bg-rose-100 text-rose-800'
+                                                            : 'bg-gray-100 text-gray-800'
+                                        }`}
+                                >
+                                    {liveCampaign.status}
+                                </span>
+                            </div>
                         </div>
                     </div>
                 </header>
@@ -114,6 +320,50 @@ export default function CampaignDetails({ params }: { params: { id: string } })
                 {/* Content */}
                 <main className="flex-1 overflow-y-auto p-4 sm:p-6 lg:p-8">
                     <div className="max-w-7xl mx-auto">
+                        {/* Progress of a send that is running or paused */}
+                        {(isSending || liveCampaign.status === 'paused') && (
+                            <div className={`${isSending ? 'bg-blue-50 border-blue-100' : 'bg-orange-50 border-orange-100'} border rounded-lg p-4 mb-8`}>
+                                <div className="flex items-center justify-between mb-2">
+                                    <h3 className={`text-sm font-medium ${isSending ? 'text-blue-900' : 'text-orange-900'}`}>
+                                        {isSending ? 'Sending' : 'Send paused'}
+                                        {isSending && progressMode === 'polling' && (
+                                            <span className="ml-2 text-xs font-normal text-gray-500">(updating every few seconds)</span>
+                                        )}
+                                    </h3>
+                                    <span className={`text-sm ${isSending ? 'text-blue-700' : 'text-orange-700'}`}>{progress.percentage}% processed</span>
+                                </div>
+                                <div className={`w-full h-2 rounded-full overflow-hidden flex ${isSending ? 'bg-blue-100' : 'bg-orange-100'}`}>
+                                    <div className="h-full bg-green-500 transition-all duration-500" style={{ width: `${progress.total ? (progress.sent / progress.total) * 100 : 0}%` }} />
+                                    <div className="h-full bg-red-400 transition-all duration-500" style={{ width: `${progress.total ? (progress.failed / progress.total) * 100 : 0}%` }} />
+                                </div>
+                                <div className={`mt-3 grid gap-4 text-sm ${isSending ? 'grid-cols-2 sm:grid-cols-4' : 'grid-cols-3'}`}>
+                                    <div>
+                                        <p className={isSending ? 'text-blue-700' : 'text-orange-700'}>Sent</p>
+                                        <p className="text-lg font-semibold text-gray-900">{progress.sent.toLocaleString()}</p>
+                                    </div>
+                                    <div>
+                                        <p className={isSending ? 'text-blue-700' : 'text-orange-700'}>Failed</p>
+                                        <p className="text-lg font-semibold text-gray-900">{progress.failed.toLocaleString()}</p>
+                                    </div>
+                                    <div>
+                                        <p className={isSending ? 'text-blue-700' : 'text-orange-700'}>Remaining</p>
+                                        <p className="text-lg font-semibold text-gray-900">{progress.remaining.toLocaleString()}</p>
+                                    </div>
+                                    {isSending && (
+                                        <div>
+                                            <p className="text-blue-700">Throughput</p>
+                                            <p className="text-lg font-semibold text-gray-900">
+                                                {throughput ? formatThroughput(throughput) : '—'}
+                                            </p>
+                                            {throughput && progress.remaining > 0 && (
+                                                <p className="text-xs text-gray-500">~{formatDuration(progress.remaining / throughput)} left</p>
+                                            )}
+                                        </div>
+                                    )}
+                                </div>
+                            </div>
+                        )}
+
                         {/* AI Summary */}
                         {campaign.ai_summary && (
                             <div className="bg-violet-50 border border-violet-100 rounded-lg p-4 mb-8">
@@ -200,18 +450,18 @@ export default function CampaignDetails({ params }: { params: { id: string } })
                                                 </dt>
                                                 <dd className="flex items-baseline">
                                                     <div className="text-2xl font-semibold text-gray-900">
-                                                        {getSentCount(campaign)} / {getAudienceSize(campaign)}
+                                                        {getSentCount(liveCampaign)} / {getAudienceSize(campaign)}
                                                     </div>
                                                     <div className="ml-2">
                                                         <span
-                                                            className={`text-sm font-medium ${(getSentCount(campaign) / getAudienceSize(campaign)) * 100 >= 90
+                                                            className={`text-sm font-medium ${(getSentCount(liveCampaign) / getAudienceSize(campaign)) * 100 >= 90
                                                                 ? 'text-green-600'
                                                                 : 'text-yellow-600'
                                                                 }`}
                                                         >
                                                             (
                                                             {Math.round(
-                                                                (getSentCount(campaign) / (getAudienceSize(campaign) || 1)) * 100
+                                                                (getSentCount(liveCampaign) / (getAudienceSize(campaign) || 1)) * 100
                                                             )}
                                                             %)
                                                         </span>
@@ -256,6 +506,157 @@ export default function CampaignDetails({ params }: { params: { id: string } })
                             </div>
                         </div>
 
+                        {/* Holdout Group */}
+                        {getHoldout(campaign) && (
+                            <div className="bg-white shadow rounded-lg p-6 mb-8">
+                                <div className="flex items-center justify-between mb-4">
+                                    <h2 className="text-lg font-medium text-gray-900">Treatment vs. Control</h2>
+                                    <span className="text-sm text-gray-500">{getHoldout(campaign)?.percentage}% holdout</span>
+                                </div>
+                                {holdoutSplit ? (
+                                    <>
+                                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                                            <div className="bg-violet-50 rounded-lg p-4">
+                                                <p className="text-sm font-medium text-violet-900">Treatment (messaged)</p>
+                                                <p className="text-2xl font-semibold text-violet-700">
+                                                    {holdoutSplit.basis !== 'recorded' && '~'}{holdoutSplit.treatment.toLocaleString()}
+                                                </p>
+                                            </div>
+                                            <div className="bg-gray-50 rounded-lg p-4">
+                                                <p className="text-sm font-medium text-gray-900">Control (held out)</p>
+                                                <p className="text-2xl font-semibold text-gray-700">
+                                                    {holdoutSplit.basis !== 'recorded' && '~'}{holdoutSplit.control.toLocaleString()}
+                                                </p>
+                                            </div>
+                                        </div>
+                                        {holdoutSplit.basis === 'members' && (
+                                            <p className="mt-3 text-xs text-gray-500">
+                                                Current estimate from the segment&apos;s members today. The groups are fixed when the campaign sends, so these can differ from who was actually messaged.
+                                            </p>
+                                        )}
+                                        {holdoutSplit.basis === 'audience' && (
+                                            <p className="mt-3 text-xs text-gray-500">
+                                                Estimated from the audience size; the segment&apos;s members couldn&apos;t be loaded.
+                                            </p>
+                                        )}
+                                    </>
+                                ) : (
+                                    <p className="text-sm text-gray-500">Calculating group sizes...</p>
+                                )}
+                            </div>
+                        )}
+
+                        {/* A/B Test */}
+                        {abTest && (
+                            <div className="bg-white shadow rounded-lg p-6 mb-8">
+                                <div className="flex items-center justify-between mb-1">
+                                    <h2 className="text-lg font-medium text-gray-900">A/B Test</h2>
+                                    {abTestOutcome && (
+                                        <span className="px-2 py-1 text-xs font-medium rounded-full bg-violet-100 text-violet-800">
+                                            {abTestResults?.winnerId ? `Variant ${abTestResults.winnerId} sent to the rest` : TEST_STATUS_LABELS[abTestOutcome.status]}
+                                        </span>
+                                    )}
+                                </div>
+                                <p className="text-sm text-gray-500 mb-4">
+                                    Winner by {getWinnerMetricLabel(abTest.winnerRule.metric).toLowerCase()} after {abTest.winnerRule.durationHours} hours,
+                                    with at least {abTest.winnerRule.minimumSample.toLocaleString()} sends per variant
+                                </p>
+                                {abTestOutcome ? (
+                                    <>
+                                        <div className="overflow-x-auto">
+                                            <table className="min-w-full divide-y divide-gray-200">
+                                                <thead>
+                                                    <tr>
+                                                        <th className="py-2 pr-4 text-left text-xs font-medium text-gray-500 uppercase">Variant</th>
+                                                        <th className="py-2 pr-4 text-left text-xs font-medium text-gray-500 uppercase">Message</th>
+                                                        <th className="py-2 pr-4 text-right text-xs font-medium text-gray-500 uppercase">Split</th>
+                                                        <th className="py-2 pr-4 text-right text-xs font-medium text-gray-500 uppercase">Sent</th>
+                                                        <th className="py-2 pr-4 text-right text-xs font-medium text-gray-500 uppercase">
+                                                            {getWinnerMetricLabel(abTest.winnerRule.metric)}
+                                                        </th>
+                                                        <th className="py-2 pr-4 text-right text-xs font-medium text-gray-500 uppercase">vs. Leader</th>
+                                                        <th className="py-2 text-left text-xs font-medium text-gray-500 uppercase">Significance</th>
+                                                    </tr>
+                                                </thead>
+                                                <tbody className="divide-y divide-gray-100">
+                                                    {abTestOutcome.results.map((result) => {
+                                                        const variant = abTest.variants.find((v) => v.id === result.variantId);
+                                                        return (
+                                                            <tr key={result.variantId}>
+                                                                <td className="py-3 pr-4 text-sm font-medium text-gray-900">
+                                                                    {result.variantId}
+                                                                    {result.isLeader && (
+                                                                        <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-violet-100 text-violet-800">Leader</span>
+                                                                    )}
+                                                                </td>
+                                                                <td className="py-3 pr-4 text-sm text-gray-600 max-w-xs truncate" title={variant?.messageTemplate}>
+                                                                    {variant?.messageTemplate}
+                                                                </td>
+                                                                <td className="py-3 pr-4 text-sm text-gray-600 text-right">{variant?.splitPercentage}%</td>
+                                                                <td className="py-3 pr-4 text-sm text-gray-600 text-right">{result.sent.toLocaleString()}</td>
+                                                                <td className="py-3 pr-4 text-sm text-gray-900 text-right font-medium">
+                                                                    {result.sent > 0 ? formatRate(result.rate) : '—'}
+                                                                </td>
+                                                                <td className="py-3 pr-4 text-sm text-gray-600 text-right">
+                                                                    {result.isLeader || result.sent === 0 ? '—' : `${(result.liftVsLeader * 100).toFixed(1)}%`}
+                                                                </td>
+                                                                <td className="py-3 text-sm">
+                                                                    {result.significance ? (
+                                                                        <span
+                                                                            className={`px-2 py-0.5 text-xs font-medium rounded-full ${SIGNIFICANCE_BADGES[result.significance].className}`}
+                                                                            title={result.pValue !== null ? `p = ${result.pValue.toFixed(3)}` : undefined}
+                                                                        >
+                                                                            {SIGNIFICANCE_BADGES[result.significance].label}
+                                                                        </span>
+                                                                    ) : (
+                                                                        <span className="text-xs text-gray-400">—</span>
+                                                                    )}
+                                                                </td>
+                                                            </tr>
+                                                        );
+                                                    })}
+                                                </tbody>
+                                            </table>
+                                        </div>
+                                        <p className="mt-3 text-xs text-gray-500">
+                                            {abTestOutcome.status === 'not_started'
+                                                ? `The ${abTest.winnerRule.durationHours}-hour test clock starts when sending starts, and this campaign has no start time yet.`
+                                                : abTestOutcome.status === 'collecting'
+                                                    ? `The smallest variant needs ${abTestOutcome.samplesNeeded.toLocaleString()} more sends before a winner can be picked.`
+                                                    : abTestOutcome.status === 'running'
+                                                        ? `${Math.ceil(abTestOutcome.hoursRemaining)} hours left in the test.`
+                                                        : abTestOutcome.status === 'inconclusive'
+                                                            ? 'The leader isn\'t ahead of every other variant with 95% confidence, so the difference may be noise.'
+                                                            : `Variant ${abTestOutcome.leaderId} beats every other variant with 95% confidence.`}
+                                        </p>
+                                        {abTestOutcome.results.length > 2 && (
+                                            <p className="mt-1 text-xs text-gray-500">
+                                                Each variant is compared with the leader on its own, with no correction for making{' '}
+                                                {abTestOutcome.results.length - 1} comparisons, so a &quot;significant&quot; label is likelier
+                                                to be noise than 95% confidence suggests.
+                                            </p>
+                                        )}
+                                    </>
+                                ) : (
+                                    <p className="text-sm text-gray-500">Loading variant stats...</p>
+                                )}
+                            </div>
+                        )}
+
+                        {!['draft', 'pending', 'submitted', 'approved', 'rejected', 'scheduled'].includes(liveCampaign.status) && (
+                            <>
+                                {/* Revenue Attribution */}
+                                <CampaignAttribution
+                                    campaignId={campaign.id}
+                                    channel={getCampaignChannel(campaign)}
+                                    sentCount={getSentCount(campaign)}
+                                />
+
+                                {/* Delivery Log */}
+                                <DeliveryLog campaignId={campaign.id} failedCount={progress.failed} onRetried={fetchCampaign} />
+                            </>
+                        )}
+
                         {/* Message Preview */}
                         <div className="bg-white shadow rounded-lg p-6 mb-8">
                             <h2 className="text-lg font-medium text-gray-900 mb-4">Message Template</h2>
@@ -0,0 +1,198 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { useAuth } from '@/contexts/auth-context';
+import { useApiClient } from '@/utils/api-client';
+import Navigation from '@/components/navigation';
+import CampaignReview from '@/components/campaign-review';
+import { getCampaignChannel, getChannelLabel } from '@/utils/channels';
+import { FiCheckSquare, FiEdit, FiEye, FiList, FiUsers } from 'react-icons/fi';
+
+// Campaign interface
+interface Campaign {
+    id: string;
+    name: string;
+    status: string;
+    audience_size?: number;
+    audienceSize?: number;
+    message_template?: string;
+    ai_summary?: string;
+    tags?: string[];
+    channel?: string;
+    created_by?: string;
+    submitted_at?: string;
+    submittedAt?: string;
+    updated_at?: string;
+    scheduled_at?: string;
+    scheduledAt?: string;
+    timezone?: string;
+}
+
+const getSubmittedAt = (campaign: Campaign) =>
+    campaign.submitted_at || campaign.submittedAt || campaign.updated_at || '';
+
+// Queue of campaigns waiting for a reviewer
+export default function CampaignApprovals() {
+    const { isAuthenticated, isLoading } = useAuth();
+    const router = useRouter();
+    const apiClient = useApiClient();
+    const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+    const [isLoadingQueue, setIsLoadingQueue] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    const fetchQueue = useCallback(async () => {
+        try {
+            setIsLoadingQueue(true);
+            setError(null);
+            const response = await apiClient.campaigns.getApprovalQueue(1, 50);
+            setCampaigns(response.data || []);
+        } catch (err: unknown) {
+            console.error('Error fetching approval queue:', err);
+            setError(err instanceof Error ? err.message : 'Failed to fetch the approval queue');
+            setCampaigns([]);
+        } finally {
+            setIsLoadingQueue(false);
+        }
+    }, [apiClient.campaigns]);
+
+    // Redirect if not authenticated
+    useEffect(() => {
+        if (!isLoading && !isAuthenticated) {
+            router.push('/login');
+        }
+    }, [isAuthenticated, isLoading, router]);
+
+    useEffect(() => {
+        if (isAuthenticated) {
+            fetchQueue();
+        }
+    }, [isAuthenticated, fetchQueue]);
+
+    if (isLoading || !isAuthenticated) {
+        return (
+            <div className="flex items-center justify-center min-h-screen bg-gradient-to-br from-gray-900 via-purple-900/10 to-blue-900/10">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-400"></div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="flex h-screen bg-gradient-to-br from-gray-900 via-purple-900/10 to-blue-900/10">
+            {/* Navigation */}
+            <div className="w-64 hidden md:block">
+                <Navigation />
+            </div>
+
+            {/* Main content */}
+            <div className="flex-1 flex flex-col overflow-hidden">
+                <div className="flex-1 overflow-y-auto p-8">
+                    {/* Header */}
+                    <div className="flex items-center justify-between mb-8">
+                        <div>
+                            <h1 className="text-4xl font-bold bg-gradient-to-r from-blue-400 to-purple-400 bg-clip-text text-transparent">
+                                Approvals
+                            </h1>
+                            <p className="text-gray-400 mt-2">Campaigns waiting for review before they can be sent</p>
+                        </div>
+                        <Link
+                            href="/campaigns"
+                            className="px-6 py-3 bg-white/10 hover:bg-white/20 border border-white/20 text-white rounded-xl flex items-center space-x-2 transition-all duration-200"
+                        >
+                            <FiList size={20} />
+                            <span>All Campaigns</span>
+                        </Link>
+                    </div>
+
+                    {isLoadingQueue ? (
+                        <div className="flex items-center justify-center h-64">
+                            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-400"></div>
+                        </div>
+                    ) : error ? (
+                        <div className="bg-red-500/10 border border-red-500/20 rounded-xl p-6 text-center">
+                            <p className="text-red-400 mb-4">Error loading the approval queue</p>
+                            <p className="text-gray-400 text-sm mb-4">{error}</p>
+                            <button
+                                onClick={fetchQueue}
+                                className="px-4 py-2 bg-red-500 hover:bg-red-600 text-white rounded-lg"
+                            >
+                                Try Again
+                            </button>
+                        </div>
+                    ) : campaigns.length === 0 ? (
+                        <div className="bg-white/5 backdrop-blur-xl border border-white/10 rounded-2xl p-12 text-center shadow-xl">
+                            <FiCheckSquare size={64} className="mx-auto text-gray-500 mb-4" />
+                            <h2 className="text-xl font-semibold text-white mb-2">Nothing to review</h2>
+                            <p className="text-gray-400">Submitted campaigns will show up here</p>
+                        </div>
+                    ) : (
+                        <div className="space-y-6">
+                            {campaigns.map((campaign) => (
+                                <div key={campaign.id} className="bg-white/5 backdrop-blur-xl border border-white/10 rounded-2xl p-6 shadow-xl">
+                                    <div className="flex flex-wrap items-start justify-between gap-4 mb-4">
+                                        <div>
+                                            <h2 className="text-lg font-bold text-white">{campaign.name}</h2>
+                                            <div className="flex flex-wrap items-center gap-3 mt-2 text-sm text-gray-400">
+                                                <span className="px-2 py-0.5 text-xs font-semibold rounded-full border bg-white/10 border-white/20 text-gray-300">
+                                                    {getChannelLabel(getCampaignChannel(campaign))}
+                                                </span>
+                                                <span className="flex items-center">
+                                                    <FiUsers size={14} className="mr-1" />
+                                                    {(campaign.audience_size || campaign.audienceSize || 0).toLocaleString()} customers
+                                                </span>
+                                                {campaign.created_by && <span>by {campaign.created_by}</span>}
+                                                {getSubmittedAt(campaign) && (
+                                                    <span>submitted {new Date(getSubmittedAt(campaign)).toLocaleString()}</span>
+                                                )}
+                                            </div>
+                                        </div>
+                                        <div className="flex space-x-2">
+                                            <Link
+                                                href={`/campaigns/${campaign.id}`}
+                                                className="inline-flex items-center px-3 py-2 bg-blue-500 hover:bg-blue-600 text-white text-xs font-medium rounded-lg transition-colors duration-150"
+                                            >
+                                                <FiEye className="w-4 h-4 mr-1" />
+                                                View
+                                            </Link>
+                                            <Link
+                                                href={`/campaigns/${campaign.id}/edit`}
+                                                className="inline-flex items-center px-3 py-2 bg-purple-500 hover:bg-purple-600 text-white text-xs font-medium rounded-lg transition-colors duration-150"
+                                            >
+                                                <FiEdit className="w-4 h-4 mr-1" />
+                                                Edit
+                                            </Link>
+                                        </div>
+                                    </div>
+
+                                    {campaign.ai_summary && (
+                                        <p className="text-sm text-gray-400 mb-3">{campaign.ai_summary}</p>
+                                    )}
+                                    {campaign.message_template && (
+                                        <div className="bg-black/20 border border-white/10 rounded-xl p-4 mb-4 text-sm text-gray-200 whitespace-pre-wrap">
+                                            {campaign.message_template}
+                                        </div>
+                                    )}
+                                    {campaign.tags && campaign.tags.length > 0 && (
+                                        <div className="flex flex-wrap gap-1 mb-4">
+                                            {campaign.tags.map((tag) => (
+                                                <span
+                                                    key={tag}
+                                                    className="inline-flex items-center px-2 py-1 rounded-lg text-xs font-medium bg-blue-500/20 text-blue-300 border border-blue-500/30"
+                                                >
+                                                    {tag}
+                                                </span>
+                                            ))}
+                                        </div>
+                                    )}
+
+                                    <CampaignReview campaign={campaign} onReviewed={fetchQueue} />
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
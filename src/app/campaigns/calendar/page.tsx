@@ -0,0 +1,413 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { useAuth } from '@/contexts/auth-context';
+import { useApiClient } from '@/utils/api-client';
+import Navigation from '@/components/navigation';
+import {
+    CalendarConflict,
+    CalendarView,
+    findSegmentConflicts,
+    getCalendarDate,
+    getCalendarDays,
+    getCalendarTitle,
+    getDroppedSchedule,
+    groupByDay,
+    isReschedulable,
+    shiftAnchor,
+    toDateKey,
+} from '@/utils/campaign-calendar';
+import { createSchedule, formatSchedule, validateSchedule } from '@/utils/schedule';
+import { FiAlertTriangle, FiChevronLeft, FiChevronRight, FiList } from 'react-icons/fi';
+
+// Campaign interface
+interface Campaign {
+    id: string;
+    name: string;
+    status: 'draft' | 'pending' | 'submitted' | 'approved' | 'rejected' | 'scheduled' | 'processing' | 'completed' | 'failed' | 'sending';
+    segment_id?: string;
+    createdAt?: string;
+    created_at?: string;
+    scheduled_at?: string;
+    scheduledAt?: string;
+    timezone?: string;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Chips shown per day in month view before collapsing into "+N more"
+const MONTH_CHIP_LIMIT = 3;
+
+// Campaign calendar page
+export default function CampaignCalendar() {
+    const { isAuthenticated, isLoading } = useAuth();
+    const router = useRouter();
+    const apiClient = useApiClient();
+    const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+    const [isLoadingCampaigns, setIsLoadingCampaigns] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [view, setView] = useState<CalendarView>('month');
+    const [anchor, setAnchor] = useState(() => new Date());
+    const [draggingId, setDraggingId] = useState<string | null>(null);
+    const [dropTarget, setDropTarget] = useState<string | null>(null);
+    const [conflicts, setConflicts] = useState<CalendarConflict[]>([]);
+
+    // Segment members are fetched once per segment while the page is open
+    const membersCache = useRef(new Map<string, Promise<Set<string>>>());
+
+    const fetchCampaigns = useCallback(async () => {
+        try {
+            setIsLoadingCampaigns(true);
+            setError(null);
+            const response = await apiClient.campaigns.getCampaigns(1, 100);
+            setCampaigns(response.data || []);
+        } catch (err: unknown) {
+            console.error('Error fetching campaigns:', err);
+            setError(err instanceof Error ? err.message : 'Failed to fetch campaigns');
+            setCampaigns([]);
+        } finally {
+            setIsLoadingCampaigns(false);
+        }
+    }, [apiClient.campaigns]);
+
+    const getMembers = useCallback((segmentId: string) => {
+        const cached = membersCache.current.get(segmentId);
+        if (cached) return cached;
+
+        const members = apiClient.segments.getSegmentMemberIds(segmentId).then((ids) => new Set(ids));
+        // Don't keep failures around; the next render can try again
+        members.catch(() => membersCache.current.delete(segmentId));
+        membersCache.current.set(segmentId, members);
+        return members;
+    }, [apiClient.segments]);
+
+    const days = useMemo(() => getCalendarDays(view, anchor), [view, anchor]);
+    const campaignsByDay = useMemo(() => groupByDay(campaigns), [campaigns]);
+
+    // Only compare campaigns on the days in view
+    const visibleByDay = useMemo(() => {
+        const visible: Record<string, Campaign[]> = {};
+        days.forEach((day) => {
+            const key = toDateKey(day);
+            if (campaignsByDay[key]) visible[key] = campaignsByDay[key];
+        });
+        return visible;
+    }, [days, campaignsByDay]);
+
+    useEffect(() => {
+        let cancelled = false;
+        findSegmentConflicts(visibleByDay, getMembers).then((found) => {
+            if (!cancelled) setConflicts(found);
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [visibleByDay, getMembers]);
+
+    const conflictsByDay = useMemo(() => {
+        const grouped: Record<string, CalendarConflict[]> = {};
+        conflicts.forEach((conflict) => {
+            (grouped[conflict.date] ||= []).push(conflict);
+        });
+        return grouped;
+    }, [conflicts]);
+
+    const getCampaignName = (id: string) => campaigns.find((campaign) => campaign.id === id)?.name || 'Unknown campaign';
+
+    const describeConflict = (conflict: CalendarConflict) => {
+        const [first, second] = conflict.campaignIds.map(getCampaignName);
+        return conflict.sharedCustomers === null
+            ? `"${first}" and "${second}" target the same segment`
+            : `"${first}" and "${second}" share ${conflict.sharedCustomers.toLocaleString()} customers`;
+    };
+
+    // Move an approved campaign to another day, keeping its send time if it has one
+    const handleDrop = async (dateKey: string) => {
+        const campaign = campaigns.find((item) => item.id === draggingId);
+        setDraggingId(null);
+        setDropTarget(null);
+        if (!campaign || !isReschedulable(campaign)) return;
+
+        const current = getCalendarDate(campaign);
+        if (campaign.status === 'scheduled' && current && toDateKey(current) === dateKey) return;
+
+        const { zoned, timezone } = getDroppedSchedule(campaign, dateKey);
+        const issue = validateSchedule(zoned, timezone);
+        if (issue) {
+            alert(issue);
+            return;
+        }
+
+        const schedule = createSchedule(zoned, timezone);
+        const action = campaign.status === 'scheduled' ? 'Move' : 'Schedule';
+        if (!confirm(`${action} "${campaign.name}" to send ${formatSchedule(schedule)}?`)) return;
+
+        try {
+            await apiClient.campaigns.scheduleCampaign(campaign.id, schedule);
+            await fetchCampaigns();
+        } catch (error: unknown) {
+            console.error('Error rescheduling campaign:', error);
+            alert(error instanceof Error ? error.message : 'Failed to reschedule campaign');
+        }
+    };
+
+    const getStatusColor = (status: string) => {
+        switch (status.toLowerCase()) {
+            case 'completed':
+                return 'bg-green-500/20 text-green-300 border-green-500/30';
+            case 'processing':
+            case 'sending':
+                return 'bg-yellow-500/20 text-yellow-300 border-yellow-500/30';
+            case 'failed':
+                return 'bg-red-500/20 text-red-300 border-red-500/30';
+            case 'pending':
+                return 'bg-blue-500/20 text-blue-300 border-blue-500/30';
+            case 'scheduled':
+                return 'bg-cyan-500/20 text-cyan-300 border-cyan-500/30';
+            case 'submitted':
+                return 'bg-purple-500/20 text-purple-300 border-purple-500/30';
+            case 'approved':
+                return 'bg-emerald-500/20 text-emerald-300 border-emerald-500/30';
+            case 'rejected':
+                return 'bg-rose-500/20 text-rose-300 border-rose-500/30';
+            default:
+                return 'bg-gray-500/20 text-gray-300 border-gray-500/30';
+        }
+    };
+
+    const formatTime = (campaign: Campaign) =>
+        getCalendarDate(campaign)?.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' }) || '';
+
+    // Redirect if not authenticated
+    useEffect(() => {
+        if (!isLoading && !isAuthenticated) {
+            router.push('/login');
+        }
+    }, [isAuthenticated, isLoading, router]);
+
+    // Fetch campaigns
+    useEffect(() => {
+        if (isAuthenticated) {
+            fetchCampaigns();
+        }
+    }, [isAuthenticated, fetchCampaigns]);
+
+    if (isLoading || !isAuthenticated) {
+        return (
+            <div className="flex items-center justify-center min-h-screen bg-gradient-to-br from-gray-900 via-purple-900/10 to-blue-900/10">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-400"></div>
+            </div>
+        );
+    }
+
+    const todayKey = toDateKey(new Date());
+    const chipLimit = view === 'month' ? MONTH_CHIP_LIMIT : Infinity;
+
+    return (
+        <div className="flex h-screen bg-gradient-to-br from-gray-900 via-purple-900/10 to-blue-900/10">
+            {/* Navigation */}
+            <div className="w-64 hidden md:block">
+                <Navigation />
+            </div>
+
+            {/* Main content */}
+            <div className="flex-1 flex flex-col overflow-hidden">
+                <div className="flex-1 overflow-y-auto p-8">
+                    {/* Header */}
+                    <div className="flex items-center justify-between mb-8">
+                        <div>
+                            <h1 className="text-4xl font-bold bg-gradient-to-r from-blue-400 to-purple-400 bg-clip-text text-transparent">
+                                Campaign Calendar
+                            </h1>
+                            <p className="text-gray-400 mt-2">Drag approved campaigns to a day to schedule them</p>
+                        </div>
+                        <Link
+                            href="/campaigns"
+                            className="px-6 py-3 bg-white/10 hover:bg-white/20 border border-white/20 text-white rounded-xl flex items-center space-x-2 transition-all duration-200"
+                        >
+                            <FiList size={20} />
+                            <span>List View</span>
+                        </Link>
+                    </div>
+
+                    {/* Toolbar */}
+                    <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+                        <div className="flex items-center space-x-2">
+                            <button
+                                onClick={() => setAnchor(shiftAnchor(view, anchor, -1))}
+                                className="p-2 bg-white/10 hover:bg-white/20 border border-white/20 text-gray-300 rounded-lg transition-all duration-200"
+                                aria-label="Previous"
+                            >
+                                <FiChevronLeft size={18} />
+                            </button>
+                            <button
+                                onClick={() => setAnchor(new Date())}
+                                className="px-4 py-2 bg-white/10 hover:bg-white/20 border border-white/20 text-gray-300 text-sm rounded-lg transition-all duration-200"
+                            >
+                                Today
+                            </button>
+                            <button
+                                onClick={() => setAnchor(shiftAnchor(view, anchor, 1))}
+                                className="p-2 bg-white/10 hover:bg-white/20 border border-white/20 text-gray-300 rounded-lg transition-all duration-200"
+                                aria-label="Next"
+                            >
+                                <FiChevronRight size={18} />
+                            </button>
+                            <h2 className="text-xl font-semibold text-white ml-2">{getCalendarTitle(view, anchor)}</h2>
+                        </div>
+                        <div className="flex bg-white/5 border border-white/10 rounded-lg p-1">
+                            {(['month', 'week'] as CalendarView[]).map((option) => (
+                                <button
+                                    key={option}
+                                    onClick={() => setView(option)}
+                                    className={`px-4 py-1.5 text-sm rounded-md capitalize transition-all duration-200 ${view === option
+                                        ? 'bg-gradient-to-r from-blue-500 to-purple-500 text-white'
+                                        : 'text-gray-400 hover:text-white'
+                                        }`}
+                                >
+                                    {option}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    {error && (
+                        <div className="bg-red-500/10 border border-red-500/30 rounded-xl p-4 mb-6 text-red-300">{error}</div>
+                    )}
+
+                    {/* Overlap warnings */}
+                    {conflicts.length > 0 && (
+                        <div className="bg-amber-500/10 border border-amber-500/30 rounded-xl p-4 mb-6">
+                            <p className="flex items-center text-amber-300 font-medium mb-2">
+                                <FiAlertTriangle className="mr-2" />
+                                Some customers will get more than one campaign on the same day
+                            </p>
+                            <ul className="space-y-1 text-sm text-amber-200/80">
+                                {conflicts.map((conflict) => (
+                                    <li key={`${conflict.date}-${conflict.campaignIds.join('-')}`}>
+                                        {new Date(`${conflict.date}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}:{' '}
+                                        {describeConflict(conflict)}
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+
+                    {/* Calendar grid */}
+                    <div className="bg-white/5 backdrop-blur-xl border border-white/10 rounded-2xl shadow-xl overflow-hidden">
+                        <div className="grid grid-cols-7 border-b border-white/10">
+                            {WEEKDAYS.map((weekday) => (
+                                <div key={weekday} className="px-3 py-2 text-xs font-medium text-gray-400 uppercase tracking-wider">
+                                    {weekday}
+                                </div>
+                            ))}
+                        </div>
+
+                        {isLoadingCampaigns && campaigns.length === 0 ? (
+                            <div className="flex items-center justify-center py-24">
+                                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-400"></div>
+                            </div>
+                        ) : (
+                            <div className="grid grid-cols-7">
+                                {days.map((day) => {
+                                    const key = toDateKey(day);
+                                    const dayCampaigns = campaignsByDay[key] || [];
+                                    const dayConflicts = conflictsByDay[key] || [];
+                                    const isOutsideMonth = view === 'month' && day.getMonth() !== anchor.getMonth();
+
+                                    return (
+                                        <div
+                                            key={key}
+                                            onDragOver={(e) => {
+                                                if (!draggingId) return;
+                                                e.preventDefault();
+                                                setDropTarget(key);
+                                            }}
+                                            onDragLeave={() => setDropTarget((target) => (target === key ? null : target))}
+                                            onDrop={(e) => {
+                                                e.preventDefault();
+                                                handleDrop(key);
+                                            }}
+                                            className={`border-r border-b border-white/5 p-2 ${view === 'week' ? 'min-h-[24rem]' : 'min-h-[7.5rem]'} ${dropTarget === key ? 'bg-blue-500/10' : isOutsideMonth ? 'bg-black/20' : ''}`}
+                                        >
+                                            <div className="flex items-center justify-between mb-1">
+                                                <span
+                                                    className={`text-sm w-7 h-7 flex items-center justify-center rounded-full ${key === todayKey
+                                                        ? 'bg-gradient-to-r from-blue-500 to-purple-500 text-white font-semibold'
+                                                        : isOutsideMonth ? 'text-gray-600' : 'text-gray-300'
+                                                        }`}
+                                                >
+                                                    {day.getDate()}
+                                                </span>
+                                                {dayConflicts.length > 0 && (
+                                                    <FiAlertTriangle
+                                                        className="text-amber-400"
+                                                        size={14}
+                                                        title={dayConflicts.map(describeConflict).join('\n')}
+                                                    />
+                                                )}
+                                            </div>
+
+                                            <div className="space-y-1">
+                                                {dayCampaigns.slice(0, chipLimit).map((campaign) => {
+                                                    const movable = isReschedulable(campaign);
+                                                    return (
+                                                        <Link
+                                                            key={campaign.id}
+                                                            href={`/campaigns/${campaign.id}`}
+                                                            draggable={movable}
+                                                            onDragStart={(e) => {
+                                                                if (!movable) {
+                                                                    e.preventDefault();
+                                                                    return;
+                                                                }
+                                                                e.dataTransfer.setData('text/plain', campaign.id);
+                                                                e.dataTransfer.effectAllowed = 'move';
+                                                                setDraggingId(campaign.id);
+                                                            }}
+                                                            onDragEnd={() => {
+                                                                setDraggingId(null);
+                                                                setDropTarget(null);
+                                                            }}
+                                                            title={`${campaign.name} (${campaign.status})`}
+                                                            className={`block px-2 py-1 text-xs rounded-md border truncate ${getStatusColor(campaign.status)} ${movable ? 'cursor-grab' : ''} ${draggingId === campaign.id ? 'opacity-50' : ''}`}
+                                                        >
+                                                            {view === 'week' && <span className="font-semibold mr-1">{formatTime(campaign)}</span>}
+                                                            {campaign.name}
+                                                        </Link>
+                                                    );
+                                                })}
+                                                {dayCampaigns.length > chipLimit && (
+                                                    <button
+                                                        onClick={() => {
+                                                            setAnchor(day);
+                                                            setView('week');
+                                                        }}
+                                                        className="text-xs text-gray-400 hover:text-white px-2"
+                                                    >
+                                                        +{dayCampaigns.length - chipLimit} more
+                                                    </button>
+                                                )}
+                                            </div>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Legend */}
+                    <div className="flex flex-wrap items-center gap-3 mt-4 text-xs">
+                        {['draft', 'submitted', 'approved', 'rejected', 'scheduled', 'sending', 'completed', 'failed'].map((status) => (
+                            <span key={status} className={`px-2 py-1 rounded-md border capitalize ${getStatusColor(status)}`}>
+                                {status}
+                            </span>
+                        ))}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
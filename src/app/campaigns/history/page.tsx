@@ -5,13 +5,14 @@ import { useRouter } from 'next/navigation';
 import { useAuth } from '@/contexts/auth-context';
 import { useApiClient } from '@/utils/api-client';
 import Navigation from '@/components/navigation';
+import { getCampaignChannel, getChannelLabel } from '@/utils/channels';
 // Using regular SVG icons instead of react-icons for better compatibility
 
 // Campaign interface
 interface Campaign {
     id: string;
     name: string;
-    status: 'draft' | 'pending' | 'processing' | 'completed' | 'failed' | 'sending';
+    status: 'draft' | 'pending' | 'submitted' | 'approved' | 'rejected' | 'scheduled' | 'processing' | 'completed' | 'failed' | 'sending' | 'paused' | 'cancelled';
     audienceSize?: number;
     audience_size?: number;
     sentCount?: number;
@@ -23,6 +24,7 @@ interface Campaign {
     tags?: string[];
     message_template?: string;
     ai_summary?: string;
+    channel?: string;
 }
 
 // Campaign history page
@@ -105,11 +107,32 @@ export default function CampaignHistory() {
                 return 'bg-red-100 text-red-800 border-red-200';
             case 'draft':
                 return 'bg-gray-100 text-gray-800 border-gray-200';
+            case 'scheduled':
+                return 'bg-cyan-100 text-cyan-800 border-cyan-200';
+            case 'paused':
+                return 'bg-orange-100 text-orange-800 border-orange-200';
+            case 'submitted':
+                return 'bg-purple-100 text-purple-800 border-purple-200';
+            case 'approved':
+                return 'bg-emerald-100 text-emerald-800 border-emerald-200';
+            case 'rejected':
+                return 'bg-rose-100 text-rose-800 border-rose-200';
             default:
                 return 'bg-blue-100 text-blue-800 border-blue-200';
         }
     };
 
+    const getChannelColor = (campaign: Campaign) => {
+        switch (getCampaignChannel(campaign)) {
+            case 'email':
+                return 'bg-indigo-100 text-indigo-800 border-indigo-200';
+            case 'whatsapp':
+                return 'bg-emerald-100 text-emerald-800 border-emerald-200';
+            default:
+                return 'bg-sky-100 text-sky-800 border-sky-200';
+        }
+    };
+
     const getAudienceSize = (campaign: Campaign) => {
         return campaign.audience_size || campaign.audienceSize || 0;
     };
@@ -209,6 +232,9 @@ export default function CampaignHistory() {
                                                     <span className={`px-3 py-1 inline-flex text-xs leading-5 font-semibold rounded-full border ${getStatusColor(campaign.status)}`}>
                                                         {campaign.status}
                                                     </span>
+                                                    <span className={`px-3 py-1 inline-flex text-xs leading-5 font-semibold rounded-full border ${getChannelColor(campaign)}`}>
+                                                        {getChannelLabel(getCampaignChannel(campaign))}
+                                                    </span>
                                                 </div>
                                                 
                                                 <p className="text-sm text-slate-400 mt-1">
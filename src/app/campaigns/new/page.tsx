@@ -1,34 +1,57 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { useRouter } from 'next/navigation';
+import { useState, useEffect, useRef, Suspense } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
 import { useAuth } from '@/contexts/auth-context';
 import { useApiClient } from '@/utils/api-client';
 import Navigation from '@/components/navigation';
 import RuleBuilder, { Rule } from '@/components/rule-builder';
+import TemplateFieldPicker from '@/components/template-field-picker';
+import MessagePreview from '@/components/message-preview';
+import ChannelFields, { ChannelSelector } from '@/components/channel-composer';
+import ABTestEditor from '@/components/ab-test-editor';
+import SchedulePicker from '@/components/schedule-picker';
+import FrequencyCapEstimate from '@/components/frequency-cap-estimate';
+import { ABTestSettings, createABTest, validateABTest } from '@/utils/ab-test';
+import { describeAudienceDrift, detectAudienceDrift, getAudienceHistory } from '@/utils/audience-history';
+import {
+    DEFAULT_HOLDOUT_PERCENTAGE,
+    MAX_HOLDOUT_PERCENTAGE,
+    createHoldoutSeed,
+    estimateHoldoutSplit,
+} from '@/utils/holdout';
+import {
+    CampaignChannel,
+    ChannelContent,
+    DEFAULT_CHANNEL,
+    createChannelContent,
+    pickChannelContent,
+    validateChannelContent,
+} from '@/utils/channels';
+import { validateTemplate } from '@/utils/message-template';
+import { addTag, normalizeCampaignTemplate } from '@/utils/campaign-templates';
+import { ZonedDateTime, createSchedule, getBrowserTimezone, getDefaultScheduleTime, validateSchedule } from '@/utils/schedule';
+import {
+    RuleInput,
+    countConditions,
+    createDefaultRules,
+    findSegmentCycle,
+    normalizeRules,
+} from '@/utils/segment-rules';
 
 // Campaign creation page
-export default function CreateCampaign() {
+function CreateCampaignContent() {
     const { isAuthenticated, isLoading } = useAuth();
     const router = useRouter();
+    const searchParams = useSearchParams();
     const api = useApiClient();
+    const templateId = searchParams.get('template');
 
     // Form state
     const [step, setStep] = useState(1);
     const [name, setName] = useState('');
     const [naturalLanguage, setNaturalLanguage] = useState('');
-    const [rules, setRules] = useState<Rule>({
-        id: 'root',
-        operator: 'AND',
-        conditions: [
-            {
-                id: '1',
-                field: 'total_spend',
-                operation: 'greaterThan',
-                value: 0,
-            },
-        ],
-    });
+    const [rules, setRules] = useState<Rule>(createDefaultRules);
     const [audienceSize, setAudienceSize] = useState<number | null>(null);
     const [previewLoading, setPreviewLoading] = useState(false);
     const [messageTemplate, setMessageTemplate] = useState('');
@@ -40,9 +63,22 @@ export default function CreateCampaign() {
     const [segmentId, setSegmentId] = useState('');
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [error, setError] = useState<string>('');
-    const [existingSegments, setExistingSegments] = useState<Array<{id: string; name: string; description?: string; audience_size?: number}>>([]);
+    const [existingSegments, setExistingSegments] = useState<Array<{id: string; name: string; description?: string; audience_size?: number; rules?: RuleInput}>>([]);
     const [useExistingSegment, setUseExistingSegment] = useState(false);
     const [selectedExistingSegment, setSelectedExistingSegment] = useState('');
+    const [holdoutEnabled, setHoldoutEnabled] = useState(false);
+    const [holdoutPercentage, setHoldoutPercentage] = useState(DEFAULT_HOLDOUT_PERCENTAGE);
+    const [holdoutSeed] = useState(createHoldoutSeed);
+    const [channel, setChannel] = useState<CampaignChannel>(DEFAULT_CHANNEL);
+    const [channelContent, setChannelContent] = useState<ChannelContent>(() => createChannelContent(DEFAULT_CHANNEL));
+    const [abTest, setABTest] = useState<ABTestSettings | null>(null);
+    const [scheduleEnabled, setScheduleEnabled] = useState(false);
+    const [scheduleTimezone, setScheduleTimezone] = useState(getBrowserTimezone);
+    const [scheduleTime, setScheduleTime] = useState<ZonedDateTime>(() => getDefaultScheduleTime(getBrowserTimezone()));
+    const [tags, setTags] = useState<string[]>([]);
+    const [tagInput, setTagInput] = useState('');
+    const [sourceTemplate, setSourceTemplate] = useState<string | null>(null);
+    const messageTemplateRef = useRef<HTMLTextAreaElement>(null);
 
     // Redirect if not authenticated
     useEffect(() => {
@@ -68,6 +104,49 @@ export default function CreateCampaign() {
         fetchSegments();
     }, [isAuthenticated, api.segments]);
 
+    // Pre-fill every step from a template when started from the template library
+    useEffect(() => {
+        if (!isAuthenticated || !templateId) return;
+
+        const fetchTemplate = async () => {
+            try {
+                const response = await api.templates.getTemplateById(templateId);
+                if (!response.data) return;
+
+                const template = normalizeCampaignTemplate(response.data);
+                setName(template.name);
+                setObjective(template.objective);
+                setRules(template.rules);
+                setMessageTemplate(template.messageTemplate);
+                setTags(template.tags);
+                setChannel(template.channel);
+                setChannelContent(createChannelContent(template.channel));
+                setSourceTemplate(template.name);
+            } catch (error: unknown) {
+                console.error('Error loading campaign template:', error);
+                setError('Failed to load the template. You can still build the campaign from scratch.');
+            }
+        };
+        fetchTemplate();
+    }, [isAuthenticated, templateId, api.templates]);
+
+    // Size drift of the chosen saved segment, from the history recorded on the segments page
+    const selectedSegmentDrift = selectedExistingSegment
+        ? detectAudienceDrift(getAudienceHistory(selectedExistingSegment))
+        : null;
+
+    // Load a saved segment's rules into the builder so they can be previewed and tweaked
+    const handleSelectExistingSegment = (id: string) => {
+        setSelectedExistingSegment(id);
+
+        const segment = existingSegments.find((s) => s.id === id);
+        if (segment?.rules) {
+            const segmentRules = normalizeRules(segment.rules);
+            setRules(segmentRules);
+            handlePreviewAudience(segmentRules);
+        }
+    };
+
     // Handle natural language processing
     const handleNaturalLanguageProcess = async () => {
         if (!naturalLanguage.trim()) return;
@@ -78,8 +157,9 @@ export default function CreateCampaign() {
             const response = await api.ai.naturalLanguageToRules(naturalLanguage);
 
             if (response.data) {
-                setRules(response.data);
-                handlePreviewAudience(response.data);
+                const parsedRules = normalizeRules(response.data);
+                setRules(parsedRules);
+                handlePreviewAudience(parsedRules);
             }
         } catch (error: unknown) {
             console.error('Error processing natural language:', error);
@@ -121,8 +201,9 @@ export default function CreateCampaign() {
                 setLookalikeData(response.data);
                 // Optional: Update rules with lookalike suggestions
                 if (response.data.rules) {
-                    setRules(response.data.rules);
-                    handlePreviewAudience(response.data.rules);
+                    const lookalikeRules = normalizeRules(response.data.rules);
+                    setRules(lookalikeRules);
+                    handlePreviewAudience(lookalikeRules);
                 }
             }
         } catch (error: unknown) {
@@ -162,24 +243,78 @@ export default function CreateCampaign() {
         setMessageTemplate(suggestion);
     };
 
+    // Insert a merge field at the cursor in the message template
+    const handleInsertVariable = (variable: string) => {
+        const textarea = messageTemplateRef.current;
+        const start = textarea?.selectionStart ?? messageTemplate.length;
+        const end = textarea?.selectionEnd ?? messageTemplate.length;
+
+        setMessageTemplate(messageTemplate.slice(0, start) + variable + messageTemplate.slice(end));
+        requestAnimationFrame(() => {
+            textarea?.focus();
+            textarea?.setSelectionRange(start + variable.length, start + variable.length);
+        });
+    };
+
+    const templateIssues = validateTemplate(messageTemplate);
+    const channelIssues = validateChannelContent(channel, messageTemplate, channelContent);
+
+    // Variant A is always the main message
+    const abTestSettings = abTest && channel !== 'whatsapp'
+        ? { ...abTest, variants: abTest.variants.map((variant, i) => (i === 0 ? { ...variant, messageTemplate } : variant)) }
+        : null;
+    const abTestIssues = abTestSettings
+        ? [
+            ...validateABTest(abTestSettings),
+            ...abTestSettings.variants.slice(1).flatMap((variant) =>
+                [
+                    ...validateTemplate(variant.messageTemplate).map((issue) => issue.message),
+                    ...validateChannelContent(channel, variant.messageTemplate, channelContent).filter((issue) => !channelIssues.includes(issue)),
+                ].map((issue) => `Variant ${variant.id}: ${issue}`)
+            ),
+        ]
+        : [];
+    const messagedAudienceSize = audienceSize !== null && holdoutEnabled
+        ? estimateHoldoutSplit(audienceSize, holdoutPercentage).treatment
+        : audienceSize;
+
+    // Keep what was typed for other channels so switching back doesn't lose it
+    const handleChannelChange = (next: CampaignChannel) => {
+        setChannel(next);
+        setChannelContent((current) => ({ ...createChannelContent(next), ...current }));
+    };
+
     // Handle form submission
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
 
         try {
             if (step === 1) {
+                setError('');
                 let finalSegmentId = '';
                 
                 if (useExistingSegment && selectedExistingSegment) {
                     // Use existing segment
                     finalSegmentId = selectedExistingSegment;
                 } else {
+                    // Saved segments referencing each other can never be resolved
+                    const segmentRules = Object.fromEntries(
+                        existingSegments
+                            .filter((segment) => segment.rules)
+                            .map((segment) => [segment.id, normalizeRules(segment.rules)])
+                    );
+                    if (findSegmentCycle(rules, segmentRules)) {
+                        setError('The audience references saved segments that loop back on themselves. Remove one of the references to continue.');
+                        return;
+                    }
+
                     // Create new segment
                     const segmentResponse = await api.segments.createSegment({
                         name: `${name} Segment`,
                         rules,
                         description: naturalLanguage || undefined,
                     });
+                    if (segmentResponse.versionWarning) alert(segmentResponse.versionWarning);
                     
                     if (segmentResponse.data?.id) {
                         finalSegmentId = segmentResponse.data.id;
@@ -191,6 +326,29 @@ export default function CreateCampaign() {
                     setStep(2);
                 }
             } else if (step === 2) {
+                // Unknown merge fields would go out as blanks
+                if (templateIssues.length > 0) {
+                    setError(`Fix the message template before creating the campaign: ${templateIssues[0].message}`);
+                    return;
+                }
+                if (channelIssues.length > 0) {
+                    setError(channelIssues[0]);
+                    return;
+                }
+                if (abTestIssues.length > 0) {
+                    setError(`Fix the A/B test before creating the campaign: ${abTestIssues[0]}`);
+                    return;
+                }
+
+                setError('');
+                setStep(3);
+            } else if (step === 3) {
+                const scheduleIssue = scheduleEnabled ? validateSchedule(scheduleTime, scheduleTimezone) : null;
+                if (scheduleIssue) {
+                    setError(scheduleIssue);
+                    return;
+                }
+
                 // Create campaign
                 setIsSubmitting(true);
                 const campaignResponse = await api.campaigns.createCampaign({
@@ -198,9 +356,30 @@ export default function CreateCampaign() {
                     segmentId,
                     messageTemplate,
                     objective: objective || undefined,
+                    tags,
+                    holdout: holdoutEnabled ? { percentage: holdoutPercentage, seed: holdoutSeed } : undefined,
+                    channel,
+                    content: pickChannelContent(channel, channelContent),
+                    abTest: abTestSettings ?? undefined,
+                    schedule: scheduleEnabled ? createSchedule(scheduleTime, scheduleTimezone) : undefined,
                 });
 
+                // New campaigns go straight to review; a requested send time is
+                // scheduled once they're approved
                 if (campaignResponse.success) {
+                    const campaignId = campaignResponse.data?.id;
+                    if (campaignId) {
+                        // The campaign is saved either way, so a failed submit mustn't leave
+                        // the wizard open to create it (and its segment) a second time
+                        try {
+                            await api.campaigns.submitCampaign(campaignId);
+                        } catch (submitError: unknown) {
+                            console.error('Error submitting campaign for approval:', submitError);
+                            alert(`The campaign was saved as a draft but couldn't be submitted for approval${submitError instanceof Error ? ` (${submitError.message})` : ''}. Submit it from the campaign page.`);
+                            router.push(`/campaigns/${campaignId}/edit`);
+                            return;
+                        }
+                    }
                     router.push('/campaigns');
                 }
             }
@@ -316,6 +495,43 @@ export default function CreateCampaign() {
                                             <p className="text-xs text-gray-500">Craft your content</p>
                                         </div>
                                     </div>
+                                    
+                                    <div className={`flex-1 h-0.5 mx-8 transition-all duration-500 ${
+                                        step >= 3 
+                                            ? 'bg-gradient-to-r from-blue-500 to-purple-500' 
+                                            : 'bg-white/20'
+                                    }`}>
+                                        <div className={`h-full bg-gradient-to-r from-blue-500 to-purple-500 transition-all duration-1000 ${
+                                            step >= 3 ? 'w-full' : 'w-0'
+                                        }`}></div>
+                                    </div>
+                                    
+                                    <div className="flex items-center">
+                                        <div
+                                            className={`relative flex items-center justify-center w-12 h-12 rounded-full transition-all duration-300 ${
+                                                step >= 3 
+                                                    ? 'bg-gradient-to-r from-blue-500 to-purple-500 text-white shadow-lg transform scale-110' 
+                                                    : 'bg-white/10 text-gray-400 backdrop-blur-sm border border-white/20'
+                                            }`}
+                                        >
+                                            {step > 3 ? (
+                                                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                                                </svg>
+                                            ) : (
+                                                <span className="font-bold">3</span>
+                                            )}
+                                            {step >= 3 && (
+                                                <div className="absolute inset-0 rounded-full bg-gradient-to-r from-blue-500 to-purple-500 animate-ping opacity-25"></div>
+                                            )}
+                                        </div>
+                                        <div className="ml-4">
+                                            <p className={`text-sm font-medium ${step >= 3 ? 'text-white' : 'text-gray-400'}`}>
+                                                Schedule
+                                            </p>
+                                            <p className="text-xs text-gray-500">Choose when to send</p>
+                                        </div>
+                                    </div>
                                 </div>
                             </div>
                         </div>
@@ -385,6 +601,51 @@ export default function CreateCampaign() {
                             />
                             <div className="absolute inset-0 rounded-xl bg-gradient-to-r from-blue-500/10 to-purple-500/10 pointer-events-none opacity-0 transition-opacity duration-200 group-focus-within:opacity-100"></div>
                         </div>
+                        {sourceTemplate && (
+                            <p className="text-sm text-purple-300 mt-2">
+                                Started from the &ldquo;{sourceTemplate}&rdquo; template. Review each step before submitting.
+                            </p>
+                        )}
+                    </div>
+
+                    {/* Tags */}
+                    <div className="mb-8">
+                        <label htmlFor="tagInput" className="block text-sm font-medium text-gray-300 mb-3">
+                            Tags
+                        </label>
+                        {tags.length > 0 && (
+                            <div className="flex flex-wrap gap-2 mb-3">
+                                {tags.map((tag) => (
+                                    <span
+                                        key={tag}
+                                        className="inline-flex items-center px-3 py-1 bg-blue-500/20 text-blue-300 border border-blue-500/30 rounded-lg text-sm"
+                                    >
+                                        {tag}
+                                        <button
+                                            type="button"
+                                            onClick={() => setTags(tags.filter((item) => item !== tag))}
+                                            className="ml-2 text-blue-300 hover:text-blue-100"
+                                        >
+                                            ×
+                                        </button>
+                                    </span>
+                                ))}
+                            </div>
+                        )}
+                        <input
+                            type="text"
+                            id="tagInput"
+                            value={tagInput}
+                            onChange={(e) => setTagInput(e.target.value)}
+                            onKeyDown={(e) => {
+                                if (e.key !== 'Enter') return;
+                                e.preventDefault();
+                                setTags(addTag(tags, tagInput));
+                                setTagInput('');
+                            }}
+                            className="w-full px-4 py-3 bg-white/10 backdrop-blur-sm border border-white/20 rounded-xl text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500/50 transition-all duration-200"
+                            placeholder="Type a tag and press Enter"
+                        />
                     </div>
 
                     {/* Segment Selection Option */}
@@ -430,7 +691,7 @@ export default function CreateCampaign() {
                                 <div className="relative group">
                                     <select
                                         value={selectedExistingSegment}
-                                        onChange={(e) => setSelectedExistingSegment(e.target.value)}
+                                        onChange={(e) => handleSelectExistingSegment(e.target.value)}
                                         className="w-full px-4 py-3 bg-white/10 backdrop-blur-sm border border-white/20 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-cyan-500/50 focus:border-cyan-500/50 transition-all duration-200"
                                         required={useExistingSegment}
                                     >
@@ -444,6 +705,12 @@ export default function CreateCampaign() {
                                     <div className="absolute inset-0 rounded-xl bg-gradient-to-r from-cyan-500/10 to-blue-500/10 pointer-events-none opacity-0 transition-opacity duration-200 group-focus-within:opacity-100"></div>
                                 </div>
                             )}
+
+                            {useExistingSegment && selectedSegmentDrift && (
+                                <div className="mt-4 p-4 bg-red-500/10 border border-red-500/30 rounded-xl text-sm text-red-300">
+                                    This segment&apos;s audience {describeAudienceDrift(selectedSegmentDrift)}, going by the sizes recorded in this browser. Make sure its rules still match who you want to reach.
+                                </div>
+                            )}
                         </div>
                     </div>                                    {/* AI Natural Language Input */}
                                     <div className="mb-8">
@@ -514,6 +781,7 @@ export default function CreateCampaign() {
                                                 value={rules}
                                                 onChange={setRules}
                                                 onPreview={handlePreviewAudience}
+                                                showEstimate
                                             />
                                         </div>
                                     </div>
@@ -613,7 +881,7 @@ export default function CreateCampaign() {
                                     <div className="flex justify-end pt-6 border-t border-white/10">
                                         <button
                                             type="submit"
-                                            disabled={!name || rules.conditions.length === 0}
+                                            disabled={!name || countConditions(rules) === 0}
                                             className="group relative px-8 py-4 bg-gradient-to-r from-blue-500 to-purple-500 text-white font-bold rounded-xl hover:from-blue-600 hover:to-purple-600 focus:outline-none focus:ring-2 focus:ring-blue-500/50 transition-all duration-200 shadow-lg hover:shadow-xl transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none"
                                         >
                                             <div className="flex items-center">
@@ -785,27 +1053,210 @@ export default function CreateCampaign() {
                                             <h3 className="text-lg font-bold text-white ml-3">Message Template</h3>
                                         </div>
 
+                                        <div className="mb-6">
+                                            <ChannelSelector value={channel} onChange={handleChannelChange} />
+                                        </div>
+
+                                        {channel === 'email' && (
+                                            <div className="mb-6">
+                                                <ChannelFields
+                                                    channel={channel}
+                                                    messageTemplate={messageTemplate}
+                                                    content={channelContent}
+                                                    onContentChange={setChannelContent}
+                                                />
+                                            </div>
+                                        )}
+
                                         <label htmlFor="messageTemplate" className="block text-sm font-medium text-gray-300 mb-3">
-                                            Message Content
+                                            {channel === 'email' ? 'Plain-text Body' : channel === 'whatsapp' ? 'Template Body' : 'Message Content'}
                                         </label>
                                         <div className="relative group">
                                             <textarea
+                                                ref={messageTemplateRef}
                                                 id="messageTemplate"
                                                 value={messageTemplate}
                                                 onChange={(e) => setMessageTemplate(e.target.value)}
                                                 rows={4}
-                                                placeholder="Hi {firstName}, here's a special offer just for you!"
+                                                placeholder={'Hi {{first_name | default: "there"}}, here\'s a special offer just for you!'}
                                                 className="w-full px-4 py-3 bg-white/10 backdrop-blur-sm border border-white/20 rounded-xl text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500/50 transition-all duration-200 resize-none"
                                                 required
                                             />
                                             <div className="absolute inset-0 rounded-xl bg-gradient-to-r from-blue-500/10 to-indigo-500/10 pointer-events-none opacity-0 transition-opacity duration-200 group-focus-within:opacity-100"></div>
                                         </div>
+                                        {messageTemplate && templateIssues.length > 0 && (
+                                            <ul className="mt-3 space-y-1">
+                                                {templateIssues.map((issue, index) => (
+                                                    <li key={index} className="text-sm text-red-300 flex items-start">
+                                                        <span className="mr-2">•</span>
+                                                        {issue.message}
+                                                    </li>
+                                                ))}
+                                            </ul>
+                                        )}
+                                        {channel !== 'email' && (
+                                            <div className="mt-3">
+                                                <ChannelFields
+                                                    channel={channel}
+                                                    messageTemplate={messageTemplate}
+                                                    content={channelContent}
+                                                    onContentChange={setChannelContent}
+                                                />
+                                            </div>
+                                        )}
+                                        {channelIssues.length > 0 && (messageTemplate || channel !== 'sms') && (
+                                            <ul className="mt-3 space-y-1">
+                                                {channelIssues.map((issue, index) => (
+                                                    <li key={index} className="text-sm text-amber-300 flex items-start">
+                                                        <span className="mr-2">•</span>
+                                                        {issue}
+                                                    </li>
+                                                ))}
+                                            </ul>
+                                        )}
+                                        <div className="mt-4">
+                                            <TemplateFieldPicker onInsert={handleInsertVariable} />
+                                        </div>
                                         <p className="mt-3 text-sm text-gray-400 flex items-start">
                                             <svg className="w-4 h-4 mr-2 mt-0.5 text-blue-400 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                                                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" />
                                             </svg>
-                                            Use {'{firstName}'}, {'{lastName}'}, and {'{email}'} as placeholders for customer data.
+                                            Merge fields like {'{{first_name}}'} are filled in per customer. Add filters such as {'{{total_spend | currency}}'}, {'{{last_visit_date | relative}}'} or {'{{first_name | default: "there"}}'}.
                                         </p>
+                                        {segmentId && (
+                                            <div className="mt-6">
+                                                <MessagePreview
+                                                    template={messageTemplate}
+                                                    segmentId={segmentId}
+                                                    channel={channel}
+                                                    subject={channelContent.email?.subject}
+                                                />
+                                            </div>
+                                        )}
+                                    </div>
+
+                                    {/* A/B test */}
+                                    <div className="mb-8">
+                                        <div className="flex items-center mb-4">
+                                            <div className="p-2 bg-gradient-to-r from-pink-500 to-rose-500 rounded-lg">
+                                                <svg className="w-5 h-5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
+                                                </svg>
+                                            </div>
+                                            <h3 className="text-lg font-bold text-white ml-3">A/B Test</h3>
+                                        </div>
+
+                                        <div className="bg-white/5 rounded-2xl p-6 border border-white/10">
+                                            {channel === 'whatsapp' ? (
+                                                <p className="text-sm text-gray-400">
+                                                    WhatsApp templates are approved one at a time, so A/B tests are only available for SMS and email.
+                                                </p>
+                                            ) : (
+                                                <>
+                                                    <label className="flex items-center cursor-pointer group">
+                                                        <input
+                                                            type="checkbox"
+                                                            checked={abTest !== null}
+                                                            onChange={(e) => setABTest(e.target.checked ? createABTest(messageTemplate) : null)}
+                                                            className="w-4 h-4 text-blue-500 bg-transparent border-2 border-gray-400 rounded focus:ring-blue-500 focus:ring-2"
+                                                        />
+                                                        <span className="ml-3 text-white font-medium group-hover:text-blue-300 transition-colors">
+                                                            Test message variants
+                                                        </span>
+                                                    </label>
+                                                    <p className="mt-2 text-sm text-gray-400">
+                                                        Send 2-4 versions to part of the audience, then send the best one to everyone else.
+                                                    </p>
+
+                                                    {abTest && (
+                                                        <div className="mt-6">
+                                                            <ABTestEditor
+                                                                settings={abTest}
+                                                                messageTemplate={messageTemplate}
+                                                                audienceSize={messagedAudienceSize}
+                                                                onChange={setABTest}
+                                                            />
+                                                            {abTestIssues.length > 0 && (
+                                                                <ul className="mt-4 space-y-1">
+                                                                    {abTestIssues.map((issue, index) => (
+                                                                        <li key={index} className="text-sm text-amber-300 flex items-start">
+                                                                            <span className="mr-2">•</span>
+                                                                            {issue}
+                                                                        </li>
+                                                                    ))}
+                                                                </ul>
+                                                            )}
+                                                        </div>
+                                                    )}
+                                                </>
+                                            )}
+                                        </div>
+                                    </div>
+
+                                    {/* Holdout group */}
+                                    <div className="mb-8">
+                                        <div className="flex items-center mb-4">
+                                            <div className="p-2 bg-gradient-to-r from-slate-500 to-gray-600 rounded-lg">
+                                                <svg className="w-5 h-5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+                                                </svg>
+                                            </div>
+                                            <h3 className="text-lg font-bold text-white ml-3">Holdout Group</h3>
+                                        </div>
+
+                                        <div className="bg-white/5 rounded-2xl p-6 border border-white/10">
+                                            <label className="flex items-center cursor-pointer group">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={holdoutEnabled}
+                                                    onChange={(e) => setHoldoutEnabled(e.target.checked)}
+                                                    className="w-4 h-4 text-blue-500 bg-transparent border-2 border-gray-400 rounded focus:ring-blue-500 focus:ring-2"
+                                                />
+                                                <span className="ml-3 text-white font-medium group-hover:text-blue-300 transition-colors">
+                                                    Hold out a control group
+                                                </span>
+                                            </label>
+                                            <p className="mt-2 text-sm text-gray-400">
+                                                Held-out customers are never messaged, so their orders show what would have happened without this campaign.
+                                            </p>
+
+                                            {holdoutEnabled && (
+                                                <div className="mt-6">
+                                                    <div className="flex items-center justify-between mb-2">
+                                                        <label htmlFor="holdoutPercentage" className="text-sm font-medium text-gray-300">
+                                                            Holdout size
+                                                        </label>
+                                                        <span className="text-white font-bold">{holdoutPercentage}%</span>
+                                                    </div>
+                                                    <input
+                                                        type="range"
+                                                        id="holdoutPercentage"
+                                                        min={1}
+                                                        max={MAX_HOLDOUT_PERCENTAGE}
+                                                        value={holdoutPercentage}
+                                                        onChange={(e) => setHoldoutPercentage(Number(e.target.value))}
+                                                        className="w-full accent-blue-500"
+                                                    />
+
+                                                    {audienceSize !== null && (
+                                                        <div className="mt-4 grid grid-cols-2 gap-4">
+                                                            <div className="bg-white/5 rounded-xl p-4 border border-white/10">
+                                                                <p className="text-sm text-gray-400">Treatment (messaged)</p>
+                                                                <p className="text-2xl font-bold text-white">
+                                                                    ~{estimateHoldoutSplit(audienceSize, holdoutPercentage).treatment.toLocaleString()}
+                                                                </p>
+                                                            </div>
+                                                            <div className="bg-white/5 rounded-xl p-4 border border-white/10">
+                                                                <p className="text-sm text-gray-400">Control (held out)</p>
+                                                                <p className="text-2xl font-bold text-white">
+                                                                    ~{estimateHoldoutSplit(audienceSize, holdoutPercentage).control.toLocaleString()}
+                                                                </p>
+                                                            </div>
+                                                        </div>
+                                                    )}
+                                                </div>
+                                            )}
+                                        </div>
                                     </div>
 
                                     {/* Schedule suggestions */}
@@ -869,7 +1320,117 @@ export default function CreateCampaign() {
                                         </button>
                                         <button
                                             type="submit"
-                                            disabled={!messageTemplate || isSubmitting}
+                                            disabled={!messageTemplate}
+                                            className="group relative px-8 py-4 bg-gradient-to-r from-green-500 to-emerald-500 text-white font-bold rounded-xl hover:from-green-600 hover:to-emerald-600 focus:outline-none focus:ring-2 focus:ring-green-500/50 transition-all duration-200 shadow-lg hover:shadow-xl transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none"
+                                        >
+                                            <div className="flex items-center">
+                                                <span className="mr-2">Continue</span>
+                                                <svg className="w-5 h-5 group-hover:translate-x-1 transition-transform duration-200" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 7l5 5m0 0l-5 5m5-5H6" />
+                                                </svg>
+                                            </div>
+                                            <div className="absolute inset-0 rounded-xl bg-gradient-to-r from-green-600 to-emerald-600 opacity-0 group-hover:opacity-100 transition-opacity duration-200 -z-10"></div>
+                                        </button>
+                                    </div>
+                                </div>
+                            )}
+
+                            {/* Step 3: Schedule */}
+                            {step === 3 && (
+                                <div className="bg-white/10 backdrop-blur-xl rounded-3xl p-8 border border-white/10 shadow-2xl">
+                                    {/* Header */}
+                                    <div className="flex items-center mb-8">
+                                        <div className="p-3 bg-gradient-to-r from-cyan-500 to-blue-500 rounded-xl shadow-lg">
+                                            <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                                            </svg>
+                                        </div>
+                                        <div className="ml-4">
+                                            <h2 className="text-2xl font-bold text-white">Schedule Your Campaign</h2>
+                                            <p className="text-gray-400">Send it later at a time that suits your audience</p>
+                                        </div>
+                                    </div>
+
+                                    <div className="mb-8 grid grid-cols-1 md:grid-cols-2 gap-4">
+                                        <button
+                                            type="button"
+                                            onClick={() => setScheduleEnabled(false)}
+                                            className={`p-5 rounded-xl border-2 text-left transition-all duration-200 ${
+                                                !scheduleEnabled
+                                                    ? 'border-blue-500/50 bg-blue-500/10 shadow-lg'
+                                                    : 'border-white/20 bg-white/5 hover:border-white/30 hover:bg-white/10'
+                                            }`}
+                                        >
+                                            <p className="text-white font-semibold">Send when ready</p>
+                                            <p className="text-sm text-gray-400 mt-1">Execute it from the campaigns list once it&apos;s approved</p>
+                                        </button>
+                                        <button
+                                            type="button"
+                                            onClick={() => setScheduleEnabled(true)}
+                                            className={`p-5 rounded-xl border-2 text-left transition-all duration-200 ${
+                                                scheduleEnabled
+                                                    ? 'border-blue-500/50 bg-blue-500/10 shadow-lg'
+                                                    : 'border-white/20 bg-white/5 hover:border-white/30 hover:bg-white/10'
+                                            }`}
+                                        >
+                                            <p className="text-white font-semibold">Schedule for later</p>
+                                            <p className="text-sm text-gray-400 mt-1">Pick a date, time and timezone; it&apos;s scheduled once approved</p>
+                                        </button>
+                                    </div>
+
+                                    {scheduleEnabled && (
+                                        <div className="mb-8 bg-white/5 rounded-2xl p-6 border border-white/10">
+                                            <SchedulePicker
+                                                value={scheduleTime}
+                                                timezone={scheduleTimezone}
+                                                onChange={setScheduleTime}
+                                                onTimezoneChange={setScheduleTimezone}
+                                                onRequestSuggestion={() =>
+                                                    api.ai.getSchedulingSuggestions(
+                                                        { name, segmentId, messageTemplate, objective: objective || undefined, channel },
+                                                        useExistingSegment ? undefined : normalizeRules(rules)
+                                                    )
+                                                }
+                                            />
+                                        </div>
+                                    )}
+
+                                    {/* Delivery rules */}
+                                    <div className="mb-8">
+                                        <div className="flex items-center mb-4">
+                                            <div className="p-2 bg-gradient-to-r from-blue-500 to-indigo-500 rounded-lg">
+                                                <svg className="w-5 h-5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
+                                                </svg>
+                                            </div>
+                                            <h3 className="text-lg font-bold text-white ml-3">Delivery Rules</h3>
+                                        </div>
+                                        <div className="bg-white/5 rounded-2xl p-6 border border-white/10">
+                                            <FrequencyCapEstimate
+                                                segmentId={segmentId}
+                                                channel={channel}
+                                                scheduledTime={scheduleEnabled ? scheduleTime.time : undefined}
+                                            />
+                                        </div>
+                                    </div>
+
+                                    {/* Navigation buttons */}
+                                    <div className="flex justify-between pt-6 border-t border-white/10">
+                                        <button
+                                            type="button"
+                                            onClick={() => setStep(2)}
+                                            className="group px-6 py-3 bg-white/10 backdrop-blur-sm border border-white/20 text-white font-medium rounded-xl hover:bg-white/20 focus:outline-none focus:ring-2 focus:ring-white/50 transition-all duration-200 shadow-lg hover:shadow-xl"
+                                        >
+                                            <div className="flex items-center">
+                                                <svg className="w-5 h-5 mr-2 group-hover:-translate-x-1 transition-transform duration-200" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 17l-5-5m0 0l5-5m-5 5h12" />
+                                                </svg>
+                                                Back
+                                            </div>
+                                        </button>
+                                        <button
+                                            type="submit"
+                                            disabled={isSubmitting}
                                             className="group relative px-8 py-4 bg-gradient-to-r from-green-500 to-emerald-500 text-white font-bold rounded-xl hover:from-green-600 hover:to-emerald-600 focus:outline-none focus:ring-2 focus:ring-green-500/50 transition-all duration-200 shadow-lg hover:shadow-xl transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none"
                                         >
                                             <div className="flex items-center">
@@ -883,7 +1444,7 @@ export default function CreateCampaign() {
                                                     </>
                                                 ) : (
                                                     <>
-                                                        <span className="mr-2">Create Campaign</span>
+                                                        <span className="mr-2">Submit for Approval</span>
                                                         <svg className="w-5 h-5 group-hover:translate-x-1 transition-transform duration-200" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                                                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
                                                         </svg>
@@ -902,3 +1463,16 @@ export default function CreateCampaign() {
         </div>
     );
 }
+
+// Wizard with a Suspense boundary for the template query parameter
+export default function CreateCampaign() {
+    return (
+        <Suspense fallback={
+            <div className="flex items-center justify-center min-h-screen">
+                <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary"></div>
+            </div>
+        }>
+            <CreateCampaignContent />
+        </Suspense>
+    );
+}
@@ -1,19 +1,30 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/contexts/auth-context';
 import { useApiClient } from '@/utils/api-client';
 import Navigation from '@/components/navigation';
 import NewCampaignModal from '@/components/new-campaign-modal';
+import RescheduleCampaignModal from '@/components/reschedule-campaign-modal';
+import { getCampaignChannel, getChannelLabel } from '@/utils/channels';
+import { formatSchedule, getCampaignSchedule } from '@/utils/schedule';
+import { parseSuppressionPreview } from '@/utils/delivery-rules';
+import { CampaignAction, IN_FLIGHT_STATUSES, getActionConfirmation, getActionLabel, getAvailableActions, getCampaignProgress } from '@/utils/campaign-progress';
+import { useLiveProgress, withLiveProgress } from '@/utils/live-progress';
+import { formatDuration, formatThroughput } from '@/utils/progress-stream';
+import { formatRevenue, normalizeAttributionSettings, parseRevenueSummary } from '@/utils/attribution';
+import { SUBMITTABLE_STATUSES, canExecute } from '@/utils/approval';
+import { templateFromCampaign, toCampaignCopy } from '@/utils/campaign-templates';
+import { UNSENT_STATUSES } from '@/utils/campaign-calendar';
 import Link from 'next/link';
-import { FiPlus, FiEye, FiEdit, FiTrash2, FiUsers, FiSend, FiBarChart, FiCalendar, FiTarget } from 'react-icons/fi';
+import { FiPlus, FiEye, FiEdit, FiTrash2, FiUsers, FiSend, FiBarChart, FiCalendar, FiTarget, FiClock, FiXCircle, FiPause, FiPlay, FiSlash, FiChevronUp, FiChevronDown, FiCheckSquare, FiCopy, FiBookmark } from 'react-icons/fi';
 
 // Campaign interface
 interface Campaign {
     id: string;
     name: string;
-    status: 'draft' | 'pending' | 'processing' | 'completed' | 'failed' | 'sending';
+    status: 'draft' | 'pending' | 'submitted' | 'approved' | 'rejected' | 'scheduled' | 'processing' | 'completed' | 'failed' | 'sending' | 'paused' | 'cancelled';
     audienceSize?: number;
     audience_size?: number;
     sentCount?: number;
@@ -27,6 +38,10 @@ interface Campaign {
     created_by?: string;
     segment_id?: string;
     ai_summary?: string;
+    channel?: string;
+    scheduled_at?: string;
+    scheduledAt?: string;
+    timezone?: string;
 }
 
 // Campaigns list page
@@ -38,6 +53,16 @@ export default function CampaignsList() {
     const [isLoadingCampaigns, setIsLoadingCampaigns] = useState(true);
     const [error, setError] = useState<string | null>(null);
     const [showNewCampaignModal, setShowNewCampaignModal] = useState(false);
+    const [reschedulingCampaign, setReschedulingCampaign] = useState<Campaign | null>(null);
+    const [revenue, setRevenue] = useState<Record<string, number>>({});
+    const [revenueSort, setRevenueSort] = useState<'asc' | 'desc' | null>(null);
+    const rescheduleTarget = useMemo(
+        () => reschedulingCampaign && {
+            ...reschedulingCampaign,
+            schedule: reschedulingCampaign.status === 'scheduled' ? getCampaignSchedule(reschedulingCampaign) : null,
+        },
+        [reschedulingCampaign]
+    );
 
     const fetchCampaigns = useCallback(async () => {
         try {
@@ -64,6 +89,60 @@ export default function CampaignsList() {
         }
     }, [apiClient.campaigns]);
 
+    // Live counts for sends in progress; the list is reloaded when one finishes
+    const inFlightIds = useMemo(
+        () => campaigns.filter((campaign) => IN_FLIGHT_STATUSES.includes(campaign.status)).map((campaign) => campaign.id),
+        [campaigns]
+    );
+    const { progress: liveProgress } = useLiveProgress(inFlightIds, { onFinished: fetchCampaigns });
+    const displayedCampaigns = useMemo(() => {
+        const live = campaigns.map((campaign) => withLiveProgress(campaign, liveProgress[campaign.id]));
+        if (!revenueSort) return live;
+
+        // Campaigns without revenue go last either way
+        const direction = revenueSort === 'asc' ? 1 : -1;
+        return [...live].sort((a, b) => {
+            const [revenueA, revenueB] = [revenue[a.id], revenue[b.id]];
+            if (revenueA === undefined || revenueB === undefined) {
+                return (revenueA === undefined ? 1 : 0) - (revenueB === undefined ? 1 : 0);
+            }
+            return (revenueA - revenueB) * direction;
+        });
+    }, [campaigns, liveProgress, revenue, revenueSort]);
+
+    // Attributed revenue under the workspace attribution settings; campaigns that have
+    // never sent have none
+    const sentIdsKey = campaigns
+        .filter((campaign) => !UNSENT_STATUSES.includes(campaign.status))
+        .map((campaign) => campaign.id)
+        .join(',');
+
+    useEffect(() => {
+        if (!sentIdsKey) {
+            setRevenue({});
+            return;
+        }
+
+        const fetchRevenue = async () => {
+            try {
+                const settingsResponse = await apiClient.settings.getAttributionSettings();
+                const response = await apiClient.campaigns.getCampaignsRevenue(
+                    sentIdsKey.split(','),
+                    normalizeAttributionSettings(settingsResponse.data)
+                );
+                setRevenue(parseRevenueSummary(response.data));
+            } catch (error: unknown) {
+                console.error('Error fetching campaign revenue:', error);
+                setRevenue({});
+            }
+        };
+        fetchRevenue();
+    }, [sentIdsKey, apiClient.settings, apiClient.campaigns]);
+
+    // Highest first, then lowest first, then back to the default order
+    const toggleRevenueSort = () =>
+        setRevenueSort((current) => (current === null ? 'desc' : current === 'desc' ? 'asc' : null));
+
     // Handle creating lookalike audience (commented out as unused)
     // const handleCreateLookalike = async (campaignId: string) => {
     //     try {
@@ -109,32 +188,152 @@ export default function CampaignsList() {
         }
     };
 
+    // Customers the delivery rules would hold back, for the execute confirmation
+    const getSuppressionNote = async (campaign: Campaign) => {
+        try {
+            const response = await apiClient.campaigns.getCampaignSuppression(campaign.id);
+            const preview = parseSuppressionPreview(response.data);
+            if (!preview) return '';
+
+            const notes = [
+                preview.suppressed > 0 && `${preview.suppressed.toLocaleString()} customers have reached the frequency cap and will be skipped.`,
+                preview.deferred > 0 && `${preview.deferred.toLocaleString()} customers are in quiet hours and will get it when they end.`,
+            ].filter(Boolean);
+            return notes.length > 0 ? `\n\n${notes.join('\n')}` : '';
+        } catch (error: unknown) {
+            console.error('Error checking delivery rules:', error);
+            return '';
+        }
+    };
+
     // Execute campaign
     const handleExecuteCampaign = async (campaign: Campaign) => {
-        const actionText = campaign.status === 'completed' ? 're-send' : 'send';
-        const confirmMessage = `Are you sure you want to ${actionText} emails for "${campaign.name}"? This will ${actionText} personalized emails to all customers in the target segment.`;
+        const suppression = await getSuppressionNote(campaign);
+        const confirmMessage = `Are you sure you want to send emails for "${campaign.name}"? This will send personalized emails to all customers in the target segment.${suppression}`;
         
         if (!confirm(confirmMessage)) return;
 
         try {
-            setIsLoadingCampaigns(true);
+            // Mark it as sending straight away so live progress shows while the send runs
+            setCampaigns((current) => current.map((item) => (item.id === campaign.id ? { ...item, status: 'sending' } : item)));
             const response = await apiClient.campaigns.executeCampaign(campaign.id);
             
             if (response.success) {
-                alert(`Emails ${actionText === 're-send' ? 're-sent' : 'sent'} successfully!\nSent: ${response.data.sent}\nFailed: ${response.data.failed}\nTotal: ${response.data.total}`);
-                // Refresh campaigns to update status
-                await fetchCampaigns();
+                alert(`Emails sent successfully!\nSent: ${response.data.sent}\nFailed: ${response.data.failed}\nTotal: ${response.data.total}`);
             }
         } catch (error: unknown) {
             console.error('Error executing campaign:', error);
             const errorMessage = error instanceof Error ? error.message : 'Failed to send emails';
             alert(errorMessage);
         } finally {
-            setIsLoadingCampaigns(false);
+            // Refresh campaigns to update status
+            await fetchCampaigns();
+        }
+    };
+
+    // Pause, resume or cancel an in-flight send
+    const handleCampaignAction = async (campaign: Campaign, action: CampaignAction) => {
+        if (!confirm(getActionConfirmation(action, campaign.name, getCampaignProgress(campaign)))) return;
+
+        try {
+            if (action === 'pause') {
+                await apiClient.campaigns.pauseCampaign(campaign.id);
+            } else if (action === 'resume') {
+                await apiClient.campaigns.resumeCampaign(campaign.id);
+            } else {
+                await apiClient.campaigns.cancelCampaign(campaign.id);
+            }
+            await fetchCampaigns();
+        } catch (error: unknown) {
+            console.error(`Error running ${action} on campaign:`, error);
+            alert(error instanceof Error ? error.message : `Failed to ${action} campaign`);
+        }
+    };
+
+    // Send a draft, rejected or cancelled campaign to the approvals queue
+    const handleSubmitForApproval = async (campaign: Campaign) => {
+        if (!confirm(`Submit "${campaign.name}" for approval? It can be sent once a reviewer approves it.`)) return;
+
+        try {
+            await apiClient.campaigns.submitCampaign(campaign.id);
+            await fetchCampaigns();
+        } catch (error: unknown) {
+            console.error('Error submitting campaign for approval:', error);
+            alert(error instanceof Error ? error.message : 'Failed to submit campaign for approval');
+        }
+    };
+
+    // Copy a campaign into a new draft and open it for editing
+    const handleDuplicateCampaign = async (campaign: Campaign) => {
+        if (!confirm(`Duplicate "${campaign.name}"? The copy starts as a draft with the same segment and message.`)) return;
+
+        try {
+            // The list leaves out channel content and test settings, so only the full campaign
+            // can be copied
+            const response = await apiClient.campaigns.getCampaignById(campaign.id);
+            if (!response.data) {
+                throw new Error(`Couldn't load "${campaign.name}" to copy it`);
+            }
+            const copy = await apiClient.campaigns.createCampaign(toCampaignCopy(response.data));
+            await fetchCampaigns();
+            if (copy.data?.id) {
+                router.push(`/campaigns/${copy.data.id}/edit`);
+            }
+        } catch (error: unknown) {
+            console.error('Error duplicating campaign:', error);
+            alert(error instanceof Error ? error.message : 'Failed to duplicate campaign');
+        }
+    };
+
+    // Save a campaign's audience rules, message and tags to the template library
+    const handleSaveAsTemplate = async (campaign: Campaign) => {
+        const name = prompt('Template name', campaign.name);
+        if (name === null) return;
+        if (!name.trim()) {
+            alert('Give the template a name');
+            return;
+        }
+
+        try {
+            const [campaignResponse, segmentResponse] = await Promise.all([
+                apiClient.campaigns.getCampaignById(campaign.id),
+                campaign.segment_id ? apiClient.segments.getSegmentById(campaign.segment_id) : Promise.resolve(null),
+            ]);
+            const template = templateFromCampaign(campaignResponse.data || campaign, segmentResponse?.data?.rules);
+            await apiClient.templates.createTemplate({ ...template, name: name.trim() });
+            alert(`Saved "${name.trim()}" to your campaign templates`);
+        } catch (error: unknown) {
+            console.error('Error saving campaign as template:', error);
+            alert(error instanceof Error ? error.message : 'Failed to save template');
+        }
+    };
+
+    // Cancel a scheduled send; the campaign stays approved
+    const handleCancelSchedule = async (campaign: Campaign) => {
+        const scheduleLabel = getScheduleLabel(campaign);
+        if (!confirm(`Cancel the scheduled send of "${campaign.name}"${scheduleLabel ? ` on ${scheduleLabel}` : ''}? It stays approved and can be executed or scheduled again.`)) return;
+
+        try {
+            await apiClient.campaigns.cancelScheduledCampaign(campaign.id);
+            await fetchCampaigns();
+        } catch (error: unknown) {
+            console.error('Error cancelling scheduled campaign:', error);
+            alert(error instanceof Error ? error.message : 'Failed to cancel the scheduled send');
         }
     };
 
+    // "120/min · ~4m left" for a send in progress
+    const getThroughputLabel = (campaign: Campaign) => {
+        const throughput = liveProgress[campaign.id]?.throughput;
+        if (!throughput) return null;
+        const { remaining } = getCampaignProgress(campaign);
+        return `${formatThroughput(throughput)} · ~${formatDuration(remaining / throughput)} left`;
+    };
 
+    const getScheduleLabel = (campaign: Campaign) => {
+        const schedule = getCampaignSchedule(campaign);
+        return schedule ? formatSchedule(schedule) : null;
+    };
 
     const formatDate = (dateString: string) => {
         return new Date(dateString).toLocaleDateString('en-US', {
@@ -155,11 +354,32 @@ export default function CampaignsList() {
                 return 'bg-red-500/20 text-red-300 border-red-500/30';
             case 'pending':
                 return 'bg-blue-500/20 text-blue-300 border-blue-500/30';
+            case 'scheduled':
+                return 'bg-cyan-500/20 text-cyan-300 border-cyan-500/30';
+            case 'paused':
+                return 'bg-orange-500/20 text-orange-300 border-orange-500/30';
+            case 'submitted':
+                return 'bg-purple-500/20 text-purple-300 border-purple-500/30';
+            case 'approved':
+                return 'bg-emerald-500/20 text-emerald-300 border-emerald-500/30';
+            case 'rejected':
+                return 'bg-rose-500/20 text-rose-300 border-rose-500/30';
             default:
                 return 'bg-gray-500/20 text-gray-300 border-gray-500/30';
         }
     };
 
+    const getChannelColor = (campaign: Campaign) => {
+        switch (getCampaignChannel(campaign)) {
+            case 'email':
+                return 'bg-indigo-500/20 text-indigo-300 border-indigo-500/30';
+            case 'whatsapp':
+                return 'bg-emerald-500/20 text-emerald-300 border-emerald-500/30';
+            default:
+                return 'bg-sky-500/20 text-sky-300 border-sky-500/30';
+        }
+    };
+
     const getAudienceSize = (campaign: Campaign) => {
         return campaign.audienceSize || campaign.audience_size || 0;
     };
@@ -216,13 +436,29 @@ export default function CampaignsList() {
                             </h1>
                             <p className="text-gray-400 mt-2">Create and manage your marketing campaigns</p>
                         </div>
-                        <button
-                            onClick={() => setShowNewCampaignModal(true)}
-                            className="px-6 py-3 bg-gradient-to-r from-blue-500 to-purple-500 hover:from-blue-600 hover:to-purple-600 text-white rounded-xl flex items-center space-x-2 transition-all duration-200 shadow-xl"
-                        >
-                            <FiPlus size={20} />
-                            <span>Create Campaign</span>
-                        </button>
+                        <div className="flex items-center space-x-3">
+                            <Link
+                                href="/campaigns/calendar"
+                                className="px-6 py-3 bg-white/10 hover:bg-white/20 border border-white/20 text-white rounded-xl flex items-center space-x-2 transition-all duration-200"
+                            >
+                                <FiCalendar size={20} />
+                                <span>Calendar</span>
+                            </Link>
+                            <Link
+                                href="/campaigns/templates"
+                                className="px-6 py-3 bg-white/10 hover:bg-white/20 border border-white/20 text-white rounded-xl flex items-center space-x-2 transition-all duration-200"
+                            >
+                                <FiBookmark size={20} />
+                                <span>Templates</span>
+                            </Link>
+                            <button
+                                onClick={() => setShowNewCampaignModal(true)}
+                                className="px-6 py-3 bg-gradient-to-r from-blue-500 to-purple-500 hover:from-blue-600 hover:to-purple-600 text-white rounded-xl flex items-center space-x-2 transition-all duration-200 shadow-xl"
+                            >
+                                <FiPlus size={20} />
+                                <span>Create Campaign</span>
+                            </button>
+                        </div>
                     </div>
 
                     {/* Stats Cards */}
@@ -233,7 +469,7 @@ export default function CampaignsList() {
                                     <FiTarget className="text-white" size={24} />
                                 </div>
                             </div>
-                            <p className="text-2xl font-bold text-white">{campaigns.length}</p>
+                            <p className="text-2xl font-bold text-white">{displayedCampaigns.length}</p>
                             <p className="text-sm text-gray-400">Total Campaigns</p>
                         </div>
 
@@ -244,7 +480,7 @@ export default function CampaignsList() {
                                 </div>
                             </div>
                             <p className="text-2xl font-bold text-white">
-                                {campaigns.reduce((sum, campaign) => sum + getAudienceSize(campaign), 0).toLocaleString()}
+                                {displayedCampaigns.reduce((sum, campaign) => sum + getAudienceSize(campaign), 0).toLocaleString()}
                             </p>
                             <p className="text-sm text-gray-400">Total Reach</p>
                         </div>
@@ -256,7 +492,7 @@ export default function CampaignsList() {
                                 </div>
                             </div>
                             <p className="text-2xl font-bold text-white">
-                                {campaigns.reduce((sum, campaign) => sum + getSentCount(campaign), 0).toLocaleString()}
+                                {displayedCampaigns.reduce((sum, campaign) => sum + getSentCount(campaign), 0).toLocaleString()}
                             </p>
                             <p className="text-sm text-gray-400">Messages Sent</p>
                         </div>
@@ -268,10 +504,10 @@ export default function CampaignsList() {
                                 </div>
                             </div>
                             <p className="text-2xl font-bold text-white">
-                                {campaigns.length > 0
+                                {displayedCampaigns.length > 0
                                     ? Math.round(
-                                        (campaigns.reduce((sum, campaign) => sum + getSentCount(campaign), 0) /
-                                            campaigns.reduce(
+                                        (displayedCampaigns.reduce((sum, campaign) => sum + getSentCount(campaign), 0) /
+                                            displayedCampaigns.reduce(
                                                 (sum, campaign) =>
                                                     sum + getSentCount(campaign) + getFailedCount(campaign),
                                                 0
@@ -301,7 +537,7 @@ export default function CampaignsList() {
                                 Try Again
                             </button>
                         </div>
-                    ) : campaigns.length === 0 ? (
+                    ) : displayedCampaigns.length === 0 ? (
                         <div className="bg-white/5 backdrop-blur-xl border border-white/10 rounded-2xl p-12 text-center shadow-xl">
                             <FiTarget size={64} className="mx-auto text-gray-500 mb-4" />
                             <h2 className="text-xl font-semibold text-white mb-2">No campaigns found</h2>
@@ -326,12 +562,31 @@ export default function CampaignsList() {
                                             <th className="px-6 py-4 text-left text-xs font-semibold text-gray-300 uppercase tracking-wider">
                                                 Status
                                             </th>
+                                            <th className="px-6 py-4 text-left text-xs font-semibold text-gray-300 uppercase tracking-wider">
+                                                Channel
+                                            </th>
                                             <th className="px-6 py-4 text-left text-xs font-semibold text-gray-300 uppercase tracking-wider">
                                                 Audience
                                             </th>
                                             <th className="px-6 py-4 text-left text-xs font-semibold text-gray-300 uppercase tracking-wider">
                                                 Performance
                                             </th>
+                                            <th className="px-6 py-4 text-left text-xs font-semibold text-gray-300 uppercase tracking-wider">
+                                                <button
+                                                    onClick={toggleRevenueSort}
+                                                    className="flex items-center space-x-1 uppercase tracking-wider hover:text-white transition-colors"
+                                                    title="Sort by attributed revenue"
+                                                >
+                                                    <span>Revenue</span>
+                                                    {revenueSort === 'asc' ? (
+                                                        <FiChevronUp size={14} />
+                                                    ) : revenueSort === 'desc' ? (
+                                                        <FiChevronDown size={14} />
+                                                    ) : (
+                                                        <FiChevronDown size={14} className="opacity-30" />
+                                                    )}
+                                                </button>
+                                            </th>
                                             <th className="px-6 py-4 text-left text-xs font-semibold text-gray-300 uppercase tracking-wider">
                                                 Created
                                             </th>
@@ -341,7 +596,7 @@ export default function CampaignsList() {
                                         </tr>
                                     </thead>
                                     <tbody className="bg-transparent divide-y divide-white/10">
-                                        {campaigns.map((campaign: Campaign) => (
+                                        {displayedCampaigns.map((campaign: Campaign) => (
                                             <tr key={campaign.id} className="hover:bg-white/5 transition-colors duration-150">
                                                 <td className="px-6 py-5">
                                                     <div className="flex items-center space-x-4">
@@ -381,6 +636,17 @@ export default function CampaignsList() {
                                                     <span className={`px-3 py-1 inline-flex text-xs leading-5 font-semibold rounded-full border ${getStatusColor(campaign.status)}`}>
                                                         {campaign.status}
                                                     </span>
+                                                    {campaign.status === 'scheduled' && getScheduleLabel(campaign) && (
+                                                        <div className="flex items-center mt-2 text-xs text-cyan-300">
+                                                            <FiClock size={12} className="mr-1" />
+                                                            {getScheduleLabel(campaign)}
+                                                        </div>
+                                                    )}
+                                                </td>
+                                                <td className="px-6 py-5">
+                                                    <span className={`px-3 py-1 inline-flex text-xs leading-5 font-semibold rounded-full border ${getChannelColor(campaign)}`}>
+                                                        {getChannelLabel(getCampaignChannel(campaign))}
+                                                    </span>
                                                 </td>
                                                 <td className="px-6 py-5">
                                                     <div className="flex items-center space-x-2">
@@ -403,8 +669,36 @@ export default function CampaignsList() {
                                                                 (getSentCount(campaign) / (getSentCount(campaign) + getFailedCount(campaign) || 1)) * 100
                                                             )}% success rate
                                                         </div>
+                                                        {campaign.status === 'paused' && (
+                                                            <div className="text-xs text-orange-300">
+                                                                {getCampaignProgress(campaign).remaining.toLocaleString()} remaining
+                                                            </div>
+                                                        )}
+                                                        {IN_FLIGHT_STATUSES.includes(campaign.status) && (
+                                                            <div className="pt-1 w-40">
+                                                                <div className="h-1.5 bg-white/10 rounded-full overflow-hidden">
+                                                                    <div
+                                                                        className="h-full bg-gradient-to-r from-blue-500 to-purple-500 transition-all duration-500"
+                                                                        style={{ width: `${getCampaignProgress(campaign).percentage}%` }}
+                                                                    />
+                                                                </div>
+                                                                <div className="text-xs text-gray-400 mt-1">
+                                                                    {getCampaignProgress(campaign).percentage}%
+                                                                    {getThroughputLabel(campaign) && ` · ${getThroughputLabel(campaign)}`}
+                                                                </div>
+                                                            </div>
+                                                        )}
                                                     </div>
                                                 </td>
+                                                <td className="px-6 py-5">
+                                                    {revenue[campaign.id] !== undefined ? (
+                                                        <span className="text-sm font-semibold text-green-400">
+                                                            {formatRevenue(revenue[campaign.id])}
+                                                        </span>
+                                                    ) : (
+                                                        <span className="text-sm text-gray-500">—</span>
+                                                    )}
+                                                </td>
                                                 <td className="px-6 py-5">
                                                     <div className="flex items-center space-x-2">
                                                         <FiCalendar size={14} className="text-gray-400" />
@@ -415,27 +709,85 @@ export default function CampaignsList() {
                                                 </td>
                                                 <td className="px-6 py-5 text-right">
                                                     <div className="flex justify-end space-x-2">
-                                        {/* Execute/Retry button - show for all campaigns except processing/sending */}
-                                        {!['processing', 'sending'].includes(campaign.status) && (
+                                        {/* Scheduled campaigns send on their own; they can be moved or cancelled */}
+                                        {campaign.status === 'scheduled' && (
+                                            <>
+                                                <button
+                                                    onClick={() => setReschedulingCampaign(campaign)}
+                                                    className="inline-flex items-center px-3 py-2 bg-cyan-500 hover:bg-cyan-600 text-white text-xs font-medium rounded-lg transition-colors duration-150"
+                                                    title="Change the send time"
+                                                >
+                                                    <FiClock className="w-4 h-4 mr-1" />
+                                                    Reschedule
+                                                </button>
+                                                <button
+                                                    onClick={() => handleCancelSchedule(campaign)}
+                                                    className="inline-flex items-center px-3 py-2 bg-gray-500 hover:bg-gray-600 text-white text-xs font-medium rounded-lg transition-colors duration-150"
+                                                    title="Cancel the scheduled send and keep it approved"
+                                                >
+                                                    <FiXCircle className="w-4 h-4 mr-1" />
+                                                    Unschedule
+                                                </button>
+                                            </>
+                                        )}
+
+                                        {/* In-flight sends can be paused, resumed or cancelled */}
+                                        {getAvailableActions(campaign.status).map((action) => (
                                             <button
-                                                onClick={() => handleExecuteCampaign(campaign)}
+                                                key={action}
+                                                onClick={() => handleCampaignAction(campaign, action)}
                                                 className={`inline-flex items-center px-3 py-2 text-white text-xs font-medium rounded-lg transition-colors duration-150 ${
-                                                    campaign.status === 'failed' 
-                                                        ? 'bg-orange-500 hover:bg-orange-600' 
-                                                        : campaign.status === 'completed'
-                                                        ? 'bg-blue-500 hover:bg-blue-600'
-                                                        : 'bg-green-500 hover:bg-green-600'
+                                                    action === 'pause'
+                                                        ? 'bg-orange-500 hover:bg-orange-600'
+                                                        : action === 'resume'
+                                                        ? 'bg-green-500 hover:bg-green-600'
+                                                        : 'bg-gray-500 hover:bg-gray-600'
                                                 }`}
-                                                title={
-                                                    campaign.status === 'failed' 
-                                                        ? 'Retry campaign execution' 
-                                                        : campaign.status === 'completed'
-                                                        ? 'Re-execute campaign'
-                                                        : 'Execute campaign and send emails'
-                                                }
+                                            >
+                                                {action === 'pause' ? (
+                                                    <FiPause className="w-4 h-4 mr-1" />
+                                                ) : action === 'resume' ? (
+                                                    <FiPlay className="w-4 h-4 mr-1" />
+                                                ) : (
+                                                    <FiSlash className="w-4 h-4 mr-1" />
+                                                )}
+                                                {getActionLabel(action)}
+                                            </button>
+                                        ))}
+
+                                        {/* Drafts and rejected or cancelled campaigns go to review before they can be sent */}
+                                        {SUBMITTABLE_STATUSES.includes(campaign.status) && (
+                                            <button
+                                                onClick={() => handleSubmitForApproval(campaign)}
+                                                className="inline-flex items-center px-3 py-2 bg-purple-500 hover:bg-purple-600 text-white text-xs font-medium rounded-lg transition-colors duration-150"
+                                                title="Submit for approval"
+                                            >
+                                                <FiCheckSquare className="w-4 h-4 mr-1" />
+                                                Submit
+                                            </button>
+                                        )}
+
+                                        {/* Approved campaigns can be scheduled instead of sent now */}
+                                        {campaign.status === 'approved' && (
+                                            <button
+                                                onClick={() => setReschedulingCampaign(campaign)}
+                                                className="inline-flex items-center px-3 py-2 bg-cyan-500 hover:bg-cyan-600 text-white text-xs font-medium rounded-lg transition-colors duration-150"
+                                                title="Pick a send time"
+                                            >
+                                                <FiClock className="w-4 h-4 mr-1" />
+                                                Schedule
+                                            </button>
+                                        )}
+
+                                        {/* Execute button - only for approved campaigns; a re-send goes through review again */}
+                                        {canExecute(campaign.status) && (
+                                            <button
+                                                onClick={() => handleExecuteCampaign(campaign)}
+                                                className="inline-flex items-center px-3 py-2 bg-green-500 hover:bg-green-600 text-white text-xs font-medium rounded-lg transition-colors duration-150"
+                                                title="Execute campaign and send emails"
                                             >
                                                 <FiSend className="w-4 h-4 mr-1" />
-                                                {campaign.status === 'failed' ? 'Retry' : campaign.status === 'completed' ? 'Re-Execute' : 'Execute'}
+                                                Execute
                                             </button>
                                         )}
                                                         
@@ -456,7 +808,23 @@ export default function CampaignsList() {
                                             <FiEdit className="w-4 h-4 mr-1" />
                                             Edit
                                         </button>
-                                        
+
+                                        {/* Duplicate and save-as-template buttons */}
+                                        <button
+                                            className="inline-flex items-center px-3 py-2 bg-cyan-500 hover:bg-cyan-600 text-white text-xs font-medium rounded-lg transition-colors duration-150"
+                                            onClick={() => handleDuplicateCampaign(campaign)}
+                                            title="Duplicate campaign"
+                                        >
+                                            <FiCopy className="w-4 h-4" />
+                                        </button>
+                                        <button
+                                            className="inline-flex items-center px-3 py-2 bg-indigo-500 hover:bg-indigo-600 text-white text-xs font-medium rounded-lg transition-colors duration-150"
+                                            onClick={() => handleSaveAsTemplate(campaign)}
+                                            title="Save as template"
+                                        >
+                                            <FiBookmark className="w-4 h-4" />
+                                        </button>
+
                                         {/* Delete button - allow deletion for all campaigns except processing */}
                                         <button
                                             className="inline-flex items-center px-3 py-2 bg-red-500 hover:bg-red-600 text-white text-xs font-medium rounded-lg transition-colors duration-150 disabled:opacity-50 disabled:cursor-not-allowed"
@@ -486,6 +854,13 @@ export default function CampaignsList() {
                         fetchCampaigns(); // Refresh the campaigns list
                     }}
                 />
+
+                {/* Reschedule Modal */}
+                <RescheduleCampaignModal
+                    campaign={rescheduleTarget}
+                    onClose={() => setReschedulingCampaign(null)}
+                    onRescheduled={fetchCampaigns}
+                />
             </div>
         </div>
     );
@@ -0,0 +1,388 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { useAuth } from '@/contexts/auth-context';
+import { useApiClient } from '@/utils/api-client';
+import Navigation from '@/components/navigation';
+import RuleBuilder from '@/components/rule-builder';
+import { ChannelSelector } from '@/components/channel-composer';
+import { getChannelLabel } from '@/utils/channels';
+import { printRuleDsl } from '@/utils/rule-dsl';
+import { countConditions } from '@/utils/segment-rules';
+import {
+    CampaignTemplate,
+    CampaignTemplateDraft,
+    addTag,
+    createEmptyTemplate,
+    normalizeCampaignTemplate,
+    validateCampaignTemplate,
+} from '@/utils/campaign-templates';
+import { FiBookmark, FiEdit, FiList, FiPlay, FiPlus, FiSave, FiTag, FiTrash2 } from 'react-icons/fi';
+
+const inputClassName =
+    'w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+// Template library page
+export default function CampaignTemplates() {
+    const { isAuthenticated, isLoading } = useAuth();
+    const router = useRouter();
+    const api = useApiClient();
+    const [templates, setTemplates] = useState<CampaignTemplate[]>([]);
+    const [isLoadingTemplates, setIsLoadingTemplates] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    // Template being created (id null) or edited
+    const [editing, setEditing] = useState<{ id: string | null; draft: CampaignTemplateDraft } | null>(null);
+    const [tagInput, setTagInput] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+    const [editorError, setEditorError] = useState('');
+
+    const fetchTemplates = useCallback(async () => {
+        try {
+            setIsLoadingTemplates(true);
+            setError(null);
+            const response = await api.templates.getTemplates();
+            const data: Record<string, unknown>[] = Array.isArray(response.data) ? response.data : [];
+            setTemplates(data.map(normalizeCampaignTemplate));
+        } catch (err: unknown) {
+            console.error('Error fetching templates:', err);
+            setError(err instanceof Error ? err.message : 'Failed to fetch templates');
+            setTemplates([]);
+        } finally {
+            setIsLoadingTemplates(false);
+        }
+    }, [api.templates]);
+
+    // Redirect if not authenticated
+    useEffect(() => {
+        if (!isLoading && !isAuthenticated) {
+            router.push('/login');
+        }
+    }, [isAuthenticated, isLoading, router]);
+
+    useEffect(() => {
+        if (isAuthenticated) {
+            fetchTemplates();
+        }
+    }, [isAuthenticated, fetchTemplates]);
+
+    const openEditor = (template?: CampaignTemplate) => {
+        setEditing(
+            template
+                ? { id: template.id, draft: { ...template } }
+                : { id: null, draft: createEmptyTemplate() }
+        );
+        setTagInput('');
+        setEditorError('');
+    };
+
+    const updateDraft = (changes: Partial<CampaignTemplateDraft>) => {
+        if (!editing) return;
+        setEditing({ ...editing, draft: { ...editing.draft, ...changes } });
+        setEditorError('');
+    };
+
+    const issues = editing ? validateCampaignTemplate(editing.draft) : [];
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!editing) return;
+        if (issues.length > 0) {
+            setEditorError(issues[0]);
+            return;
+        }
+
+        // Only the template fields, not the id and timestamp carried over from an edit
+        const { name, objective, rules, messageTemplate, tags, channel } = editing.draft;
+        const template = { name: name.trim(), objective, rules, messageTemplate, tags, channel };
+
+        try {
+            setIsSaving(true);
+            if (editing.id) {
+                await api.templates.updateTemplate(editing.id, template);
+            } else {
+                await api.templates.createTemplate(template);
+            }
+            setEditing(null);
+            await fetchTemplates();
+        } catch (err: unknown) {
+            console.error('Error saving template:', err);
+            setEditorError(err instanceof Error ? err.message : 'Failed to save template');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleDelete = async (template: CampaignTemplate) => {
+        if (!confirm(`Delete the "${template.name}" template? Campaigns created from it are not affected.`)) return;
+
+        try {
+            await api.templates.deleteTemplate(template.id);
+            if (editing?.id === template.id) setEditing(null);
+            await fetchTemplates();
+        } catch (err: unknown) {
+            console.error('Error deleting template:', err);
+            alert(err instanceof Error ? err.message : 'Failed to delete template');
+        }
+    };
+
+    if (isLoading || !isAuthenticated) {
+        return (
+            <div className="flex items-center justify-center min-h-screen bg-gradient-to-br from-gray-900 via-purple-900/10 to-blue-900/10">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-400"></div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="flex h-screen bg-gradient-to-br from-gray-900 via-purple-900/10 to-blue-900/10">
+            {/* Navigation */}
+            <div className="w-64 hidden md:block">
+                <Navigation />
+            </div>
+
+            {/* Main content */}
+            <div className="flex-1 flex flex-col overflow-hidden">
+                <div className="flex-1 overflow-y-auto p-8">
+                    {/* Header */}
+                    <div className="flex items-center justify-between mb-8">
+                        <div>
+                            <h1 className="text-4xl font-bold bg-gradient-to-r from-blue-400 to-purple-400 bg-clip-text text-transparent">
+                                Campaign Templates
+                            </h1>
+                            <p className="text-gray-400 mt-2">Reusable audiences and messages to start new campaigns from</p>
+                        </div>
+                        <div className="flex items-center space-x-3">
+                            <Link
+                                href="/campaigns"
+                                className="px-6 py-3 bg-white/10 hover:bg-white/20 border border-white/20 text-white rounded-xl flex items-center space-x-2 transition-all duration-200"
+                            >
+                                <FiList size={20} />
+                                <span>All Campaigns</span>
+                            </Link>
+                            <button
+                                onClick={() => openEditor()}
+                                className="px-6 py-3 bg-gradient-to-r from-blue-500 to-purple-500 hover:from-blue-600 hover:to-purple-600 text-white rounded-xl flex items-center space-x-2 transition-all duration-200 shadow-xl"
+                            >
+                                <FiPlus size={20} />
+                                <span>New Template</span>
+                            </button>
+                        </div>
+                    </div>
+
+                    {/* Editor */}
+                    {editing && (
+                        <form onSubmit={handleSave} className="bg-white/5 backdrop-blur-xl border border-white/10 rounded-2xl p-6 shadow-xl mb-8 space-y-6">
+                            <h2 className="text-lg font-bold text-white">{editing.id ? 'Edit Template' : 'New Template'}</h2>
+
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                <div>
+                                    <label htmlFor="templateName" className="block text-sm font-semibold text-gray-300 mb-3">
+                                        Name *
+                                    </label>
+                                    <input
+                                        id="templateName"
+                                        type="text"
+                                        value={editing.draft.name}
+                                        onChange={(e) => updateDraft({ name: e.target.value })}
+                                        className={inputClassName}
+                                        placeholder="e.g., Weekly win-back"
+                                    />
+                                </div>
+                                <div>
+                                    <label htmlFor="templateObjective" className="block text-sm font-semibold text-gray-300 mb-3">
+                                        Objective
+                                    </label>
+                                    <input
+                                        id="templateObjective"
+                                        type="text"
+                                        value={editing.draft.objective}
+                                        onChange={(e) => updateDraft({ objective: e.target.value })}
+                                        className={inputClassName}
+                                        placeholder="e.g., win back customers who haven't ordered in 60 days"
+                                    />
+                                </div>
+                            </div>
+
+                            <div>
+                                <label className="block text-sm font-semibold text-gray-300 mb-3">Audience Rules</label>
+                                <RuleBuilder value={editing.draft.rules} onChange={(rules) => updateDraft({ rules })} />
+                            </div>
+
+                            <div>
+                                <label className="block text-sm font-semibold text-gray-300 mb-3">Channel</label>
+                                <ChannelSelector value={editing.draft.channel} onChange={(channel) => updateDraft({ channel })} />
+                            </div>
+
+                            <div>
+                                <div className="flex items-center justify-between mb-3">
+                                    <label htmlFor="templateMessage" className="text-sm font-semibold text-gray-300">
+                                        Message *
+                                    </label>
+                                    <span className="text-xs text-gray-400">{editing.draft.messageTemplate.length} characters</span>
+                                </div>
+                                <textarea
+                                    id="templateMessage"
+                                    value={editing.draft.messageTemplate}
+                                    onChange={(e) => updateDraft({ messageTemplate: e.target.value })}
+                                    rows={4}
+                                    className={`${inputClassName} resize-none`}
+                                    placeholder="Hi {{first_name}}, ..."
+                                />
+                            </div>
+
+                            <div>
+                                <label htmlFor="templateTag" className="block text-sm font-semibold text-gray-300 mb-3">
+                                    Tags
+                                </label>
+                                {editing.draft.tags.length > 0 && (
+                                    <div className="flex flex-wrap gap-2 mb-3">
+                                        {editing.draft.tags.map((tag) => (
+                                            <span
+                                                key={tag}
+                                                className="inline-flex items-center px-3 py-1 bg-blue-500/20 text-blue-300 border border-blue-500/30 rounded-lg text-sm"
+                                            >
+                                                <FiTag size={12} className="mr-1" />
+                                                {tag}
+                                                <button
+                                                    type="button"
+                                                    onClick={() => updateDraft({ tags: editing.draft.tags.filter((item) => item !== tag) })}
+                                                    className="ml-2 text-blue-300 hover:text-blue-100"
+                                                >
+                                                    ×
+                                                </button>
+                                            </span>
+                                        ))}
+                                    </div>
+                                )}
+                                <input
+                                    id="templateTag"
+                                    type="text"
+                                    value={tagInput}
+                                    onChange={(e) => setTagInput(e.target.value)}
+                                    onKeyDown={(e) => {
+                                        if (e.key !== 'Enter') return;
+                                        e.preventDefault();
+                                        updateDraft({ tags: addTag(editing.draft.tags, tagInput) });
+                                        setTagInput('');
+                                    }}
+                                    className={inputClassName}
+                                    placeholder="Type a tag and press Enter"
+                                />
+                            </div>
+
+                            {editorError && (
+                                <div className="bg-red-500/10 border border-red-500/30 rounded-xl p-4 text-sm text-red-300">
+                                    {editorError}
+                                </div>
+                            )}
+
+                            <div className="flex justify-end space-x-4">
+                                <button
+                                    type="button"
+                                    onClick={() => setEditing(null)}
+                                    className="px-6 py-3 bg-white/5 hover:bg-white/10 border border-white/10 text-gray-300 rounded-xl transition-colors duration-200"
+                                >
+                                    Cancel
+                                </button>
+                                <button
+                                    type="submit"
+                                    disabled={isSaving || issues.length > 0}
+                                    className="px-6 py-3 bg-gradient-to-r from-blue-500 to-purple-500 hover:from-blue-600 hover:to-purple-600 text-white rounded-xl flex items-center space-x-2 transition-all duration-200 shadow-xl disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                    <FiSave size={18} />
+                                    <span>{isSaving ? 'Saving...' : 'Save Template'}</span>
+                                </button>
+                            </div>
+                        </form>
+                    )}
+
+                    {/* Library */}
+                    {isLoadingTemplates ? (
+                        <div className="flex items-center justify-center h-64">
+                            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-400"></div>
+                        </div>
+                    ) : error ? (
+                        <div className="bg-red-500/10 border border-red-500/20 rounded-xl p-6 text-center">
+                            <p className="text-red-400 mb-4">Error loading templates</p>
+                            <p className="text-gray-400 text-sm mb-4">{error}</p>
+                            <button
+                                onClick={fetchTemplates}
+                                className="px-4 py-2 bg-red-500 hover:bg-red-600 text-white rounded-lg"
+                            >
+                                Try Again
+                            </button>
+                        </div>
+                    ) : templates.length === 0 ? (
+                        <div className="bg-white/5 backdrop-blur-xl border border-white/10 rounded-2xl p-12 text-center shadow-xl">
+                            <FiBookmark size={64} className="mx-auto text-gray-500 mb-4" />
+                            <h2 className="text-xl font-semibold text-white mb-2">No templates yet</h2>
+                            <p className="text-gray-400">Create one here, or save an existing campaign as a template from the campaigns list</p>
+                        </div>
+                    ) : (
+                        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                            {templates.map((template) => (
+                                <div key={template.id} className="bg-white/5 backdrop-blur-xl border border-white/10 rounded-2xl p-6 shadow-xl flex flex-col">
+                                    <div className="flex items-start justify-between mb-2">
+                                        <div>
+                                            <h2 className="text-lg font-bold text-white">{template.name}</h2>
+                                            <p className="text-xs text-gray-500 mt-1">
+                                                {getChannelLabel(template.channel)} · {countConditions(template.rules)} audience condition{countConditions(template.rules) === 1 ? '' : 's'}
+                                                {template.updatedAt && ` · updated ${new Date(template.updatedAt).toLocaleDateString()}`}
+                                            </p>
+                                        </div>
+                                    </div>
+
+                                    {template.objective && <p className="text-sm text-gray-400 mb-3">{template.objective}</p>}
+
+                                    <pre className="text-xs text-cyan-200 bg-black/20 border border-white/10 rounded-lg p-3 mb-3 whitespace-pre-wrap break-words">
+                                        {printRuleDsl(template.rules)}
+                                    </pre>
+                                    <p className="text-sm text-gray-200 mb-3 line-clamp-3 whitespace-pre-wrap">{template.messageTemplate}</p>
+
+                                    {template.tags.length > 0 && (
+                                        <div className="flex flex-wrap gap-1 mb-4">
+                                            {template.tags.map((tag) => (
+                                                <span
+                                                    key={tag}
+                                                    className="inline-flex items-center px-2 py-1 rounded-lg text-xs font-medium bg-blue-500/20 text-blue-300 border border-blue-500/30"
+                                                >
+                                                    {tag}
+                                                </span>
+                                            ))}
+                                        </div>
+                                    )}
+
+                                    <div className="flex justify-end space-x-2 mt-auto">
+                                        <Link
+                                            href={`/campaigns/new?template=${template.id}`}
+                                            className="inline-flex items-center px-3 py-2 bg-green-500 hover:bg-green-600 text-white text-xs font-medium rounded-lg transition-colors duration-150"
+                                        >
+                                            <FiPlay className="w-4 h-4 mr-1" />
+                                            Use Template
+                                        </Link>
+                                        <button
+                                            onClick={() => openEditor(template)}
+                                            className="inline-flex items-center px-3 py-2 bg-purple-500 hover:bg-purple-600 text-white text-xs font-medium rounded-lg transition-colors duration-150"
+                                        >
+                                            <FiEdit className="w-4 h-4 mr-1" />
+                                            Edit
+                                        </button>
+                                        <button
+                                            onClick={() => handleDelete(template)}
+                                            className="inline-flex items-center px-3 py-2 bg-red-500 hover:bg-red-600 text-white text-xs font-medium rounded-lg transition-colors duration-150"
+                                            title="Delete template"
+                                        >
+                                            <FiTrash2 className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -12,7 +12,7 @@ import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, Responsi
 interface Campaign {
     id: string;
     name: string;
-    status: 'draft' | 'sending' | 'completed' | 'failed';
+    status: 'draft' | 'scheduled' | 'sending' | 'completed' | 'failed';
     audienceSize: number;
     audience_size?: number;
     sentCount: number;
@@ -3,25 +3,45 @@ import { useState, useEffect, useCallback } from 'react';
 import Navigation from '@/components/navigation';
 import NewSegmentModal from '@/components/new-segment-modal';
 import EditSegmentModal from '@/components/edit-segment-modal';
+import SegmentOverlapView from '@/components/segment-overlap';
+import SegmentVersionHistory from '@/components/segment-versions';
+import ExportSegmentModal from '@/components/export-segment-modal';
+import SnapshotMembers from '@/components/snapshot-members';
 import { useApiClient } from '@/utils/api-client';
-import { FiPlus, FiEye, FiEdit, FiTrash2, FiUsers, FiCalendar, FiTarget } from 'react-icons/fi';
-
-interface Rule {
-    field: string;
-    operator: string;
-    value: string | number | [number, number];
-}
-
-interface SegmentRules {
-    logic: 'AND' | 'OR';
-    conditions: Rule[];
-}
-
-interface Segment {
+import { ConditionGroup, RuleInput, normalizeRules } from '@/utils/segment-rules';
+import { SnapshotFields, getSnapshotMemberIds, isSnapshot } from '@/utils/segment-snapshots';
+import {
+    AudienceDrift,
+    AudienceSizePoint,
+    describeAudienceDrift,
+    detectAudienceDrift,
+    getAudienceHistory,
+    getDriftSince,
+    mergeAudienceHistory,
+    parseHistoryResponse,
+    recordAudienceSize,
+} from '@/utils/audience-history';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import {
+    FiPlus,
+    FiEye,
+    FiEdit,
+    FiTrash2,
+    FiUsers,
+    FiCalendar,
+    FiTarget,
+    FiLayers,
+    FiTrendingUp,
+    FiAlertTriangle,
+    FiDownload,
+    FiCamera,
+} from 'react-icons/fi';
+
+interface Segment extends SnapshotFields {
     id: string;
     name: string;
     description: string;
-    rules?: SegmentRules;
+    rules?: RuleInput;
     is_dynamic?: boolean;
     tags?: string[];
     audience_size?: number;
@@ -42,17 +62,35 @@ interface AudiencePreview {
     sample?: CustomerSample[];
 }
 
+// Record each segment's latest calculated size and return the segments that drifted
+const trackAudienceSizes = (segments: Segment[]): Record<string, AudienceDrift> =>
+    Object.fromEntries(
+        segments.flatMap((segment) => {
+            const size = segment.audience_size ?? segment.customer_count;
+            const history = size === undefined
+                ? getAudienceHistory(segment.id)
+                : recordAudienceSize(segment.id, size, segment.last_calculated_at || segment.updated_at);
+            const drift = detectAudienceDrift(history);
+            return drift ? [[segment.id, drift]] : [];
+        })
+    );
+
 export default function SegmentsPage() {
     const [segments, setSegments] = useState<Segment[]>([]);
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
     const [selectedSegment, setSelectedSegment] = useState<Segment | null>(null);
-    const [viewMode, setViewMode] = useState<'list' | 'details'>('list');
+    const [viewMode, setViewMode] = useState<'list' | 'details' | 'overlap'>('list');
     const [audiencePreview, setAudiencePreview] = useState<AudiencePreview | null>(null);
     const [previewLoading, setPreviewLoading] = useState(false);
     const [showCreateModal, setShowCreateModal] = useState(false);
     const [showEditModal, setShowEditModal] = useState(false);
     const [selectedSegmentForEdit, setSelectedSegmentForEdit] = useState<Segment | null>(null);
+    const [audienceHistory, setAudienceHistory] = useState<AudienceSizePoint[]>([]);
+    const [driftBySegment, setDriftBySegment] = useState<Record<string, AudienceDrift>>({});
+    const [versionsRefreshKey, setVersionsRefreshKey] = useState(0);
+    const [showExportModal, setShowExportModal] = useState(false);
+    const [freezing, setFreezing] = useState(false);
 
     const apiClient = useApiClient();
 
@@ -61,7 +99,9 @@ export default function SegmentsPage() {
             setLoading(true);
             const response = await apiClient.segments.getSegments(1, 50);
             console.log('Segments response:', response);
-            setSegments(response.segments || response.data || []);
+            const data: Segment[] = response.segments || response.data || [];
+            setSegments(data);
+            setDriftBySegment(trackAudienceSizes(data));
         } catch (err: unknown) {
             console.error('Error fetching segments:', err);
             const errorMessage = err instanceof Error ? err.message : 'Failed to fetch segments';
@@ -75,22 +115,44 @@ export default function SegmentsPage() {
         fetchSegments();
     }, [fetchSegments]);
 
+    // Merge the server's size history (if any) with sizes recorded in this browser
+    const fetchAudienceHistory = async (segmentId: string) => {
+        let serverHistory: AudienceSizePoint[] = [];
+        try {
+            const response = await apiClient.segments.getSegmentHistory(segmentId);
+            serverHistory = parseHistoryResponse(response.data);
+        } catch (err) {
+            console.warn('Segment history unavailable, using local history:', err);
+        }
+        setAudienceHistory(mergeAudienceHistory(serverHistory, getAudienceHistory(segmentId)));
+    };
+
     const handleViewSegment = async (segment: Segment) => {
         setSelectedSegment(segment);
         setViewMode('details');
+        setAudienceHistory(getAudienceHistory(segment.id));
 
         // Fetch audience preview
         try {
             setPreviewLoading(true);
             const response = await apiClient.segments.previewAudience(segment.id);
             // Handle both possible response formats
-            setAudiencePreview(response.data || response);
+            const preview: AudiencePreview = response.data || response;
+            setAudiencePreview(preview);
+
+            // A preview is a fresh calculation, so it extends the history
+            const previewSize = preview?.total ?? preview?.count;
+            if (typeof previewSize === 'number') {
+                recordAudienceSize(segment.id, previewSize);
+            }
         } catch (err) {
             console.error('Error fetching audience preview:', err);
             setAudiencePreview(null);
         } finally {
             setPreviewLoading(false);
         }
+
+        await fetchAudienceHistory(segment.id);
     };
 
     const handleEditSegment = async (segment: Segment) => {
@@ -141,6 +203,51 @@ export default function SegmentsPage() {
         if (selectedSegment && selectedSegmentForEdit && selectedSegment.id === selectedSegmentForEdit.id) {
             // Re-fetch the updated segment for the detail view
             handleViewSegment(selectedSegmentForEdit);
+            setVersionsRefreshKey((key) => key + 1);
+        }
+    };
+
+    const handleFreezeSegment = async (segment: Segment) => {
+        const confirmed = window.confirm(
+            `Freeze "${segment.name}" into a static snapshot?\n\nThe snapshot keeps exactly the customers in the segment right now, so you can resend to or audit the same people later. The original segment stays dynamic.`
+        );
+
+        if (!confirmed) return;
+
+        try {
+            setFreezing(true);
+            const response = await apiClient.segments.freezeSegment({
+                id: segment.id,
+                name: segment.name,
+                description: segment.description,
+                tags: segment.tags,
+                rules: normalizeRules(segment.rules),
+            });
+            await fetchSegments(); // Refresh the list
+            if (response.versionWarning) alert(response.versionWarning);
+
+            if (response.data?.id) {
+                handleViewSegment(response.data);
+            }
+        } catch (err: unknown) {
+            console.error('Error freezing segment:', err);
+            const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+            alert(`Failed to freeze segment: ${errorMessage}`);
+        } finally {
+            setFreezing(false);
+        }
+    };
+
+    const handleSnapshotMembersChanged = (memberIds: string[]) => {
+        setSelectedSegment((current) => current && { ...current, customer_ids: memberIds });
+        fetchSegments(); // Refresh the segments list
+    };
+
+    const handleVersionRestored = (rules: ConditionGroup) => {
+        fetchSegments(); // Refresh the segments list
+
+        if (selectedSegment) {
+            handleViewSegment({ ...selectedSegment, rules });
         }
     };
 
@@ -165,6 +272,44 @@ export default function SegmentsPage() {
         }
     };
 
+    if (viewMode === 'overlap') {
+        return (
+            <div className="flex h-screen bg-gradient-to-br from-gray-900 via-purple-900/10 to-blue-900/10">
+                {/* Navigation */}
+                <div className="w-64 hidden md:block">
+                    <Navigation />
+                </div>
+
+                {/* Main content */}
+                <div className="flex-1 flex flex-col overflow-hidden">
+                    <div className="flex-1 overflow-y-auto p-8">
+                        {/* Header */}
+                        <div className="mb-8">
+                            <button
+                                onClick={() => setViewMode('list')}
+                                className="text-blue-400 hover:text-blue-300 mb-2 flex items-center text-sm"
+                            >
+                                ← Back to Segments
+                            </button>
+                            <h1 className="text-4xl font-bold bg-gradient-to-r from-blue-400 to-purple-400 bg-clip-text text-transparent">
+                                Segment Overlap
+                            </h1>
+                            <p className="text-gray-400 mt-2">See how many customers your segments share before targeting them</p>
+                        </div>
+
+                        <SegmentOverlapView segments={segments} />
+                    </div>
+                </div>
+            </div>
+        );
+    }
+
+    const detailDrift = detectAudienceDrift(audienceHistory);
+    const historyChartData = audienceHistory.map((point) => ({
+        label: new Date(point.calculatedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
+        size: point.size,
+    }));
+
     if (viewMode === 'details' && selectedSegment) {
         return (
             <div className="flex h-screen bg-gradient-to-br from-gray-900 via-purple-900/10 to-blue-900/10">
@@ -195,6 +340,23 @@ export default function SegmentsPage() {
                                 <p className="text-gray-400 mt-2">{selectedSegment.description}</p>
                             </div>
                             <div className="flex space-x-3">
+                                {!isSnapshot(selectedSegment) && (
+                                    <button
+                                        onClick={() => handleFreezeSegment(selectedSegment)}
+                                        disabled={freezing}
+                                        className="px-4 py-2 bg-white/10 hover:bg-white/20 border border-white/20 text-white rounded-xl flex items-center space-x-2 transition-all duration-200 disabled:opacity-50"
+                                    >
+                                        <FiCamera size={16} />
+                                        <span>{freezing ? 'Freezing...' : 'Freeze Snapshot'}</span>
+                                    </button>
+                                )}
+                                <button
+                                    onClick={() => setShowExportModal(true)}
+                                    className="px-4 py-2 bg-white/10 hover:bg-white/20 border border-white/20 text-white rounded-xl flex items-center space-x-2 transition-all duration-200"
+                                >
+                                    <FiDownload size={16} />
+                                    <span>Export</span>
+                                </button>
                                 <button
                                     onClick={() => handleEditSegment(selectedSegment)}
                                     className="px-4 py-2 bg-gradient-to-r from-blue-500 to-purple-500 hover:from-blue-600 hover:to-purple-600 text-white rounded-xl flex items-center space-x-2 transition-all duration-200"
@@ -250,6 +412,21 @@ export default function SegmentsPage() {
                                             {selectedSegment.is_dynamic ? '🔄 Dynamic' : '📷 Static'}
                                         </p>
                                     </div>
+                                    {isSnapshot(selectedSegment) && (
+                                        <div>
+                                            <label className="text-sm text-gray-400">Snapshot</label>
+                                            <p className="text-white flex items-center">
+                                                <FiCamera className="mr-2" size={16} />
+                                                {selectedSegment.snapshot_at ? formatDate(selectedSegment.snapshot_at) : 'Unknown date'}
+                                            </p>
+                                            {selectedSegment.source_segment_id && (
+                                                <p className="text-sm text-gray-400 mt-1">
+                                                    Frozen from{' '}
+                                                    {segments.find((segment) => segment.id === selectedSegment.source_segment_id)?.name || 'a deleted segment'}
+                                                </p>
+                                            )}
+                                        </div>
+                                    )}
                                     {selectedSegment.tags && selectedSegment.tags.length > 0 && (
                                         <div>
                                             <label className="text-sm text-gray-400">Tags</label>
@@ -317,8 +494,86 @@ export default function SegmentsPage() {
                                 )}
                             </div>
                         </div>
+
+                        {/* Audience Size History */}
+                        <div className="mt-8 bg-white/5 backdrop-blur-xl border border-white/10 rounded-2xl p-6 shadow-xl">
+                            <h2 className="text-xl font-semibold text-white mb-4 flex items-center">
+                                <FiTrendingUp className="mr-2" />
+                                Audience Size History
+                            </h2>
+                            <p className="text-sm text-gray-400 -mt-2 mb-4">
+                                Recalculations are recorded in this browser, so other browsers and teammates may see a different history.
+                            </p>
+
+                            {detailDrift && (
+                                <div className="mb-4 p-4 bg-red-500/10 border border-red-500/30 rounded-xl text-sm text-red-300 flex items-start">
+                                    <FiAlertTriangle className="mr-2 mt-0.5 flex-shrink-0" />
+                                    <span>
+                                        Audience {describeAudienceDrift(detailDrift)}. Check the segment rules and source data before sending a campaign to it.
+                                    </span>
+                                </div>
+                            )}
+
+                            {audienceHistory.length < 2 ? (
+                                <p className="text-center text-gray-400 py-8">
+                                    Not enough history yet. A point is recorded every time this segment is recalculated.
+                                </p>
+                            ) : (
+                                <div className="h-64 w-full">
+                                    <ResponsiveContainer width="100%" height="100%">
+                                        <LineChart data={historyChartData} margin={{ top: 10, right: 20, left: 10, bottom: 5 }}>
+                                            <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.1)" />
+                                            <XAxis dataKey="label" stroke="#9ca3af" fontSize={12} tickLine={false} axisLine={false} />
+                                            <YAxis stroke="#9ca3af" fontSize={12} tickLine={false} axisLine={false} allowDecimals={false} />
+                                            <Tooltip
+                                                formatter={(value) => [Number(value).toLocaleString(), 'Customers']}
+                                                contentStyle={{
+                                                    backgroundColor: 'rgba(17, 24, 39, 0.95)',
+                                                    border: '1px solid rgba(255, 255, 255, 0.1)',
+                                                    borderRadius: '12px',
+                                                    color: '#fff',
+                                                    fontSize: '12px'
+                                                }}
+                                            />
+                                            <Line
+                                                type="monotone"
+                                                dataKey="size"
+                                                stroke={detailDrift ? '#f87171' : '#60a5fa'}
+                                                strokeWidth={2}
+                                                dot={{ r: 3 }}
+                                            />
+                                        </LineChart>
+                                    </ResponsiveContainer>
+                                </div>
+                            )}
+                        </div>
+
+                        {/* Snapshot Members */}
+                        {isSnapshot(selectedSegment) && (
+                            <SnapshotMembers
+                                key={selectedSegment.id}
+                                segmentId={selectedSegment.id}
+                                memberIds={getSnapshotMemberIds(selectedSegment) || []}
+                                onMembersChanged={handleSnapshotMembersChanged}
+                            />
+                        )}
+
+                        {/* Version History */}
+                        <SegmentVersionHistory
+                            key={selectedSegment.id}
+                            segmentId={selectedSegment.id}
+                            segmentNames={Object.fromEntries(segments.map((segment) => [segment.id, segment.name]))}
+                            refreshKey={versionsRefreshKey}
+                            onRestored={handleVersionRestored}
+                        />
                     </div>
                 </div>
+
+                <ExportSegmentModal
+                    isOpen={showExportModal}
+                    segment={selectedSegment}
+                    onClose={() => setShowExportModal(false)}
+                />
             </div>
         );
     }
@@ -341,13 +596,24 @@ export default function SegmentsPage() {
                             </h1>
                             <p className="text-gray-400 mt-2">Manage and analyze your customer segments</p>
                         </div>
-                        <button
-                            className="px-6 py-3 bg-gradient-to-r from-blue-500 to-purple-500 hover:from-blue-600 hover:to-purple-600 text-white rounded-xl flex items-center space-x-2 transition-all duration-200 shadow-xl"
-                            onClick={() => setShowCreateModal(true)}
-                        >
-                            <FiPlus size={20} />
-                            <span>Create Segment</span>
-                        </button>
+                        <div className="flex space-x-3">
+                            {segments.length >= 2 && (
+                                <button
+                                    className="px-6 py-3 bg-white/10 hover:bg-white/20 border border-white/20 text-white rounded-xl flex items-center space-x-2 transition-all duration-200"
+                                    onClick={() => setViewMode('overlap')}
+                                >
+                                    <FiLayers size={20} />
+                                    <span>Compare Overlap</span>
+                                </button>
+                            )}
+                            <button
+                                className="px-6 py-3 bg-gradient-to-r from-blue-500 to-purple-500 hover:from-blue-600 hover:to-purple-600 text-white rounded-xl flex items-center space-x-2 transition-all duration-200 shadow-xl"
+                                onClick={() => setShowCreateModal(true)}
+                            >
+                                <FiPlus size={20} />
+                                <span>Create Segment</span>
+                            </button>
+                        </div>
                     </div>
 
                     {/* Content */}
@@ -393,10 +659,32 @@ export default function SegmentsPage() {
                                         </div>
                                         <div className="flex items-center space-x-2 text-xs text-gray-400">
                                             <FiUsers size={14} />
-                                            <span>{segment.customer_count || 0}</span>
+                                            <span>{getSnapshotMemberIds(segment)?.length ?? (segment.customer_count || 0)}</span>
                                         </div>
                                     </div>
 
+                                    {isSnapshot(segment) && (
+                                        <div className="mb-4 px-3 py-2 rounded-lg text-xs flex items-center bg-blue-500/10 text-blue-300">
+                                            <FiCamera className="mr-2 flex-shrink-0" size={14} />
+                                            Snapshot of {getSnapshotMemberIds(segment)?.length.toLocaleString()} customers
+                                            {segment.snapshot_at && ` · ${formatDate(segment.snapshot_at)}`}
+                                        </div>
+                                    )}
+
+                                    {driftBySegment[segment.id] && (
+                                        <div
+                                            className={`mb-4 px-3 py-2 rounded-lg text-xs flex items-center ${
+                                                driftBySegment[segment.id].change < 0
+                                                    ? 'bg-red-500/10 text-red-300'
+                                                    : 'bg-amber-500/10 text-amber-300'
+                                            }`}
+                                        >
+                                            <FiAlertTriangle className="mr-2 flex-shrink-0" size={14} />
+                                            {driftBySegment[segment.id].change < 0 ? '▼' : '▲'}{' '}
+                                            {Math.round(Math.abs(driftBySegment[segment.id].change) * 100)}% since {getDriftSince(driftBySegment[segment.id])}
+                                        </div>
+                                    )}
+
                                     <div className="mb-4">
                                         <p className="text-xs text-gray-400 mb-1">Created</p>
                                         <p className="text-sm text-gray-300">{formatDate(segment.created_at)}</p>
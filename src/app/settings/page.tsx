@@ -0,0 +1,392 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/contexts/auth-context';
+import { useApiClient } from '@/utils/api-client';
+import Navigation from '@/components/navigation';
+import {
+    CAP_PERIODS,
+    DeliveryRules,
+    FrequencyCap,
+    MAX_CAP_MESSAGES,
+    QuietHours,
+    createDefaultDeliveryRules,
+    describeFrequencyCap,
+    describeQuietHours,
+    normalizeDeliveryRules,
+    validateDeliveryRules,
+} from '@/utils/delivery-rules';
+import {
+    ATTRIBUTION_MODELS,
+    ATTRIBUTION_WINDOWS,
+    AttributionSettings,
+    createDefaultAttributionSettings,
+    describeAttribution,
+    normalizeAttributionSettings,
+    validateAttributionSettings,
+} from '@/utils/attribution';
+import { CHANNELS, CampaignChannel } from '@/utils/channels';
+import { getTimezoneOptions } from '@/utils/schedule';
+import { FiDollarSign, FiMoon, FiSave, FiShield } from 'react-icons/fi';
+
+const inputClassName =
+    'w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent [color-scheme:dark] disabled:opacity-50';
+
+// Workspace settings page
+export default function Settings() {
+    const { isAuthenticated, isLoading } = useAuth();
+    const router = useRouter();
+    const api = useApiClient();
+    const [rules, setRules] = useState<DeliveryRules>(createDefaultDeliveryRules);
+    const [attribution, setAttribution] = useState<AttributionSettings>(createDefaultAttributionSettings);
+    const [isLoadingRules, setIsLoadingRules] = useState(true);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState('');
+    const [saved, setSaved] = useState(false);
+
+    const fetchRules = useCallback(async () => {
+        try {
+            setIsLoadingRules(true);
+            setError('');
+            const [rulesResponse, attributionResponse] = await Promise.all([
+                api.settings.getDeliveryRules(),
+                api.settings.getAttributionSettings(),
+            ]);
+            setRules(normalizeDeliveryRules(rulesResponse.data));
+            setAttribution(normalizeAttributionSettings(attributionResponse.data));
+        } catch (err: unknown) {
+            console.error('Error fetching settings:', err);
+            setError(err instanceof Error ? err.message : 'Failed to load settings');
+        } finally {
+            setIsLoadingRules(false);
+        }
+    }, [api.settings]);
+
+    // Redirect if not authenticated
+    useEffect(() => {
+        if (!isLoading && !isAuthenticated) {
+            router.push('/login');
+        }
+    }, [isAuthenticated, isLoading, router]);
+
+    useEffect(() => {
+        if (isAuthenticated) {
+            fetchRules();
+        }
+    }, [isAuthenticated, fetchRules]);
+
+    const updateCap = (changes: Partial<FrequencyCap>) => {
+        setSaved(false);
+        setRules({ ...rules, frequencyCap: { ...rules.frequencyCap, ...changes } });
+    };
+
+    const updateQuietHours = (changes: Partial<QuietHours>) => {
+        setSaved(false);
+        setRules({ ...rules, quietHours: { ...rules.quietHours, ...changes } });
+    };
+
+    const updateAttribution = (changes: Partial<AttributionSettings>) => {
+        setSaved(false);
+        setAttribution({ ...attribution, ...changes });
+    };
+
+    const updateMessageCost = (channel: CampaignChannel, cost: number) =>
+        updateAttribution({ costPerMessage: { ...attribution.costPerMessage, [channel]: cost } });
+
+    const issues = [...validateDeliveryRules(rules), ...validateAttributionSettings(attribution)];
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (issues.length > 0) {
+            setError(issues[0]);
+            return;
+        }
+
+        try {
+            setIsSaving(true);
+            setError('');
+            await Promise.all([
+                api.settings.updateDeliveryRules(rules),
+                api.settings.updateAttributionSettings(attribution),
+            ]);
+            setSaved(true);
+        } catch (err: unknown) {
+            console.error('Error saving settings:', err);
+            setError(err instanceof Error ? err.message : 'Failed to save settings');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    if (isLoading || !isAuthenticated) {
+        return (
+            <div className="flex items-center justify-center min-h-screen bg-gradient-to-br from-gray-900 via-purple-900/10 to-blue-900/10">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-400"></div>
+            </div>
+        );
+    }
+
+    const { frequencyCap, quietHours } = rules;
+
+    return (
+        <div className="flex h-screen bg-gradient-to-br from-gray-900 via-purple-900/10 to-blue-900/10">
+            {/* Navigation */}
+            <div className="w-64 hidden md:block">
+                <Navigation />
+            </div>
+
+            {/* Main content */}
+            <div className="flex-1 flex flex-col overflow-hidden">
+                <div className="flex-1 overflow-y-auto p-8">
+                    {/* Header */}
+                    <div className="mb-8">
+                        <h1 className="text-4xl font-bold bg-gradient-to-r from-blue-400 to-purple-400 bg-clip-text text-transparent">
+                            Settings
+                        </h1>
+                        <p className="text-gray-400 mt-2">Delivery rules and revenue attribution for every campaign in this workspace</p>
+                    </div>
+
+                    {isLoadingRules ? (
+                        <div className="flex items-center justify-center py-24">
+                            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-400"></div>
+                        </div>
+                    ) : (
+                        <form onSubmit={handleSubmit} className="max-w-3xl space-y-6">
+                            {/* Frequency cap */}
+                            <div className="bg-white/5 backdrop-blur-xl border border-white/10 rounded-2xl p-6 shadow-xl">
+                                <div className="flex items-start justify-between mb-4">
+                                    <div className="flex items-center">
+                                        <div className="w-10 h-10 bg-gradient-to-r from-blue-500 to-indigo-500 rounded-xl flex items-center justify-center shadow-lg">
+                                            <FiShield className="text-white" size={20} />
+                                        </div>
+                                        <div className="ml-4">
+                                            <h2 className="text-lg font-bold text-white">Frequency Cap</h2>
+                                            <p className="text-sm text-gray-400">{describeFrequencyCap(frequencyCap)}</p>
+                                        </div>
+                                    </div>
+                                    <label className="flex items-center cursor-pointer">
+                                        <input
+                                            type="checkbox"
+                                            checked={frequencyCap.enabled}
+                                            onChange={(e) => updateCap({ enabled: e.target.checked })}
+                                            className="w-4 h-4 text-blue-500 bg-transparent border-2 border-gray-400 rounded focus:ring-blue-500 focus:ring-2"
+                                        />
+                                        <span className="ml-2 text-sm text-gray-300">Enabled</span>
+                                    </label>
+                                </div>
+                                <p className="text-sm text-gray-400 mb-4">
+                                    Customers who have already received this many campaign messages in the period are skipped when a campaign sends.
+                                </p>
+                                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                    <div>
+                                        <label htmlFor="capMessages" className="block text-sm font-semibold text-gray-300 mb-3">
+                                            Max messages per customer
+                                        </label>
+                                        <input
+                                            id="capMessages"
+                                            type="number"
+                                            min={1}
+                                            max={MAX_CAP_MESSAGES}
+                                            value={frequencyCap.maxMessages}
+                                            onChange={(e) => updateCap({ maxMessages: Number(e.target.value) })}
+                                            disabled={!frequencyCap.enabled}
+                                            className={inputClassName}
+                                        />
+                                    </div>
+                                    <div>
+                                        <label htmlFor="capPeriod" className="block text-sm font-semibold text-gray-300 mb-3">
+                                            Per
+                                        </label>
+                                        <select
+                                            id="capPeriod"
+                                            value={frequencyCap.periodDays}
+                                            onChange={(e) => updateCap({ periodDays: Number(e.target.value) })}
+                                            disabled={!frequencyCap.enabled}
+                                            className={inputClassName}
+                                        >
+                                            {CAP_PERIODS.map((period) => (
+                                                <option key={period.value} value={period.value} className="bg-gray-800">
+                                                    {period.label}
+                                                </option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                </div>
+                            </div>
+
+                            {/* Quiet hours */}
+                            <div className="bg-white/5 backdrop-blur-xl border border-white/10 rounded-2xl p-6 shadow-xl">
+                                <div className="flex items-start justify-between mb-4">
+                                    <div className="flex items-center">
+                                        <div className="w-10 h-10 bg-gradient-to-r from-violet-500 to-purple-500 rounded-xl flex items-center justify-center shadow-lg">
+                                            <FiMoon className="text-white" size={20} />
+                                        </div>
+                                        <div className="ml-4">
+                                            <h2 className="text-lg font-bold text-white">Quiet Hours</h2>
+                                            <p className="text-sm text-gray-400">{describeQuietHours(quietHours)}</p>
+                                        </div>
+                                    </div>
+                                    <label className="flex items-center cursor-pointer">
+                                        <input
+                                            type="checkbox"
+                                            checked={quietHours.enabled}
+                                            onChange={(e) => updateQuietHours({ enabled: e.target.checked })}
+                                            className="w-4 h-4 text-blue-500 bg-transparent border-2 border-gray-400 rounded focus:ring-blue-500 focus:ring-2"
+                                        />
+                                        <span className="ml-2 text-sm text-gray-300">Enabled</span>
+                                    </label>
+                                </div>
+                                <p className="text-sm text-gray-400 mb-4">
+                                    Messages that would arrive during quiet hours in the customer&apos;s local time are held until the quiet hours end.
+                                </p>
+                                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                                    <div>
+                                        <label htmlFor="quietStart" className="block text-sm font-semibold text-gray-300 mb-3">
+                                            From
+                                        </label>
+                                        <input
+                                            id="quietStart"
+                                            type="time"
+                                            value={quietHours.start}
+                                            onChange={(e) => updateQuietHours({ start: e.target.value })}
+                                            disabled={!quietHours.enabled}
+                                            className={inputClassName}
+                                        />
+                                    </div>
+                                    <div>
+                                        <label htmlFor="quietEnd" className="block text-sm font-semibold text-gray-300 mb-3">
+                                            Until
+                                        </label>
+                                        <input
+                                            id="quietEnd"
+                                            type="time"
+                                            value={quietHours.end}
+                                            onChange={(e) => updateQuietHours({ end: e.target.value })}
+                                            disabled={!quietHours.enabled}
+                                            className={inputClassName}
+                                        />
+                                    </div>
+                                    <div>
+                                        <label htmlFor="quietTimezone" className="block text-sm font-semibold text-gray-300 mb-3">
+                                            When a customer&apos;s timezone is unknown
+                                        </label>
+                                        <select
+                                            id="quietTimezone"
+                                            value={quietHours.fallbackTimezone}
+                                            onChange={(e) => updateQuietHours({ fallbackTimezone: e.target.value })}
+                                            disabled={!quietHours.enabled}
+                                            className={inputClassName}
+                                        >
+                                            {getTimezoneOptions(quietHours.fallbackTimezone).map((zone) => (
+                                                <option key={zone} value={zone} className="bg-gray-800">
+                                                    {zone.replace(/_/g, ' ')}
+                                                </option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                </div>
+                            </div>
+
+                            {/* Revenue attribution */}
+                            <div className="bg-white/5 backdrop-blur-xl border border-white/10 rounded-2xl p-6 shadow-xl">
+                                <div className="flex items-center mb-4">
+                                    <div className="w-10 h-10 bg-gradient-to-r from-green-500 to-emerald-500 rounded-xl flex items-center justify-center shadow-lg">
+                                        <FiDollarSign className="text-white" size={20} />
+                                    </div>
+                                    <div className="ml-4">
+                                        <h2 className="text-lg font-bold text-white">Revenue Attribution</h2>
+                                        <p className="text-sm text-gray-400">{describeAttribution(attribution)}</p>
+                                    </div>
+                                </div>
+                                <p className="text-sm text-gray-400 mb-4">
+                                    Orders placed within the window after a customer receives a campaign count towards that campaign&apos;s revenue. Message costs are used to work out ROI.
+                                </p>
+                                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+                                    <div>
+                                        <label htmlFor="attributionWindow" className="block text-sm font-semibold text-gray-300 mb-3">
+                                            Attribution window
+                                        </label>
+                                        <select
+                                            id="attributionWindow"
+                                            value={attribution.windowDays}
+                                            onChange={(e) => updateAttribution({ windowDays: Number(e.target.value) })}
+                                            className={inputClassName}
+                                        >
+                                            {ATTRIBUTION_WINDOWS.map((window) => (
+                                                <option key={window.value} value={window.value} className="bg-gray-800">
+                                                    {window.label}
+                                                </option>
+                                            ))}
+                                            {!ATTRIBUTION_WINDOWS.some((window) => window.value === attribution.windowDays) && (
+                                                <option value={attribution.windowDays} className="bg-gray-800">
+                                                    {attribution.windowDays} days
+                                                </option>
+                                            )}
+                                        </select>
+                                    </div>
+                                    <div>
+                                        <label htmlFor="attributionModel" className="block text-sm font-semibold text-gray-300 mb-3">
+                                            Model
+                                        </label>
+                                        <select
+                                            id="attributionModel"
+                                            value={attribution.model}
+                                            onChange={(e) => updateAttribution({ model: e.target.value as AttributionSettings['model'] })}
+                                            className={inputClassName}
+                                        >
+                                            {ATTRIBUTION_MODELS.map((model) => (
+                                                <option key={model.value} value={model.value} className="bg-gray-800">
+                                                    {model.label}
+                                                </option>
+                                            ))}
+                                        </select>
+                                        <p className="text-xs text-gray-500 mt-2">
+                                            {ATTRIBUTION_MODELS.find((model) => model.value === attribution.model)?.description}
+                                        </p>
+                                    </div>
+                                </div>
+                                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                                    {CHANNELS.map((channel) => (
+                                        <div key={channel.value}>
+                                            <label htmlFor={`cost-${channel.value}`} className="block text-sm font-semibold text-gray-300 mb-3">
+                                                {channel.label} cost per message ($)
+                                            </label>
+                                            <input
+                                                id={`cost-${channel.value}`}
+                                                type="number"
+                                                min={0}
+                                                step="0.0001"
+                                                value={attribution.costPerMessage[channel.value]}
+                                                onChange={(e) => updateMessageCost(channel.value, Number(e.target.value))}
+                                                className={inputClassName}
+                                            />
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+
+                            {(error || issues.length > 0) && (
+                                <div className="bg-red-500/10 border border-red-500/30 rounded-xl p-4 text-sm text-red-300">
+                                    {error || issues[0]}
+                                </div>
+                            )}
+
+                            <div className="flex items-center justify-end space-x-4">
+                                {saved && <span className="text-sm text-green-300">Settings saved</span>}
+                                <button
+                                    type="submit"
+                                    disabled={isSaving || issues.length > 0}
+                                    className="px-6 py-3 bg-gradient-to-r from-blue-500 to-purple-500 hover:from-blue-600 hover:to-purple-600 text-white rounded-xl flex items-center space-x-2 transition-all duration-200 shadow-xl disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                    <FiSave size={18} />
+                                    <span>{isSaving ? 'Saving...' : 'Save Settings'}</span>
+                                </button>
+                            </div>
+                        </form>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
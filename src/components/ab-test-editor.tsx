@@ -0,0 +1,193 @@
+'use client';
+
+import { FiPlus, FiTrash2 } from 'react-icons/fi';
+import {
+    ABTestSettings,
+    MAX_VARIANTS,
+    MIN_VARIANTS,
+    MessageVariant,
+    TEST_DURATIONS,
+    WINNER_METRICS,
+    WinnerMetric,
+    WinnerRule,
+    estimateVariantSizes,
+    evenSplits,
+    getTestPercentage,
+    getVariantLabel,
+} from '@/utils/ab-test';
+
+interface ABTestEditorProps {
+    settings: ABTestSettings;
+    // Variant A is the campaign's main message, edited above
+    messageTemplate: string;
+    audienceSize: number | null;
+    onChange: (settings: ABTestSettings) => void;
+}
+
+const inputClassName =
+    'w-full px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white text-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500/50';
+
+// Variants B-D with their splits, and the rule that picks the winner
+export default function ABTestEditor({ settings, messageTemplate, audienceSize, onChange }: ABTestEditorProps) {
+    const { variants, winnerRule } = settings;
+    const testPercentage = getTestPercentage(variants);
+    const sizes = audienceSize !== null ? estimateVariantSizes(audienceSize, variants) : null;
+
+    const updateVariant = (index: number, changes: Partial<MessageVariant>) =>
+        onChange({ ...settings, variants: variants.map((variant, i) => (i === index ? { ...variant, ...changes } : variant)) });
+
+    const updateRule = (changes: Partial<WinnerRule>) => onChange({ ...settings, winnerRule: { ...winnerRule, ...changes } });
+
+    // Ids follow position so the remaining variants stay A, B, C...
+    const relabel = (list: MessageVariant[]) => list.map((variant, i) => ({ ...variant, id: getVariantLabel(i) }));
+
+    const addVariant = () =>
+        onChange({
+            ...settings,
+            variants: relabel([...variants, { id: '', messageTemplate: '', splitPercentage: Math.min(20, Math.max(100 - testPercentage, 1)) }]),
+        });
+
+    const removeVariant = (index: number) => onChange({ ...settings, variants: relabel(variants.filter((_, i) => i !== index)) });
+
+    const splitEvenly = () => {
+        const splits = evenSplits(variants.length, testPercentage);
+        onChange({ ...settings, variants: variants.map((variant, i) => ({ ...variant, splitPercentage: splits[i] })) });
+    };
+
+    return (
+        <div className="space-y-4">
+            {variants.map((variant, index) => (
+                <div key={variant.id} className="bg-white/5 rounded-xl p-4 border border-white/10">
+                    <div className="flex items-center justify-between mb-3">
+                        <span className="text-white font-semibold">Variant {variant.id}</span>
+                        <div className="flex items-center space-x-3">
+                            <div className="flex items-center space-x-2">
+                                <input
+                                    type="number"
+                                    min={1}
+                                    max={100}
+                                    value={variant.splitPercentage}
+                                    onChange={(e) => updateVariant(index, { splitPercentage: Number(e.target.value) })}
+                                    className={`${inputClassName} w-20`}
+                                    aria-label={`Variant ${variant.id} split percentage`}
+                                />
+                                <span className="text-sm text-gray-400">%</span>
+                                {sizes && <span className="text-xs text-gray-500">~{sizes.variants[index].toLocaleString()}</span>}
+                            </div>
+                            {index >= MIN_VARIANTS && (
+                                <button
+                                    type="button"
+                                    onClick={() => removeVariant(index)}
+                                    className="p-1.5 rounded-lg text-gray-400 hover:text-red-300 hover:bg-red-500/10 transition-colors"
+                                    aria-label={`Remove variant ${variant.id}`}
+                                >
+                                    <FiTrash2 size={14} />
+                                </button>
+                            )}
+                        </div>
+                    </div>
+                    {index === 0 ? (
+                        <p className="text-sm text-gray-300 whitespace-pre-wrap break-words bg-black/20 rounded-lg p-3">
+                            {messageTemplate || <span className="text-gray-500">Uses the message above</span>}
+                        </p>
+                    ) : (
+                        <textarea
+                            value={variant.messageTemplate}
+                            onChange={(e) => updateVariant(index, { messageTemplate: e.target.value })}
+                            rows={3}
+                            placeholder={`Message for variant ${variant.id}`}
+                            className={`${inputClassName} resize-none`}
+                        />
+                    )}
+                </div>
+            ))}
+
+            <div className="flex flex-wrap items-center justify-between gap-3">
+                <div className="flex items-center space-x-2">
+                    {variants.length < MAX_VARIANTS && (
+                        <button
+                            type="button"
+                            onClick={addVariant}
+                            className="flex items-center px-3 py-2 bg-blue-500/20 hover:bg-blue-500/30 border border-blue-500/30 text-blue-300 text-sm rounded-lg transition-all duration-200"
+                        >
+                            <FiPlus className="mr-1" size={14} />
+                            Add Variant
+                        </button>
+                    )}
+                    <button
+                        type="button"
+                        onClick={splitEvenly}
+                        className="px-3 py-2 bg-white/10 hover:bg-white/20 border border-white/20 text-gray-300 text-sm rounded-lg transition-all duration-200"
+                    >
+                        Split Evenly
+                    </button>
+                </div>
+                <p className={`text-sm ${testPercentage > 100 ? 'text-red-300' : 'text-gray-400'}`}>
+                    {testPercentage}% in the test
+                    {testPercentage < 100 && (
+                        <>
+                            , {100 - testPercentage}% get the winner
+                            {sizes && ` (~${sizes.winner.toLocaleString()})`}
+                        </>
+                    )}
+                </p>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 pt-2">
+                <div>
+                    <label htmlFor="winnerMetric" className="block text-sm font-medium text-gray-300 mb-2">
+                        Winning Metric
+                    </label>
+                    <select
+                        id="winnerMetric"
+                        value={winnerRule.metric}
+                        onChange={(e) => updateRule({ metric: e.target.value as WinnerMetric })}
+                        className={inputClassName}
+                    >
+                        {WINNER_METRICS.map((metric) => (
+                            <option key={metric.value} value={metric.value} className="bg-gray-800">
+                                {metric.label}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="testDuration" className="block text-sm font-medium text-gray-300 mb-2">
+                        Test Duration
+                    </label>
+                    <select
+                        id="testDuration"
+                        value={winnerRule.durationHours}
+                        onChange={(e) => updateRule({ durationHours: Number(e.target.value) })}
+                        className={inputClassName}
+                    >
+                        {TEST_DURATIONS.map((duration) => (
+                            <option key={duration.value} value={duration.value} className="bg-gray-800">
+                                {duration.label}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="minimumSample" className="block text-sm font-medium text-gray-300 mb-2">
+                        Minimum Sample per Variant
+                    </label>
+                    <input
+                        id="minimumSample"
+                        type="number"
+                        min={1}
+                        value={winnerRule.minimumSample}
+                        onChange={(e) => updateRule({ minimumSample: Number(e.target.value) })}
+                        className={inputClassName}
+                    />
+                </div>
+            </div>
+            {sizes && sizes.variants.some((size) => size < winnerRule.minimumSample) && (
+                <p className="text-sm text-amber-300">
+                    Some variants are expected to reach fewer than {winnerRule.minimumSample.toLocaleString()} customers, so
+                    the test may never pick a winner. Raise their split or lower the minimum sample.
+                </p>
+            )}
+        </div>
+    );
+}
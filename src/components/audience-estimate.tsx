@@ -0,0 +1,144 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { useApiClient } from '@/utils/api-client';
+import { ConditionGroup, collectOrderAggregates } from '@/utils/segment-rules';
+import { Customer, CustomerOrder, estimateAudience, withOrders } from '@/utils/rule-evaluator';
+
+interface AudienceEstimateProps {
+    rules: ConditionGroup;
+    // Rules of saved segments, for segment membership conditions
+    segmentRules?: Record<string, ConditionGroup>;
+}
+
+// Number of customers loaded once and evaluated locally on every rule change
+const SAMPLE_SIZE = 200;
+
+// Number of recent orders loaded once rules use order-history conditions
+const ORDER_SAMPLE_SIZE = 1000;
+
+// Number of matching customers shown under the estimate
+const VISIBLE_MATCHES = 5;
+
+export default function AudienceEstimate({ rules, segmentRules }: AudienceEstimateProps) {
+    const api = useApiClient();
+    const [customers, setCustomers] = useState<Customer[]>([]);
+    const [totalCustomers, setTotalCustomers] = useState<number | undefined>(undefined);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState('');
+    const [orders, setOrders] = useState<CustomerOrder[] | null>(null);
+
+    const usesOrders = useMemo(
+        () => Object.keys(collectOrderAggregates(rules, segmentRules)).length > 0,
+        [rules, segmentRules]
+    );
+
+    // Load the customer sample once
+    useEffect(() => {
+        const fetchSample = async () => {
+            try {
+                setIsLoading(true);
+                const response = await api.customers.getCustomers(1, SAMPLE_SIZE);
+                const data: Customer[] = Array.isArray(response.data) ? response.data : [];
+                setCustomers(data);
+                setTotalCustomers(response.pagination?.total ?? undefined);
+            } catch (err: unknown) {
+                console.error('Error loading customer sample:', err);
+                setError('Live estimate unavailable');
+            } finally {
+                setIsLoading(false);
+            }
+        };
+
+        fetchSample();
+    }, [api.customers]);
+
+    // Load order history the first time an order-history condition appears
+    useEffect(() => {
+        if (!usesOrders || orders !== null) return;
+
+        const fetchOrders = async () => {
+            try {
+                const response = await api.orders.getOrders(1, ORDER_SAMPLE_SIZE);
+                setOrders(Array.isArray(response.data) ? response.data : []);
+            } catch (err: unknown) {
+                console.error('Error loading orders for live estimate:', err);
+                setOrders([]);
+            }
+        };
+
+        fetchOrders();
+    }, [usesOrders, orders, api.orders]);
+
+    const sample = useMemo(
+        () => (orders ? withOrders(customers, orders) : customers),
+        [customers, orders]
+    );
+
+    const estimate = useMemo(
+        () => estimateAudience(rules, sample, totalCustomers, { segmentRules }),
+        [rules, sample, totalCustomers, segmentRules]
+    );
+
+    if (isLoading) {
+        return (
+            <div className="flex items-center p-4 bg-white/5 rounded-xl border border-white/10 text-sm text-gray-400">
+                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-cyan-400 mr-3"></div>
+                Loading customer sample for live estimate...
+            </div>
+        );
+    }
+
+    if (error || customers.length === 0) {
+        return (
+            <div className="p-4 bg-white/5 rounded-xl border border-white/10 text-sm text-gray-400">
+                {error || 'No customers loaded for a live estimate'}
+            </div>
+        );
+    }
+
+    return (
+        <div className="p-4 bg-white/5 rounded-xl border border-white/10">
+            <div className="flex items-center justify-between">
+                <div>
+                    <p className="text-sm font-medium text-white">Live Estimate</p>
+                    <p className="text-xs text-gray-400">
+                        {estimate.matched} of {estimate.sampleSize} sampled customers match
+                    </p>
+                    {usesOrders && (
+                        <p className="text-xs text-gray-500">
+                            {orders === null
+                                ? 'Loading order history...'
+                                : `Order history from the latest ${orders.length.toLocaleString()} orders`}
+                        </p>
+                    )}
+                </div>
+                <div className="text-right">
+                    <p className="text-2xl font-bold text-cyan-300">
+                        ≈ {(estimate.estimatedTotal ?? estimate.matched).toLocaleString()}
+                    </p>
+                    <p className="text-xs text-gray-400">Preview Audience for the exact count</p>
+                </div>
+            </div>
+
+            {estimate.matches.length > 0 && (
+                <div className="mt-4 divide-y divide-white/10 border-t border-white/10">
+                    {estimate.matches.slice(0, VISIBLE_MATCHES).map((customer) => (
+                        <div key={customer.id} className="flex items-center justify-between py-2 text-sm">
+                            <div className="min-w-0">
+                                <p className="text-white truncate">
+                                    {`${customer.first_name || ''} ${customer.last_name || ''}`.trim() || customer.email}
+                                </p>
+                                <p className="text-xs text-gray-400 truncate">{customer.email}</p>
+                            </div>
+                            <div className="text-right text-xs text-gray-300 flex-shrink-0 ml-4">
+                                <p>₹{(customer.total_spend || 0).toLocaleString()}</p>
+                                <p>{customer.total_visits || 0} visits</p>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
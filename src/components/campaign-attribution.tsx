@@ -0,0 +1,197 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useApiClient } from '@/utils/api-client';
+import { CampaignChannel } from '@/utils/channels';
+import {
+    ATTRIBUTION_MODELS,
+    ATTRIBUTION_WINDOWS,
+    AttributionModel,
+    AttributionSettings,
+    CampaignAttribution as Attribution,
+    describeAttribution,
+    formatRevenue,
+    formatRoi,
+    getSendCost,
+    normalizeAttributionSettings,
+    parseCampaignAttribution,
+} from '@/utils/attribution';
+
+interface CampaignAttributionProps {
+    campaignId: string;
+    channel: CampaignChannel;
+    // Messages sent, for the send cost
+    sentCount: number;
+}
+
+// Orders, revenue and ROI credited to a campaign. Starts from the workspace window and
+// model, which can be switched here to compare without changing the setting.
+export default function CampaignAttribution({ campaignId, channel, sentCount }: CampaignAttributionProps) {
+    const api = useApiClient();
+    const [settings, setSettings] = useState<AttributionSettings | null>(null);
+    const [windowDays, setWindowDays] = useState<number | null>(null);
+    const [model, setModel] = useState<AttributionModel | null>(null);
+    const [attribution, setAttribution] = useState<Attribution | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        const fetchSettings = async () => {
+            try {
+                const response = await api.settings.getAttributionSettings();
+                setSettings(normalizeAttributionSettings(response.data));
+            } catch (err: unknown) {
+                console.error('Error fetching attribution settings:', err);
+                setSettings(normalizeAttributionSettings(null));
+            }
+        };
+        fetchSettings();
+    }, [api.settings]);
+
+    const selectedWindow = windowDays ?? settings?.windowDays;
+    const selectedModel = model ?? settings?.model;
+    const selected = selectedWindow !== undefined && selectedModel !== undefined
+        ? { windowDays: selectedWindow, model: selectedModel }
+        : null;
+
+    const fetchAttribution = useCallback(async () => {
+        if (!settings || selectedWindow === undefined || selectedModel === undefined) return;
+
+        try {
+            setIsLoading(true);
+            setError('');
+            const response = await api.campaigns.getCampaignAttribution(campaignId, { windowDays: selectedWindow, model: selectedModel });
+            const result = parseCampaignAttribution(response.data, getSendCost(settings, channel, sentCount));
+            setAttribution(result);
+            if (!result) setError('No attribution data for this campaign yet');
+        } catch (err: unknown) {
+            console.error('Error fetching campaign attribution:', err);
+            setError(err instanceof Error ? err.message : 'Failed to load revenue attribution');
+            setAttribution(null);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [api.campaigns, campaignId, channel, sentCount, settings, selectedWindow, selectedModel]);
+
+    useEffect(() => {
+        fetchAttribution();
+    }, [fetchAttribution]);
+
+    const isCustomised = windowDays !== null || model !== null;
+
+    return (
+        <div className="bg-white shadow rounded-lg p-6 mb-8">
+            <div className="flex flex-wrap items-start justify-between gap-3 mb-4">
+                <div>
+                    <h2 className="text-lg font-medium text-gray-900">Revenue Attribution</h2>
+                    {selected && (
+                        <p className="text-sm text-gray-500">
+                            {describeAttribution(selected)}
+                            {isCustomised && (
+                                <button
+                                    onClick={() => {
+                                        setWindowDays(null);
+                                        setModel(null);
+                                    }}
+                                    className="ml-2 text-blue-600 hover:text-blue-800"
+                                >
+                                    Reset to workspace default
+                                </button>
+                            )}
+                        </p>
+                    )}
+                </div>
+                {selected && (
+                    <div className="flex items-center space-x-3">
+                        <select
+                            value={selected.windowDays}
+                            onChange={(e) => setWindowDays(Number(e.target.value))}
+                            className="px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                            aria-label="Attribution window"
+                        >
+                            {ATTRIBUTION_WINDOWS.map((option) => (
+                                <option key={option.value} value={option.value}>
+                                    {option.label}
+                                </option>
+                            ))}
+                            {!ATTRIBUTION_WINDOWS.some((option) => option.value === selected.windowDays) && (
+                                <option value={selected.windowDays}>{selected.windowDays} days</option>
+                            )}
+                        </select>
+                        <select
+                            value={selected.model}
+                            onChange={(e) => setModel(e.target.value as AttributionModel)}
+                            className="px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                            aria-label="Attribution model"
+                        >
+                            {ATTRIBUTION_MODELS.map((option) => (
+                                <option key={option.value} value={option.value}>
+                                    {option.label}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                )}
+            </div>
+
+            {isLoading ? (
+                <div className="flex items-center justify-center py-8">
+                    <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-500"></div>
+                </div>
+            ) : error || !attribution ? (
+                <p className="text-sm text-gray-500">{error}</p>
+            ) : (
+                <>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                        <div>
+                            <p className="text-sm text-gray-500">Attributed Orders</p>
+                            <p className="text-2xl font-semibold text-gray-900">{attribution.orders.toLocaleString()}</p>
+                        </div>
+                        <div>
+                            <p className="text-sm text-gray-500">Revenue</p>
+                            <p className="text-2xl font-semibold text-green-600">{formatRevenue(attribution.revenue)}</p>
+                        </div>
+                        <div>
+                            <p className="text-sm text-gray-500">Send Cost</p>
+                            <p className="text-2xl font-semibold text-gray-900">{formatRevenue(attribution.cost)}</p>
+                        </div>
+                        <div>
+                            <p className="text-sm text-gray-500">ROI</p>
+                            <p className={`text-2xl font-semibold ${attribution.roi !== null && attribution.roi < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                                {formatRoi(attribution.roi)}
+                            </p>
+                        </div>
+                    </div>
+
+                    {attribution.recentOrders.length > 0 && (
+                        <div className="mt-6 overflow-x-auto">
+                            <h3 className="text-sm font-medium text-gray-700 mb-2">Recent attributed orders</h3>
+                            <table className="min-w-full divide-y divide-gray-200">
+                                <thead>
+                                    <tr>
+                                        <th className="py-2 pr-4 text-left text-xs font-medium text-gray-500 uppercase">Order</th>
+                                        <th className="py-2 pr-4 text-left text-xs font-medium text-gray-500 uppercase">Customer</th>
+                                        <th className="py-2 pr-4 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+                                        <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase">Amount</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-gray-100">
+                                    {attribution.recentOrders.map((order) => (
+                                        <tr key={order.id || order.orderNumber}>
+                                            <td className="py-2 pr-4 text-sm font-medium text-gray-900">{order.orderNumber}</td>
+                                            <td className="py-2 pr-4 text-sm text-gray-600">{order.customerName}</td>
+                                            <td className="py-2 pr-4 text-sm text-gray-600">
+                                                {order.orderDate ? new Date(order.orderDate).toLocaleDateString() : '—'}
+                                            </td>
+                                            <td className="py-2 text-sm text-right text-gray-900">{formatRevenue(order.amount)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    );
+}
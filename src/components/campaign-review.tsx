@@ -0,0 +1,184 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/contexts/auth-context';
+import { useApiClient } from '@/utils/api-client';
+import { formatSchedule } from '@/utils/schedule';
+import {
+    ApprovalAction,
+    ReviewEntry,
+    describeReviewAction,
+    getApprovalActionLabel,
+    getApprovalActions,
+    getRequestedSchedule,
+    getSubmitter,
+    isSameReviewer,
+    normalizeReviewHistory,
+    validateReviewComment,
+} from '@/utils/approval';
+import { FiCheck, FiCornerUpLeft, FiMessageCircle, FiSend, FiX } from 'react-icons/fi';
+
+interface CampaignReviewProps {
+    campaign: {
+        id: string;
+        name: string;
+        status: string;
+        scheduled_at?: string;
+        scheduledAt?: string;
+        timezone?: string;
+        created_by?: string;
+    };
+    // Called after the campaign's status changes
+    onReviewed?: () => void;
+}
+
+const ACTION_STYLES: Record<ApprovalAction, string> = {
+    submit: 'bg-gradient-to-r from-blue-500 to-purple-500 hover:from-blue-600 hover:to-purple-600',
+    withdraw: 'bg-white/10 hover:bg-white/20 border border-white/20',
+    approve: 'bg-green-500 hover:bg-green-600',
+    reject: 'bg-red-500 hover:bg-red-600',
+};
+
+const ACTION_ICONS: Record<ApprovalAction, React.ReactNode> = {
+    submit: <FiSend size={16} />,
+    withdraw: <FiCornerUpLeft size={16} />,
+    approve: <FiCheck size={16} />,
+    reject: <FiX size={16} />,
+};
+
+const HISTORY_COLORS: Record<ApprovalAction, string> = {
+    submit: 'text-blue-300',
+    withdraw: 'text-gray-300',
+    approve: 'text-green-300',
+    reject: 'text-red-300',
+};
+
+// Review history and the approval actions open to a campaign in its current status
+export default function CampaignReview({ campaign, onReviewed }: CampaignReviewProps) {
+    const { user } = useAuth();
+    const api = useApiClient();
+    const [history, setHistory] = useState<ReviewEntry[]>([]);
+    const [historyLoaded, setHistoryLoaded] = useState(false);
+    const [comment, setComment] = useState('');
+    const [pendingAction, setPendingAction] = useState<ApprovalAction | null>(null);
+    const [error, setError] = useState('');
+
+    const fetchHistory = useCallback(async () => {
+        try {
+            const response = await api.campaigns.getCampaignReviews(campaign.id);
+            setHistory(normalizeReviewHistory(response.data));
+            setHistoryLoaded(true);
+        } catch (err: unknown) {
+            console.error('Error fetching review history:', err);
+            setHistory([]);
+            setHistoryLoaded(false);
+        }
+    }, [api.campaigns, campaign.id]);
+
+    useEffect(() => {
+        fetchHistory();
+    }, [fetchHistory, campaign.status]);
+
+    // Approve and reject stay hidden until the history shows who submitted the campaign
+    const isOwnSubmission = isSameReviewer(user, getSubmitter(history, campaign.created_by));
+    const actions = getApprovalActions(campaign.status, !historyLoaded || isOwnSubmission);
+    const requestedSchedule = campaign.status === 'submitted' ? getRequestedSchedule(campaign) : null;
+
+    const handleAction = async (action: ApprovalAction) => {
+        const issue = validateReviewComment(action, comment);
+        if (issue) {
+            setError(issue);
+            return;
+        }
+
+        try {
+            setPendingAction(action);
+            setError('');
+            const note = comment.trim() || undefined;
+            if (action === 'submit') {
+                await api.campaigns.submitCampaign(campaign.id, note);
+            } else if (action === 'withdraw') {
+                await api.campaigns.withdrawCampaign(campaign.id);
+            } else if (action === 'approve') {
+                await api.campaigns.approveCampaign(campaign.id, note);
+                // Approved campaigns with a send time go straight onto the schedule
+                const schedule = getRequestedSchedule(campaign);
+                if (schedule) await api.campaigns.scheduleCampaign(campaign.id, schedule);
+            } else {
+                await api.campaigns.rejectCampaign(campaign.id, comment.trim());
+            }
+            setComment('');
+            onReviewed?.();
+        } catch (err: unknown) {
+            console.error(`Error running ${action} on campaign:`, err);
+            setError(err instanceof Error ? err.message : `Failed to ${action} campaign`);
+        } finally {
+            setPendingAction(null);
+        }
+    };
+
+    return (
+        <div className="space-y-4">
+            {history.length > 0 && (
+                <ul className="space-y-3">
+                    {history.map((entry, index) => (
+                        <li key={entry.id || index} className="flex items-start space-x-3">
+                            <FiMessageCircle size={16} className={`mt-0.5 flex-shrink-0 ${HISTORY_COLORS[entry.action]}`} />
+                            <div className="text-sm">
+                                <p className="text-gray-300">
+                                    <span className="font-semibold text-white">{entry.author}</span> {describeReviewAction(entry.action)}
+                                    {entry.createdAt && (
+                                        <span className="text-gray-500"> · {new Date(entry.createdAt).toLocaleString()}</span>
+                                    )}
+                                </p>
+                                {entry.comment && <p className="text-gray-400 mt-1 whitespace-pre-wrap">{entry.comment}</p>}
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            {requestedSchedule && (
+                <p className="text-sm text-cyan-300">
+                    Requested send time {formatSchedule(requestedSchedule)}; it is scheduled once approved.
+                </p>
+            )}
+
+            {campaign.status === 'submitted' && isOwnSubmission && (
+                <p className="text-sm text-gray-400">
+                    You submitted this campaign, so someone else has to approve or reject it.
+                </p>
+            )}
+
+            {actions.length > 0 && (
+                <>
+                    <textarea
+                        value={comment}
+                        onChange={(e) => {
+                            setComment(e.target.value);
+                            setError('');
+                        }}
+                        rows={2}
+                        className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+                        placeholder={campaign.status === 'submitted' ? 'Comment for the author (required to reject)...' : 'Note for the reviewer (optional)...'}
+                    />
+                    {error && <p className="text-sm text-red-400">{error}</p>}
+                    <div className="flex flex-wrap gap-2">
+                        {actions.map((action) => (
+                            <button
+                                key={action}
+                                type="button"
+                                onClick={() => handleAction(action)}
+                                disabled={pendingAction !== null}
+                                className={`px-4 py-2 text-white text-sm font-medium rounded-xl flex items-center space-x-2 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed ${ACTION_STYLES[action]}`}
+                            >
+                                {ACTION_ICONS[action]}
+                                <span>{pendingAction === action ? 'Saving...' : getApprovalActionLabel(action)}</span>
+                            </button>
+                        ))}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+}
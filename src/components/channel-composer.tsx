@@ -0,0 +1,196 @@
+'use client';
+
+import { FiMail, FiMessageCircle, FiSmartphone } from 'react-icons/fi';
+import {
+    CHANNELS,
+    CampaignChannel,
+    ChannelContent,
+    MAX_EMAIL_SUBJECT_LENGTH,
+    MAX_SMS_SEGMENTS,
+    MAX_WHATSAPP_BODY_LENGTH,
+    WHATSAPP_LANGUAGES,
+    countTemplateSms,
+    toWhatsAppTemplate,
+} from '@/utils/channels';
+import { validateTemplate } from '@/utils/message-template';
+import { getNonGsmCharacters } from '@/utils/sms';
+
+const CHANNEL_ICONS: Record<CampaignChannel, typeof FiMail> = {
+    sms: FiSmartphone,
+    email: FiMail,
+    whatsapp: FiMessageCircle,
+};
+
+interface ChannelSelectorProps {
+    value: CampaignChannel;
+    onChange: (channel: CampaignChannel) => void;
+}
+
+// Picks the delivery channel; the composer fields below follow it
+export function ChannelSelector({ value, onChange }: ChannelSelectorProps) {
+    return (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            {CHANNELS.map((channel) => {
+                const Icon = CHANNEL_ICONS[channel.value];
+                const selected = channel.value === value;
+                return (
+                    <button
+                        key={channel.value}
+                        type="button"
+                        onClick={() => onChange(channel.value)}
+                        className={`p-4 rounded-xl border-2 text-left transition-all duration-200 ${
+                            selected
+                                ? 'border-blue-500/50 bg-blue-500/10 shadow-lg'
+                                : 'border-white/20 bg-white/5 hover:border-white/30 hover:bg-white/10'
+                        }`}
+                    >
+                        <div className="flex items-center text-white font-semibold">
+                            <Icon className={`mr-2 ${selected ? 'text-blue-400' : 'text-gray-400'}`} />
+                            {channel.label}
+                        </div>
+                        <p className="text-xs text-gray-400 mt-1">{channel.description}</p>
+                    </button>
+                );
+            })}
+        </div>
+    );
+}
+
+interface ChannelFieldsProps {
+    channel: CampaignChannel;
+    messageTemplate: string;
+    content: ChannelContent;
+    onContentChange: (content: ChannelContent) => void;
+}
+
+const inputClassName =
+    'w-full px-4 py-3 bg-white/10 border border-white/20 rounded-xl text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500/50 transition-all duration-200';
+
+// Channel-specific parts of the message: email subject and HTML body, the SMS
+// segment meter, and the WhatsApp template name, language and variable mapping
+export default function ChannelFields({ channel, messageTemplate, content, onContentChange }: ChannelFieldsProps) {
+    if (channel === 'email') {
+        const email = content.email ?? { subject: '', htmlBody: '' };
+        const updateEmail = (changes: Partial<typeof email>) => onContentChange({ ...content, email: { ...email, ...changes } });
+
+        return (
+            <div className="space-y-4">
+                <div>
+                    <div className="flex items-center justify-between mb-2">
+                        <label htmlFor="emailSubject" className="text-sm font-medium text-gray-300">
+                            Subject *
+                        </label>
+                        <span className={`text-xs ${email.subject.length > MAX_EMAIL_SUBJECT_LENGTH ? 'text-red-300' : 'text-gray-400'}`}>
+                            {email.subject.length}/{MAX_EMAIL_SUBJECT_LENGTH}
+                        </span>
+                    </div>
+                    <input
+                        id="emailSubject"
+                        type="text"
+                        value={email.subject}
+                        onChange={(e) => updateEmail({ subject: e.target.value })}
+                        placeholder={'{{first_name | default: "Hey"}}, your exclusive offer is inside'}
+                        className={inputClassName}
+                    />
+                </div>
+                <div>
+                    <label htmlFor="emailHtmlBody" className="block text-sm font-medium text-gray-300 mb-2">
+                        HTML Body
+                    </label>
+                    <textarea
+                        id="emailHtmlBody"
+                        value={email.htmlBody ?? ''}
+                        onChange={(e) => updateEmail({ htmlBody: e.target.value })}
+                        rows={6}
+                        placeholder={'<h1>Hi {{first_name}}</h1>\n<p>Here\'s something special for you.</p>'}
+                        className={`${inputClassName} font-mono text-sm resize-y`}
+                    />
+                    <p className="mt-2 text-xs text-gray-400">
+                        Optional. Merge fields work here too. Clients that don&apos;t render HTML get the plain-text body below.
+                    </p>
+                </div>
+            </div>
+        );
+    }
+
+    if (channel === 'whatsapp') {
+        const whatsapp = content.whatsapp ?? { templateName: '', language: WHATSAPP_LANGUAGES[0].value };
+        const updateWhatsApp = (changes: Partial<typeof whatsapp>) =>
+            onContentChange({ ...content, whatsapp: { ...whatsapp, ...changes } });
+        const template = messageTemplate && validateTemplate(messageTemplate).length === 0 ? toWhatsAppTemplate(messageTemplate) : null;
+
+        return (
+            <div className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                        <label htmlFor="whatsappTemplateName" className="block text-sm font-medium text-gray-300 mb-2">
+                            Template Name *
+                        </label>
+                        <input
+                            id="whatsappTemplateName"
+                            type="text"
+                            value={whatsapp.templateName}
+                            onChange={(e) => updateWhatsApp({ templateName: e.target.value })}
+                            placeholder="spring_sale_offer"
+                            className={`${inputClassName} font-mono text-sm`}
+                        />
+                    </div>
+                    <div>
+                        <label htmlFor="whatsappLanguage" className="block text-sm font-medium text-gray-300 mb-2">
+                            Language *
+                        </label>
+                        <select
+                            id="whatsappLanguage"
+                            value={whatsapp.language}
+                            onChange={(e) => updateWhatsApp({ language: e.target.value })}
+                            className={inputClassName}
+                        >
+                            {WHATSAPP_LANGUAGES.map((language) => (
+                                <option key={language.value} value={language.value} className="bg-gray-800">
+                                    {language.label}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                </div>
+                {template && (
+                    <div className="bg-black/20 rounded-xl p-4">
+                        <div className="flex items-center justify-between mb-2">
+                            <span className="text-sm font-medium text-gray-300">Template body as submitted</span>
+                            <span className={`text-xs ${template.body.length > MAX_WHATSAPP_BODY_LENGTH ? 'text-red-300' : 'text-gray-400'}`}>
+                                {template.body.length}/{MAX_WHATSAPP_BODY_LENGTH}
+                            </span>
+                        </div>
+                        <p className="text-sm text-white whitespace-pre-wrap break-words font-mono">{template.body}</p>
+                        {template.variables.length > 0 && (
+                            <ul className="mt-3 space-y-1">
+                                {template.variables.map((variable, index) => (
+                                    <li key={index} className="text-xs text-gray-400 font-mono">
+                                        <span className="text-green-300">{`{{${index + 1}}}`}</span> ← {`{{${variable}}}`}
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                )}
+            </div>
+        );
+    }
+
+    const sms = countTemplateSms(messageTemplate);
+    const nonGsmCharacters = getNonGsmCharacters(messageTemplate);
+
+    return (
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-gray-400">
+            <span>{sms.characters} characters before merge fields</span>
+            <span className={sms.segments > MAX_SMS_SEGMENTS ? 'text-red-300' : sms.segments > 1 ? 'text-amber-300' : ''}>
+                {sms.segments}/{MAX_SMS_SEGMENTS} segments ({sms.encoding}, {sms.remaining} left in this segment)
+            </span>
+            {nonGsmCharacters.length > 0 && (
+                <span className="text-amber-300">
+                    {nonGsmCharacters.join(' ')} switch{nonGsmCharacters.length === 1 ? 'es' : ''} the message to UCS-2
+                </span>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,220 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useAuth } from '@/contexts/auth-context';
+import { useApiClient } from '@/utils/api-client';
+import {
+    DELIVERY_LOG_PAGE_SIZE,
+    DELIVERY_STATUSES,
+    DeliveryLogEntry,
+    DeliveryStatus,
+    getDeliveryStatusLabel,
+    normalizeDeliveryLogEntry,
+} from '@/utils/delivery-log';
+
+interface DeliveryLogProps {
+    campaignId: string;
+    failedCount: number;
+    // Called after failed recipients are queued again
+    onRetried?: () => void;
+}
+
+const STATUS_BADGES: Record<DeliveryStatus, string> = {
+    queued: 'bg-gray-100 text-gray-700',
+    sent: 'bg-blue-100 text-blue-800',
+    delivered: 'bg-green-100 text-green-800',
+    failed: 'bg-red-100 text-red-800',
+    bounced: 'bg-orange-100 text-orange-800',
+};
+
+const FRAME_NAME = 'delivery-log-export-frame';
+
+// Every recipient of a campaign with where their message got to, a page at a time
+export default function DeliveryLog({ campaignId, failedCount, onRetried }: DeliveryLogProps) {
+    const { getToken } = useAuth();
+    const api = useApiClient();
+    const frameRef = useRef<HTMLIFrameElement>(null);
+    const [entries, setEntries] = useState<DeliveryLogEntry[]>([]);
+    const [status, setStatus] = useState<DeliveryStatus | ''>('');
+    const [page, setPage] = useState(1);
+    const [pagination, setPagination] = useState({ pages: 1, total: 0 });
+    const [isLoading, setIsLoading] = useState(true);
+    const [isRetrying, setIsRetrying] = useState(false);
+    const [error, setError] = useState('');
+
+    const fetchEntries = useCallback(async () => {
+        try {
+            setIsLoading(true);
+            setError('');
+            const response = await api.campaigns.getDeliveryLog(campaignId, page, DELIVERY_LOG_PAGE_SIZE, status || undefined);
+            const data: Record<string, unknown>[] = Array.isArray(response.data) ? response.data : [];
+            setEntries(data.map(normalizeDeliveryLogEntry));
+            setPagination({ pages: response.pagination?.pages || 1, total: response.pagination?.total ?? data.length });
+        } catch (err: unknown) {
+            console.error('Error fetching delivery log:', err);
+            setError(err instanceof Error ? err.message : 'Failed to load the delivery log');
+            setEntries([]);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [api.campaigns, campaignId, page, status]);
+
+    useEffect(() => {
+        fetchEntries();
+    }, [fetchEntries]);
+
+    const handleStatusChange = (value: DeliveryStatus | '') => {
+        setStatus(value);
+        setPage(1);
+    };
+
+    const handleRetry = async () => {
+        if (!confirm(`Send again to the ${failedCount.toLocaleString()} recipients whose delivery failed?`)) return;
+
+        try {
+            setIsRetrying(true);
+            await api.campaigns.retryFailedDeliveries(campaignId);
+            onRetried?.();
+            await fetchEntries();
+        } catch (err: unknown) {
+            console.error('Error retrying failed deliveries:', err);
+            alert(err instanceof Error ? err.message : 'Failed to retry failed recipients');
+        } finally {
+            setIsRetrying(false);
+        }
+    };
+
+    // A successful export downloads as an attachment and never loads in the frame, so
+    // anything that does load is an error response
+    const handleFrameLoad = () => {
+        const text = frameRef.current?.contentDocument?.body?.textContent;
+        if (!text) return;
+
+        try {
+            setError(JSON.parse(text).message || 'Failed to export the delivery log');
+        } catch {
+            setError('Failed to export the delivery log');
+        }
+    };
+
+    return (
+        <div className="bg-white shadow rounded-lg p-6 mb-8">
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                <div>
+                    <h2 className="text-lg font-medium text-gray-900">Delivery Log</h2>
+                    <p className="text-sm text-gray-500">
+                        {pagination.total.toLocaleString()} {status ? getDeliveryStatusLabel(status).toLowerCase() : ''} recipient{pagination.total === 1 ? '' : 's'}
+                    </p>
+                </div>
+                <div className="flex items-center space-x-3">
+                    <select
+                        value={status}
+                        onChange={(e) => handleStatusChange(e.target.value as DeliveryStatus | '')}
+                        className="px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        aria-label="Filter by status"
+                    >
+                        <option value="">All statuses</option>
+                        {DELIVERY_STATUSES.map((option) => (
+                            <option key={option.value} value={option.value}>
+                                {option.label}
+                            </option>
+                        ))}
+                    </select>
+                    <form method="POST" action={`/api/campaigns/${campaignId}/deliveries/export`} target={FRAME_NAME} onSubmit={() => setError('')}>
+                        <input type="hidden" name="token" value={getToken() || ''} />
+                        <input type="hidden" name="status" value={status} />
+                        <button
+                            type="submit"
+                            className="px-3 py-1.5 text-sm font-medium rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50 transition-colors"
+                        >
+                            Export CSV
+                        </button>
+                    </form>
+                    {failedCount > 0 && (
+                        <button
+                            onClick={handleRetry}
+                            disabled={isRetrying}
+                            className="px-3 py-1.5 text-sm font-medium rounded-md bg-red-600 text-white hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            {isRetrying ? 'Retrying...' : 'Retry Failed'}
+                        </button>
+                    )}
+                </div>
+            </div>
+
+            {error && (
+                <div className="bg-red-50 border border-red-200 rounded-lg p-3 mb-4 text-sm text-red-700">{error}</div>
+            )}
+
+            <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                    <thead>
+                        <tr>
+                            <th className="py-2 pr-4 text-left text-xs font-medium text-gray-500 uppercase">Recipient</th>
+                            <th className="py-2 pr-4 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                            <th className="py-2 pr-4 text-left text-xs font-medium text-gray-500 uppercase">Time</th>
+                            <th className="py-2 text-left text-xs font-medium text-gray-500 uppercase">Error</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                        {isLoading ? (
+                            <tr>
+                                <td colSpan={4} className="py-6 text-center text-sm text-gray-500">Loading deliveries...</td>
+                            </tr>
+                        ) : entries.length === 0 ? (
+                            <tr>
+                                <td colSpan={4} className="py-6 text-center text-sm text-gray-500">No deliveries to show</td>
+                            </tr>
+                        ) : (
+                            entries.map((entry) => (
+                                <tr key={entry.id || entry.customerId}>
+                                    <td className="py-3 pr-4 text-sm">
+                                        <p className="font-medium text-gray-900">{entry.name}</p>
+                                        <p className="text-gray-500">{entry.recipient}</p>
+                                    </td>
+                                    <td className="py-3 pr-4 text-sm">
+                                        <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${STATUS_BADGES[entry.status]}`}>
+                                            {getDeliveryStatusLabel(entry.status)}
+                                        </span>
+                                    </td>
+                                    <td className="py-3 pr-4 text-sm text-gray-600 whitespace-nowrap">
+                                        {entry.timestamp ? new Date(entry.timestamp).toLocaleString() : '—'}
+                                    </td>
+                                    <td className="py-3 text-sm text-red-700 max-w-sm truncate" title={entry.error ?? undefined}>
+                                        {entry.error ?? <span className="text-gray-400">—</span>}
+                                    </td>
+                                </tr>
+                            ))
+                        )}
+                    </tbody>
+                </table>
+            </div>
+
+            {pagination.pages > 1 && (
+                <div className="flex items-center justify-between mt-4 text-sm">
+                    <span className="text-gray-500">
+                        Page {page} of {pagination.pages}
+                    </span>
+                    <div className="space-x-2">
+                        <button
+                            onClick={() => setPage(page - 1)}
+                            disabled={page <= 1 || isLoading}
+                            className="px-3 py-1.5 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            Previous
+                        </button>
+                        <button
+                            onClick={() => setPage(page + 1)}
+                            disabled={page >= pagination.pages || isLoading}
+                            className="px-3 py-1.5 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            Next
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            <iframe ref={frameRef} name={FRAME_NAME} onLoad={handleFrameLoad} className="hidden" title="Delivery log export" />
+        </div>
+    );
+}
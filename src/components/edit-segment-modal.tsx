@@ -2,11 +2,12 @@
 
 import { useState, useEffect } from 'react';
 import SegmentRuleBuilder from './segment-rule-builder';
+import { ConditionGroup, RuleInput, countConditions, createDefaultRules, normalizeRules } from '@/utils/segment-rules';
 
 interface SegmentData {
     name: string;
     description?: string;
-    rules?: SegmentRules;
+    rules?: ConditionGroup;
     is_dynamic?: boolean;
     tags?: string[];
 }
@@ -17,7 +18,7 @@ interface Segment {
     description?: string;
     is_dynamic?: boolean;
     tags?: string[];
-    rules?: SegmentRules;
+    rules?: RuleInput;
     audience_size?: number;
 }
 
@@ -28,23 +29,12 @@ interface EditSegmentModalProps {
     onSegmentUpdated: () => void;
     apiClient: {
         segments: {
-            previewAudience: (segmentId: string | null, rules: SegmentRules) => Promise<{ total?: number; count?: number; }>;
-            updateSegment: (id: string, segmentData: Partial<SegmentData>) => Promise<unknown>;
+            previewAudience: (segmentId: string | null, rules: ConditionGroup) => Promise<{ total?: number; count?: number; }>;
+            updateSegment: (id: string, segmentData: Partial<SegmentData>) => Promise<{ versionWarning: string | null }>;
         };
     };
 }
 
-interface Rule {
-    field: string;
-    operator: string;
-    value: string | number | [string | number, string | number];
-}
-
-interface SegmentRules {
-    logic: 'AND' | 'OR';
-    conditions: Rule[];
-}
-
 const AVAILABLE_TAGS = [
     'High Value',
     'Loyal Customer',
@@ -66,12 +56,7 @@ export default function EditSegmentModal({ isOpen, segment, onClose, onSegmentUp
         tags: [] as string[]
     });
     
-    const [rules, setRules] = useState<SegmentRules>({
-        logic: 'AND',
-        conditions: [
-            { field: 'total_spend', operator: '>', value: 0 }
-        ]
-    });
+    const [rules, setRules] = useState<ConditionGroup>(createDefaultRules);
 
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [isPreviewLoading, setIsPreviewLoading] = useState(false);
@@ -88,17 +73,8 @@ export default function EditSegmentModal({ isOpen, segment, onClose, onSegmentUp
                 tags: Array.isArray(segment.tags) ? segment.tags : []
             });
             
-            // Initialize rules from segment
-            if (segment.rules && segment.rules.conditions) {
-                setRules(segment.rules);
-            } else {
-                setRules({
-                    logic: 'AND',
-                    conditions: [
-                        { field: 'total_spend', operator: '>', value: 0 }
-                    ]
-                });
-            }
+            // Initialize rules from segment (older segments are stored in the flat format)
+            setRules(normalizeRules(segment.rules));
             
             setAudienceSize(segment.audience_size || null);
             setError('');
@@ -148,9 +124,10 @@ export default function EditSegmentModal({ isOpen, segment, onClose, onSegmentUp
                 rules
             };
 
-            await apiClient.segments.updateSegment(segment.id, segmentData);
+            const response = await apiClient.segments.updateSegment(segment.id, segmentData);
             onSegmentUpdated();
             onClose();
+            if (response.versionWarning) alert(response.versionWarning);
         } catch (error: unknown) {
             console.error('Error updating segment:', error);
             const errorMessage = error instanceof Error ? error.message : 'Failed to update segment';
@@ -293,6 +270,7 @@ export default function EditSegmentModal({ isOpen, segment, onClose, onSegmentUp
                     <SegmentRuleBuilder
                         rules={rules}
                         onChange={setRules}
+                        segmentId={segment?.id}
                     />
 
                     {/* Audience Preview */}
@@ -302,7 +280,7 @@ export default function EditSegmentModal({ isOpen, segment, onClose, onSegmentUp
                             <button
                                 type="button"
                                 onClick={handlePreviewAudience}
-                                disabled={isPreviewLoading || rules.conditions.length === 0}
+                                disabled={isPreviewLoading || countConditions(rules) === 0}
                                 className="px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                             >
                                 {isPreviewLoading ? (
@@ -352,7 +330,7 @@ export default function EditSegmentModal({ isOpen, segment, onClose, onSegmentUp
                         </button>
                         <button
                             type="submit"
-                            disabled={isSubmitting || !formData.name.trim() || rules.conditions.length === 0}
+                            disabled={isSubmitting || !formData.name.trim() || countConditions(rules) === 0}
                             className="px-6 py-3 bg-gradient-to-r from-amber-500 to-orange-500 text-white rounded-xl hover:from-amber-600 hover:to-orange-600 transition-all duration-200 font-semibold transform hover:scale-105 shadow-lg hover:shadow-xl disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none"
                         >
                             {isSubmitting ? (
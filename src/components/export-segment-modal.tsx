@@ -0,0 +1,221 @@
+'use client';
+
+import { useState, useRef, useEffect } from 'react';
+import { useAuth } from '@/contexts/auth-context';
+import { DEFAULT_EXPORT_COLUMNS, EXPORT_COLUMNS, ExportColumn, ExportFormat } from '@/utils/segment-export';
+
+interface ExportSegmentModalProps {
+    isOpen: boolean;
+    segment: {
+        id: string;
+        name: string;
+        audience_size?: number;
+    } | null;
+    onClose: () => void;
+}
+
+const FRAME_NAME = 'segment-export-frame';
+
+export default function ExportSegmentModal({ isOpen, segment, onClose }: ExportSegmentModalProps) {
+    const { getToken } = useAuth();
+    const frameRef = useRef<HTMLIFrameElement>(null);
+    const [format, setFormat] = useState<ExportFormat>('csv');
+    const [columns, setColumns] = useState<ExportColumn[]>(DEFAULT_EXPORT_COLUMNS);
+    const [exportStarted, setExportStarted] = useState(false);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        if (isOpen) {
+            setExportStarted(false);
+            setError('');
+        }
+    }, [isOpen]);
+
+    // Handle backdrop click
+    const handleBackdropClick = (e: React.MouseEvent) => {
+        if (e.target === e.currentTarget) {
+            onClose();
+        }
+    };
+
+    const toggleColumn = (column: ExportColumn) => {
+        setColumns(prev =>
+            prev.includes(column)
+                ? prev.filter(c => c !== column)
+                : [...prev, column]
+        );
+    };
+
+    // The form posts into a hidden frame: a successful export downloads as an attachment
+    // and never loads there, so anything that does load is an error response
+    const handleFrameLoad = () => {
+        const text = frameRef.current?.contentDocument?.body?.textContent;
+        if (!text) return;
+
+        try {
+            setError(JSON.parse(text).message || 'Failed to export segment');
+        } catch {
+            setError('Failed to export segment');
+        }
+        setExportStarted(false);
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        if (columns.length === 0) {
+            e.preventDefault();
+            setError('Select at least one column');
+            return;
+        }
+
+        setError('');
+        setExportStarted(true);
+    };
+
+    if (!isOpen || !segment) return null;
+
+    return (
+        <div
+            className="fixed inset-0 bg-black bg-opacity-60 backdrop-blur-sm flex items-center justify-center z-50 p-4 overflow-y-auto"
+            onClick={handleBackdropClick}
+        >
+            <div className="bg-white rounded-3xl shadow-2xl border border-gray-100 p-0 w-full max-w-2xl max-h-[90vh] overflow-y-auto my-8">
+                {/* Header */}
+                <div className="bg-gradient-to-r from-blue-500 to-purple-500 rounded-t-3xl px-8 py-6">
+                    <div className="flex justify-between items-center">
+                        <div>
+                            <h2 className="text-2xl font-bold text-white">
+                                Export Members
+                            </h2>
+                            <p className="text-blue-100 mt-1 text-sm">
+                                Download every customer in &quot;{segment.name}&quot;
+                                {segment.audience_size !== undefined && ` (${segment.audience_size.toLocaleString()} customers)`}
+                            </p>
+                        </div>
+                        <button
+                            onClick={onClose}
+                            className="text-white hover:text-gray-200 transition-colors rounded-full p-2 hover:bg-white hover:bg-opacity-20"
+                        >
+                            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                            </svg>
+                        </button>
+                    </div>
+                </div>
+
+                {/* Form */}
+                <form
+                    method="POST"
+                    action={`/api/segments/${segment.id}/export`}
+                    target={FRAME_NAME}
+                    onSubmit={handleSubmit}
+                    className="p-8 space-y-6"
+                >
+                    <input type="hidden" name="token" value={getToken() || ''} />
+
+                    {/* Error Message */}
+                    {error && (
+                        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+                            <p className="text-red-700">{error}</p>
+                        </div>
+                    )}
+
+                    {/* Format */}
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-3">
+                            Format
+                        </label>
+                        <div className="flex space-x-3">
+                            {(['csv', 'json'] as ExportFormat[]).map((value) => (
+                                <label
+                                    key={value}
+                                    className={`px-4 py-2 rounded-lg border cursor-pointer text-sm font-medium transition-colors ${
+                                        format === value
+                                            ? 'bg-blue-500 border-blue-500 text-white'
+                                            : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                                    }`}
+                                >
+                                    <input
+                                        type="radio"
+                                        name="format"
+                                        value={value}
+                                        checked={format === value}
+                                        onChange={() => setFormat(value)}
+                                        className="sr-only"
+                                    />
+                                    {value.toUpperCase()}
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+
+                    {/* Columns */}
+                    <div>
+                        <div className="flex items-center justify-between mb-3">
+                            <label className="block text-sm font-medium text-gray-700">
+                                Columns
+                            </label>
+                            <div className="space-x-3 text-sm">
+                                <button
+                                    type="button"
+                                    onClick={() => setColumns(EXPORT_COLUMNS.map(c => c.value))}
+                                    className="text-blue-600 hover:text-blue-700"
+                                >
+                                    Select all
+                                </button>
+                                <button
+                                    type="button"
+                                    onClick={() => setColumns([])}
+                                    className="text-gray-500 hover:text-gray-700"
+                                >
+                                    Clear
+                                </button>
+                            </div>
+                        </div>
+                        <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                            {EXPORT_COLUMNS.map((column) => (
+                                <label key={column.value} className="flex items-center space-x-2 text-sm text-gray-700">
+                                    <input
+                                        type="checkbox"
+                                        name="columns"
+                                        value={column.value}
+                                        checked={columns.includes(column.value)}
+                                        onChange={() => toggleColumn(column.value)}
+                                        className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                                    />
+                                    <span>{column.label}</span>
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+
+                    {exportStarted && (
+                        <div className="bg-green-50 border border-green-200 rounded-lg p-4">
+                            <p className="text-green-700 text-sm">
+                                Export started. The file downloads as it is generated, which can take a while for large segments.
+                            </p>
+                        </div>
+                    )}
+
+                    {/* Actions */}
+                    <div className="flex justify-end space-x-3 pt-2">
+                        <button
+                            type="button"
+                            onClick={onClose}
+                            className="px-6 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                        >
+                            Close
+                        </button>
+                        <button
+                            type="submit"
+                            className="px-6 py-2 bg-gradient-to-r from-blue-500 to-purple-500 text-white rounded-lg hover:from-blue-600 hover:to-purple-600 transition-colors"
+                        >
+                            Export {format.toUpperCase()}
+                        </button>
+                    </div>
+                </form>
+
+                <iframe ref={frameRef} name={FRAME_NAME} onLoad={handleFrameLoad} className="hidden" title="Segment export" />
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,117 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { FiMoon, FiShield } from 'react-icons/fi';
+import { useApiClient } from '@/utils/api-client';
+import { CampaignChannel } from '@/utils/channels';
+import {
+    DeliveryRules,
+    SuppressionPreview,
+    describeFrequencyCap,
+    describeQuietHours,
+    isInQuietHours,
+    normalizeDeliveryRules,
+    parseSuppressionPreview,
+} from '@/utils/delivery-rules';
+
+interface FrequencyCapEstimateProps {
+    segmentId: string;
+    channel: CampaignChannel;
+    // Local HH:mm of a scheduled send, checked against quiet hours
+    scheduledTime?: string;
+}
+
+// The workspace's delivery rules and how much of this audience they hold back
+export default function FrequencyCapEstimate({ segmentId, channel, scheduledTime }: FrequencyCapEstimateProps) {
+    const api = useApiClient();
+    const [rules, setRules] = useState<DeliveryRules | null>(null);
+    const [preview, setPreview] = useState<SuppressionPreview | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        const fetchEstimate = async () => {
+            try {
+                setIsLoading(true);
+                setError('');
+                const rulesResponse = await api.settings.getDeliveryRules();
+                const deliveryRules = normalizeDeliveryRules(rulesResponse.data);
+                setRules(deliveryRules);
+
+                if (deliveryRules.frequencyCap.enabled || deliveryRules.quietHours.enabled) {
+                    const previewResponse = await api.campaigns.previewSuppression(segmentId, channel);
+                    setPreview(parseSuppressionPreview(previewResponse.data));
+                } else {
+                    setPreview(null);
+                }
+            } catch (err: unknown) {
+                console.error('Error loading suppression preview:', err);
+                setError(err instanceof Error ? err.message : 'Failed to check delivery rules');
+            } finally {
+                setIsLoading(false);
+            }
+        };
+
+        fetchEstimate();
+    }, [api.settings, api.campaigns, segmentId, channel]);
+
+    if (isLoading) {
+        return <p className="text-sm text-gray-400">Checking delivery rules...</p>;
+    }
+
+    if (error || !rules) {
+        return <p className="text-sm text-amber-300">{error || 'Delivery rules unavailable'}</p>;
+    }
+
+    const { frequencyCap, quietHours } = rules;
+
+    if (!frequencyCap.enabled && !quietHours.enabled) {
+        return (
+            <p className="text-sm text-gray-400">
+                No frequency cap or quiet hours are set, so everyone in the audience will be messaged.{' '}
+                <Link href="/settings" className="text-blue-300 hover:text-blue-200">Set them up</Link>
+            </p>
+        );
+    }
+
+    return (
+        <div className="space-y-3">
+            <div className="flex items-start">
+                <FiShield className="mt-0.5 mr-3 text-blue-300 flex-shrink-0" />
+                <div>
+                    <p className="text-white font-medium">{describeFrequencyCap(frequencyCap)}</p>
+                    {frequencyCap.enabled && preview && (
+                        <p className={`text-sm ${preview.suppressed > 0 ? 'text-amber-300' : 'text-gray-400'}`}>
+                            {preview.suppressed > 0
+                                ? `${preview.suppressed.toLocaleString()} of ${preview.audienceSize.toLocaleString()} customers have reached the cap and will be skipped`
+                                : 'Nobody in this audience has reached the cap'}
+                        </p>
+                    )}
+                </div>
+            </div>
+            <div className="flex items-start">
+                <FiMoon className="mt-0.5 mr-3 text-violet-300 flex-shrink-0" />
+                <div>
+                    <p className="text-white font-medium">{describeQuietHours(quietHours)}</p>
+                    {scheduledTime && isInQuietHours(scheduledTime, quietHours) && (
+                        <p className="text-sm text-amber-300">
+                            {scheduledTime} is inside quiet hours, so customers in the schedule&apos;s timezone will get it at {quietHours.end}
+                        </p>
+                    )}
+                    {!scheduledTime && quietHours.enabled && preview && preview.deferred > 0 && (
+                        <p className="text-sm text-gray-400">
+                            {preview.deferred.toLocaleString()} customers are in quiet hours right now; if sent now they get it at {quietHours.end} their time
+                        </p>
+                    )}
+                </div>
+            </div>
+            {frequencyCap.enabled && !preview && (
+                <p className="text-sm text-gray-400">The number of capped customers couldn&apos;t be worked out for this audience.</p>
+            )}
+            <Link href="/settings" className="inline-block text-sm text-blue-300 hover:text-blue-200">
+                Change delivery rules
+            </Link>
+        </div>
+    );
+}
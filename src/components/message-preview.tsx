@@ -0,0 +1,202 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { FiAlertTriangle, FiChevronLeft, FiChevronRight, FiEye } from 'react-icons/fi';
+import { useApiClient } from '@/utils/api-client';
+import { Customer } from '@/utils/rule-evaluator';
+import { TemplateSyntaxError, getTemplateField, parseTemplate, renderTemplate } from '@/utils/message-template';
+import { countSms } from '@/utils/sms';
+import { CampaignChannel, DEFAULT_CHANNEL } from '@/utils/channels';
+
+interface MessagePreviewProps {
+    template: string;
+    segmentId: string;
+    channel?: CampaignChannel;
+    // Email subject, rendered above the body
+    subject?: string;
+}
+
+type PreviewCustomer = Partial<Customer> & { name?: string };
+
+// Previews may return full customers or just `name`/`email`; split `name` so
+// first_name/last_name variables still render
+const toPreviewCustomer = (sample: PreviewCustomer): PreviewCustomer => {
+    if (sample.first_name || !sample.name) return sample;
+    const [first, ...rest] = sample.name.split(' ');
+    return { ...sample, first_name: first, last_name: sample.last_name ?? rest.join(' ') };
+};
+
+const customerLabel = (customer: PreviewCustomer): string =>
+    [customer.first_name, customer.last_name].filter(Boolean).join(' ') || customer.email || customer.id || 'Unknown customer';
+
+// Cycles through sample customers from the segment's audience preview, rendering
+// the template for each one
+export default function MessagePreview({ template, segmentId, channel = DEFAULT_CHANNEL, subject = '' }: MessagePreviewProps) {
+    const api = useApiClient();
+    const [customers, setCustomers] = useState<PreviewCustomer[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [index, setIndex] = useState(0);
+
+    useEffect(() => {
+        if (!segmentId) return;
+
+        const fetchSample = async () => {
+            try {
+                setLoading(true);
+                const response = await api.segments.previewAudience(segmentId);
+                const preview = response.data || response;
+                setCustomers(Array.isArray(preview?.sample) ? preview.sample.map(toPreviewCustomer) : []);
+                setIndex(0);
+            } catch (error: unknown) {
+                console.error('Error loading preview customers:', error);
+                setCustomers([]);
+            } finally {
+                setLoading(false);
+            }
+        };
+
+        fetchSample();
+    }, [api.segments, segmentId]);
+
+    const parsed = useMemo(() => {
+        try {
+            return { nodes: parseTemplate(template), error: null };
+        } catch (error) {
+            if (error instanceof TemplateSyntaxError) return { nodes: null, error: error.message };
+            throw error;
+        }
+    }, [template]);
+
+    const parsedSubject = useMemo(() => {
+        try {
+            return parseTemplate(subject);
+        } catch (error) {
+            if (error instanceof TemplateSyntaxError) return null;
+            throw error;
+        }
+    }, [subject]);
+
+    const renders = useMemo(
+        () => (parsed.nodes ? customers.map((customer) => renderTemplate(parsed.nodes, customer)) : []),
+        [parsed.nodes, customers]
+    );
+
+    const customer = customers[index];
+    const rendered = renders[index];
+    const renderedSubject = customer && parsedSubject ? renderTemplate(parsedSubject, customer).text : subject;
+    const sms = countSms(rendered?.text ?? '');
+    const recipientsWithEmptyFields = renders.filter((render) => render.emptyFields.length > 0).length;
+
+    const showPrevious = () => setIndex((current) => (current - 1 + customers.length) % customers.length);
+    const showNext = () => setIndex((current) => (current + 1) % customers.length);
+
+    return (
+        <div className="bg-white/5 rounded-2xl p-6 border border-white/10">
+            <div className="flex items-center justify-between mb-4">
+                <h4 className="text-white font-semibold flex items-center">
+                    <FiEye className="mr-2" />
+                    Recipient Preview
+                </h4>
+                {customers.length > 0 && (
+                    <div className="flex items-center space-x-2">
+                        <button
+                            type="button"
+                            onClick={showPrevious}
+                            className="p-1.5 rounded-lg bg-white/10 hover:bg-white/20 text-white transition-colors"
+                            aria-label="Previous customer"
+                        >
+                            <FiChevronLeft size={16} />
+                        </button>
+                        <span className="text-sm text-gray-400">
+                            {index + 1} / {customers.length}
+                        </span>
+                        <button
+                            type="button"
+                            onClick={showNext}
+                            className="p-1.5 rounded-lg bg-white/10 hover:bg-white/20 text-white transition-colors"
+                            aria-label="Next customer"
+                        >
+                            <FiChevronRight size={16} />
+                        </button>
+                    </div>
+                )}
+            </div>
+
+            {loading ? (
+                <div className="flex items-center justify-center h-24">
+                    <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-400"></div>
+                </div>
+            ) : parsed.error ? (
+                <p className="text-sm text-red-300">Can&apos;t preview the template: {parsed.error}</p>
+            ) : !customer || !rendered ? (
+                <p className="text-sm text-gray-400">No sample customers available for this audience.</p>
+            ) : (
+                <>
+                    <p className="text-sm text-gray-400 mb-2">
+                        To <span className="text-white">{customerLabel(customer)}</span>
+                        {customer.email && customerLabel(customer) !== customer.email && ` · ${customer.email}`}
+                    </p>
+
+                    {channel === 'email' && (
+                        <p className="text-sm text-gray-400 mb-2">
+                            Subject: <span className="text-white font-medium">{renderedSubject || 'No subject'}</span>
+                        </p>
+                    )}
+
+                    <div className="bg-black/20 rounded-xl p-4 text-white whitespace-pre-wrap break-words">
+                        {template ? (
+                            rendered.parts.map((part, partIndex) =>
+                                part.empty ? (
+                                    <span
+                                        key={partIndex}
+                                        className="px-1 mx-0.5 rounded border border-dashed border-red-400/60 bg-red-500/20 text-red-300 text-xs font-mono"
+                                        title="This field is empty for this customer"
+                                    >
+                                        {part.field}
+                                    </span>
+                                ) : part.field ? (
+                                    <span
+                                        key={partIndex}
+                                        className={part.fallback ? 'bg-amber-500/20 text-amber-200 rounded' : 'bg-blue-500/20 text-blue-100 rounded'}
+                                        title={part.fallback ? `${getTemplateField(part.field)?.label || part.field} is empty, fallback used` : getTemplateField(part.field)?.label}
+                                    >
+                                        {part.text}
+                                    </span>
+                                ) : (
+                                    <span key={partIndex}>{part.text}</span>
+                                )
+                            )
+                        ) : (
+                            <span className="text-gray-500">Write a message to preview it</span>
+                        )}
+                    </div>
+
+                    <div className="mt-3 flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-gray-400">
+                        <span>{sms.characters} characters</span>
+                        {channel === 'sms' && (
+                            <span className={sms.segments > 1 ? 'text-amber-300' : ''}>
+                                {sms.segments} SMS segment{sms.segments === 1 ? '' : 's'} ({sms.encoding}, {sms.remaining} left)
+                            </span>
+                        )}
+                    </div>
+
+                    {rendered.emptyFields.length > 0 && (
+                        <div className="mt-3 p-3 bg-red-500/10 border border-red-500/30 rounded-xl text-sm text-red-300 flex items-start">
+                            <FiAlertTriangle className="mr-2 mt-0.5 flex-shrink-0" />
+                            <span>
+                                Empty for this customer: {Array.from(new Set(rendered.emptyFields)).join(', ')}. Add a{' '}
+                                <code className="font-mono">default</code> filter to cover it.
+                            </span>
+                        </div>
+                    )}
+
+                    {recipientsWithEmptyFields > 0 && customers.length > 1 && (
+                        <p className="mt-2 text-xs text-gray-400">
+                            {recipientsWithEmptyFields} of {customers.length} sample customers have empty fields
+                        </p>
+                    )}
+                </>
+            )}
+        </div>
+    );
+}
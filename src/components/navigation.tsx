@@ -138,9 +138,92 @@ export default function Navigation() {
                     />
                 </svg>
             ),
+        },
+        {
+            name: 'Campaign Calendar',
+            href: '/campaigns/calendar',
+            icon: (props) => (
+                <svg
+                    xmlns="http://www.w3.org/2000/svg"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                    strokeWidth={1.5}
+                    stroke="currentColor"
+                    {...props}
+                >
+                    <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        d="M6.75 3v2.25M17.25 3v2.25M3 18.75V7.5a2.25 2.25 0 012.25-2.25h13.5A2.25 2.25 0 0121 7.5v11.25m-18 0A2.25 2.25 0 005.25 21h13.5A2.25 2.25 0 0021 18.75m-18 0v-7.5A2.25 2.25 0 015.25 9h13.5A2.25 2.25 0 0121 11.25v7.5"
+                    />
+                </svg>
+            ),
+        },
+        {
+            name: 'Approvals',
+            href: '/campaigns/approvals',
+            icon: (props) => (
+                <svg
+                    xmlns="http://www.w3.org/2000/svg"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                    strokeWidth={1.5}
+                    stroke="currentColor"
+                    {...props}
+                >
+                    <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        d="M9 12.75L11.25 15 15 9.75M21 12c0 1.268-.63 2.39-1.593 3.068a3.745 3.745 0 01-1.043 3.296 3.745 3.745 0 01-3.296 1.043A3.745 3.745 0 0112 21c-1.268 0-2.39-.63-3.068-1.593a3.746 3.746 0 01-3.296-1.043 3.745 3.745 0 01-1.043-3.296A3.745 3.745 0 013 12c0-1.268.63-2.39 1.593-3.068a3.745 3.745 0 011.043-3.296 3.746 3.746 0 013.296-1.043A3.746 3.746 0 0112 3c1.268 0 2.39.63 3.068 1.593a3.746 3.746 0 013.296 1.043 3.746 3.746 0 011.043 3.296A3.745 3.745 0 0121 12z"
+                    />
+                </svg>
+            ),
+        },
+        {
+            name: 'Campaign Templates',
+            href: '/campaigns/templates',
+            icon: (props) => (
+                <svg
+                    xmlns="http://www.w3.org/2000/svg"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                    strokeWidth={1.5}
+                    stroke="currentColor"
+                    {...props}
+                >
+                    <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        d="M15.75 17.25v3.375c0 .621-.504 1.125-1.125 1.125h-9.75a1.125 1.125 0 01-1.125-1.125V7.875c0-.621.504-1.125 1.125-1.125H6.75a9.06 9.06 0 011.5.124m7.5 10.376h3.375c.621 0 1.125-.504 1.125-1.125V11.25c0-4.46-3.243-8.161-7.5-8.876a9.06 9.06 0 00-1.5-.124H9.375c-.621 0-1.125.504-1.125 1.125v3.5m7.5 10.375H9.375a1.125 1.125 0 01-1.125-1.125v-9.25m12 6.625v-1.875a3.375 3.375 0 00-3.375-3.375h-1.5a1.125 1.125 0 01-1.125-1.125v-1.5a3.375 3.375 0 00-3.375-3.375H9.75"
+                    />
+                </svg>
+            ),
+        },
+        {
+            name: 'Settings',
+            href: '/settings',
+            icon: (props) => (
+                <svg
+                    xmlns="http://www.w3.org/2000/svg"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                    strokeWidth={1.5}
+                    stroke="currentColor"
+                    {...props}
+                >
+                    <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        d="M10.5 6h9.75M10.5 6a1.5 1.5 0 11-3 0m3 0a1.5 1.5 0 10-3 0M3.75 6H7.5m3 12h9.75m-9.75 0a1.5 1.5 0 01-3 0m3 0a1.5 1.5 0 00-3 0m-3.75 0H7.5m9-6h3.75m-3.75 0a1.5 1.5 0 01-3 0m3 0a1.5 1.5 0 00-3 0m-9.75 0h9.75"
+                    />
+                </svg>
+            ),
         }
     ];
 
+    // Campaign sub-pages with their own nav entry
+    const campaignSubPages = ['/campaigns/history', '/campaigns/calendar', '/campaigns/approvals', '/campaigns/templates'];
+
     return (
         <div className="flex flex-col h-full bg-gradient-to-b from-slate-900 via-slate-800 to-slate-900 shadow-2xl fixed w-64 inset-y-0 left-0 z-50">
             {/* Logo */}
@@ -162,10 +245,10 @@ export default function Navigation() {
                 <nav className="flex-1 px-4 py-6 space-y-2">
                     {navigation.map((item) => {
                         // More precise path matching to handle sub-routes correctly
-                        const isActive = item.href === '/campaigns/history' 
-                            ? pathname === '/campaigns/history'
+                        const isActive = campaignSubPages.includes(item.href)
+                            ? pathname === item.href
                             : item.href === '/campaigns'
-                            ? pathname === '/campaigns' || (pathname.startsWith('/campaigns') && pathname !== '/campaigns/history')
+                            ? pathname === '/campaigns' || (pathname.startsWith('/campaigns') && !campaignSubPages.includes(pathname))
                             : pathname.startsWith(item.href);
                         return (
                             <Link
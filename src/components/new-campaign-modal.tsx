@@ -3,6 +3,25 @@
 import { useState, useEffect } from 'react';
 import { useApiClient } from '@/utils/api-client';
 import RuleBuilder, { Rule } from '@/components/rule-builder';
+import { countConditions, createDefaultRules, normalizeRules } from '@/utils/segment-rules';
+import {
+    DEFAULT_HOLDOUT_PERCENTAGE,
+    MAX_HOLDOUT_PERCENTAGE,
+    createHoldoutSeed,
+    estimateHoldoutSplit,
+} from '@/utils/holdout';
+import {
+    CHANNELS,
+    CampaignChannel,
+    ChannelContent,
+    DEFAULT_CHANNEL,
+    WHATSAPP_LANGUAGES,
+    countTemplateSms,
+    createChannelContent,
+    pickChannelContent,
+    validateChannelContent,
+} from '@/utils/channels';
+import { validateTemplate } from '@/utils/message-template';
 
 interface NewCampaignModalProps {
     isOpen: boolean;
@@ -17,18 +36,7 @@ export default function NewCampaignModal({ isOpen, onClose, onSuccess }: NewCamp
     const [step, setStep] = useState(1);
     const [name, setName] = useState('');
     const [naturalLanguage, setNaturalLanguage] = useState('');
-    const [rules, setRules] = useState<Rule>({
-        id: 'root',
-        operator: 'AND',
-        conditions: [
-            {
-                id: '1',
-                field: 'total_spend',
-                operation: 'greaterThan',
-                value: 0,
-            },
-        ],
-    });
+    const [rules, setRules] = useState<Rule>(createDefaultRules);
     const [audienceSize, setAudienceSize] = useState<number | null>(null);
     const [previewLoading, setPreviewLoading] = useState(false);
     const [messageTemplate, setMessageTemplate] = useState('');
@@ -40,6 +48,11 @@ export default function NewCampaignModal({ isOpen, onClose, onSuccess }: NewCamp
     const [segmentId, setSegmentId] = useState('');
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [error, setError] = useState<string>('');
+    const [holdoutEnabled, setHoldoutEnabled] = useState(false);
+    const [holdoutPercentage, setHoldoutPercentage] = useState(DEFAULT_HOLDOUT_PERCENTAGE);
+    const [holdoutSeed, setHoldoutSeed] = useState(createHoldoutSeed);
+    const [channel, setChannel] = useState<CampaignChannel>(DEFAULT_CHANNEL);
+    const [channelContent, setChannelContent] = useState<ChannelContent>(() => createChannelContent(DEFAULT_CHANNEL));
 
     // Reset form when modal closes
     useEffect(() => {
@@ -47,18 +60,7 @@ export default function NewCampaignModal({ isOpen, onClose, onSuccess }: NewCamp
             setStep(1);
             setName('');
             setNaturalLanguage('');
-            setRules({
-                id: 'root',
-                operator: 'AND',
-                conditions: [
-                    {
-                        id: '1',
-                        field: 'total_spend',
-                        operation: 'greaterThan',
-                        value: 0,
-                    },
-                ],
-            });
+            setRules(createDefaultRules());
             setAudienceSize(null);
             setMessageTemplate('');
             setObjective('');
@@ -66,6 +68,11 @@ export default function NewCampaignModal({ isOpen, onClose, onSuccess }: NewCamp
             setLookalikeData(null);
             setSegmentId('');
             setError('');
+            setHoldoutEnabled(false);
+            setHoldoutPercentage(DEFAULT_HOLDOUT_PERCENTAGE);
+            setHoldoutSeed(createHoldoutSeed());
+            setChannel(DEFAULT_CHANNEL);
+            setChannelContent(createChannelContent(DEFAULT_CHANNEL));
         }
     }, [isOpen]);
 
@@ -79,8 +86,9 @@ export default function NewCampaignModal({ isOpen, onClose, onSuccess }: NewCamp
             const response = await api.ai.naturalLanguageToRules(naturalLanguage);
 
             if (response.data) {
-                setRules(response.data);
-                handlePreviewAudience(response.data);
+                const parsedRules = normalizeRules(response.data);
+                setRules(parsedRules);
+                handlePreviewAudience(parsedRules);
             }
         } catch (error: unknown) {
             console.error('Error processing natural language:', error);
@@ -120,8 +128,9 @@ export default function NewCampaignModal({ isOpen, onClose, onSuccess }: NewCamp
             if (response.data) {
                 setLookalikeData(response.data);
                 if (response.data.rules) {
-                    setRules(response.data.rules);
-                    handlePreviewAudience(response.data.rules);
+                    const lookalikeRules = normalizeRules(response.data.rules);
+                    setRules(lookalikeRules);
+                    handlePreviewAudience(lookalikeRules);
                 }
             }
         } catch (error: unknown) {
@@ -160,6 +169,15 @@ export default function NewCampaignModal({ isOpen, onClose, onSuccess }: NewCamp
         setMessageTemplate(suggestion);
     };
 
+    const templateIssues = validateTemplate(messageTemplate);
+    const channelIssues = validateChannelContent(channel, messageTemplate, channelContent);
+    const sms = countTemplateSms(messageTemplate);
+
+    const handleChannelChange = (next: CampaignChannel) => {
+        setChannel(next);
+        setChannelContent((current) => ({ ...createChannelContent(next), ...current }));
+    };
+
     // Handle form submission
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
@@ -172,12 +190,23 @@ export default function NewCampaignModal({ isOpen, onClose, onSuccess }: NewCamp
                     rules,
                     description: naturalLanguage || undefined,
                 });
+                if (segmentResponse.versionWarning) alert(segmentResponse.versionWarning);
 
                 if (segmentResponse.data?.id) {
                     setSegmentId(segmentResponse.data.id);
                     setStep(2);
                 }
             } else if (step === 2) {
+                // Unknown merge fields would go out as blanks
+                if (templateIssues.length > 0) {
+                    setError(`Fix the message template before launching: ${templateIssues[0].message}`);
+                    return;
+                }
+                if (channelIssues.length > 0) {
+                    setError(channelIssues[0]);
+                    return;
+                }
+
                 // Create campaign
                 setIsSubmitting(true);
                 const campaignResponse = await api.campaigns.createCampaign({
@@ -185,6 +214,9 @@ export default function NewCampaignModal({ isOpen, onClose, onSuccess }: NewCamp
                     segmentId,
                     messageTemplate,
                     objective: objective || undefined,
+                    holdout: holdoutEnabled ? { percentage: holdoutPercentage, seed: holdoutSeed } : undefined,
+                    channel,
+                    content: pickChannelContent(channel, channelContent),
                 });
 
                 if (campaignResponse.success) {
@@ -348,6 +380,7 @@ export default function NewCampaignModal({ isOpen, onClose, onSuccess }: NewCamp
                                         value={rules}
                                         onChange={setRules}
                                         onPreview={handlePreviewAudience}
+                                        showEstimate
                                     />
                                 </div>
 
@@ -511,21 +544,141 @@ export default function NewCampaignModal({ isOpen, onClose, onSuccess }: NewCamp
                                 {/* Message Template */}
                                 <div className="bg-gradient-to-br from-purple-50 to-pink-50 p-6 rounded-xl border border-purple-200">
                                     <label className="block text-sm font-semibold text-slate-700 mb-3">
-                                        📝 Message Template *
+                                        📡 Channel
+                                    </label>
+                                    <div className="flex space-x-2 mb-4">
+                                        {CHANNELS.map((option) => (
+                                            <button
+                                                key={option.value}
+                                                type="button"
+                                                onClick={() => handleChannelChange(option.value)}
+                                                className={`px-4 py-2 rounded-lg border text-sm font-medium transition-all ${
+                                                    channel === option.value
+                                                        ? 'border-purple-500 bg-purple-600 text-white shadow-md'
+                                                        : 'border-purple-300 bg-white/80 text-slate-700 hover:bg-purple-50'
+                                                }`}
+                                            >
+                                                {option.label}
+                                            </button>
+                                        ))}
+                                    </div>
+
+                                    {channel === 'email' && (
+                                        <div className="space-y-3 mb-4">
+                                            <input
+                                                type="text"
+                                                value={channelContent.email?.subject ?? ''}
+                                                onChange={(e) => setChannelContent({ ...channelContent, email: { ...channelContent.email, subject: e.target.value } })}
+                                                className="w-full px-4 py-3 rounded-lg border border-purple-300 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 transition-all bg-white/80 backdrop-blur-sm"
+                                                placeholder="Subject *"
+                                            />
+                                            <textarea
+                                                value={channelContent.email?.htmlBody ?? ''}
+                                                onChange={(e) => setChannelContent({ ...channelContent, email: { subject: '', ...channelContent.email, htmlBody: e.target.value } })}
+                                                rows={4}
+                                                className="w-full px-4 py-3 rounded-lg border border-purple-300 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 transition-all bg-white/80 backdrop-blur-sm font-mono text-sm"
+                                                placeholder="HTML body (optional)"
+                                            />
+                                        </div>
+                                    )}
+
+                                    {channel === 'whatsapp' && (
+                                        <div className="grid grid-cols-2 gap-3 mb-4">
+                                            <input
+                                                type="text"
+                                                value={channelContent.whatsapp?.templateName ?? ''}
+                                                onChange={(e) => setChannelContent({ ...channelContent, whatsapp: { language: WHATSAPP_LANGUAGES[0].value, ...channelContent.whatsapp, templateName: e.target.value } })}
+                                                className="px-4 py-3 rounded-lg border border-purple-300 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 transition-all bg-white/80 backdrop-blur-sm font-mono text-sm"
+                                                placeholder="Template name *"
+                                            />
+                                            <select
+                                                value={channelContent.whatsapp?.language ?? WHATSAPP_LANGUAGES[0].value}
+                                                onChange={(e) => setChannelContent({ ...channelContent, whatsapp: { templateName: '', ...channelContent.whatsapp, language: e.target.value } })}
+                                                className="px-4 py-3 rounded-lg border border-purple-300 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 transition-all bg-white/80 backdrop-blur-sm"
+                                            >
+                                                {WHATSAPP_LANGUAGES.map((language) => (
+                                                    <option key={language.value} value={language.value}>
+                                                        {language.label}
+                                                    </option>
+                                                ))}
+                                            </select>
+                                        </div>
+                                    )}
+
+                                    <label className="block text-sm font-semibold text-slate-700 mb-3">
+                                        📝 {channel === 'email' ? 'Plain-text Body' : channel === 'whatsapp' ? 'Template Body' : 'Message Template'} *
                                     </label>
                                     <textarea
                                         value={messageTemplate}
                                         onChange={(e) => setMessageTemplate(e.target.value)}
                                         rows={4}
                                         className="w-full px-4 py-3 rounded-lg border border-purple-300 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 transition-all bg-white/80 backdrop-blur-sm resize-none"
-                                        placeholder="Hi {firstName}, here's a special offer just for you!"
+                                        placeholder={'Hi {{first_name | default: "there"}}, here\'s a special offer just for you!'}
                                         required
                                     />
+                                    {messageTemplate && templateIssues.length > 0 && (
+                                        <ul className="mt-2 space-y-1">
+                                            {templateIssues.map((issue, index) => (
+                                                <li key={index} className="text-xs text-red-600">• {issue.message}</li>
+                                            ))}
+                                        </ul>
+                                    )}
+                                    {channel === 'sms' && messageTemplate && (
+                                        <p className="text-xs text-slate-500 mt-2">
+                                            {sms.segments} SMS segment{sms.segments === 1 ? '' : 's'} before merge fields ({sms.encoding})
+                                        </p>
+                                    )}
+                                    {channelIssues.length > 0 && (messageTemplate || channel !== 'sms') && (
+                                        <ul className="mt-2 space-y-1">
+                                            {channelIssues.map((issue, index) => (
+                                                <li key={index} className="text-xs text-amber-700">• {issue}</li>
+                                            ))}
+                                        </ul>
+                                    )}
                                     <p className="text-xs text-slate-600 mt-2">
-                                        Use <code className="bg-purple-100 px-1 rounded">{'{firstName}'}</code>, <code className="bg-purple-100 px-1 rounded">{'{lastName}'}</code>, and <code className="bg-purple-100 px-1 rounded">{'{email}'}</code> as placeholders
+                                        Use <code className="bg-purple-100 px-1 rounded">{'{{first_name}}'}</code>, <code className="bg-purple-100 px-1 rounded">{'{{total_spend | currency}}'}</code>, <code className="bg-purple-100 px-1 rounded">{'{{last_visit_date | relative}}'}</code> or <code className="bg-purple-100 px-1 rounded">{'{{first_name | default: "there"}}'}</code> to personalize
                                     </p>
                                 </div>
 
+                                {/* Holdout Group */}
+                                <div className="bg-gradient-to-br from-slate-50 to-gray-50 p-6 rounded-xl border border-slate-200">
+                                    <label className="flex items-center cursor-pointer">
+                                        <input
+                                            type="checkbox"
+                                            checked={holdoutEnabled}
+                                            onChange={(e) => setHoldoutEnabled(e.target.checked)}
+                                            className="w-4 h-4 text-purple-600 border-slate-300 rounded focus:ring-purple-500"
+                                        />
+                                        <span className="ml-3 text-sm font-semibold text-slate-700">🧪 Hold out a control group</span>
+                                    </label>
+                                    <p className="text-xs text-slate-600 mt-2">
+                                        Held-out customers are never messaged, so their orders show what would have happened without this campaign.
+                                    </p>
+
+                                    {holdoutEnabled && (
+                                        <div className="mt-4">
+                                            <div className="flex items-center justify-between mb-2 text-sm">
+                                                <span className="font-medium text-slate-700">Holdout size</span>
+                                                <span className="font-semibold text-purple-600">{holdoutPercentage}%</span>
+                                            </div>
+                                            <input
+                                                type="range"
+                                                min={1}
+                                                max={MAX_HOLDOUT_PERCENTAGE}
+                                                value={holdoutPercentage}
+                                                onChange={(e) => setHoldoutPercentage(Number(e.target.value))}
+                                                className="w-full accent-purple-600"
+                                            />
+                                            {audienceSize !== null && (
+                                                <p className="text-xs text-slate-600 mt-2">
+                                                    ~{estimateHoldoutSplit(audienceSize, holdoutPercentage).treatment.toLocaleString()} customers messaged,
+                                                    ~{estimateHoldoutSplit(audienceSize, holdoutPercentage).control.toLocaleString()} held out
+                                                </p>
+                                            )}
+                                        </div>
+                                    )}
+                                </div>
+
                                 {/* Schedule Recommendation */}
                                 <div className="bg-gradient-to-br from-indigo-50 to-blue-50 p-6 rounded-xl border border-indigo-200">
                                     <h3 className="text-lg font-semibold text-slate-800 mb-3 flex items-center">
@@ -572,7 +725,7 @@ export default function NewCampaignModal({ isOpen, onClose, onSuccess }: NewCamp
                             <button
                                 onClick={handleSubmit}
                                 disabled={
-                                    (step === 1 && (!name || rules.conditions.length === 0)) ||
+                                    (step === 1 && (!name || countConditions(rules) === 0)) ||
                                     (step === 2 && !messageTemplate) ||
                                     isSubmitting
                                 }
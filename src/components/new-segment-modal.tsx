@@ -2,22 +2,12 @@
 
 import { useState, useEffect } from 'react';
 import SegmentRuleBuilder from './segment-rule-builder';
-
-interface Rule {
-    field: string;
-    operator: string;
-    value: string | number | [string | number, string | number];
-}
-
-interface SegmentRules {
-    logic: 'AND' | 'OR';
-    conditions: Rule[];
-}
+import { ConditionGroup, countConditions, createDefaultRules } from '@/utils/segment-rules';
 
 interface SegmentData {
     name: string;
     description?: string;
-    rules?: SegmentRules;
+    rules?: ConditionGroup;
     is_dynamic?: boolean;
     tags?: string[];
 }
@@ -28,8 +18,8 @@ interface NewSegmentModalProps {
     onSegmentCreated: () => void;
     apiClient: {
         segments: {
-            previewAudience: (param1: null, rules: SegmentRules) => Promise<{total?: number; count?: number}>;
-            createSegment: (data: SegmentData) => Promise<unknown>;
+            previewAudience: (param1: null, rules: ConditionGroup) => Promise<{total?: number; count?: number}>;
+            createSegment: (data: SegmentData) => Promise<{ versionWarning: string | null }>;
         };
     };
 }
@@ -55,12 +45,7 @@ export default function NewSegmentModal({ isOpen, onClose, onSegmentCreated, api
         tags: [] as string[]
     });
     
-    const [rules, setRules] = useState<SegmentRules>({
-        logic: 'AND',
-        conditions: [
-            { field: 'total_spend', operator: '>', value: 0 }
-        ]
-    });
+    const [rules, setRules] = useState<ConditionGroup>(createDefaultRules);
 
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [isPreviewLoading, setIsPreviewLoading] = useState(false);
@@ -76,12 +61,7 @@ export default function NewSegmentModal({ isOpen, onClose, onSegmentCreated, api
                 is_dynamic: true,
                 tags: []
             });
-            setRules({
-                logic: 'AND',
-                conditions: [
-                    { field: 'total_spend', operator: '>', value: 0 }
-                ]
-            });
+            setRules(createDefaultRules());
             setAudienceSize(null);
             setError('');
         }
@@ -123,9 +103,10 @@ export default function NewSegmentModal({ isOpen, onClose, onSegmentCreated, api
                 rules
             };
 
-            await apiClient.segments.createSegment(segmentData);
+            const response = await apiClient.segments.createSegment(segmentData);
             onSegmentCreated();
             onClose();
+            if (response.versionWarning) alert(response.versionWarning);
         } catch (error: unknown) {
             console.error('Error creating segment:', error);
             setError(error instanceof Error ? error.message : 'Failed to create segment');
@@ -276,7 +257,7 @@ export default function NewSegmentModal({ isOpen, onClose, onSegmentCreated, api
                             <button
                                 type="button"
                                 onClick={handlePreviewAudience}
-                                disabled={isPreviewLoading || rules.conditions.length === 0}
+                                disabled={isPreviewLoading || countConditions(rules) === 0}
                                 className="px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                             >
                                 {isPreviewLoading ? (
@@ -326,7 +307,7 @@ export default function NewSegmentModal({ isOpen, onClose, onSegmentCreated, api
                         </button>
                         <button
                             type="submit"
-                            disabled={isSubmitting || !formData.name.trim() || rules.conditions.length === 0}
+                            disabled={isSubmitting || !formData.name.trim() || countConditions(rules) === 0}
                             className="px-6 py-3 bg-gradient-to-r from-blue-500 to-purple-600 text-white rounded-xl hover:from-blue-600 hover:to-purple-700 transition-all duration-200 font-semibold transform hover:scale-105 shadow-lg hover:shadow-xl disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none"
                         >
                             {isSubmitting ? (
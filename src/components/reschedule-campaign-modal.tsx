@@ -0,0 +1,152 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useApiClient } from '@/utils/api-client';
+import {
+    CampaignSchedule,
+    ZonedDateTime,
+    createSchedule,
+    formatSchedule,
+    getBrowserTimezone,
+    getDefaultScheduleTime,
+    getTimezoneOptions,
+    utcToZonedTime,
+    validateSchedule,
+} from '@/utils/schedule';
+
+interface RescheduleCampaignModalProps {
+    campaign: { id: string; name: string; schedule: CampaignSchedule | null } | null;
+    onClose: () => void;
+    onRescheduled?: () => void;
+}
+
+export default function RescheduleCampaignModal({ campaign, onClose, onRescheduled }: RescheduleCampaignModalProps) {
+    const api = useApiClient();
+    const [timezone, setTimezone] = useState(getBrowserTimezone);
+    const [value, setValue] = useState<ZonedDateTime>(() => getDefaultScheduleTime(getBrowserTimezone()));
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState('');
+
+    // Start from the current schedule, shown in the zone it was picked in
+    useEffect(() => {
+        if (!campaign) return;
+        const zone = campaign.schedule?.timezone || getBrowserTimezone();
+        setTimezone(zone);
+        setValue(campaign.schedule ? utcToZonedTime(campaign.schedule.scheduledAt, zone) : getDefaultScheduleTime(zone));
+        setError('');
+    }, [campaign]);
+
+    if (!campaign) return null;
+
+    const issue = validateSchedule(value, timezone);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (issue) {
+            setError(issue);
+            return;
+        }
+
+        try {
+            setIsSaving(true);
+            setError('');
+            await api.campaigns.scheduleCampaign(campaign.id, createSchedule(value, timezone));
+            onRescheduled?.();
+            onClose();
+        } catch (err: unknown) {
+            console.error('Error rescheduling campaign:', err);
+            setError(err instanceof Error ? err.message : 'Failed to reschedule campaign');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+            <form onSubmit={handleSubmit} className="bg-white rounded-2xl shadow-2xl w-full max-w-lg overflow-hidden">
+                <div className="bg-gradient-to-r from-blue-600 to-purple-600 p-6 text-white">
+                    <h2 className="text-xl font-bold">{campaign.schedule ? 'Reschedule' : 'Schedule'} Campaign</h2>
+                    <p className="text-blue-100 text-sm mt-1">{campaign.name}</p>
+                </div>
+
+                <div className="p-6 space-y-4">
+                    {campaign.schedule && (
+                        <p className="text-sm text-slate-600">
+                            Currently scheduled for <span className="font-semibold">{formatSchedule(campaign.schedule)}</span>
+                        </p>
+                    )}
+
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <label htmlFor="rescheduleDate" className="block text-sm font-semibold text-slate-700 mb-2">
+                                Date
+                            </label>
+                            <input
+                                id="rescheduleDate"
+                                type="date"
+                                value={value.date}
+                                onChange={(e) => setValue({ ...value, date: e.target.value })}
+                                className="w-full px-4 py-3 rounded-lg border border-slate-300 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all"
+                            />
+                        </div>
+                        <div>
+                            <label htmlFor="rescheduleTime" className="block text-sm font-semibold text-slate-700 mb-2">
+                                Time
+                            </label>
+                            <input
+                                id="rescheduleTime"
+                                type="time"
+                                value={value.time}
+                                onChange={(e) => setValue({ ...value, time: e.target.value })}
+                                className="w-full px-4 py-3 rounded-lg border border-slate-300 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all"
+                            />
+                        </div>
+                    </div>
+
+                    <div>
+                        <label htmlFor="rescheduleTimezone" className="block text-sm font-semibold text-slate-700 mb-2">
+                            Timezone
+                        </label>
+                        <select
+                            id="rescheduleTimezone"
+                            value={timezone}
+                            onChange={(e) => setTimezone(e.target.value)}
+                            className="w-full px-4 py-3 rounded-lg border border-slate-300 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all"
+                        >
+                            {getTimezoneOptions(timezone).map((zone) => (
+                                <option key={zone} value={zone}>
+                                    {zone.replace(/_/g, ' ')}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+
+                    <p className={`text-sm ${issue ? 'text-amber-600' : 'text-slate-500'}`}>
+                        {issue ?? `Will send ${formatSchedule(createSchedule(value, timezone))}`}
+                    </p>
+
+                    {error && (
+                        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">{error}</div>
+                    )}
+                </div>
+
+                <div className="flex justify-end space-x-3 px-6 py-4 bg-slate-50 border-t border-slate-200">
+                    <button
+                        type="button"
+                        onClick={onClose}
+                        className="px-4 py-2 text-slate-700 bg-white border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        type="submit"
+                        disabled={isSaving || Boolean(issue)}
+                        className="px-4 py-2 bg-gradient-to-r from-blue-600 to-purple-600 text-white rounded-lg hover:from-blue-700 hover:to-purple-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {isSaving ? 'Saving...' : campaign.schedule ? 'Reschedule' : 'Schedule'}
+                    </button>
+                </div>
+            </form>
+        </div>
+    );
+}
@@ -1,91 +1,113 @@
 'use client';
 
-import React from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import AudienceEstimate from './audience-estimate';
+import { useApiClient } from '@/utils/api-client';
+import { RuleDslError, parseRuleDsl, printRuleDsl } from '@/utils/rule-dsl';
+import {
+    Condition,
+    ConditionGroup,
+    RuleInput,
+    RuleValue,
+    RULE_FIELD_GROUPS,
+    RULE_OPERATIONS,
+    createDefaultCondition,
+    findSegmentCycle,
+    generateRuleId,
+    getDefaultValue,
+    getFieldType,
+    isConditionGroup,
+    isRangeOperation,
+    isRelativeDateOperation,
+    normalizeRules,
+    operationNeedsValue,
+    shouldResetValue,
+} from '@/utils/segment-rules';
 
-// Types
-interface Condition {
-    id: string;
-    field: string;
-    operation: string;
-    value: string | number | boolean;
-}
+export type Rule = ConditionGroup;
 
-interface ConditionGroup {
+interface SavedSegment {
     id: string;
-    operator: 'AND' | 'OR';
-    conditions: (Condition | ConditionGroup)[];
+    name: string;
+    rules?: RuleInput;
 }
 
-export type Rule = ConditionGroup;
-
 interface RuleBuilderProps {
     value: Rule;
     onChange: (rule: Rule) => void;
     onPreview?: () => void;
+    // Show a live client-side estimate against a customer sample
+    showEstimate?: boolean;
+    // Saved segment these rules belong to, so it can't reference itself
+    segmentId?: string;
 }
 
-// Available fields and operations
-const FIELDS = [
-    { value: 'email', label: 'Email' },
-    { value: 'total_spend', label: 'Total Spend' },
-    { value: 'total_visits', label: 'Total Visits' },
-    { value: 'last_visit_date', label: 'Last Visit Date' },
-    { value: 'tags', label: 'Tags' },
-];
-
-const OPERATIONS = {
-    string: [
-        { value: 'equals', label: 'Equals' },
-        { value: 'notEquals', label: 'Not Equals' },
-        { value: 'contains', label: 'Contains' },
-        { value: 'notContains', label: 'Not Contains' },
-        { value: 'isEmpty', label: 'Is Empty' },
-        { value: 'isNotEmpty', label: 'Is Not Empty' },
-    ],
-    number: [
-        { value: 'equals', label: 'Equals' },
-        { value: 'notEquals', label: 'Not Equals' },
-        { value: 'greaterThan', label: 'Greater Than' },
-        { value: 'lessThan', label: 'Less Than' },
-        { value: 'isEmpty', label: 'Is Empty' },
-        { value: 'isNotEmpty', label: 'Is Not Empty' },
-    ],
-    date: [
-        { value: 'equals', label: 'Equals' },
-        { value: 'notEquals', label: 'Not Equals' },
-        { value: 'greaterThan', label: 'After' },
-        { value: 'lessThan', label: 'Before' },
-        { value: 'isEmpty', label: 'Is Empty' },
-        { value: 'isNotEmpty', label: 'Is Not Empty' },
-    ],
-    array: [
-        { value: 'contains', label: 'Contains' },
-        { value: 'notContains', label: 'Not Contains' },
-        { value: 'isEmpty', label: 'Is Empty' },
-        { value: 'isNotEmpty', label: 'Is Not Empty' },
-    ],
-};
-
-// Helper function to get field type
-const getFieldType = (field: string): 'string' | 'number' | 'date' | 'array' => {
-    switch (field) {
-        case 'total_spend':
-        case 'total_visits':
-            return 'number';
-        case 'last_visit_date':
-            return 'date';
-        case 'tags':
-            return 'array';
-        default:
-            return 'string';
-    }
-};
-
-// Helper to generate unique IDs
-const generateId = (): string => Math.random().toString(36).substring(2, 11);
-
 // Rule Builder Component
-export default function RuleBuilder({ value, onChange, onPreview }: RuleBuilderProps) {
+export default function RuleBuilder({ value, onChange, onPreview, showEstimate, segmentId }: RuleBuilderProps) {
+    const api = useApiClient();
+    const [savedSegments, setSavedSegments] = useState<SavedSegment[]>([]);
+    const [mode, setMode] = useState<'visual' | 'code'>('visual');
+    const [codeText, setCodeText] = useState('');
+    const [codeError, setCodeError] = useState<RuleDslError | null>(null);
+    // Last rules produced by the code editor, so its own edits don't reprint the text
+    const lastParsed = useRef<Rule | null>(null);
+
+    // Load saved segments for segment membership conditions
+    useEffect(() => {
+        const fetchSegments = async () => {
+            try {
+                setSavedSegments(await api.segments.getAllSegments());
+            } catch (err: unknown) {
+                console.error('Error loading segments:', err);
+            }
+        };
+
+        fetchSegments();
+    }, [api.segments]);
+
+    const segmentRules = useMemo(
+        () =>
+            Object.fromEntries(
+                savedSegments
+                    .filter((segment) => segment.rules)
+                    .map((segment) => [segment.id, normalizeRules(segment.rules)])
+            ),
+        [savedSegments]
+    );
+
+    // Segment references that lead back to a segment already on the path
+    const segmentCycle = useMemo(
+        () => findSegmentCycle(value, segmentRules, segmentId),
+        [value, segmentRules, segmentId]
+    );
+
+    const segmentName = (id: string) => savedSegments.find((segment) => segment.id === id)?.name || id;
+
+    // Reprint the code view when the rules change from outside it
+    useEffect(() => {
+        if (mode === 'code' && value !== lastParsed.current) {
+            setCodeText(printRuleDsl(value));
+            setCodeError(null);
+        }
+    }, [mode, value]);
+
+    // Parse code on every change; only valid text updates the rules
+    const handleCodeChange = (text: string) => {
+        setCodeText(text);
+        try {
+            const parsed = parseRuleDsl(text);
+            lastParsed.current = parsed;
+            setCodeError(null);
+            onChange(parsed);
+        } catch (err: unknown) {
+            if (err instanceof RuleDslError) {
+                setCodeError(err);
+            } else {
+                throw err;
+            }
+        }
+    };
+
     // Handle adding a condition
     const handleAddCondition = (groupId: string) => {
         const updateGroup = (group: ConditionGroup): ConditionGroup => {
@@ -94,12 +116,7 @@ export default function RuleBuilder({ value, onChange, onPreview }: RuleBuilderP
                     ...group,
                     conditions: [
                         ...group.conditions,
-                        {
-                            id: generateId(),
-                            field: 'total_spend',
-                            operation: 'greaterThan',
-                            value: 0,
-                        },
+                        createDefaultCondition(),
                     ],
                 };
             }
@@ -107,7 +124,7 @@ export default function RuleBuilder({ value, onChange, onPreview }: RuleBuilderP
             return {
                 ...group,
                 conditions: group.conditions.map((condition) => {
-                    if ('operator' in condition) {
+                    if (isConditionGroup(condition)) {
                         return updateGroup(condition);
                     }
                     return condition;
@@ -127,16 +144,9 @@ export default function RuleBuilder({ value, onChange, onPreview }: RuleBuilderP
                     conditions: [
                         ...group.conditions,
                         {
-                            id: generateId(),
+                            id: generateRuleId(),
                             operator: 'AND',
-                            conditions: [
-                                {
-                                    id: generateId(),
-                                    field: 'total_spend',
-                                    operation: 'greaterThan',
-                                    value: 0,
-                                },
-                            ],
+                            conditions: [createDefaultCondition()],
                         },
                     ],
                 };
@@ -145,7 +155,7 @@ export default function RuleBuilder({ value, onChange, onPreview }: RuleBuilderP
             return {
                 ...group,
                 conditions: group.conditions.map((condition) => {
-                    if ('operator' in condition) {
+                    if (isConditionGroup(condition)) {
                         return updateGroup(condition);
                     }
                     return condition;
@@ -169,7 +179,7 @@ export default function RuleBuilder({ value, onChange, onPreview }: RuleBuilderP
             return {
                 ...group,
                 conditions: group.conditions.map((condition) => {
-                    if ('operator' in condition) {
+                    if (isConditionGroup(condition)) {
                         return updateGroup(condition);
                     }
                     return condition;
@@ -193,7 +203,7 @@ export default function RuleBuilder({ value, onChange, onPreview }: RuleBuilderP
             return {
                 ...group,
                 conditions: group.conditions.map((condition) => {
-                    if ('operator' in condition) {
+                    if (isConditionGroup(condition)) {
                         return updateGroup(condition);
                     }
                     return condition;
@@ -209,35 +219,42 @@ export default function RuleBuilder({ value, onChange, onPreview }: RuleBuilderP
         groupId: string,
         conditionId: string,
         field: string,
-        paramValue: string | number | boolean
+        paramValue: RuleValue
     ) => {
         const updateGroup = (group: ConditionGroup): ConditionGroup => {
             if (group.id === groupId) {
                 return {
                     ...group,
                     conditions: group.conditions.map((condition) => {
-                        if (condition.id === conditionId && !('operator' in condition)) {
+                        if (condition.id === conditionId && !isConditionGroup(condition)) {
+                            // Reset operation and value if field type changes
+                            if (field === 'field') {
+                                const operation = RULE_OPERATIONS[getFieldType(paramValue as string)][0].value;
+                                return {
+                                    ...condition,
+                                    field: paramValue as string,
+                                    operation,
+                                    value: getDefaultValue(paramValue as string, operation),
+                                };
+                            }
+
+                            // Reset value if the operation changes its shape
+                            if (field === 'operation') {
+                                return {
+                                    ...condition,
+                                    operation: paramValue as string,
+                                    value: shouldResetValue(condition.operation, paramValue as string)
+                                        ? getDefaultValue(condition.field, paramValue as string)
+                                        : condition.value,
+                                };
+                            }
+
                             return {
                                 ...condition,
-                                [field]: paramValue,
-                                // Reset value if field type changes
-                                ...(field === 'field' && {
-                                    operation: OPERATIONS[getFieldType(paramValue as string)][0].value,
-                                    value:
-                                        getFieldType(paramValue as string) === 'number'
-                                            ? 0
-                                            : getFieldType(paramValue as string) === 'date'
-                                                ? new Date().toISOString().slice(0, 10)
-                                                : '',
-                                }),
-                                // Reset value if operation requires no value
-                                ...(field === 'operation' &&
-                                    (paramValue === 'isEmpty' || paramValue === 'isNotEmpty') && {
-                                    value: '',
-                                }),
+                                value: paramValue,
                             };
                         }
-                        if ('operator' in condition) {
+                        if (isConditionGroup(condition)) {
                             return updateGroup(condition);
                         }
                         return condition;
@@ -248,7 +265,7 @@ export default function RuleBuilder({ value, onChange, onPreview }: RuleBuilderP
             return {
                 ...group,
                 conditions: group.conditions.map((condition) => {
-                    if ('operator' in condition) {
+                    if (isConditionGroup(condition)) {
                         return updateGroup(condition);
                     }
                     return condition;
@@ -318,7 +335,7 @@ export default function RuleBuilder({ value, onChange, onPreview }: RuleBuilderP
 
                 <div className="space-y-4">
                     {group.conditions.map((condition) => {
-                        if ('operator' in condition) {
+                        if (isConditionGroup(condition)) {
                             return renderGroup(condition, depth + 1);
                         }
 
@@ -355,8 +372,13 @@ export default function RuleBuilder({ value, onChange, onPreview }: RuleBuilderP
     // Render a condition
     const renderCondition = (groupId: string, condition: Condition) => {
         const fieldType = getFieldType(condition.field);
-        const operations = OPERATIONS[fieldType];
-        const needsValue = condition.operation !== 'isEmpty' && condition.operation !== 'isNotEmpty';
+        const operations = RULE_OPERATIONS[fieldType];
+        const needsValue = operationNeedsValue(condition.operation);
+        const isRange = isRangeOperation(condition.operation);
+        const isRelative = isRelativeDateOperation(condition.operation);
+        // Relative date operations take day counts rather than calendar dates
+        const isDateInput = fieldType === 'date' && !isRelative;
+        const rangeValue = Array.isArray(condition.value) ? condition.value : ['', ''];
 
         return (
             <div key={condition.id} className="flex flex-wrap gap-3 items-center p-4 bg-white/5 rounded-xl border border-white/10 backdrop-blur-sm">
@@ -370,10 +392,14 @@ export default function RuleBuilder({ value, onChange, onPreview }: RuleBuilderP
                                 }
                                 className="bg-white/10 backdrop-blur-sm border border-white/20 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500/50 transition-all duration-200 px-4 py-2 pr-8 appearance-none min-w-0 text-sm"
                             >
-                                {FIELDS.map((field) => (
-                                    <option key={field.value} value={field.value} className="bg-gray-800 text-white">
-                                        {field.label}
-                                    </option>
+                                {RULE_FIELD_GROUPS.map((fieldGroup) => (
+                                    <optgroup key={fieldGroup.label} label={fieldGroup.label} className="bg-gray-800 text-gray-400">
+                                        {fieldGroup.fields.map((field) => (
+                                            <option key={field.value} value={field.value} className="bg-gray-800 text-white">
+                                                {field.label}
+                                            </option>
+                                        ))}
+                                    </optgroup>
                                 ))}
                             </select>
                             <div className="absolute inset-y-0 right-0 flex items-center pr-3 pointer-events-none">
@@ -406,7 +432,61 @@ export default function RuleBuilder({ value, onChange, onPreview }: RuleBuilderP
 
                         {needsValue && (
                             <div className="relative min-w-0 flex-1 group">
-                                {fieldType === 'number' && (
+                                {isRange && (
+                                    <div className="flex items-center gap-2">
+                                        <input
+                                            type={isDateInput ? 'date' : 'number'}
+                                            value={rangeValue[0].toString()}
+                                            onChange={(e) =>
+                                                handleConditionChange(groupId, condition.id, 'value', [
+                                                    isDateInput ? e.target.value : parseFloat(e.target.value) || 0,
+                                                    rangeValue[1],
+                                                ])
+                                            }
+                                            placeholder="Min"
+                                            className="w-full bg-white/10 backdrop-blur-sm border border-white/20 rounded-xl text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-emerald-500/50 focus:border-emerald-500/50 transition-all duration-200 px-4 py-2 text-sm"
+                                        />
+                                        <span className="text-gray-400 text-sm">to</span>
+                                        <input
+                                            type={isDateInput ? 'date' : 'number'}
+                                            value={rangeValue[1].toString()}
+                                            onChange={(e) =>
+                                                handleConditionChange(groupId, condition.id, 'value', [
+                                                    rangeValue[0],
+                                                    isDateInput ? e.target.value : parseFloat(e.target.value) || 0,
+                                                ])
+                                            }
+                                            placeholder="Max"
+                                            className="w-full bg-white/10 backdrop-blur-sm border border-white/20 rounded-xl text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-emerald-500/50 focus:border-emerald-500/50 transition-all duration-200 px-4 py-2 text-sm"
+                                        />
+                                        {isRelative && <span className="text-gray-400 text-sm whitespace-nowrap">days ago</span>}
+                                    </div>
+                                )}
+
+                                {!isRange && isRelative && (
+                                    <div className="flex items-center gap-2">
+                                        <input
+                                            type="number"
+                                            min={0}
+                                            value={condition.value.toString()}
+                                            onChange={(e) =>
+                                                handleConditionChange(
+                                                    groupId,
+                                                    condition.id,
+                                                    'value',
+                                                    parseInt(e.target.value, 10) || 0
+                                                )
+                                            }
+                                            placeholder="Number of days"
+                                            className="w-full bg-white/10 backdrop-blur-sm border border-white/20 rounded-xl text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-orange-500/50 focus:border-orange-500/50 transition-all duration-200 px-4 py-2 text-sm"
+                                        />
+                                        <span className="text-gray-400 text-sm whitespace-nowrap">
+                                            {condition.operation === 'moreThanDaysAgo' ? 'days ago' : 'days'}
+                                        </span>
+                                    </div>
+                                )}
+
+                                {!isRange && fieldType === 'number' && (
                                     <input
                                         type="number"
                                         value={condition.value.toString()}
@@ -423,7 +503,7 @@ export default function RuleBuilder({ value, onChange, onPreview }: RuleBuilderP
                                     />
                                 )}
 
-                                {fieldType === 'date' && (
+                                {!isRange && isDateInput && (
                                     <input
                                         type="date"
                                         value={
@@ -445,10 +525,48 @@ export default function RuleBuilder({ value, onChange, onPreview }: RuleBuilderP
                                         onChange={(e) =>
                                             handleConditionChange(groupId, condition.id, 'value', e.target.value)
                                         }
-                                        placeholder={fieldType === 'array' ? 'Enter tags (comma separated)' : 'Enter value'}
+                                        placeholder={
+                                            fieldType !== 'array'
+                                                ? 'Enter value'
+                                                : condition.field === 'purchased_product'
+                                                  ? 'Enter product names (comma separated)'
+                                                  : 'Enter tags (comma separated)'
+                                        }
                                         className="w-full bg-white/10 backdrop-blur-sm border border-white/20 rounded-xl text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-teal-500/50 focus:border-teal-500/50 transition-all duration-200 px-4 py-2 text-sm"
                                     />
                                 )}
+
+                                {fieldType === 'segment' && (
+                                    <select
+                                        value={condition.value.toString()}
+                                        onChange={(e) =>
+                                            handleConditionChange(groupId, condition.id, 'value', e.target.value)
+                                        }
+                                        className="w-full bg-white/10 backdrop-blur-sm border border-white/20 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-teal-500/50 focus:border-teal-500/50 transition-all duration-200 px-4 py-2 text-sm appearance-none"
+                                    >
+                                        <option value="" className="bg-gray-800 text-gray-400">Select a segment</option>
+                                        {savedSegments
+                                            .filter((segment) => segment.id !== segmentId)
+                                            .map((segment) => (
+                                                <option key={segment.id} value={segment.id} className="bg-gray-800 text-white">
+                                                    {segment.name}
+                                                </option>
+                                            ))}
+                                    </select>
+                                )}
+
+                                {fieldType === 'boolean' && (
+                                    <select
+                                        value={String(condition.value)}
+                                        onChange={(e) =>
+                                            handleConditionChange(groupId, condition.id, 'value', e.target.value === 'true')
+                                        }
+                                        className="w-full bg-white/10 backdrop-blur-sm border border-white/20 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-teal-500/50 focus:border-teal-500/50 transition-all duration-200 px-4 py-2 text-sm appearance-none"
+                                    >
+                                        <option value="true" className="bg-gray-800 text-white">Yes</option>
+                                        <option value="false" className="bg-gray-800 text-white">No</option>
+                                    </select>
+                                )}
                                 <div className="absolute inset-0 rounded-xl bg-gradient-to-r from-blue-500/10 to-purple-500/10 pointer-events-none opacity-0 transition-opacity duration-200 group-focus-within:opacity-100"></div>
                             </div>
                         )}
@@ -472,15 +590,87 @@ export default function RuleBuilder({ value, onChange, onPreview }: RuleBuilderP
         );
     };
 
+    // Render the text editor, with the error position under the offending line
+    const renderCode = () => {
+        const errorLine = codeError ? codeText.split('\n')[codeError.line - 1] : '';
+
+        return (
+            <div className="p-6 rounded-2xl border border-white/20 bg-white/10 backdrop-blur-sm mb-4 shadow-lg">
+                <textarea
+                    value={codeText}
+                    onChange={(e) => handleCodeChange(e.target.value)}
+                    rows={Math.max(4, codeText.split('\n').length + 1)}
+                    spellCheck={false}
+                    placeholder='total_spend > 5000 AND (tags contains "vip" OR last_visit_date < 2026-01-01)'
+                    className={`w-full bg-black/30 border rounded-xl text-white placeholder-gray-500 font-mono text-sm px-4 py-3 focus:outline-none focus:ring-2 transition-all duration-200 ${
+                        codeError
+                            ? 'border-red-500/50 focus:ring-red-500/50'
+                            : 'border-white/20 focus:ring-purple-500/50'
+                    }`}
+                />
+
+                {codeError ? (
+                    <div className="mt-3 p-3 bg-red-500/10 border border-red-500/30 rounded-xl">
+                        <p className="text-sm text-red-300">{codeError.message}</p>
+                        <pre className="mt-2 text-xs font-mono text-red-200/80 overflow-x-auto">
+                            {errorLine}
+                            {'\n'}
+                            {' '.repeat(codeError.column - 1)}^
+                        </pre>
+                    </div>
+                ) : (
+                    <p className="mt-3 text-xs text-gray-400">
+                        Use AND / OR with parentheses. Operators: = != &gt; &gt;= &lt; &lt;=, contains, not contains,
+                        starts with, ends with, between X and Y, is empty, is not empty. Dates also take within last N
+                        days, more than N days ago and between N and M days ago. Quote text values; write dates as
+                        YYYY-MM-DD and yes/no fields as true or false. Saved segments: segment in &quot;id&quot;, segment
+                        not in &quot;id&quot;.
+                    </p>
+                )}
+            </div>
+        );
+    };
+
     return (
         <div className="space-y-4">
-            {renderGroup(value)}
+            <div className="flex justify-end">
+                <div className="inline-flex p-1 bg-white/10 border border-white/20 rounded-xl">
+                    {(['visual', 'code'] as const).map((option) => (
+                        <button
+                            key={option}
+                            type="button"
+                            onClick={() => setMode(option)}
+                            className={`px-4 py-1.5 text-sm font-medium rounded-lg transition-all duration-200 ${
+                                mode === option
+                                    ? 'bg-gradient-to-r from-blue-500 to-purple-500 text-white shadow'
+                                    : 'text-gray-300 hover:text-white'
+                            }`}
+                        >
+                            {option === 'visual' ? 'Visual' : 'Code'}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {mode === 'visual' ? renderGroup(value) : renderCode()}
+
+            {segmentCycle && (
+                <div className="p-4 bg-red-500/10 border border-red-500/30 rounded-xl text-sm text-red-300">
+                    Segment references loop back on themselves:{' '}
+                    <span className="font-medium text-red-200">
+                        {segmentCycle.map(segmentName).join(' → ')}
+                    </span>
+                    . Remove one of the references before saving.
+                </div>
+            )}
+
+            {showEstimate && <AudienceEstimate rules={value} segmentRules={segmentRules} />}
 
             {onPreview && (
                 <div className="flex justify-center pt-4">
                     <button
                         type="button"
-                        onClick={onPreview}
+                        onClick={() => onPreview()}
                         className="inline-flex items-center px-6 py-3 bg-gradient-to-r from-cyan-500 to-blue-500 text-white font-medium rounded-xl hover:from-cyan-600 hover:to-blue-600 focus:outline-none focus:ring-2 focus:ring-cyan-500/50 transition-all duration-200 shadow-lg hover:shadow-xl transform hover:scale-105"
                     >
                         <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
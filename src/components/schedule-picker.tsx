@@ -0,0 +1,144 @@
+'use client';
+
+import { useState } from 'react';
+import { FiClock, FiZap } from 'react-icons/fi';
+import {
+    ScheduleSuggestion,
+    ZonedDateTime,
+    createSchedule,
+    formatSchedule,
+    getTimezoneOptions,
+    parseScheduleSuggestion,
+    validateSchedule,
+} from '@/utils/schedule';
+
+interface SchedulePickerProps {
+    value: ZonedDateTime;
+    timezone: string;
+    onChange: (value: ZonedDateTime) => void;
+    onTimezoneChange: (timezone: string) => void;
+    // Fetches the AI's preferred slot; the response is parsed here
+    onRequestSuggestion: () => Promise<unknown>;
+}
+
+const inputClassName =
+    'w-full px-4 py-3 bg-white/10 border border-white/20 rounded-xl text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500/50 transition-all duration-200 [color-scheme:dark]';
+
+// Date, time and timezone for a scheduled send, with the AI-suggested slot one click away
+export default function SchedulePicker({ value, timezone, onChange, onTimezoneChange, onRequestSuggestion }: SchedulePickerProps) {
+    const [suggestion, setSuggestion] = useState<ScheduleSuggestion | null>(null);
+    const [suggestionLoading, setSuggestionLoading] = useState(false);
+    const [suggestionError, setSuggestionError] = useState('');
+
+    const issue = validateSchedule(value, timezone);
+
+    const handleGetSuggestion = async () => {
+        try {
+            setSuggestionLoading(true);
+            setSuggestionError('');
+            const response = await onRequestSuggestion() as { data?: unknown };
+            const parsed = parseScheduleSuggestion(response?.data ?? response, timezone);
+            if (!parsed) throw new Error('The AI didn\'t return a usable time slot');
+            setSuggestion(parsed);
+        } catch (err: unknown) {
+            console.error('Error getting schedule suggestion:', err);
+            setSuggestionError(err instanceof Error ? err.message : 'Failed to get a suggested time');
+        } finally {
+            setSuggestionLoading(false);
+        }
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                    <label htmlFor="scheduleDate" className="block text-sm font-medium text-gray-300 mb-2">
+                        Date
+                    </label>
+                    <input
+                        id="scheduleDate"
+                        type="date"
+                        value={value.date}
+                        onChange={(e) => onChange({ ...value, date: e.target.value })}
+                        className={inputClassName}
+                    />
+                </div>
+                <div>
+                    <label htmlFor="scheduleTime" className="block text-sm font-medium text-gray-300 mb-2">
+                        Time
+                    </label>
+                    <input
+                        id="scheduleTime"
+                        type="time"
+                        value={value.time}
+                        onChange={(e) => onChange({ ...value, time: e.target.value })}
+                        className={inputClassName}
+                    />
+                </div>
+                <div>
+                    <label htmlFor="scheduleTimezone" className="block text-sm font-medium text-gray-300 mb-2">
+                        Timezone
+                    </label>
+                    <select
+                        id="scheduleTimezone"
+                        value={timezone}
+                        onChange={(e) => {
+                            // The suggestion was resolved in the old zone
+                            setSuggestion(null);
+                            onTimezoneChange(e.target.value);
+                        }}
+                        className={inputClassName}
+                    >
+                        {getTimezoneOptions(timezone).map((zone) => (
+                            <option key={zone} value={zone} className="bg-gray-800">
+                                {zone.replace(/_/g, ' ')}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+            </div>
+
+            <p className={`text-sm flex items-center ${issue ? 'text-amber-300' : 'text-gray-400'}`}>
+                <FiClock className="mr-2 flex-shrink-0" />
+                {issue ?? `Sends ${formatSchedule(createSchedule(value, timezone))}`}
+            </p>
+
+            <div className="bg-gradient-to-r from-violet-500/10 to-purple-500/10 rounded-xl p-4 border border-violet-500/30">
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                    <div className="text-sm text-violet-200">
+                        {suggestion ? (
+                            <>
+                                AI suggests{' '}
+                                <span className="text-white font-semibold">{formatSchedule(createSchedule(suggestion, timezone))}</span>
+                                {suggestion.reason && <span className="block text-xs text-violet-300 mt-1">{suggestion.reason}</span>}
+                            </>
+                        ) : (
+                            'Let AI pick the slot this audience is most likely to engage in'
+                        )}
+                    </div>
+                    <div className="flex items-center space-x-2">
+                        <button
+                            type="button"
+                            onClick={handleGetSuggestion}
+                            disabled={suggestionLoading}
+                            className="flex items-center px-4 py-2 bg-violet-500/20 hover:bg-violet-500/30 border border-violet-500/30 text-violet-200 text-sm rounded-lg transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            <FiZap className="mr-2" size={14} />
+                            {suggestionLoading ? 'Thinking...' : suggestion ? 'Ask Again' : 'Suggest a Time'}
+                        </button>
+                        {suggestion && (
+                            <button
+                                type="button"
+                                onClick={() => onChange({ date: suggestion.date, time: suggestion.time })}
+                                className="px-4 py-2 bg-gradient-to-r from-violet-500 to-purple-500 hover:from-violet-600 hover:to-purple-600 text-white text-sm font-medium rounded-lg transition-all duration-200"
+                            >
+                                Apply
+                            </button>
+                        )}
+                    </div>
+                </div>
+                {suggestionError && <p className="mt-2 text-sm text-red-300">{suggestionError}</p>}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,306 @@
+'use client';
+
+import { useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { FiAlertTriangle, FiBarChart2 } from 'react-icons/fi';
+import { useApiClient } from '@/utils/api-client';
+import {
+    SegmentOverlap,
+    computeOverlapFromMembers,
+    getPreviewMemberIds,
+    getPreviewTotal,
+    intersectionSize,
+    parseOverlapResponse,
+} from '@/utils/segment-overlap';
+
+interface OverlapSegment {
+    id: string;
+    name: string;
+}
+
+interface SegmentOverlapViewProps {
+    segments: OverlapSegment[];
+}
+
+const MIN_SEGMENTS = 2;
+const MAX_SEGMENTS = 5;
+
+// One color per selected segment, in selection order
+const SEGMENT_COLORS = ['#60a5fa', '#c084fc', '#34d399', '#fbbf24', '#f87171'];
+
+// Vertical spacing of the membership dots under each bar
+const DOT_SPACING = 18;
+
+// Share of the smaller segment above which a pair is flagged as mostly overlapping
+const HIGH_OVERLAP_SHARE = 0.5;
+
+interface MembershipTickProps {
+    x?: number;
+    y?: number;
+    payload?: { value: string };
+    segmentIds: string[];
+}
+
+// UpSet-style membership matrix drawn as the x-axis tick of each bar
+function MembershipTick({ x = 0, y = 0, payload, segmentIds }: MembershipTickProps) {
+    const members = (payload?.value || '').split('|');
+    const memberRows = segmentIds
+        .map((id, index) => (members.includes(id) ? index : -1))
+        .filter((index) => index !== -1);
+
+    return (
+        <g transform={`translate(${x},${y})`}>
+            {memberRows.length > 1 && (
+                <line
+                    x1={0}
+                    x2={0}
+                    y1={12 + memberRows[0] * DOT_SPACING}
+                    y2={12 + memberRows[memberRows.length - 1] * DOT_SPACING}
+                    stroke="#9ca3af"
+                    strokeWidth={2}
+                />
+            )}
+            {segmentIds.map((id, index) => (
+                <circle
+                    key={id}
+                    cx={0}
+                    cy={12 + index * DOT_SPACING}
+                    r={6}
+                    fill={members.includes(id) ? SEGMENT_COLORS[index] : '#374151'}
+                />
+            ))}
+        </g>
+    );
+}
+
+export default function SegmentOverlapView({ segments }: SegmentOverlapViewProps) {
+    const api = useApiClient();
+    const [selectedIds, setSelectedIds] = useState<string[]>([]);
+    const [analyzedIds, setAnalyzedIds] = useState<string[]>([]);
+    const [overlap, setOverlap] = useState<SegmentOverlap | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState('');
+
+    const segmentName = (id: string) => segments.find((segment) => segment.id === id)?.name || id;
+
+    const toggleSegment = (id: string) => {
+        setSelectedIds((current) =>
+            current.includes(id)
+                ? current.filter((selectedId) => selectedId !== id)
+                : current.length < MAX_SEGMENTS
+                  ? [...current, id]
+                  : current
+        );
+    };
+
+    // Ask the API for overlap counts, falling back to intersecting preview member lists
+    const handleAnalyze = async () => {
+        const ids = selectedIds;
+
+        try {
+            setLoading(true);
+            setError('');
+
+            let result: SegmentOverlap | null = null;
+            try {
+                const response = await api.segments.getSegmentOverlap(ids);
+                result = parseOverlapResponse(response.data);
+            } catch (err: unknown) {
+                console.warn('Overlap endpoint unavailable, using audience previews:', err);
+            }
+
+            if (!result) {
+                const previews = await Promise.all(ids.map((id) => api.segments.previewAudience(id)));
+                const data = previews.map((response) => response.data || response);
+
+                result = computeOverlapFromMembers(
+                    Object.fromEntries(ids.map((id, index) => [id, getPreviewMemberIds(data[index])])),
+                    Object.fromEntries(ids.map((id, index) => [id, getPreviewTotal(data[index])]))
+                );
+            }
+
+            setOverlap(result);
+            setAnalyzedIds(ids);
+        } catch (err: unknown) {
+            console.error('Error analyzing segment overlap:', err);
+            setError(err instanceof Error ? err.message : 'Failed to analyze segment overlap');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const chartData = (overlap?.regions || []).map((region) => ({
+        key: region.segmentIds.join('|'),
+        count: region.count,
+    }));
+
+    const regionLabel = (key: string) => {
+        const ids = key.split('|');
+        return ids.length === 1
+            ? `Only ${segmentName(ids[0])}`
+            : `${ids.map(segmentName).join(' ∩ ')} only`;
+    };
+
+    const pairs = analyzedIds.flatMap((a, i) => analyzedIds.slice(i + 1).map((b) => [a, b] as const));
+
+    return (
+        <div className="space-y-8">
+            {/* Segment picker */}
+            <div className="bg-white/5 backdrop-blur-xl border border-white/10 rounded-2xl p-6 shadow-xl">
+                <h2 className="text-xl font-semibold text-white mb-1">Choose Segments</h2>
+                <p className="text-sm text-gray-400 mb-4">
+                    Pick {MIN_SEGMENTS}–{MAX_SEGMENTS} segments to compare ({selectedIds.length} selected)
+                </p>
+
+                <div className="flex flex-wrap gap-2 mb-6">
+                    {segments.map((segment) => {
+                        const index = selectedIds.indexOf(segment.id);
+                        const isSelected = index !== -1;
+                        const isDisabled = !isSelected && selectedIds.length >= MAX_SEGMENTS;
+
+                        return (
+                            <button
+                                key={segment.id}
+                                type="button"
+                                onClick={() => toggleSegment(segment.id)}
+                                disabled={isDisabled}
+                                className={`px-3 py-1.5 rounded-full text-sm border flex items-center transition-all duration-200 ${
+                                    isSelected
+                                        ? 'bg-white/15 border-white/30 text-white'
+                                        : 'bg-white/5 border-white/10 text-gray-300 hover:bg-white/10'
+                                } disabled:opacity-40 disabled:cursor-not-allowed`}
+                            >
+                                {isSelected && (
+                                    <span
+                                        className="w-2.5 h-2.5 rounded-full mr-2"
+                                        style={{ backgroundColor: SEGMENT_COLORS[index] }}
+                                    ></span>
+                                )}
+                                {segment.name}
+                            </button>
+                        );
+                    })}
+                </div>
+
+                <button
+                    type="button"
+                    onClick={handleAnalyze}
+                    disabled={loading || selectedIds.length < MIN_SEGMENTS}
+                    className="px-6 py-3 bg-gradient-to-r from-blue-500 to-purple-500 hover:from-blue-600 hover:to-purple-600 text-white rounded-xl flex items-center space-x-2 transition-all duration-200 shadow-xl disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {loading ? (
+                        <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+                    ) : (
+                        <FiBarChart2 size={18} />
+                    )}
+                    <span>{loading ? 'Analyzing...' : 'Analyze Overlap'}</span>
+                </button>
+
+                {error && <p className="mt-4 text-sm text-red-400">{error}</p>}
+            </div>
+
+            {overlap && (
+                <>
+                    {/* UpSet chart */}
+                    <div className="bg-white/5 backdrop-blur-xl border border-white/10 rounded-2xl p-6 shadow-xl">
+                        <div className="flex flex-wrap items-start justify-between gap-4 mb-6">
+                            <div>
+                                <h2 className="text-xl font-semibold text-white">Intersections</h2>
+                                <p className="text-sm text-gray-400">
+                                    Each bar counts customers in exactly the segments marked below it
+                                </p>
+                            </div>
+                            <div className="space-y-1">
+                                {analyzedIds.map((id, index) => (
+                                    <div key={id} className="flex items-center text-sm text-gray-300">
+                                        <span
+                                            className="w-3 h-3 rounded-full mr-2"
+                                            style={{ backgroundColor: SEGMENT_COLORS[index] }}
+                                        ></span>
+                                        <span className="mr-2">{segmentName(id)}</span>
+                                        <span className="text-gray-500">
+                                            {(overlap.sizes[id] || 0).toLocaleString()}
+                                        </span>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+
+                        {overlap.partial && (
+                            <div className="mb-4 p-3 bg-amber-500/10 border border-amber-500/30 rounded-xl text-sm text-amber-300 flex items-center">
+                                <FiAlertTriangle className="mr-2 flex-shrink-0" />
+                                Computed from audience preview samples, so intersections cover only part of each segment.
+                            </div>
+                        )}
+
+                        {chartData.length === 0 ? (
+                            <p className="text-center text-gray-400 py-8">No members found in the selected segments</p>
+                        ) : (
+                            <div className="w-full" style={{ height: 320 + analyzedIds.length * DOT_SPACING }}>
+                                <ResponsiveContainer width="100%" height="100%">
+                                    <BarChart data={chartData} margin={{ top: 10, right: 20, left: 10, bottom: 10 }}>
+                                        <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.1)" vertical={false} />
+                                        <XAxis
+                                            dataKey="key"
+                                            interval={0}
+                                            tickLine={false}
+                                            axisLine={false}
+                                            height={analyzedIds.length * DOT_SPACING + 16}
+                                            tick={(props) => <MembershipTick {...props} segmentIds={analyzedIds} />}
+                                        />
+                                        <YAxis stroke="#9ca3af" fontSize={12} tickLine={false} axisLine={false} allowDecimals={false} />
+                                        <Tooltip
+                                            cursor={{ fill: 'rgba(255,255,255,0.05)' }}
+                                            labelFormatter={(key) => regionLabel(String(key))}
+                                            formatter={(value) => [Number(value).toLocaleString(), 'Customers']}
+                                            contentStyle={{
+                                                backgroundColor: 'rgba(17, 24, 39, 0.95)',
+                                                border: '1px solid rgba(255, 255, 255, 0.1)',
+                                                borderRadius: '12px',
+                                                color: '#fff',
+                                                fontSize: '12px'
+                                            }}
+                                        />
+                                        <Bar dataKey="count" fill="#818cf8" radius={[6, 6, 0, 0]} />
+                                    </BarChart>
+                                </ResponsiveContainer>
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Pairwise overlap */}
+                    <div className="bg-white/5 backdrop-blur-xl border border-white/10 rounded-2xl p-6 shadow-xl">
+                        <h2 className="text-xl font-semibold text-white mb-4">Pairwise Overlap</h2>
+                        <div className="divide-y divide-white/10">
+                            {pairs.map(([a, b]) => {
+                                const shared = intersectionSize(overlap, [a, b]);
+                                const smaller = Math.min(overlap.sizes[a] || 0, overlap.sizes[b] || 0);
+                                const share = smaller > 0 ? shared / smaller : 0;
+
+                                return (
+                                    <div key={`${a}|${b}`} className="flex items-center justify-between py-3 text-sm">
+                                        <span className="text-gray-300">
+                                            {segmentName(a)} ∩ {segmentName(b)}
+                                        </span>
+                                        <span className="flex items-center space-x-3">
+                                            <span className="text-white font-medium">{shared.toLocaleString()}</span>
+                                            <span
+                                                className={`px-2 py-0.5 rounded-full text-xs ${
+                                                    share >= HIGH_OVERLAP_SHARE
+                                                        ? 'bg-amber-500/20 text-amber-300'
+                                                        : 'bg-white/10 text-gray-400'
+                                                }`}
+                                            >
+                                                {Math.round(share * 100)}% of smaller segment
+                                            </span>
+                                        </span>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+}
@@ -1,136 +1,146 @@
 'use client';
 
-import React from 'react';
-
-interface Rule {
-    field: string;
-    operator: string;
-    value: string | number | [string | number, string | number];
-}
+import React, { useEffect, useMemo, useState } from 'react';
+import { useApiClient } from '@/utils/api-client';
+import {
+    Condition,
+    ConditionGroup,
+    RuleValue,
+    RULE_FIELD_GROUPS,
+    RULE_OPERATIONS,
+    countConditions,
+    createDefaultCondition,
+    findSegmentCycle,
+    getDefaultValue,
+    getFieldType,
+    getReferencedSegmentIds,
+    isConditionGroup,
+    isRangeOperation,
+    isRelativeDateOperation,
+    isSegmentReference,
+    normalizeRules,
+    operationNeedsValue,
+    shouldResetValue,
+} from '@/utils/segment-rules';
 
 interface RuleBuilderProps {
-    rules: {
-        logic: 'AND' | 'OR';
-        conditions: Rule[];
-    };
-    onChange: (rules: { logic: 'AND' | 'OR'; conditions: Rule[] }) => void;
+    rules: ConditionGroup;
+    onChange: (rules: ConditionGroup) => void;
+    // Saved segment these rules belong to, so references looping back to it are flagged
+    segmentId?: string;
 }
 
-const FIELD_OPTIONS = [
-    { value: 'total_spend', label: 'Total Spend', type: 'number' },
-    { value: 'total_visits', label: 'Total Visits', type: 'number' },
-    { value: 'last_visit_date', label: 'Last Visit Date', type: 'date' },
-    { value: 'tags', label: 'Tags', type: 'array' },
-    { value: 'first_name', label: 'First Name', type: 'string' },
-    { value: 'last_name', label: 'Last Name', type: 'string' },
-    { value: 'email', label: 'Email', type: 'string' },
-];
+export default function SegmentRuleBuilder({ rules, onChange, segmentId }: RuleBuilderProps) {
+    const api = useApiClient();
+    const [savedSegments, setSavedSegments] = useState<{ id: string; name: string; rules?: ConditionGroup }[]>([]);
+    const hasReferences = getReferencedSegmentIds(rules).length > 0;
 
-const OPERATOR_OPTIONS = {
-    number: [
-        { value: '=', label: 'Equals' },
-        { value: '>', label: 'Greater than' },
-        { value: '<', label: 'Less than' },
-        { value: '>=', label: 'Greater than or equal' },
-        { value: '<=', label: 'Less than or equal' },
-        { value: 'between', label: 'Between' },
-    ],
-    string: [
-        { value: '=', label: 'Equals' },
-        { value: 'contains', label: 'Contains' },
-        { value: 'starts_with', label: 'Starts with' },
-        { value: 'ends_with', label: 'Ends with' },
-    ],
-    array: [
-        { value: 'contains', label: 'Contains' },
-        { value: 'not_contains', label: 'Does not contain' },
-    ],
-    date: [
-        { value: '=', label: 'On date' },
-        { value: '>', label: 'After' },
-        { value: '<', label: 'Before' },
-        { value: '>=', label: 'On or after' },
-        { value: '<=', label: 'On or before' },
-        { value: 'between', label: 'Between' },
-    ],
-};
+    // Nested groups and segment references come from the campaign rule builder; they are kept but not editable here
+    const nestedGroups = rules.conditions.filter(isConditionGroup);
+    const segmentReferences = rules.conditions.filter(isSegmentReference);
+    const conditions = rules.conditions.filter(
+        (node): node is Condition => !isConditionGroup(node) && !isSegmentReference(node)
+    );
 
-export default function SegmentRuleBuilder({ rules, onChange }: RuleBuilderProps) {
-    const addRule = () => {
-        const newRules = {
-            ...rules,
-            conditions: [
-                ...rules.conditions,
-                { field: 'total_spend', operator: '>', value: 0 }
-            ]
+    // Only rules that reference other segments can loop back to this one
+    useEffect(() => {
+        if (!segmentId || !hasReferences) return;
+
+        const fetchSegments = async () => {
+            try {
+                const segments = await api.segments.getAllSegments();
+                setSavedSegments(segments.map((segment) => ({ ...segment, rules: segment.rules ? normalizeRules(segment.rules) : undefined })));
+            } catch (err: unknown) {
+                console.error('Error loading segments:', err);
+            }
         };
-        onChange(newRules);
+
+        fetchSegments();
+    }, [api.segments, segmentId, hasReferences]);
+
+    const segmentCycle = useMemo(() => {
+        if (!segmentId || !hasReferences) return null;
+        const segmentRules = Object.fromEntries(
+            savedSegments.flatMap((segment) => (segment.rules ? [[segment.id, segment.rules]] : []))
+        );
+        return findSegmentCycle(rules, segmentRules, segmentId);
+    }, [rules, savedSegments, segmentId, hasReferences]);
+
+    const segmentName = (id: string) => savedSegments.find((segment) => segment.id === id)?.name || id;
+
+    const updateConditions = (newConditions: Condition[]) => {
+        onChange({
+            ...rules,
+            conditions: [...newConditions, ...segmentReferences, ...nestedGroups]
+        });
+    };
+
+    const addRule = () => {
+        updateConditions([...conditions, createDefaultCondition()]);
     };
 
     const removeRule = (index: number) => {
-        const newRules = {
-            ...rules,
-            conditions: rules.conditions.filter((_, i) => i !== index)
-        };
-        onChange(newRules);
+        updateConditions(conditions.filter((_, i) => i !== index));
     };
 
-    const updateRule = (index: number, field: keyof Rule, value: string | number | [string | number, string | number]) => {
-        const newConditions = [...rules.conditions];
+    const updateRule = (index: number, field: 'field' | 'operation' | 'value', value: RuleValue) => {
+        const newConditions = [...conditions];
         
         if (field === 'field') {
             // Reset operator and value when field changes
             const fieldValue = value as string;
-            const fieldType = FIELD_OPTIONS.find(f => f.value === fieldValue)?.type || 'string';
-            const defaultOperator = OPERATOR_OPTIONS[fieldType as keyof typeof OPERATOR_OPTIONS][0]?.value || '=';
+            const defaultOperation = RULE_OPERATIONS[getFieldType(fieldValue)][0]?.value || 'equals';
             newConditions[index] = {
+                ...newConditions[index],
                 field: fieldValue,
-                operator: defaultOperator,
-                value: fieldType === 'number' ? 0 : ''
+                operation: defaultOperation,
+                value: getDefaultValue(fieldValue, defaultOperation)
             };
-        } else if (field === 'operator') {
-            const operatorValue = value as string;
+        } else if (field === 'operation') {
+            const operationValue = value as string;
             newConditions[index] = {
                 ...newConditions[index],
-                operator: operatorValue,
-                value: operatorValue === 'between' ? [0, 0] : (typeof newConditions[index].value === 'object' ? 0 : newConditions[index].value)
+                operation: operationValue,
+                value: shouldResetValue(newConditions[index].operation, operationValue)
+                    ? getDefaultValue(newConditions[index].field, operationValue)
+                    : newConditions[index].value
             };
         } else {
             newConditions[index] = {
                 ...newConditions[index],
-                [field]: value
+                value
             };
         }
 
-        onChange({
-            ...rules,
-            conditions: newConditions
-        });
+        updateConditions(newConditions);
     };
 
     const toggleLogic = () => {
         onChange({
             ...rules,
-            logic: rules.logic === 'AND' ? 'OR' : 'AND'
+            operator: rules.operator === 'AND' ? 'OR' : 'AND'
         });
     };
 
-    const getFieldType = (fieldValue: string) => {
-        return FIELD_OPTIONS.find(f => f.value === fieldValue)?.type || 'string';
-    };
-
-    const renderValueInput = (rule: Rule, index: number) => {
+    const renderValueInput = (rule: Condition, index: number) => {
         const fieldType = getFieldType(rule.field);
+        const isRelative = isRelativeDateOperation(rule.operation);
+        // Relative date operations take day counts rather than calendar dates
+        const isDateInput = fieldType === 'date' && !isRelative;
+
+        if (!operationNeedsValue(rule.operation)) {
+            return null;
+        }
 
-        if (rule.operator === 'between') {
+        if (isRangeOperation(rule.operation)) {
             const values = Array.isArray(rule.value) ? rule.value : [0, 0];
             return (
                 <div className="flex items-center space-x-2">
                     <input
-                        type={fieldType === 'date' ? 'date' : 'number'}
+                        type={isDateInput ? 'date' : 'number'}
                         value={values[0]}
                         onChange={(e) => {
-                            if (fieldType === 'date') {
+                            if (isDateInput) {
                                 updateRule(index, 'value', [e.target.value, values[1]]);
                             } else {
                                 updateRule(index, 'value', [Number(e.target.value), values[1]]);
@@ -141,10 +151,10 @@ export default function SegmentRuleBuilder({ rules, onChange }: RuleBuilderProps
                     />
                     <span className="text-black">to</span>
                     <input
-                        type={fieldType === 'date' ? 'date' : 'number'}
+                        type={isDateInput ? 'date' : 'number'}
                         value={values[1]}
                         onChange={(e) => {
-                            if (fieldType === 'date') {
+                            if (isDateInput) {
                                 updateRule(index, 'value', [values[0], e.target.value]);
                             } else {
                                 updateRule(index, 'value', [values[0], Number(e.target.value)]);
@@ -153,16 +163,48 @@ export default function SegmentRuleBuilder({ rules, onChange }: RuleBuilderProps
                         className="flex-1 px-3 text-black py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                         placeholder="Max"
                     />
+                    {isRelative && <span className="text-black whitespace-nowrap">days ago</span>}
+                </div>
+            );
+        }
+
+        if (isRelative) {
+            return (
+                <div className="flex items-center space-x-2">
+                    <input
+                        type="number"
+                        min={0}
+                        value={rule.value.toString()}
+                        onChange={(e) => updateRule(index, 'value', Number(e.target.value))}
+                        className="flex-1 px-3 text-black py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        placeholder="Number of days"
+                    />
+                    <span className="text-black whitespace-nowrap">
+                        {rule.operation === 'moreThanDaysAgo' ? 'days ago' : 'days'}
+                    </span>
                 </div>
             );
         }
 
+        if (fieldType === 'boolean') {
+            return (
+                <select
+                    value={String(rule.value)}
+                    onChange={(e) => updateRule(index, 'value', e.target.value === 'true')}
+                    className="w-full text-black px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                    <option value="true">Yes</option>
+                    <option value="false">No</option>
+                </select>
+            );
+        }
+
         const inputType = fieldType === 'number' ? 'number' : fieldType === 'date' ? 'date' : 'text';
         
         return (
             <input
                 type={inputType}
-                value={rule.value as string | number}
+                value={rule.value.toString()}
                 onChange={(e) => updateRule(index, 'value', 
                     fieldType === 'number' ? Number(e.target.value) : e.target.value
                 )}
@@ -185,11 +227,11 @@ export default function SegmentRuleBuilder({ rules, onChange }: RuleBuilderProps
                 </button>
             </div>
 
-            {rules.conditions.length > 0 && (
+            {conditions.length > 0 && (
                 <div className="bg-gray-50 rounded-lg p-4">
                     <div className="space-y-4">
-                        {rules.conditions.map((rule, index) => (
-                            <div key={index}>
+                        {conditions.map((rule, index) => (
+                            <div key={rule.id}>
                                 {index > 0 && (
                                     <div className="flex justify-center my-2">
                                         <button
@@ -197,7 +239,7 @@ export default function SegmentRuleBuilder({ rules, onChange }: RuleBuilderProps
                                             onClick={toggleLogic}
                                             className="px-3 py-1 bg-gray-200 text-black rounded-full text-sm hover:bg-gray-300 transition-colors"
                                         >
-                                            {rules.logic}
+                                            {rules.operator}
                                         </button>
                                     </div>
                                 )}
@@ -210,10 +252,14 @@ export default function SegmentRuleBuilder({ rules, onChange }: RuleBuilderProps
                                             onChange={(e) => updateRule(index, 'field', e.target.value)}
                                             className="w-full text-black px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                                         >
-                                            {FIELD_OPTIONS.map((option) => (
-                                                <option key={option.value} value={option.value}>
-                                                    {option.label}
-                                                </option>
+                                            {RULE_FIELD_GROUPS.filter((fieldGroup) => fieldGroup.key !== 'segments').map((fieldGroup) => (
+                                                <optgroup key={fieldGroup.label} label={fieldGroup.label}>
+                                                    {fieldGroup.fields.map((option) => (
+                                                        <option key={option.value} value={option.value}>
+                                                            {option.label}
+                                                        </option>
+                                                    ))}
+                                                </optgroup>
                                             ))}
                                         </select>
                                     </div>
@@ -221,11 +267,11 @@ export default function SegmentRuleBuilder({ rules, onChange }: RuleBuilderProps
                                     {/* Operator Selection */}
                                     <div className="col-span-3">
                                         <select
-                                            value={rule.operator}
-                                            onChange={(e) => updateRule(index, 'operator', e.target.value)}
+                                            value={rule.operation}
+                                            onChange={(e) => updateRule(index, 'operation', e.target.value)}
                                             className="w-full text-black px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                                         >
-                                            {OPERATOR_OPTIONS[getFieldType(rule.field) as keyof typeof OPERATOR_OPTIONS]?.map((option) => (
+                                            {RULE_OPERATIONS[getFieldType(rule.field)].map((option) => (
                                                 <option key={option.value} value={option.value}>
                                                     {option.label}
                                                 </option>
@@ -244,7 +290,7 @@ export default function SegmentRuleBuilder({ rules, onChange }: RuleBuilderProps
                                             type="button"
                                             onClick={() => removeRule(index)}
                                             className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
-                                            disabled={rules.conditions.length === 1}
+                                            disabled={countConditions(rules) === 1}
                                         >
                                             <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                                                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
@@ -258,6 +304,26 @@ export default function SegmentRuleBuilder({ rules, onChange }: RuleBuilderProps
                 </div>
             )}
 
+            {segmentReferences.length > 0 && (
+                <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 text-sm text-amber-800">
+                    {segmentReferences.length === 1 ? 'One saved segment reference' : `${segmentReferences.length} saved segment references`} will be kept as-is. Edit them in the campaign rule builder.
+                </div>
+            )}
+
+            {segmentCycle && (
+                <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-700">
+                    Segment references loop back on themselves:{' '}
+                    <span className="font-medium">{segmentCycle.map(segmentName).join(' → ')}</span>
+                    . Remove one of the references in the campaign rule builder before saving.
+                </div>
+            )}
+
+            {nestedGroups.length > 0 && (
+                <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 text-sm text-amber-800">
+                    {nestedGroups.length === 1 ? 'One nested group' : `${nestedGroups.length} nested groups`} ({nestedGroups.reduce((sum, group) => sum + countConditions(group), 0)} conditions) will be kept as-is. Edit them in the campaign rule builder.
+                </div>
+            )}
+
             {rules.conditions.length === 0 && (
                 <div className="text-center py-8 text-gray-500">
                     <p>No rules defined. Click &quot;Add Rule&quot; to get started.</p>
@@ -0,0 +1,220 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { FiClock, FiRotateCcw } from 'react-icons/fi';
+import { useApiClient } from '@/utils/api-client';
+import { ConditionGroup } from '@/utils/segment-rules';
+import { SegmentVersion, diffRules, parseVersionsResponse } from '@/utils/segment-versions';
+
+interface SegmentVersionHistoryProps {
+    segmentId: string;
+    // Names of saved segments, for segment membership conditions
+    segmentNames?: Record<string, string>;
+    // Bump to reload versions after the segment is saved elsewhere
+    refreshKey?: number;
+    onRestored: (rules: ConditionGroup) => void;
+}
+
+const CHANGE_STYLES = {
+    added: { symbol: '+', className: 'bg-emerald-500/10 text-emerald-300 border-emerald-500/20' },
+    removed: { symbol: '−', className: 'bg-red-500/10 text-red-300 border-red-500/20' },
+    changed: { symbol: '~', className: 'bg-amber-500/10 text-amber-300 border-amber-500/20' },
+};
+
+export default function SegmentVersionHistory({
+    segmentId,
+    segmentNames = {},
+    refreshKey = 0,
+    onRestored,
+}: SegmentVersionHistoryProps) {
+    const api = useApiClient();
+    const [versions, setVersions] = useState<SegmentVersion[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState('');
+    const [compareFrom, setCompareFrom] = useState<number | null>(null);
+    const [compareTo, setCompareTo] = useState<number | null>(null);
+    const [restoringVersion, setRestoringVersion] = useState<number | null>(null);
+
+    const fetchVersions = useCallback(async () => {
+        try {
+            setLoading(true);
+            setError('');
+            const response = await api.segments.getSegmentVersions(segmentId);
+            const data = parseVersionsResponse(response.data);
+            setVersions(data);
+
+            // Default to the latest change
+            setCompareTo(data[0]?.version ?? null);
+            setCompareFrom(data[1]?.version ?? null);
+        } catch (err: unknown) {
+            console.error('Error fetching segment versions:', err);
+            setError('Version history unavailable');
+        } finally {
+            setLoading(false);
+        }
+    }, [api.segments, segmentId]);
+
+    useEffect(() => {
+        fetchVersions();
+    }, [fetchVersions, refreshKey]);
+
+    const fromVersion = versions.find((version) => version.version === compareFrom);
+    const toVersion = versions.find((version) => version.version === compareTo);
+
+    const changes = useMemo(
+        () =>
+            fromVersion && toVersion
+                ? diffRules(fromVersion.rules, toVersion.rules, (id) => segmentNames[id] || id)
+                : [],
+        [fromVersion, toVersion, segmentNames]
+    );
+
+    const handleRestore = async (version: SegmentVersion) => {
+        try {
+            setRestoringVersion(version.version);
+            const response = await api.segments.restoreSegmentVersion(segmentId, version);
+            await fetchVersions();
+            onRestored(version.rules);
+            if (response.versionWarning) alert(response.versionWarning);
+        } catch (err: unknown) {
+            console.error('Error restoring segment version:', err);
+            const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+            alert(`Failed to restore version ${version.version}: ${errorMessage}`);
+        } finally {
+            setRestoringVersion(null);
+        }
+    };
+
+    const formatDate = (dateString: string) =>
+        dateString
+            ? new Date(dateString).toLocaleString('en-US', {
+                  month: 'short',
+                  day: 'numeric',
+                  year: 'numeric',
+                  hour: '2-digit',
+                  minute: '2-digit',
+              })
+            : 'Unknown date';
+
+    const selectClassName =
+        'px-3 py-1.5 bg-white/10 border border-white/20 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/50';
+
+    return (
+        <div className="mt-8 bg-white/5 backdrop-blur-xl border border-white/10 rounded-2xl p-6 shadow-xl">
+            <h2 className="text-xl font-semibold text-white mb-4 flex items-center">
+                <FiClock className="mr-2" />
+                Version History
+            </h2>
+
+            {loading ? (
+                <div className="flex items-center justify-center h-24">
+                    <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-400"></div>
+                </div>
+            ) : error ? (
+                <p className="text-center text-gray-400 py-6">{error}</p>
+            ) : versions.length === 0 ? (
+                <p className="text-center text-gray-400 py-6">
+                    No versions recorded yet. A version is saved every time the segment&apos;s rules are saved.
+                </p>
+            ) : (
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+                    {/* Diff between two versions */}
+                    <div>
+                        <div className="flex items-center flex-wrap gap-2 mb-4 text-sm text-gray-400">
+                            <span>Compare</span>
+                            <select
+                                value={compareFrom ?? ''}
+                                onChange={(e) => setCompareFrom(Number(e.target.value))}
+                                className={selectClassName}
+                            >
+                                {versions.map((version) => (
+                                    <option key={version.id} value={version.version} className="bg-gray-800">
+                                        v{version.version}
+                                    </option>
+                                ))}
+                            </select>
+                            <span>→</span>
+                            <select
+                                value={compareTo ?? ''}
+                                onChange={(e) => setCompareTo(Number(e.target.value))}
+                                className={selectClassName}
+                            >
+                                {versions.map((version) => (
+                                    <option key={version.id} value={version.version} className="bg-gray-800">
+                                        v{version.version}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+
+                        {!fromVersion || !toVersion ? (
+                            <p className="text-gray-400 text-sm">Only one version so far, so there is nothing to compare.</p>
+                        ) : changes.length === 0 ? (
+                            <p className="text-gray-400 text-sm">No rule changes between these versions.</p>
+                        ) : (
+                            <ul className="space-y-2">
+                                {changes.map((change, index) => (
+                                    <li
+                                        key={index}
+                                        className={`flex items-start p-3 rounded-lg border text-sm ${CHANGE_STYLES[change.type].className}`}
+                                    >
+                                        <span className="font-mono font-bold mr-3">{CHANGE_STYLES[change.type].symbol}</span>
+                                        <div className="min-w-0">
+                                            {change.location && (
+                                                <p className="text-xs opacity-70 mb-0.5">{change.location}</p>
+                                            )}
+                                            {change.type === 'changed' ? (
+                                                <p>
+                                                    <span className="line-through opacity-70">{change.before}</span>
+                                                    <span className="mx-2">→</span>
+                                                    <span>{change.after}</span>
+                                                </p>
+                                            ) : (
+                                                <p>{change.after || change.before}</p>
+                                            )}
+                                        </div>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+
+                    {/* Version list */}
+                    <div className="divide-y divide-white/10">
+                        {versions.map((version, index) => (
+                            <div key={version.id} className="flex items-center justify-between py-3">
+                                <div className="min-w-0">
+                                    <p className="text-white text-sm font-medium">
+                                        v{version.version}
+                                        {index === 0 && (
+                                            <span className="ml-2 px-2 py-0.5 bg-blue-500/20 text-blue-300 text-xs rounded-full">
+                                                Current
+                                            </span>
+                                        )}
+                                        {version.restoredFrom !== undefined && (
+                                            <span className="ml-2 text-xs text-gray-400">restored from v{version.restoredFrom}</span>
+                                        )}
+                                    </p>
+                                    <p className="text-xs text-gray-400 truncate">
+                                        {version.author?.name || version.author?.email || 'Unknown author'} · {formatDate(version.createdAt)}
+                                    </p>
+                                </div>
+                                {index > 0 && (
+                                    <button
+                                        type="button"
+                                        onClick={() => handleRestore(version)}
+                                        disabled={restoringVersion !== null}
+                                        className="ml-4 px-3 py-1.5 bg-white/10 hover:bg-white/20 text-white text-xs rounded-lg flex items-center space-x-1 transition-all duration-200 disabled:opacity-50"
+                                    >
+                                        <FiRotateCcw size={12} />
+                                        <span>{restoringVersion === version.version ? 'Restoring...' : 'Restore'}</span>
+                                    </button>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
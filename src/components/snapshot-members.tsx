@@ -0,0 +1,173 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { FiSearch, FiUserMinus, FiUserPlus, FiUsers } from 'react-icons/fi';
+import { useApiClient } from '@/utils/api-client';
+import { Customer } from '@/utils/rule-evaluator';
+
+interface SnapshotMembersProps {
+    segmentId: string;
+    memberIds: string[];
+    onMembersChanged: (memberIds: string[]) => void;
+}
+
+// Customers loaded to resolve member names and search for new members
+const CUSTOMER_LOOKUP_SIZE = 1000;
+
+// Members shown before "Show all"
+const MEMBERS_PREVIEW = 50;
+
+const SEARCH_RESULTS = 8;
+
+export default function SnapshotMembers({ segmentId, memberIds, onMembersChanged }: SnapshotMembersProps) {
+    const api = useApiClient();
+    const [customers, setCustomers] = useState<Customer[]>([]);
+    const [search, setSearch] = useState('');
+    const [showAll, setShowAll] = useState(false);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        const fetchCustomers = async () => {
+            try {
+                const response = await api.customers.getCustomers(1, CUSTOMER_LOOKUP_SIZE);
+                setCustomers(response.data || []);
+            } catch (err: unknown) {
+                console.error('Error fetching customers for snapshot:', err);
+            }
+        };
+
+        fetchCustomers();
+    }, [api.customers]);
+
+    const customersById = useMemo(
+        () => new Map(customers.map((customer) => [String(customer.id), customer])),
+        [customers]
+    );
+
+    const searchResults = useMemo(() => {
+        const query = search.trim().toLowerCase();
+        if (!query) return [];
+
+        return customers
+            .filter((customer) => !memberIds.includes(String(customer.id)))
+            .filter((customer) =>
+                `${customer.first_name} ${customer.last_name} ${customer.email}`.toLowerCase().includes(query)
+            )
+            .slice(0, SEARCH_RESULTS);
+    }, [customers, memberIds, search]);
+
+    const saveMembers = async (updated: string[]) => {
+        try {
+            setSaving(true);
+            setError('');
+            await api.segments.updateSegmentMembers(segmentId, updated);
+            onMembersChanged(updated);
+        } catch (err: unknown) {
+            console.error('Error updating snapshot members:', err);
+            setError(err instanceof Error ? err.message : 'Failed to update members');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleAdd = (customerId: string) => {
+        setSearch('');
+        saveMembers([...memberIds, customerId]);
+    };
+
+    const handleRemove = (customerId: string) => {
+        saveMembers(memberIds.filter((id) => id !== customerId));
+    };
+
+    const visibleIds = showAll ? memberIds : memberIds.slice(0, MEMBERS_PREVIEW);
+
+    return (
+        <div className="mt-8 bg-white/5 backdrop-blur-xl border border-white/10 rounded-2xl p-6 shadow-xl">
+            <div className="flex items-center justify-between mb-4">
+                <h2 className="text-xl font-semibold text-white flex items-center">
+                    <FiUsers className="mr-2" />
+                    Snapshot Members
+                </h2>
+                <span className="text-sm text-gray-400">{memberIds.length.toLocaleString()} customers</span>
+            </div>
+
+            {/* Add a customer */}
+            <div className="relative mb-4">
+                <FiSearch className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" size={16} />
+                <input
+                    type="text"
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    placeholder="Search customers to add by name or email"
+                    className="w-full pl-10 pr-4 py-2 bg-white/10 border border-white/20 rounded-xl text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+                />
+                {searchResults.length > 0 && (
+                    <div className="absolute z-10 mt-2 w-full bg-gray-900 border border-white/10 rounded-xl shadow-2xl overflow-hidden">
+                        {searchResults.map((customer) => (
+                            <button
+                                key={customer.id}
+                                type="button"
+                                onClick={() => handleAdd(String(customer.id))}
+                                disabled={saving}
+                                className="w-full px-4 py-2 flex items-center justify-between text-left text-sm hover:bg-white/10 disabled:opacity-50"
+                            >
+                                <span>
+                                    <span className="text-white">{customer.first_name} {customer.last_name}</span>
+                                    <span className="text-gray-400 ml-2">{customer.email}</span>
+                                </span>
+                                <FiUserPlus className="text-emerald-400" size={16} />
+                            </button>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            {error && <p className="mb-4 text-sm text-red-400">{error}</p>}
+
+            {memberIds.length === 0 ? (
+                <p className="text-center text-gray-400 py-6">This snapshot has no members</p>
+            ) : (
+                <>
+                    <div className="divide-y divide-white/10">
+                        {visibleIds.map((id) => {
+                            const customer = customersById.get(id);
+
+                            return (
+                                <div key={id} className="flex items-center justify-between py-2 text-sm">
+                                    {customer ? (
+                                        <span>
+                                            <span className="text-white">{customer.first_name} {customer.last_name}</span>
+                                            <span className="text-gray-400 ml-2">{customer.email}</span>
+                                        </span>
+                                    ) : (
+                                        <span className="text-gray-400 font-mono">{id}</span>
+                                    )}
+                                    <button
+                                        type="button"
+                                        onClick={() => handleRemove(id)}
+                                        disabled={saving}
+                                        className="p-1.5 text-gray-400 hover:text-red-400 transition-colors disabled:opacity-50"
+                                        title="Remove from snapshot"
+                                    >
+                                        <FiUserMinus size={16} />
+                                    </button>
+                                </div>
+                            );
+                        })}
+                    </div>
+
+                    {memberIds.length > MEMBERS_PREVIEW && (
+                        <button
+                            type="button"
+                            onClick={() => setShowAll(!showAll)}
+                            className="mt-4 text-sm text-blue-400 hover:text-blue-300"
+                        >
+                            {showAll ? 'Show fewer' : `Show all ${memberIds.length.toLocaleString()} members`}
+                        </button>
+                    )}
+                </>
+            )}
+        </div>
+    );
+}
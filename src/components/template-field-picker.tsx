@@ -0,0 +1,73 @@
+'use client';
+
+import { useState } from 'react';
+import { TEMPLATE_FIELDS, TEMPLATE_FILTERS, formatVariable, getFiltersForField } from '@/utils/message-template';
+
+interface TemplateFieldPickerProps {
+    onInsert: (variable: string) => void;
+}
+
+// Builds a `{{field | filter}}` variable for the message template
+export default function TemplateFieldPicker({ onInsert }: TemplateFieldPickerProps) {
+    const [field, setField] = useState(TEMPLATE_FIELDS[0].value);
+    const [filter, setFilter] = useState('');
+    const [argument, setArgument] = useState('');
+
+    const filters = getFiltersForField(field);
+    const filterDefinition = TEMPLATE_FILTERS.find((f) => f.value === filter);
+
+    const handleFieldChange = (value: string) => {
+        setField(value);
+        if (!getFiltersForField(value).some((f) => f.value === filter)) {
+            setFilter('');
+            setArgument('');
+        }
+    };
+
+    const handleInsert = () => {
+        const filters = filter
+            ? [{ name: filter, argument: filterDefinition?.argument && argument ? argument : undefined }]
+            : [];
+        onInsert(formatVariable(field, filters));
+    };
+
+    const selectClassName =
+        'px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/50';
+
+    return (
+        <div className="flex flex-wrap items-center gap-2">
+            <select value={field} onChange={(e) => handleFieldChange(e.target.value)} className={selectClassName}>
+                {TEMPLATE_FIELDS.map((f) => (
+                    <option key={f.value} value={f.value} className="bg-gray-800">
+                        {f.label}
+                    </option>
+                ))}
+            </select>
+            <select value={filter} onChange={(e) => setFilter(e.target.value)} className={selectClassName}>
+                <option value="" className="bg-gray-800">No filter</option>
+                {filters.map((f) => (
+                    <option key={f.value} value={f.value} className="bg-gray-800">
+                        {f.label}
+                    </option>
+                ))}
+            </select>
+            {filterDefinition?.argument && (
+                <input
+                    type="text"
+                    value={argument}
+                    onChange={(e) => setArgument(e.target.value)}
+                    placeholder={filter === 'currency' ? 'INR' : 'there'}
+                    className={`${selectClassName} w-28 placeholder-gray-500`}
+                />
+            )}
+            <button
+                type="button"
+                onClick={handleInsert}
+                disabled={filterDefinition?.argument === 'required' && !argument}
+                className="px-4 py-2 bg-blue-500/20 hover:bg-blue-500/30 border border-blue-500/30 text-blue-300 text-sm rounded-lg transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+                Insert {formatVariable(field, filter ? [{ name: filter, argument: argument || undefined }] : [])}
+            </button>
+        </div>
+    );
+}
@@ -0,0 +1,277 @@
+// A/B (multivariant) message tests
+//
+// Each variant is sent to its split percentage of the messaged audience (what is left
+// after any holdout). Once the test has run for the winner rule's duration and every
+// variant has reached the minimum sample, the variant with the best rate on the rule's
+// metric goes to everyone left over. Splits summing to 100% leave nobody over, which
+// makes it a plain split test.
+//
+// Significance is a two-sided two-proportion z-test of each variant against the
+// leader, so a "winner" that is only ahead by noise is called out as such. There is no
+// correction for making several comparisons, so with three or more variants a
+// "significant" result is likelier to be noise than its confidence level suggests.
+// Until the campaign has a start time the duration can't be counted and the test is
+// reported as not started.
+
+export type WinnerMetric = 'delivery_rate' | 'open_rate' | 'click_rate' | 'conversion_rate';
+
+export type Significance = 'significant' | 'trending' | 'not_significant';
+
+export interface MessageVariant {
+    // 'A', 'B', ... in creation order
+    id: string;
+    messageTemplate: string;
+    // Share of the messaged audience, 0-100
+    splitPercentage: number;
+}
+
+export interface WinnerRule {
+    metric: WinnerMetric;
+    durationHours: number;
+    // Sends each variant needs before a winner can be picked
+    minimumSample: number;
+}
+
+export interface ABTestSettings {
+    variants: MessageVariant[];
+    winnerRule: WinnerRule;
+}
+
+export interface VariantStats {
+    variantId: string;
+    sent: number;
+    delivered: number;
+    opened: number;
+    clicked: number;
+    converted: number;
+}
+
+export interface VariantResult {
+    variantId: string;
+    sent: number;
+    conversions: number;
+    rate: number;
+    // Relative difference from the leader's rate; 0 for the leader
+    liftVsLeader: number;
+    // Two-sided p-value against the leader; null for the leader or when a side has no sends
+    pValue: number | null;
+    significance: Significance | null;
+    isLeader: boolean;
+}
+
+export type TestStatus = 'not_started' | 'collecting' | 'running' | 'inconclusive' | 'decided';
+
+export interface TestOutcome {
+    status: TestStatus;
+    results: VariantResult[];
+    leaderId: string | null;
+    // Hours until the test duration has passed, 0 once it has; the whole duration
+    // before the test has started
+    hoursRemaining: number;
+    // Sends still needed by the variant furthest from the minimum sample
+    samplesNeeded: number;
+}
+
+export const MIN_VARIANTS = 2;
+
+export const MAX_VARIANTS = 4;
+
+export const WINNER_METRICS: { value: WinnerMetric; label: string }[] = [
+    { value: 'delivery_rate', label: 'Delivery rate' },
+    { value: 'open_rate', label: 'Open rate' },
+    { value: 'click_rate', label: 'Click rate' },
+    { value: 'conversion_rate', label: 'Conversion rate' },
+];
+
+export const TEST_DURATIONS = [
+    { value: 2, label: '2 hours' },
+    { value: 6, label: '6 hours' },
+    { value: 24, label: '1 day' },
+    { value: 72, label: '3 days' },
+    { value: 168, label: '1 week' },
+];
+
+export const DEFAULT_WINNER_RULE: WinnerRule = {
+    metric: 'click_rate',
+    durationHours: 24,
+    minimumSample: 100,
+};
+
+const SIGNIFICANT_P_VALUE = 0.05;
+
+const TRENDING_P_VALUE = 0.1;
+
+const METRIC_FIELDS: Record<WinnerMetric, keyof Omit<VariantStats, 'variantId' | 'sent'>> = {
+    delivery_rate: 'delivered',
+    open_rate: 'opened',
+    click_rate: 'clicked',
+    conversion_rate: 'converted',
+};
+
+export const getVariantLabel = (index: number): string => String.fromCharCode(65 + index);
+
+export const getWinnerMetricLabel = (metric: WinnerMetric): string =>
+    WINNER_METRICS.find((option) => option.value === metric)?.label ?? metric;
+
+// Split a test share evenly, e.g. 3 variants at 50% → 17/17/16
+export const evenSplits = (count: number, total: number): number[] =>
+    Array.from({ length: count }, (_, i) => Math.floor(total / count) + (i < total % count ? 1 : 0));
+
+export const createABTest = (messageTemplate: string, variantCount = MIN_VARIANTS): ABTestSettings => {
+    const splits = evenSplits(variantCount, 20 * variantCount);
+    return {
+        variants: splits.map((splitPercentage, i) => ({
+            id: getVariantLabel(i),
+            messageTemplate: i === 0 ? messageTemplate : '',
+            splitPercentage,
+        })),
+        winnerRule: { ...DEFAULT_WINNER_RULE },
+    };
+};
+
+export const getTestPercentage = (variants: MessageVariant[]): number =>
+    variants.reduce((sum, variant) => sum + variant.splitPercentage, 0);
+
+// Expected sends per variant and for the winner when only the audience size is known
+export const estimateVariantSizes = (
+    audienceSize: number,
+    variants: MessageVariant[]
+): { variants: number[]; winner: number } => {
+    const sizes = variants.map((variant) => Math.round((audienceSize * variant.splitPercentage) / 100));
+    return { variants: sizes, winner: Math.max(audienceSize - sizes.reduce((sum, size) => sum + size, 0), 0) };
+};
+
+// Setup problems; an empty list means the test can run. Message content is checked
+// with the channel's own validation.
+export const validateABTest = (settings: ABTestSettings): string[] => {
+    const issues: string[] = [];
+    const { variants, winnerRule } = settings;
+
+    if (variants.length < MIN_VARIANTS || variants.length > MAX_VARIANTS) {
+        issues.push(`A/B tests need ${MIN_VARIANTS} to ${MAX_VARIANTS} variants`);
+    }
+    variants.forEach((variant) => {
+        if (!variant.messageTemplate.trim()) {
+            issues.push(`Variant ${variant.id} has no message`);
+        }
+        if (!Number.isFinite(variant.splitPercentage) || variant.splitPercentage < 1) {
+            issues.push(`Variant ${variant.id} needs at least 1% of the audience`);
+        }
+    });
+
+    const templates = variants.map((variant) => variant.messageTemplate.trim()).filter(Boolean);
+    if (new Set(templates).size < templates.length) {
+        issues.push('Two variants have the same message');
+    }
+    if (getTestPercentage(variants) > 100) {
+        issues.push(`Variant splits add up to ${getTestPercentage(variants)}%, more than the whole audience`);
+    }
+    if (!(winnerRule.durationHours > 0)) {
+        issues.push('Test duration must be longer than 0 hours');
+    }
+    if (!Number.isInteger(winnerRule.minimumSample) || winnerRule.minimumSample < 1) {
+        issues.push('Minimum sample must be a whole number of at least 1');
+    }
+
+    return issues;
+};
+
+// Stats responses use either camelCase or snake_case keys
+export const normalizeVariantStats = (raw: Record<string, unknown>): VariantStats => {
+    const count = (...keys: string[]) => Number(keys.map((key) => raw[key]).find((value) => value !== undefined) ?? 0) || 0;
+    return {
+        variantId: String(raw.variantId ?? raw.variant_id ?? raw.id ?? ''),
+        sent: count('sent', 'sent_count', 'sentCount'),
+        delivered: count('delivered', 'delivered_count', 'deliveredCount'),
+        opened: count('opened', 'opened_count', 'openedCount'),
+        clicked: count('clicked', 'clicked_count', 'clickedCount'),
+        converted: count('converted', 'converted_count', 'convertedCount'),
+    };
+};
+
+// Abramowitz & Stegun 7.1.26, accurate to ~1e-7
+const erf = (x: number): number => {
+    const sign = x < 0 ? -1 : 1;
+    const t = 1 / (1 + 0.3275911 * Math.abs(x));
+    const y = 1 - ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+    return sign * y;
+};
+
+const normalCdf = (z: number): number => 0.5 * (1 + erf(z / Math.SQRT2));
+
+// Two-sided p-value for the difference between two conversion rates
+export const twoProportionPValue = (conversionsA: number, sentA: number, conversionsB: number, sentB: number): number | null => {
+    if (sentA === 0 || sentB === 0) return null;
+
+    const pooled = (conversionsA + conversionsB) / (sentA + sentB);
+    const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / sentA + 1 / sentB));
+    if (standardError === 0) return 1;
+
+    const z = (conversionsA / sentA - conversionsB / sentB) / standardError;
+    return 2 * (1 - normalCdf(Math.abs(z)));
+};
+
+export const getSignificance = (pValue: number): Significance =>
+    pValue < SIGNIFICANT_P_VALUE ? 'significant' : pValue < TRENDING_P_VALUE ? 'trending' : 'not_significant';
+
+export const evaluateABTest = (
+    stats: VariantStats[],
+    rule: WinnerRule,
+    startedAt: string | null,
+    now: Date = new Date()
+): TestOutcome => {
+    const field = METRIC_FIELDS[rule.metric];
+    const rates = stats.map((variant) => ({
+        variant,
+        conversions: variant[field],
+        rate: variant.sent > 0 ? variant[field] / variant.sent : 0,
+    }));
+
+    const leader = rates.reduce<(typeof rates)[number] | null>(
+        (best, current) => (current.variant.sent > 0 && (!best || current.rate > best.rate) ? current : best),
+        null
+    );
+
+    const results: VariantResult[] = rates.map(({ variant, conversions, rate }) => {
+        const isLeader = leader?.variant.variantId === variant.variantId;
+        const pValue = !leader || isLeader
+            ? null
+            : twoProportionPValue(leader.conversions, leader.variant.sent, conversions, variant.sent);
+
+        return {
+            variantId: variant.variantId,
+            sent: variant.sent,
+            conversions,
+            rate,
+            liftVsLeader: leader && leader.rate > 0 && !isLeader ? (rate - leader.rate) / leader.rate : 0,
+            pValue,
+            significance: pValue === null ? null : getSignificance(pValue),
+            isLeader,
+        };
+    });
+
+    const startTime = startedAt ? new Date(startedAt).getTime() : NaN;
+    const hoursRemaining = isNaN(startTime)
+        ? rule.durationHours
+        : Math.max(rule.durationHours - (now.getTime() - startTime) / (60 * 60 * 1000), 0);
+    const samplesNeeded = Math.max(0, ...stats.map((variant) => rule.minimumSample - variant.sent));
+
+    // The leader only wins if it beats every other variant beyond noise
+    const others = results.filter((result) => !result.isLeader);
+    const leaderIsSignificant = others.length > 0 && others.every((result) => result.significance === 'significant');
+
+    const status: TestStatus =
+        isNaN(startTime) ? 'not_started'
+        : samplesNeeded > 0 ? 'collecting'
+        : hoursRemaining > 0 ? 'running'
+        : leaderIsSignificant ? 'decided'
+        : 'inconclusive';
+
+    return {
+        status,
+        results,
+        leaderId: leader?.variant.variantId ?? null,
+        hoursRemaining,
+        samplesNeeded,
+    };
+};
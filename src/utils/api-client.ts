@@ -3,6 +3,16 @@
 
 import { useAuth } from '@/contexts/auth-context';
 import { useCallback, useMemo } from 'react';
+import { ConditionGroup, RuleInput, collectOrderAggregates, findSegmentCycle, normalizeRules } from '@/utils/segment-rules';
+import { HoldoutSettings } from '@/utils/holdout';
+import { CampaignChannel, ChannelContent } from '@/utils/channels';
+import { ABTestSettings } from '@/utils/ab-test';
+import { CampaignSchedule } from '@/utils/schedule';
+import { DeliveryRules } from '@/utils/delivery-rules';
+import { DeliveryStatus } from '@/utils/delivery-log';
+import { AttributionSettings, toAttributionQuery } from '@/utils/attribution';
+import { CampaignTemplateDraft } from '@/utils/campaign-templates';
+import { canExecute } from '@/utils/approval';
 
 // Type definitions
 interface ApiResponse<T = unknown> {
@@ -11,36 +21,22 @@ interface ApiResponse<T = unknown> {
     message?: string;
 }
 
-interface Condition {
-    id: string;
-    field: string;
-    operation: string;
-    value: string | number | boolean;
-}
-
-interface ConditionGroup {
-    id: string;
-    operator: 'AND' | 'OR';
-    conditions: (Condition | ConditionGroup)[];
-}
-
-interface Rule {
-    field: string;
-    operator: string;
-    value: string | number | [string | number, string | number];
-}
-
-interface SegmentRules {
-    logic: 'AND' | 'OR';
-    conditions: Rule[];
-}
-
 interface SegmentData {
     name: string;
     description?: string;
-    rules?: SegmentRules | ConditionGroup;
+    rules?: ConditionGroup;
     is_dynamic?: boolean;
     tags?: string[];
+    // Static snapshots only: the frozen member list and where it came from
+    customer_ids?: string[];
+    snapshot_at?: string;
+    source_segment_id?: string;
+}
+
+// The author and time of a version are taken by the backend from the request
+interface SegmentVersionData {
+    rules: ConditionGroup;
+    restoredFrom?: number;
 }
 
 interface CampaignData {
@@ -50,6 +46,12 @@ interface CampaignData {
     objective?: string;
     status?: string;
     tags?: string[];
+    holdout?: HoldoutSettings;
+    channel?: CampaignChannel;
+    content?: ChannelContent;
+    abTest?: ABTestSettings;
+    // Requested send time; the campaign is scheduled once it's approved
+    schedule?: CampaignSchedule;
 }
 
 interface CustomerData {
@@ -74,7 +76,7 @@ interface OrderData {
 }
 
 interface SegmentAudienceData {
-    rules: SegmentRules | ConditionGroup;
+    rules: ConditionGroup;
     audienceSize?: number;
 }
 
@@ -86,6 +88,10 @@ interface MessageSuggestionData {
 // Base API URL
 const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
 
+// Server-Sent Events endpoint for live send progress; point it at a local stub to run
+// the progress UI without a backend (see the README for the stream token it needs)
+const PROGRESS_STREAM_URL = process.env.NEXT_PUBLIC_PROGRESS_STREAM_URL || `${API_URL}/api/campaigns/progress/stream`;
+
 // API client hook
 export function useApiClient() {
     const { getToken, logout } = useAuth();
@@ -163,7 +169,7 @@ export function useApiClient() {
             client.post('/api/ai/message-suggestions', { objective, segmentData }),
 
         // Auto-tag campaign based on message and rules
-        autoTagCampaign: (message: string, segmentRules: SegmentRules | ConditionGroup) =>
+        autoTagCampaign: (message: string, segmentRules: ConditionGroup) =>
             client.post('/api/ai/auto-tag', { message, segmentRules }),
 
         // Get campaign schedule suggestions
@@ -175,43 +181,197 @@ export function useApiClient() {
             client.post('/api/ai/lookalike-audience', { campaignId }),
 
         // Get smart scheduling suggestions
-        getSchedulingSuggestions: (campaignData: CampaignData, segmentRules?: SegmentRules | ConditionGroup) =>
+        getSchedulingSuggestions: (campaignData: CampaignData, segmentRules?: ConditionGroup) =>
             client.post('/api/ai/scheduling-suggestions', { campaignData, segmentRules }),
     }), [client]);
 
+    // Record a rules version after a segment save. A failure here doesn't undo the save,
+    // so it comes back as a warning for the caller to show rather than as an error.
+    const recordSegmentVersion = useCallback(async (id: string, rules: ConditionGroup, restoredFrom?: number): Promise<string | null> => {
+        const versionData: SegmentVersionData = { rules, restoredFrom };
+
+        try {
+            await client.post(`/api/segments/${id}/versions`, versionData);
+            return null;
+        } catch (error) {
+            console.error('Error recording segment version:', error);
+            const reason = error instanceof Error ? ` (${error.message})` : '';
+            return `The segment was saved, but this version couldn't be added to its history${reason}. Save it again to record it.`;
+        }
+    }, [client]);
+
+    // Create a segment and record its rules as the first version
+    const createSegment = useCallback(async (segmentData: SegmentData) => {
+        const response = await client.post('/api/segments', segmentData);
+        const versionWarning = response.data?.id && segmentData.rules
+            ? await recordSegmentVersion(response.data.id, segmentData.rules)
+            : null;
+        return { ...response, versionWarning };
+    }, [client, recordSegmentVersion]);
+
+    // Every saved segment, a page at a time, for checks that have to see all of them
+    const getAllSegments = useCallback(async (): Promise<{ id: string; name: string; rules?: RuleInput }[]> => {
+        const limit = 100;
+        const segments = [];
+
+        for (let page = 1; ; page++) {
+            const response = await client.get(`/api/segments?page=${page}&limit=${limit}`);
+            const data = Array.isArray(response.data) ? response.data : [];
+            segments.push(...data);
+
+            const pages = response.pagination?.pages;
+            if (data.length === 0 || (pages ? page >= pages : data.length < limit)) break;
+        }
+
+        return segments;
+    }, [client]);
+
+    // Saved segments referencing each other can never be resolved, so a save that would
+    // close a loop is refused before it reaches the backend
+    const assertNoSegmentCycle = useCallback(async (id: string, rules: ConditionGroup) => {
+        const segments = await getAllSegments();
+        const segmentRules = Object.fromEntries(
+            segments.filter((segment) => segment.rules).map((segment) => [segment.id, normalizeRules(segment.rules)])
+        );
+
+        const cycle = findSegmentCycle(rules, segmentRules, id);
+        if (cycle) {
+            const names = cycle.map((segmentId) => segments.find((segment) => segment.id === segmentId)?.name || segmentId);
+            throw new Error(`Segment references loop back on themselves: ${names.join(' → ')}. Remove one of the references before saving.`);
+        }
+    }, [getAllSegments]);
+
+    // Ids of every customer currently in a segment as the backend resolves it, via the
+    // streaming export route
+    const getSegmentMemberIds = useCallback(async (id: string): Promise<string[]> => {
+        const form = new FormData();
+        form.set('token', getToken() || '');
+        form.set('format', 'json');
+        form.set('columns', 'id');
+
+        const response = await fetch(`/api/segments/${id}/export`, { method: 'POST', body: form });
+        if (!response.ok) {
+            const data = await response.json().catch(() => ({}));
+            throw new Error(data.message || 'Failed to load segment members');
+        }
+
+        const members: { id: string }[] = await response.json();
+        return members.map((member) => String(member.id));
+    }, [getToken]);
+
+    // Approve or reject through the review route, which turns away the campaign's own
+    // submitter with a clear message before passing the decision on. The backend refuses
+    // them as well, so the route is a convenience rather than the check itself.
+    const reviewCampaign = useCallback(async (id: string, action: 'approve' | 'reject', comment?: string) => {
+        const token = getToken();
+        const response = await fetch(`/api/campaigns/${id}/review`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(token ? { Authorization: `Bearer ${token}` } : {}),
+            },
+            body: JSON.stringify({ action, comment }),
+        });
+
+        if (response.status === 401) {
+            logout();
+            throw new Error('Authentication required');
+        }
+
+        const data = await response.json().catch(() => ({}));
+        if (!response.ok) {
+            throw new Error(data.message || `Failed to ${action} campaign`);
+        }
+        return data;
+    }, [getToken, logout]);
+
     // Segment-specific methods
     const segmentClient = useMemo(() => ({
         // Get all segments with pagination
         getSegments: (page: number = 1, limit: number = 10) =>
             client.get(`/api/segments?page=${page}&limit=${limit}`),
 
+        // Get every segment across all pages
+        getAllSegments,
+
         // Get single segment by ID
         getSegmentById: (id: string) =>
             client.get(`/api/segments/${id}`),
 
-        // Create new segment
-        createSegment: (segmentData: SegmentData) =>
-            client.post('/api/segments', segmentData),
+        // Create new segment; `versionWarning` is set when its first version wasn't recorded
+        createSegment,
+
+        // Update existing segment; `versionWarning` is set when the new version wasn't recorded
+        updateSegment: async (id: string, segmentData: Partial<SegmentData>) => {
+            if (segmentData.rules) {
+                await assertNoSegmentCycle(id, segmentData.rules);
+            }
+            const response = await client.put(`/api/segments/${id}`, segmentData);
+            const versionWarning = segmentData.rules ? await recordSegmentVersion(id, segmentData.rules) : null;
+            return { ...response, versionWarning };
+        },
 
-        // Update existing segment
-        updateSegment: (id: string, segmentData: Partial<SegmentData>) =>
-            client.put(`/api/segments/${id}`, segmentData),
+        // Get recorded rule versions of a segment
+        getSegmentVersions: (id: string) =>
+            client.get(`/api/segments/${id}/versions`),
+
+        // Put an earlier version's rules back, recorded as a new version
+        restoreSegmentVersion: async (id: string, version: { version: number; rules: ConditionGroup }) => {
+            await assertNoSegmentCycle(id, version.rules);
+            const response = await client.put(`/api/segments/${id}`, { rules: version.rules });
+            const versionWarning = await recordSegmentVersion(id, version.rules, version.version);
+            return { ...response, versionWarning };
+        },
+
+        // Freeze a segment's current members into a new static snapshot segment
+        freezeSegment: async (segment: { id: string; name: string; description?: string; tags?: string[]; rules?: ConditionGroup }) => {
+            const snapshotAt = new Date().toISOString();
+            const snapshotData: SegmentData = {
+                name: `${segment.name} (snapshot ${snapshotAt.slice(0, 10)})`,
+                description: segment.description,
+                rules: segment.rules,
+                is_dynamic: false,
+                tags: segment.tags,
+                customer_ids: await getSegmentMemberIds(segment.id),
+                snapshot_at: snapshotAt,
+                source_segment_id: segment.id,
+            };
+            return createSegment(snapshotData);
+        },
+
+        // Ids of every customer currently in a segment
+        getSegmentMemberIds,
+
+        // Replace the member list of a static snapshot
+        updateSegmentMembers: (id: string, customerIds: string[]) =>
+            client.put(`/api/segments/${id}`, { customer_ids: customerIds }),
 
         // Delete segment
         deleteSegment: (id: string) =>
             client.delete(`/api/segments/${id}`),
 
         // Preview segment audience (for existing segment)
-        previewAudience: (id: string | null, rules?: SegmentRules | ConditionGroup) => {
+        previewAudience: (id: string | null, rules?: ConditionGroup) => {
             if (id) {
                 // Preview existing segment
                 return client.post(`/api/segments/${id}/preview`, rules || {});
             } else {
                 // Preview rules without saving segment
-                return client.post('/api/segments/preview', { rules });
+                return client.post('/api/segments/preview', {
+                    rules,
+                    aggregates: rules ? collectOrderAggregates(rules) : {},
+                });
             }
         },
-    }), [client]);
+
+        // Get recorded audience sizes over time
+        getSegmentHistory: (id: string) =>
+            client.get(`/api/segments/${id}/history`),
+
+        // Get exclusive overlap counts between segments
+        getSegmentOverlap: (segmentIds: string[]) =>
+            client.post('/api/segments/overlap', { segmentIds }),
+    }), [client, getAllSegments, createSegment, recordSegmentVersion, getSegmentMemberIds, assertNoSegmentCycle]);
 
     // Campaign-specific methods
     const campaignClient = useMemo(() => ({
@@ -235,7 +395,12 @@ export function useApiClient() {
                 segmentId: campaignData.segmentId,
                 messageTemplate: campaignData.messageTemplate,
                 objective: campaignData.objective,
-                tags: campaignData.tags || []
+                tags: campaignData.tags || [],
+                holdout: campaignData.holdout,
+                channel: campaignData.channel,
+                content: campaignData.content,
+                abTest: campaignData.abTest,
+                schedule: campaignData.schedule
             };
             return client.post('/api/campaigns', backendCampaignData);
         },
@@ -249,7 +414,11 @@ export function useApiClient() {
                 messageTemplate: campaignData.messageTemplate,
                 objective: campaignData.objective,
                 status: campaignData.status, // Include status updates
-                tags: campaignData.tags || []
+                tags: campaignData.tags || [],
+                holdout: campaignData.holdout,
+                channel: campaignData.channel,
+                content: campaignData.content,
+                abTest: campaignData.abTest
             };
             return client.put(`/api/campaigns/${id}`, backendCampaignData);
         },
@@ -258,18 +427,112 @@ export function useApiClient() {
         deleteCampaign: (id: string) =>
             client.delete(`/api/campaigns/${id}`),
 
-        // Execute campaign
-        executeCampaign: (id: string) =>
-            client.post(`/api/campaigns/${id}/execute`, {}),
+        // Execute campaign. Only approved campaigns can be sent; the backend refuses the rest
+        // too, this just stops a stale list from posting the send.
+        executeCampaign: async (id: string) => {
+            const campaign = await client.get(`/api/campaigns/${id}`);
+            if (!canExecute(campaign.data?.status)) {
+                throw new Error('Only approved campaigns can be sent. Submit it for approval first.');
+            }
+            return client.post(`/api/campaigns/${id}/execute`, {});
+        },
+
+        // One page of the per-recipient delivery log, optionally only one status
+        getDeliveryLog: (id: string, page: number = 1, limit: number = 25, status?: DeliveryStatus) =>
+            client.get(`/api/campaigns/${id}/deliveries?page=${page}&limit=${limit}${status ? `&status=${status}` : ''}`),
+
+        // Send again to every recipient whose delivery failed
+        retryFailedDeliveries: (id: string) =>
+            client.post(`/api/campaigns/${id}/deliveries/retry`, { status: 'failed' }),
+
+        // Hold the rest of an in-flight send; the campaign becomes `paused`
+        pauseCampaign: (id: string) =>
+            client.post(`/api/campaigns/${id}/pause`, {}),
+
+        // Carry on with a paused send
+        resumeCampaign: (id: string) =>
+            client.post(`/api/campaigns/${id}/resume`, {}),
+
+        // Stop an in-flight or paused send for good; the campaign becomes `cancelled`
+        cancelCampaign: (id: string) =>
+            client.post(`/api/campaigns/${id}/cancel`, {}),
+
+        // Send a draft, pending, rejected or cancelled campaign for review; it becomes `submitted`
+        submitCampaign: (id: string, comment?: string) =>
+            client.post(`/api/campaigns/${id}/submit`, { comment }),
+
+        // Take a campaign out of review; it goes back to `draft`
+        withdrawCampaign: (id: string) =>
+            client.post(`/api/campaigns/${id}/withdraw`, {}),
+
+        // Approve a submitted campaign; it becomes `approved` and can be executed or scheduled.
+        // The backend refuses the campaign's own submitter.
+        approveCampaign: (id: string, comment?: string) =>
+            reviewCampaign(id, 'approve', comment),
+
+        // Send a submitted campaign back with what needs to change; it becomes `rejected`.
+        // The backend refuses the campaign's own submitter.
+        rejectCampaign: (id: string, comment: string) =>
+            reviewCampaign(id, 'reject', comment),
+
+        // Submissions and review decisions, oldest first
+        getCampaignReviews: (id: string) =>
+            client.get(`/api/campaigns/${id}/reviews`),
+
+        // Campaigns waiting for review, oldest submission first
+        getApprovalQueue: (page: number = 1, limit: number = 20) =>
+            client.get(`/api/campaigns/approvals?page=${page}&limit=${limit}`),
+
+        // Short-lived token for the progress stream. EventSource can't send headers, and
+        // the session token would end up in access logs if it went in the URL.
+        getProgressStreamToken: async (ids: string[]): Promise<string> => {
+            const response = await client.post('/api/campaigns/progress/stream-token', { ids });
+            const streamToken = response.data?.token;
+            if (!streamToken) throw new Error('Failed to get a progress stream token');
+            return streamToken;
+        },
+
+        // Stream URL for live progress of in-flight campaigns, with a token from
+        // getProgressStreamToken. A stub event source is opened without one.
+        getProgressStreamUrl: (ids: string[], streamToken?: string) =>
+            `${PROGRESS_STREAM_URL}?ids=${ids.map(encodeURIComponent).join(',')}${streamToken ? `&stream_token=${encodeURIComponent(streamToken)}` : ''}`,
+
+        // Current progress of in-flight campaigns, for when the stream is unavailable
+        getCampaignsProgress: (ids: string[]) =>
+            client.get(`/api/campaigns/progress?ids=${ids.map(encodeURIComponent).join(',')}`),
+
+        // Orders and revenue credited to a campaign under the given window and model
+        getCampaignAttribution: (id: string, attribution: Pick<AttributionSettings, 'windowDays' | 'model'>) =>
+            client.get(`/api/campaigns/${id}/attribution?${toAttributionQuery(attribution)}`),
+
+        // Attributed revenue for several campaigns at once, for the list
+        getCampaignsRevenue: (ids: string[], attribution: Pick<AttributionSettings, 'windowDays' | 'model'>) =>
+            client.get(`/api/campaigns/attribution?ids=${ids.map(encodeURIComponent).join(',')}&${toAttributionQuery(attribution)}`),
+
+        // Schedule or reschedule a send; the campaign becomes `scheduled`
+        scheduleCampaign: (id: string, schedule: CampaignSchedule) =>
+            client.post(`/api/campaigns/${id}/schedule`, schedule),
+
+        // Cancel a scheduled send; the campaign goes back to `approved`
+        cancelScheduledCampaign: (id: string) =>
+            client.delete(`/api/campaigns/${id}/schedule`),
 
         // Preview campaign audience
-        previewCampaignAudience: (rules: SegmentRules | ConditionGroup) =>
-            client.post('/api/campaigns/preview', { rules }),
+        previewCampaignAudience: (rules: ConditionGroup) =>
+            client.post('/api/campaigns/preview', { rules, aggregates: collectOrderAggregates(rules) }),
 
         // Get campaign message suggestions
         getCampaignSuggestions: (segmentId: string, purpose: string) =>
             client.post('/api/campaigns/suggestions', { segmentId, purpose }),
-    }), [client]);
+
+        // How many of a segment's members the delivery rules would skip or defer if sent now
+        previewSuppression: (segmentId: string, channel?: CampaignChannel) =>
+            client.post('/api/campaigns/suppression-preview', { segmentId, channel }),
+
+        // Same preview for an existing campaign, just before it is executed
+        getCampaignSuppression: (id: string) =>
+            client.get(`/api/campaigns/${id}/suppression`),
+    }), [client, reviewCampaign]);
 
     // Customer-specific methods
     const customerClient = useMemo(() => ({
@@ -321,6 +584,48 @@ export function useApiClient() {
             client.get(`/api/orders/customer/${customerId}`),
     }), [client]);
 
+    // Workspace settings
+    const settingsClient = useMemo(() => ({
+        // Get the frequency cap and quiet hours
+        getDeliveryRules: () =>
+            client.get('/api/settings/delivery-rules'),
+
+        // Update the frequency cap and quiet hours
+        updateDeliveryRules: (rules: DeliveryRules) =>
+            client.put('/api/settings/delivery-rules', rules),
+
+        // Get the attribution window, model and message costs
+        getAttributionSettings: () =>
+            client.get('/api/settings/attribution'),
+
+        // Update the attribution window, model and message costs
+        updateAttributionSettings: (settings: AttributionSettings) =>
+            client.put('/api/settings/attribution', settings),
+    }), [client]);
+
+    // Reusable campaign templates
+    const templateClient = useMemo(() => ({
+        // Get all templates
+        getTemplates: () =>
+            client.get('/api/campaign-templates'),
+
+        // Get single template by ID
+        getTemplateById: (id: string) =>
+            client.get(`/api/campaign-templates/${id}`),
+
+        // Create new template
+        createTemplate: (template: CampaignTemplateDraft) =>
+            client.post('/api/campaign-templates', template),
+
+        // Update existing template
+        updateTemplate: (id: string, template: CampaignTemplateDraft) =>
+            client.put(`/api/campaign-templates/${id}`, template),
+
+        // Delete template
+        deleteTemplate: (id: string) =>
+            client.delete(`/api/campaign-templates/${id}`),
+    }), [client]);
+
     return useMemo(() => ({
         ...client,
         ai: aiClient,
@@ -328,5 +633,7 @@ export function useApiClient() {
         campaigns: campaignClient,
         customers: customerClient,
         orders: orderClient,
-    }), [client, aiClient, segmentClient, campaignClient, customerClient, orderClient]);
+        settings: settingsClient,
+        templates: templateClient,
+    }), [client, aiClient, segmentClient, campaignClient, customerClient, orderClient, settingsClient, templateClient]);
 }
@@ -0,0 +1,150 @@
+// Campaign approval workflow
+//
+// A campaign has to be reviewed before it can go out:
+//
+//   draft → submitted → approved → scheduled / sending
+//                     ↘ rejected → submitted (after changes)
+//
+// Campaigns left `pending` or `cancelled` from before approvals can be submitted like
+// drafts, and a completed or failed campaign has to be submitted and approved again to
+// be sent again. The workflow lives on the campaign's status field. Approval covers the
+// content as it was reviewed, so saving changes to a campaign that has been submitted,
+// approved or scheduled, or that has started sending, takes it back to draft and off
+// the schedule. Reviewers leave a comment with each decision; rejections need one.
+// Whoever submitted a campaign can't review it.
+
+import { CampaignSchedule, getCampaignSchedule } from '@/utils/schedule';
+
+export type ApprovalAction = 'submit' | 'withdraw' | 'approve' | 'reject';
+
+export interface ReviewEntry {
+    id: string;
+    action: ApprovalAction;
+    author: string;
+    authorId: string | null;
+    authorEmail: string | null;
+    comment: string | null;
+    createdAt: string | null;
+}
+
+// Who is reviewing, or who submitted, matched by id or email
+export interface ReviewerIdentity {
+    id?: string | null;
+    email?: string | null;
+}
+
+export const APPROVAL_STATUSES = ['submitted', 'approved', 'rejected'];
+
+// Statuses a campaign can be submitted for review from
+export const SUBMITTABLE_STATUSES = ['draft', 'pending', 'rejected', 'cancelled', 'completed', 'failed'];
+
+// Only an approved campaign can be executed; sending it again means another approval
+export const EXECUTABLE_STATUSES = ['approved'];
+
+// Statuses where saving changes means the campaign has to be approved again
+export const REAPPROVAL_STATUSES = ['submitted', 'approved', 'rejected', 'scheduled', 'paused', 'completed', 'failed'];
+
+export const canExecute = (status: string): boolean => EXECUTABLE_STATUSES.includes(status);
+
+// The submitter of a campaign can only withdraw it, not approve or reject it
+export const getApprovalActions = (status: string, isSubmitter: boolean = false): ApprovalAction[] => {
+    if (SUBMITTABLE_STATUSES.includes(status)) return ['submit'];
+    if (status === 'submitted') return isSubmitter ? ['withdraw'] : ['approve', 'reject', 'withdraw'];
+    return [];
+};
+
+export const getApprovalActionLabel = (action: ApprovalAction): string => {
+    switch (action) {
+        case 'submit':
+            return 'Submit for Approval';
+        case 'withdraw':
+            return 'Withdraw';
+        case 'approve':
+            return 'Approve';
+        case 'reject':
+            return 'Reject';
+    }
+};
+
+// Past tense, for the review history
+export const describeReviewAction = (action: ApprovalAction): string => {
+    switch (action) {
+        case 'submit':
+            return 'submitted for approval';
+        case 'withdraw':
+            return 'withdrew the submission';
+        case 'approve':
+            return 'approved';
+        case 'reject':
+            return 'rejected';
+    }
+};
+
+export const validateReviewComment = (action: ApprovalAction, comment: string): string | null =>
+    action === 'reject' && !comment.trim() ? 'Add a comment explaining what needs to change' : null;
+
+const ACTION_ALIASES: Record<string, ApprovalAction> = {
+    submit: 'submit',
+    submitted: 'submit',
+    withdraw: 'withdraw',
+    withdrawn: 'withdraw',
+    approve: 'approve',
+    approved: 'approve',
+    reject: 'reject',
+    rejected: 'reject',
+};
+
+// Review entries come back camelCase or snake_case, with the reviewer nested or flattened
+export const normalizeReviewEntry = (raw: Record<string, unknown>): ReviewEntry | null => {
+    const action = ACTION_ALIASES[String(raw.action ?? raw.status ?? raw.decision ?? '').toLowerCase()];
+    if (!action) return null;
+
+    const reviewer = (raw.reviewer ?? raw.user ?? {}) as Record<string, unknown>;
+    const author = raw.author ?? raw.reviewer_name ?? raw.reviewerName ?? reviewer.name ?? reviewer.email;
+    const authorId = raw.author_id ?? raw.authorId ?? raw.reviewer_id ?? raw.reviewerId ?? reviewer.id ?? reviewer._id;
+    const authorEmail = raw.author_email ?? raw.authorEmail ?? reviewer.email;
+    const comment = raw.comment ?? raw.note;
+    const createdAt = raw.createdAt ?? raw.created_at ?? raw.timestamp;
+
+    return {
+        id: String(raw.id ?? ''),
+        action,
+        author: typeof author === 'string' && author ? author : 'Someone',
+        authorId: authorId !== undefined && authorId !== null && authorId !== '' ? String(authorId) : null,
+        authorEmail: typeof authorEmail === 'string' && authorEmail ? authorEmail : null,
+        comment: typeof comment === 'string' && comment.trim() ? comment : null,
+        createdAt: typeof createdAt === 'string' ? createdAt : null,
+    };
+};
+
+export const normalizeReviewHistory = (raw: unknown): ReviewEntry[] =>
+    Array.isArray(raw)
+        ? raw.map(normalizeReviewEntry).filter((entry): entry is ReviewEntry => entry !== null)
+        : [];
+
+// Who submitted the campaign for its current review: the author of the latest
+// submission, or the campaign's creator when the history doesn't say
+export const getSubmitter = (history: ReviewEntry[], createdBy?: string | null): ReviewerIdentity | null => {
+    const submission = [...history].reverse().find((entry) => entry.action === 'submit');
+    if (submission && (submission.authorId || submission.authorEmail)) {
+        return { id: submission.authorId, email: submission.authorEmail };
+    }
+    // created_by holds an id or an email depending on the backend version
+    return createdBy ? { id: createdBy, email: createdBy } : null;
+};
+
+export const isSameReviewer = (a: ReviewerIdentity | null, b: ReviewerIdentity | null): boolean => {
+    if (!a || !b) return false;
+    if (a.id && b.id && String(a.id) === String(b.id)) return true;
+    return Boolean(a.email && b.email && a.email.toLowerCase() === b.email.toLowerCase());
+};
+
+// The send time asked for when the campaign was created, if it's still ahead. An
+// approved campaign with one is scheduled straight away.
+export const getRequestedSchedule = (
+    campaign: Parameters<typeof getCampaignSchedule>[0],
+    now: Date = new Date()
+): CampaignSchedule | null => {
+    const schedule = getCampaignSchedule(campaign);
+    return schedule && new Date(schedule.scheduledAt).getTime() > now.getTime() ? schedule : null;
+};
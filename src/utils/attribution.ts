@@ -0,0 +1,167 @@
+// Revenue attribution
+//
+// Orders are credited to a campaign when the customer placed them within the
+// attribution window after receiving it. When several campaigns reached the customer
+// inside the window, last-touch credits the most recent one and first-touch the
+// earliest. The backend does the matching; the window and model are workspace settings
+// that can be overridden per request to compare views of the same campaign. ROI is
+// measured against the send cost, from a per-message cost for each channel.
+
+import { CampaignChannel, CHANNELS } from '@/utils/channels';
+
+export type AttributionModel = 'last_touch' | 'first_touch';
+
+export interface AttributionSettings {
+    windowDays: number;
+    model: AttributionModel;
+    // What one message costs to send, per channel
+    costPerMessage: Record<CampaignChannel, number>;
+}
+
+export interface AttributedOrder {
+    id: string;
+    orderNumber: string;
+    customerName: string;
+    amount: number;
+    orderDate: string | null;
+}
+
+export interface CampaignAttribution {
+    orders: number;
+    revenue: number;
+    cost: number;
+    // (revenue - cost) / cost, null when the send cost nothing
+    roi: number | null;
+    // The most recent attributed orders, when the backend includes them
+    recentOrders: AttributedOrder[];
+}
+
+export const ATTRIBUTION_MODELS: { value: AttributionModel; label: string; description: string }[] = [
+    { value: 'last_touch', label: 'Last touch', description: 'Credit the most recent campaign the customer received before ordering' },
+    { value: 'first_touch', label: 'First touch', description: 'Credit the first campaign the customer received inside the window' },
+];
+
+export const ATTRIBUTION_WINDOWS = [
+    { value: 1, label: '1 day' },
+    { value: 3, label: '3 days' },
+    { value: 7, label: '7 days' },
+    { value: 14, label: '14 days' },
+    { value: 30, label: '30 days' },
+];
+
+export const MAX_ATTRIBUTION_WINDOW_DAYS = 90;
+
+export const createDefaultAttributionSettings = (): AttributionSettings => ({
+    windowDays: 7,
+    model: 'last_touch',
+    costPerMessage: { sms: 0.0075, email: 0.001, whatsapp: 0.005 },
+});
+
+const toAmount = (value: unknown): number | undefined => {
+    const amount = typeof value === 'string' ? Number(value) : value;
+    return typeof amount === 'number' && isFinite(amount) ? amount : undefined;
+};
+
+export const isAttributionModel = (value: unknown): value is AttributionModel =>
+    ATTRIBUTION_MODELS.some((model) => model.value === value);
+
+// Settings come back camelCase or snake_case, and missing on a new workspace
+export const normalizeAttributionSettings = (raw: unknown): AttributionSettings => {
+    const defaults = createDefaultAttributionSettings();
+    if (!raw || typeof raw !== 'object') return defaults;
+
+    const data = raw as Record<string, unknown>;
+    const model = data.model;
+    const costs = (data.costPerMessage ?? data.cost_per_message ?? {}) as Record<string, unknown>;
+
+    return {
+        windowDays: toAmount(data.windowDays ?? data.window_days) ?? defaults.windowDays,
+        model: isAttributionModel(model) ? model : defaults.model,
+        costPerMessage: Object.fromEntries(
+            CHANNELS.map(({ value }) => [value, toAmount(costs[value]) ?? defaults.costPerMessage[value]])
+        ) as Record<CampaignChannel, number>,
+    };
+};
+
+export const validateAttributionSettings = ({ windowDays, costPerMessage }: AttributionSettings): string[] => {
+    const issues: string[] = [];
+
+    if (!Number.isInteger(windowDays) || windowDays < 1 || windowDays > MAX_ATTRIBUTION_WINDOW_DAYS) {
+        issues.push(`The attribution window must be between 1 and ${MAX_ATTRIBUTION_WINDOW_DAYS} days`);
+    }
+    if (Object.values(costPerMessage).some((cost) => !isFinite(cost) || cost < 0)) {
+        issues.push('Message costs cannot be negative');
+    }
+
+    return issues;
+};
+
+// Query string for the attribution endpoints
+export const toAttributionQuery = ({ windowDays, model }: Pick<AttributionSettings, 'windowDays' | 'model'>): string =>
+    `window=${windowDays}&model=${model}`;
+
+export const calculateRoi = (revenue: number, cost: number): number | null =>
+    cost > 0 ? (revenue - cost) / cost : null;
+
+export const getSendCost = (settings: AttributionSettings, channel: CampaignChannel, messages: number): number =>
+    settings.costPerMessage[channel] * messages;
+
+const parseAttributedOrder = (raw: Record<string, unknown>): AttributedOrder => {
+    const customer = (raw.customers ?? raw.customer ?? {}) as Record<string, unknown>;
+    const name = [customer.first_name, customer.last_name].filter(Boolean).join(' ');
+
+    return {
+        id: String(raw.id ?? ''),
+        orderNumber: String(raw.order_number ?? raw.orderNumber ?? raw.id ?? ''),
+        customerName: name || String(raw.customer_name ?? raw.customerName ?? 'Unknown customer'),
+        amount: toAmount(raw.amount) ?? 0,
+        orderDate: typeof (raw.order_date ?? raw.orderDate) === 'string' ? String(raw.order_date ?? raw.orderDate) : null,
+    };
+};
+
+// The backend reports orders and revenue; the cost is worked out from the messages sent
+// unless it reports that too
+export const parseCampaignAttribution = (raw: unknown, fallbackCost: number): CampaignAttribution | null => {
+    if (!raw || typeof raw !== 'object') return null;
+
+    const data = raw as Record<string, unknown>;
+    const orders = toAmount(data.orders ?? data.orderCount ?? data.order_count ?? data.attributed_orders);
+    const revenue = toAmount(data.revenue ?? data.attributed_revenue ?? data.attributedRevenue);
+    if (orders === undefined || revenue === undefined) return null;
+
+    const cost = toAmount(data.cost) ?? fallbackCost;
+    const recentOrders = Array.isArray(data.recentOrders ?? data.recent_orders)
+        ? (data.recentOrders ?? data.recent_orders) as Record<string, unknown>[]
+        : [];
+
+    return { orders, revenue, cost, roi: calculateRoi(revenue, cost), recentOrders: recentOrders.map(parseAttributedOrder) };
+};
+
+// Revenue per campaign for the list, from a list of records or an object keyed by id
+export const parseRevenueSummary = (raw: unknown): Record<string, number> => {
+    if (!raw || typeof raw !== 'object') return {};
+
+    const entries: [string, unknown][] = Array.isArray(raw)
+        ? raw.map((item: Record<string, unknown>) => [String(item.campaignId ?? item.campaign_id ?? item.id), item])
+        : Object.entries(raw);
+
+    const summary: Record<string, number> = {};
+    entries.forEach(([id, value]) => {
+        const record = value && typeof value === 'object' ? value as Record<string, unknown> : { revenue: value };
+        const revenue = toAmount(record.revenue ?? record.attributed_revenue ?? record.attributedRevenue);
+        if (revenue !== undefined) summary[id] = revenue;
+    });
+    return summary;
+};
+
+export const formatRevenue = (amount: number): string =>
+    new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+
+// "+240%", "-35%"
+export const formatRoi = (roi: number | null): string =>
+    roi === null ? '—' : `${roi > 0 ? '+' : ''}${Math.round(roi * 100).toLocaleString()}%`;
+
+export const describeAttribution = ({ windowDays, model }: Pick<AttributionSettings, 'windowDays' | 'model'>): string => {
+    const label = ATTRIBUTION_MODELS.find((option) => option.value === model)?.label || model;
+    return `${label}, orders within ${windowDays} day${windowDays === 1 ? '' : 's'} of receiving a campaign`;
+};
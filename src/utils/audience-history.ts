@@ -0,0 +1,162 @@
+// Audience size history per segment, and drift detection over it
+//
+// The backend only keeps the latest `audience_size` / `last_calculated_at`, so every
+// recalculation seen by this browser is recorded locally and merged with whatever
+// `segments.getSegmentHistory` returns. The local part is per browser, and points older
+// than a year are dropped so it doesn't grow without bound.
+
+export interface AudienceSizePoint {
+    calculatedAt: string;
+    size: number;
+}
+
+export interface AudienceDrift {
+    previous: AudienceSizePoint;
+    current: AudienceSizePoint;
+    // Relative change from previous to current (-0.4 is a 40% drop)
+    change: number;
+}
+
+const STORAGE_KEY = 'segmentAudienceHistory';
+
+// Points kept per segment
+const MAX_POINTS = 180;
+
+// Points older than this are dropped on every write
+const MAX_AGE_DAYS = 365;
+
+// A repeated size within this window is treated as the same calculation
+const DUPLICATE_WINDOW_MS = 60 * 60 * 1000;
+
+// Compare against a size from at least this long ago
+export const DRIFT_WINDOW_DAYS = 7;
+
+// Relative change that counts as drift
+export const DRIFT_THRESHOLD = 0.4;
+
+const readStore = (): Record<string, AudienceSizePoint[]> => {
+    if (typeof window === 'undefined') return {};
+
+    try {
+        return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    } catch {
+        return {};
+    }
+};
+
+const toTime = (point: AudienceSizePoint): number => new Date(point.calculatedAt).getTime();
+
+// Drop points past the age limit, then segments left without any
+const trimStore = (store: Record<string, AudienceSizePoint[]>): Record<string, AudienceSizePoint[]> => {
+    const cutoff = Date.now() - MAX_AGE_DAYS * 24 * 60 * 60 * 1000;
+
+    return Object.fromEntries(
+        Object.entries(store)
+            .map(([segmentId, history]) => [segmentId, history.filter((point) => toTime(point) >= cutoff)] as const)
+            .filter(([, history]) => history.length > 0)
+    );
+};
+
+// History is a nice-to-have, so a full storage quota halves every segment's history
+// (keeping the newest points) until it fits, and gives up without throwing
+const writeStore = (store: Record<string, AudienceSizePoint[]>) => {
+    if (typeof window === 'undefined') return;
+
+    let trimmed = trimStore(store);
+    while (true) {
+        try {
+            localStorage.setItem(STORAGE_KEY, JSON.stringify(trimmed));
+            return;
+        } catch (err: unknown) {
+            const points = Object.values(trimmed).reduce((total, history) => total + history.length, 0);
+            if (points === 0) {
+                console.error('Error saving audience history:', err);
+                return;
+            }
+            trimmed = Object.fromEntries(
+                Object.entries(trimmed)
+                    .map(([segmentId, history]) => [segmentId, history.slice(Math.ceil(history.length / 2))] as const)
+                    .filter(([, history]) => history.length > 0)
+            );
+        }
+    }
+};
+
+// Merge several series into one, oldest first, without duplicate timestamps
+export const mergeAudienceHistory = (...series: AudienceSizePoint[][]): AudienceSizePoint[] => {
+    const byTime = new Map<number, AudienceSizePoint>();
+
+    for (const point of series.flat()) {
+        const time = toTime(point);
+        if (!isNaN(time)) byTime.set(time, point);
+    }
+
+    return Array.from(byTime.entries())
+        .sort(([a], [b]) => a - b)
+        .map(([, point]) => point);
+};
+
+export const getAudienceHistory = (segmentId: string): AudienceSizePoint[] => readStore()[segmentId] || [];
+
+// Record a calculated audience size for a segment and return its updated history
+export const recordAudienceSize = (
+    segmentId: string,
+    size: number,
+    calculatedAt: string = new Date().toISOString()
+): AudienceSizePoint[] => {
+    const store = readStore();
+    const history = store[segmentId] || [];
+    const point = { calculatedAt, size };
+    const last = history[history.length - 1];
+
+    if (last && last.size === size && Math.abs(toTime(point) - toTime(last)) < DUPLICATE_WINDOW_MS) {
+        return history;
+    }
+
+    const updated = mergeAudienceHistory(history, [point]).slice(-MAX_POINTS);
+    writeStore({ ...store, [segmentId]: updated });
+    return updated;
+};
+
+// Normalize a history response from the API into points
+export const parseHistoryResponse = (data: unknown): AudienceSizePoint[] => {
+    if (!Array.isArray(data)) return [];
+
+    return data
+        .map((entry) => ({
+            calculatedAt: String(entry?.calculatedAt ?? entry?.calculated_at ?? ''),
+            size: Number(entry?.size ?? entry?.audience_size),
+        }))
+        .filter((point) => point.calculatedAt && !isNaN(point.size));
+};
+
+// Compare the latest size with the last one from at least `windowDays` earlier and
+// report it when it moved by at least `threshold`. A shorter history reports nothing,
+// so two calculations an hour apart can't pass for a week of drift.
+export const detectAudienceDrift = (
+    history: AudienceSizePoint[],
+    windowDays: number = DRIFT_WINDOW_DAYS,
+    threshold: number = DRIFT_THRESHOLD
+): AudienceDrift | null => {
+    if (history.length < 2) return null;
+
+    const current = history[history.length - 1];
+    const cutoff = toTime(current) - windowDays * 24 * 60 * 60 * 1000;
+    const previous = [...history].reverse().find((point) => toTime(point) <= cutoff);
+
+    if (!previous || previous.size === 0) return null;
+
+    const change = (current.size - previous.size) / previous.size;
+    return Math.abs(change) >= threshold ? { previous, current, change } : null;
+};
+
+// The date drift is measured from, e.g. "Oct 12"
+export const getDriftSince = (drift: AudienceDrift): string =>
+    new Date(drift.previous.calculatedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+// Human-readable summary, e.g. "dropped 42% (1,200 → 696) since Oct 12"
+export const describeAudienceDrift = (drift: AudienceDrift): string => {
+    const direction = drift.change < 0 ? 'dropped' : 'grew';
+
+    return `${direction} ${Math.round(Math.abs(drift.change) * 100)}% (${drift.previous.size.toLocaleString()} → ${drift.current.size.toLocaleString()}) since ${getDriftSince(drift)}`;
+};
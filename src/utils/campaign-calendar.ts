@@ -0,0 +1,161 @@
+// Campaign calendar
+//
+// Campaigns sit on their scheduled date when they have one and on their created date
+// otherwise, in the viewer's local time. Only campaigns that haven't been sent can be
+// moved. Two campaigns scheduled for the same day whose segments share customers are
+// flagged, since those customers would get both messages that day.
+
+import { CampaignSchedule, ZonedDateTime, getBrowserTimezone, getCampaignSchedule, utcToZonedTime } from '@/utils/schedule';
+
+export type CalendarView = 'month' | 'week';
+
+export interface CalendarCampaign {
+    id: string;
+    name: string;
+    status: string;
+    segment_id?: string;
+    created_at?: string;
+    createdAt?: string;
+    scheduled_at?: string;
+    scheduledAt?: string;
+    timezone?: string;
+}
+
+export interface CalendarConflict {
+    // YYYY-MM-DD
+    date: string;
+    campaignIds: [string, string];
+    // Customers in both segments; null when both campaigns use the same segment
+    sharedCustomers: number | null;
+}
+
+// Statuses that mean nothing has gone out yet
+export const UNSENT_STATUSES = ['draft', 'pending', 'submitted', 'approved', 'rejected', 'scheduled'];
+
+// Only campaigns that have passed review can be put on the schedule
+export const RESCHEDULABLE_STATUSES = ['approved', 'scheduled'];
+
+// Approved campaigns dropped on a day are scheduled for this local time
+export const DEFAULT_SEND_TIME = '09:00';
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Local YYYY-MM-DD
+export const toDateKey = (date: Date): string =>
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+const addDays = (date: Date, days: number): Date =>
+    new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+const startOfWeek = (date: Date): Date => addDays(date, -date.getDay());
+
+// Days shown for a view: whole weeks (Sunday first) covering the month, or one week
+export const getCalendarDays = (view: CalendarView, anchor: Date): Date[] => {
+    if (view === 'week') {
+        const start = startOfWeek(anchor);
+        return Array.from({ length: 7 }, (_, i) => addDays(start, i));
+    }
+
+    const first = new Date(anchor.getFullYear(), anchor.getMonth(), 1);
+    const last = new Date(anchor.getFullYear(), anchor.getMonth() + 1, 0);
+    const start = startOfWeek(first);
+    const weeks = Math.ceil((last.getDate() + first.getDay()) / 7);
+    return Array.from({ length: weeks * 7 }, (_, i) => addDays(start, i));
+};
+
+// Anchor date one view earlier or later
+export const shiftAnchor = (view: CalendarView, anchor: Date, direction: 1 | -1): Date =>
+    view === 'week'
+        ? addDays(anchor, 7 * direction)
+        : new Date(anchor.getFullYear(), anchor.getMonth() + direction, 1);
+
+export const getCalendarTitle = (view: CalendarView, anchor: Date): string => {
+    if (view === 'month') {
+        return anchor.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+    }
+    const days = getCalendarDays('week', anchor);
+    const format = (date: Date) => date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+    return `${format(days[0])} – ${format(days[6])}, ${days[6].getFullYear()}`;
+};
+
+export const isReschedulable = (campaign: CalendarCampaign): boolean =>
+    RESCHEDULABLE_STATUSES.includes(campaign.status);
+
+// When the campaign lands on the calendar, or null if it has no usable date
+export const getCalendarDate = (campaign: CalendarCampaign): Date | null => {
+    const value = getCampaignSchedule(campaign)?.scheduledAt || campaign.created_at || campaign.createdAt;
+    if (!value) return null;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+};
+
+export const groupByDay = <T extends CalendarCampaign>(campaigns: T[]): Record<string, T[]> => {
+    const days: Record<string, T[]> = {};
+    campaigns.forEach((campaign) => {
+        const date = getCalendarDate(campaign);
+        if (!date) return;
+        const key = toDateKey(date);
+        (days[key] ||= []).push(campaign);
+    });
+    Object.values(days).forEach((list) =>
+        list.sort((a, b) => (getCalendarDate(a)?.getTime() ?? 0) - (getCalendarDate(b)?.getTime() ?? 0))
+    );
+    return days;
+};
+
+// Send time after dropping a campaign on a day. Scheduled campaigns keep their time and
+// timezone; approved ones go out at the default time in the viewer's timezone.
+export const getDroppedSchedule = (
+    campaign: CalendarCampaign,
+    dateKey: string
+): { zoned: ZonedDateTime; timezone: string } => {
+    const schedule: CampaignSchedule | null = getCampaignSchedule(campaign);
+    if (schedule) {
+        return { zoned: { date: dateKey, time: utcToZonedTime(schedule.scheduledAt, schedule.timezone).time }, timezone: schedule.timezone };
+    }
+    return { zoned: { date: dateKey, time: DEFAULT_SEND_TIME }, timezone: getBrowserTimezone() };
+};
+
+// Pairs of campaigns scheduled for the same day that reach the same customers. Only
+// scheduled campaigns, or approved ones with a send time, have a real send date: the
+// rest sit on their created date, and sent campaigns are history. `getMembers` resolves
+// a segment's member ids; pairs whose members can't be loaded are skipped.
+export const findSegmentConflicts = async (
+    days: Record<string, CalendarCampaign[]>,
+    getMembers: (segmentId: string) => Promise<Set<string>>
+): Promise<CalendarConflict[]> => {
+    const conflicts: CalendarConflict[] = [];
+
+    for (const [date, campaigns] of Object.entries(days)) {
+        const upcoming = campaigns.filter(
+            (campaign): campaign is CalendarCampaign & { segment_id: string } =>
+                RESCHEDULABLE_STATUSES.includes(campaign.status) && getCampaignSchedule(campaign) !== null && Boolean(campaign.segment_id)
+        );
+
+        for (let i = 0; i < upcoming.length; i++) {
+            for (let j = i + 1; j < upcoming.length; j++) {
+                const [a, b] = [upcoming[i], upcoming[j]];
+                if (a.segment_id === b.segment_id) {
+                    conflicts.push({ date, campaignIds: [a.id, b.id], sharedCustomers: null });
+                    continue;
+                }
+
+                try {
+                    const [membersA, membersB] = await Promise.all([getMembers(a.segment_id), getMembers(b.segment_id)]);
+                    const [smaller, larger] = membersA.size < membersB.size ? [membersA, membersB] : [membersB, membersA];
+                    let shared = 0;
+                    smaller.forEach((id) => {
+                        if (larger.has(id)) shared++;
+                    });
+                    if (shared > 0) {
+                        conflicts.push({ date, campaignIds: [a.id, b.id], sharedCustomers: shared });
+                    }
+                } catch (error) {
+                    console.error('Error comparing segments:', error);
+                }
+            }
+        }
+    }
+
+    return conflicts;
+};
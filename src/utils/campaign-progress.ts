@@ -0,0 +1,60 @@
+// Send progress and in-flight controls
+//
+// A long send can be paused, resumed or cancelled while the backend works through the
+// audience. Pausing keeps what has gone out and holds the rest; cancelling drops the
+// rest for good. Progress counts come back on the campaign record in either casing.
+
+export type CampaignAction = 'pause' | 'resume' | 'cancel';
+
+export interface CampaignProgress {
+    // Customers the send is working through (the audience minus any holdout)
+    total: number;
+    sent: number;
+    failed: number;
+    remaining: number;
+    // 0-100, sent and failed both count as processed
+    percentage: number;
+}
+
+interface ProgressFields {
+    audience_size?: number;
+    audienceSize?: number;
+    total_count?: number;
+    totalCount?: number;
+    sent_count?: number;
+    sentCount?: number;
+    failed_count?: number;
+    failedCount?: number;
+}
+
+// Statuses with a send in progress
+export const IN_FLIGHT_STATUSES = ['processing', 'sending'];
+
+export const getCampaignProgress = (campaign: ProgressFields): CampaignProgress => {
+    const sent = campaign.sent_count || campaign.sentCount || 0;
+    const failed = campaign.failed_count || campaign.failedCount || 0;
+    const total = Math.max(campaign.total_count || campaign.totalCount || campaign.audience_size || campaign.audienceSize || 0, sent + failed);
+    const remaining = total - sent - failed;
+    return { total, sent, failed, remaining, percentage: total > 0 ? Math.round(((sent + failed) / total) * 100) : 0 };
+};
+
+export const getAvailableActions = (status: string): CampaignAction[] => {
+    if (IN_FLIGHT_STATUSES.includes(status)) return ['pause', 'cancel'];
+    if (status === 'paused') return ['resume', 'cancel'];
+    return [];
+};
+
+export const getActionLabel = (action: CampaignAction): string =>
+    ({ pause: 'Pause', resume: 'Resume', cancel: 'Cancel Send' })[action];
+
+export const getActionConfirmation = (action: CampaignAction, name: string, progress: CampaignProgress): string => {
+    const remaining = `${progress.remaining.toLocaleString()} customer${progress.remaining === 1 ? '' : 's'}`;
+    switch (action) {
+        case 'pause':
+            return `Pause "${name}"? Messages already sent stay sent, and the remaining ${remaining} will wait until you resume.`;
+        case 'resume':
+            return `Resume "${name}"? The remaining ${remaining} will be messaged.`;
+        case 'cancel':
+            return `Cancel "${name}"? The remaining ${remaining} will not be messaged. This cannot be undone.`;
+    }
+};
@@ -0,0 +1,124 @@
+// Campaign templates and copies
+//
+// A template is the reusable structure of a campaign: objective, audience rules, message
+// and tags. Starting the wizard from one pre-fills every step, and a new segment is
+// created from the rules as usual. Templates are saved from the templates page or from
+// an existing campaign. Duplicating a campaign instead makes a new draft that keeps the
+// original's segment.
+
+import { ABTestSettings } from '@/utils/ab-test';
+import { CampaignChannel, ChannelContent, DEFAULT_CHANNEL, getCampaignChannel } from '@/utils/channels';
+import { HoldoutSettings, createHoldoutSeed } from '@/utils/holdout';
+import { validateTemplate } from '@/utils/message-template';
+import { ConditionGroup, RuleInput, createDefaultRules, normalizeRules } from '@/utils/segment-rules';
+
+export interface CampaignTemplate {
+    id: string;
+    name: string;
+    objective: string;
+    rules: ConditionGroup;
+    messageTemplate: string;
+    tags: string[];
+    channel: CampaignChannel;
+    updatedAt: string | null;
+}
+
+export type CampaignTemplateDraft = Omit<CampaignTemplate, 'id' | 'updatedAt'>;
+
+// The campaign fields templates and copies are made from, in the backend's casing
+export interface CampaignSource {
+    name: string;
+    segment_id?: string;
+    message_template?: string;
+    ai_summary?: string;
+    tags?: string[];
+    channel?: string;
+    content?: ChannelContent;
+    holdout?: HoldoutSettings;
+    holdout_percentage?: number;
+    ab_test?: ABTestSettings;
+    abTest?: ABTestSettings;
+}
+
+export const createEmptyTemplate = (): CampaignTemplateDraft => ({
+    name: '',
+    objective: '',
+    rules: createDefaultRules(),
+    messageTemplate: '',
+    tags: [],
+    channel: DEFAULT_CHANNEL,
+});
+
+// Templates come back camelCase or snake_case, with the rules in either segment format
+export const normalizeCampaignTemplate = (raw: Record<string, unknown>): CampaignTemplate => {
+    const updatedAt = raw.updatedAt ?? raw.updated_at ?? raw.createdAt ?? raw.created_at;
+
+    return {
+        id: String(raw.id ?? ''),
+        name: String(raw.name ?? ''),
+        objective: String(raw.objective ?? ''),
+        rules: normalizeRules((raw.rules ?? raw.segment_rules ?? raw.segmentRules) as RuleInput | undefined),
+        messageTemplate: String(raw.messageTemplate ?? raw.message_template ?? ''),
+        tags: Array.isArray(raw.tags) ? raw.tags.map(String) : [],
+        channel: getCampaignChannel({ channel: typeof raw.channel === 'string' ? raw.channel : null }),
+        updatedAt: typeof updatedAt === 'string' ? updatedAt : null,
+    };
+};
+
+export const validateCampaignTemplate = (template: CampaignTemplateDraft): string[] => {
+    const issues: string[] = [];
+
+    if (!template.name.trim()) {
+        issues.push('Give the template a name');
+    }
+    if (!template.messageTemplate.trim()) {
+        issues.push('Add a message');
+    } else {
+        const [templateIssue] = validateTemplate(template.messageTemplate);
+        if (templateIssue) issues.push(`Fix the message: ${templateIssue.message}`);
+    }
+
+    return issues;
+};
+
+export const addTag = (tags: string[], tag: string): string[] => {
+    const trimmed = tag.trim();
+    return trimmed && !tags.includes(trimmed) ? [...tags, trimmed] : tags;
+};
+
+// A template from a campaign and the rules of its segment
+export const templateFromCampaign = (campaign: CampaignSource, rules: RuleInput | null | undefined): CampaignTemplateDraft => ({
+    name: campaign.name,
+    objective: campaign.ai_summary || '',
+    rules: normalizeRules(rules),
+    messageTemplate: campaign.message_template || '',
+    tags: campaign.tags || [],
+    channel: getCampaignChannel(campaign),
+});
+
+// "Weekly digest (copy)", then "Weekly digest (copy 2)" when copying a copy
+export const getCopyName = (name: string): string => {
+    const match = name.match(/^(.*) \(copy(?: (\d+))?\)$/);
+    if (!match) return `${name} (copy)`;
+    return `${match[1]} (copy ${match[2] ? Number(match[2]) + 1 : 2})`;
+};
+
+// Fields for creating a draft copy of a campaign: everything the wizard sets except the
+// schedule, and a holdout gets a new seed so the copy holds back a different set of
+// customers. Delivery rules and attribution are workspace settings rather than campaign
+// fields, so the copy is sent and measured under the same ones as every other campaign.
+export const toCampaignCopy = (campaign: CampaignSource) => {
+    const holdoutPercentage = campaign.holdout?.percentage ?? campaign.holdout_percentage;
+
+    return {
+        name: getCopyName(campaign.name),
+        segmentId: campaign.segment_id || '',
+        messageTemplate: campaign.message_template || '',
+        objective: campaign.ai_summary || undefined,
+        tags: campaign.tags || [],
+        holdout: holdoutPercentage ? { percentage: holdoutPercentage, seed: createHoldoutSeed() } : undefined,
+        channel: getCampaignChannel(campaign),
+        content: campaign.content,
+        abTest: campaign.ab_test || campaign.abTest || undefined,
+    };
+};
@@ -0,0 +1,167 @@
+// Delivery channels for campaigns
+//
+// `messageTemplate` is the body on every channel: the SMS text, the plain-text part of
+// an email, or the body of a WhatsApp template. Channel-specific extras (email subject
+// and HTML body, WhatsApp template name and language) travel in `ChannelContent`.
+// Campaigns created before channels existed were SMS-only, so a missing channel is SMS.
+
+import { SmsCount, countSms } from '@/utils/sms';
+import { TemplateNode, TemplateSyntaxError, parseTemplate, validateTemplate } from '@/utils/message-template';
+
+export type CampaignChannel = 'sms' | 'email' | 'whatsapp';
+
+export interface ChannelOption {
+    value: CampaignChannel;
+    label: string;
+    description: string;
+}
+
+export interface EmailContent {
+    subject: string;
+    // Optional; the message template is sent as the plain-text part either way
+    htmlBody?: string;
+}
+
+export interface WhatsAppContent {
+    // Name of the approved template in WhatsApp Business Manager
+    templateName: string;
+    language: string;
+}
+
+export interface ChannelContent {
+    email?: EmailContent;
+    whatsapp?: WhatsAppContent;
+}
+
+// A message template rewritten for WhatsApp, where variables are positional
+export interface WhatsAppTemplate {
+    // Body with merge fields replaced by {{1}}, {{2}}, ...
+    body: string;
+    // Merge field expression for each position, in order
+    variables: string[];
+}
+
+export const CHANNELS: ChannelOption[] = [
+    { value: 'sms', label: 'SMS', description: 'Text message, billed per segment' },
+    { value: 'email', label: 'Email', description: 'Subject with HTML and plain-text body' },
+    { value: 'whatsapp', label: 'WhatsApp', description: 'Pre-approved template with variables' },
+];
+
+export const DEFAULT_CHANNEL: CampaignChannel = 'sms';
+
+// Longest SMS we allow before asking the user to shorten it
+export const MAX_SMS_SEGMENTS = 3;
+
+// WhatsApp rejects template bodies longer than this
+export const MAX_WHATSAPP_BODY_LENGTH = 1024;
+
+export const MAX_EMAIL_SUBJECT_LENGTH = 150;
+
+export const WHATSAPP_LANGUAGES = [
+    { value: 'en', label: 'English' },
+    { value: 'en_US', label: 'English (US)' },
+    { value: 'en_GB', label: 'English (UK)' },
+    { value: 'hi', label: 'Hindi' },
+    { value: 'ta', label: 'Tamil' },
+    { value: 'te', label: 'Telugu' },
+    { value: 'mr', label: 'Marathi' },
+    { value: 'bn', label: 'Bengali' },
+];
+
+export const isCampaignChannel = (value: unknown): value is CampaignChannel =>
+    CHANNELS.some((channel) => channel.value === value);
+
+export const getCampaignChannel = (campaign: { channel?: string | null }): CampaignChannel =>
+    isCampaignChannel(campaign.channel) ? campaign.channel : DEFAULT_CHANNEL;
+
+export const getChannelLabel = (channel: CampaignChannel): string =>
+    CHANNELS.find((option) => option.value === channel)?.label ?? channel;
+
+export const createChannelContent = (channel: CampaignChannel): ChannelContent => {
+    switch (channel) {
+        case 'email':
+            return { email: { subject: '', htmlBody: '' } };
+        case 'whatsapp':
+            return { whatsapp: { templateName: '', language: WHATSAPP_LANGUAGES[0].value } };
+        default:
+            return {};
+    }
+};
+
+// Only the part of the content that belongs to the channel, for saving
+export const pickChannelContent = (channel: CampaignChannel, content: ChannelContent): ChannelContent =>
+    channel === 'email' ? { email: content.email } : channel === 'whatsapp' ? { whatsapp: content.whatsapp } : {};
+
+// SMS size of the template's fixed text, i.e. the least any recipient will get.
+// Merge fields add to this per recipient.
+export const countTemplateSms = (template: string): SmsCount => {
+    let nodes: TemplateNode[];
+    try {
+        nodes = parseTemplate(template);
+    } catch (error) {
+        if (error instanceof TemplateSyntaxError) return countSms(template);
+        throw error;
+    }
+    return countSms(nodes.map((node) => (node.type === 'text' ? node.value : '')).join(''));
+};
+
+// Repeated expressions share a position, so {{first_name}} twice is {{1}} twice
+export const toWhatsAppTemplate = (template: string): WhatsAppTemplate => {
+    const variables: string[] = [];
+    const body = parseTemplate(template)
+        .map((node) => {
+            if (node.type === 'text') return node.value;
+            const expression = node.raw.slice(2, -2).trim();
+            let index = variables.indexOf(expression);
+            if (index === -1) index = variables.push(expression) - 1;
+            return `{{${index + 1}}}`;
+        })
+        .join('');
+
+    return { body, variables };
+};
+
+// Problems that stop the campaign from being sent on its channel. Template syntax is
+// checked separately with `validateTemplate`.
+export const validateChannelContent = (
+    channel: CampaignChannel,
+    messageTemplate: string,
+    content: ChannelContent
+): string[] => {
+    const issues: string[] = [];
+
+    if (channel === 'sms') {
+        const sms = countTemplateSms(messageTemplate);
+        if (sms.segments > MAX_SMS_SEGMENTS) {
+            issues.push(`SMS is ${sms.segments} segments long before merge fields; keep it to ${MAX_SMS_SEGMENTS} or fewer`);
+        }
+    }
+
+    if (channel === 'email') {
+        const subject = content.email?.subject?.trim() ?? '';
+        if (!subject) {
+            issues.push('Email subject is required');
+        } else if (subject.length > MAX_EMAIL_SUBJECT_LENGTH) {
+            issues.push(`Email subject must be ${MAX_EMAIL_SUBJECT_LENGTH} characters or fewer`);
+        }
+        issues.push(...validateTemplate(subject).map((issue) => `Subject: ${issue.message}`));
+        issues.push(...validateTemplate(content.email?.htmlBody ?? '').map((issue) => `HTML body: ${issue.message}`));
+    }
+
+    if (channel === 'whatsapp') {
+        const templateName = content.whatsapp?.templateName?.trim() ?? '';
+        if (!templateName) {
+            issues.push('WhatsApp template name is required');
+        } else if (!/^[a-z0-9_]+$/.test(templateName)) {
+            issues.push('WhatsApp template names use lowercase letters, numbers and underscores only');
+        }
+        if (!content.whatsapp?.language) {
+            issues.push('WhatsApp template language is required');
+        }
+        if (validateTemplate(messageTemplate).length === 0 && toWhatsAppTemplate(messageTemplate).body.length > MAX_WHATSAPP_BODY_LENGTH) {
+            issues.push(`WhatsApp template body must be ${MAX_WHATSAPP_BODY_LENGTH} characters or fewer`);
+        }
+    }
+
+    return issues;
+};
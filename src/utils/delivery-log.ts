@@ -0,0 +1,71 @@
+// Per-recipient delivery log
+//
+// One row per customer a campaign tried to reach, with where the message got to and why
+// it failed. Shared by the log table on the campaign page and the
+// `/api/campaigns/[id]/deliveries/export` route, which streams the CSV page by page.
+
+import { escapeCsv } from '@/utils/segment-export';
+
+export type DeliveryStatus = 'queued' | 'sent' | 'delivered' | 'failed' | 'bounced';
+
+export interface DeliveryLogEntry {
+    id: string;
+    customerId: string;
+    name: string;
+    // Email address or phone number the message went to
+    recipient: string;
+    status: DeliveryStatus;
+    // When the entry reached its current status
+    timestamp: string | null;
+    error: string | null;
+}
+
+export const DELIVERY_STATUSES: { value: DeliveryStatus; label: string }[] = [
+    { value: 'queued', label: 'Queued' },
+    { value: 'sent', label: 'Sent' },
+    { value: 'delivered', label: 'Delivered' },
+    { value: 'failed', label: 'Failed' },
+    { value: 'bounced', label: 'Bounced' },
+];
+
+export const DELIVERY_LOG_PAGE_SIZE = 25;
+
+export const isDeliveryStatus = (value: unknown): value is DeliveryStatus =>
+    DELIVERY_STATUSES.some((status) => status.value === value);
+
+const pickString = (...values: unknown[]): string | null => {
+    const value = values.find((candidate) => typeof candidate === 'string' && candidate !== '');
+    return typeof value === 'string' ? value : null;
+};
+
+// Log rows come back camelCase or snake_case, with the customer nested or flattened
+export const normalizeDeliveryLogEntry = (raw: Record<string, unknown>): DeliveryLogEntry => {
+    const customer = (raw.customer && typeof raw.customer === 'object' ? raw.customer : {}) as Record<string, unknown>;
+    const fullName = [customer.first_name ?? raw.first_name, customer.last_name ?? raw.last_name].filter(Boolean).join(' ');
+    const status = String(raw.status ?? 'queued').toLowerCase();
+
+    return {
+        id: String(raw.id ?? raw._id ?? ''),
+        customerId: String(raw.customerId ?? raw.customer_id ?? customer.id ?? ''),
+        name: pickString(raw.customerName, raw.customer_name, customer.name, fullName) || 'Unknown customer',
+        recipient: pickString(raw.recipient, raw.email, raw.phone, customer.email, customer.phone) || '',
+        status: isDeliveryStatus(status) ? status : 'queued',
+        timestamp: pickString(raw.timestamp, raw.updatedAt, raw.updated_at, raw.deliveredAt, raw.delivered_at, raw.sentAt, raw.sent_at, raw.createdAt, raw.created_at),
+        error: pickString(raw.error, raw.errorReason, raw.error_reason, raw.failure_reason, raw.bounce_reason),
+    };
+};
+
+export const getDeliveryStatusLabel = (status: DeliveryStatus): string =>
+    DELIVERY_STATUSES.find((option) => option.value === status)?.label || status;
+
+export const toDeliveryLogCsvHeader = (): string =>
+    ['Customer ID', 'Name', 'Recipient', 'Status', 'Timestamp', 'Error'].join(',') + '\r\n';
+
+export const toDeliveryLogCsvRow = (entry: DeliveryLogEntry): string =>
+    [entry.customerId, entry.name, entry.recipient, entry.status, entry.timestamp, entry.error].map(escapeCsv).join(',') + '\r\n';
+
+// e.g. "spring-sale-failed-deliveries-2026-10-19.csv"
+export const deliveryLogFileName = (campaignName: string, status: DeliveryStatus | null, date: Date = new Date()): string => {
+    const slug = campaignName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'campaign';
+    return `${slug}-${status ? `${status}-` : ''}deliveries-${date.toISOString().slice(0, 10)}.csv`;
+};
@@ -0,0 +1,141 @@
+// Workspace delivery rules
+//
+// Rules that apply to every campaign in the workspace and are enforced by the backend
+// at send time. The frequency cap skips customers who have already received the
+// maximum number of campaign messages in a rolling window. Quiet hours hold messages
+// that would arrive at night in the customer's local time until the window ends.
+
+import { getBrowserTimezone } from '@/utils/schedule';
+
+export interface FrequencyCap {
+    enabled: boolean;
+    maxMessages: number;
+    periodDays: number;
+}
+
+export interface QuietHours {
+    enabled: boolean;
+    // HH:mm in the customer's local time; a start after the end wraps past midnight
+    start: string;
+    end: string;
+    // Used for customers whose timezone isn't known
+    fallbackTimezone: string;
+}
+
+export interface DeliveryRules {
+    frequencyCap: FrequencyCap;
+    quietHours: QuietHours;
+}
+
+// How many of a campaign's audience the rules would affect if it were sent now
+export interface SuppressionPreview {
+    audienceSize: number;
+    // Skipped because they have reached the frequency cap
+    suppressed: number;
+    // Messaged later because it is currently quiet hours where they are
+    deferred: number;
+}
+
+export const MAX_CAP_MESSAGES = 50;
+
+export const CAP_PERIODS = [
+    { value: 1, label: '1 day' },
+    { value: 3, label: '3 days' },
+    { value: 7, label: '7 days' },
+    { value: 14, label: '14 days' },
+    { value: 30, label: '30 days' },
+];
+
+export const createDefaultDeliveryRules = (): DeliveryRules => ({
+    frequencyCap: { enabled: false, maxMessages: 2, periodDays: 7 },
+    quietHours: { enabled: false, start: '21:00', end: '09:00', fallbackTimezone: getBrowserTimezone() },
+});
+
+const toNumber = (value: unknown, fallback: number): number =>
+    typeof value === 'number' && isFinite(value) ? value : fallback;
+
+const toTime = (value: unknown, fallback: string): string =>
+    typeof value === 'string' && /^\d{2}:\d{2}$/.test(value) ? value : fallback;
+
+// Settings come back camelCase or snake_case, and missing on a new workspace
+export const normalizeDeliveryRules = (raw: unknown): DeliveryRules => {
+    const defaults = createDefaultDeliveryRules();
+    if (!raw || typeof raw !== 'object') return defaults;
+
+    const data = raw as Record<string, Record<string, unknown> | undefined>;
+    const cap = data.frequencyCap ?? data.frequency_cap ?? {};
+    const quiet = data.quietHours ?? data.quiet_hours ?? {};
+
+    return {
+        frequencyCap: {
+            enabled: Boolean(cap.enabled),
+            maxMessages: toNumber(cap.maxMessages ?? cap.max_messages, defaults.frequencyCap.maxMessages),
+            periodDays: toNumber(cap.periodDays ?? cap.period_days, defaults.frequencyCap.periodDays),
+        },
+        quietHours: {
+            enabled: Boolean(quiet.enabled),
+            start: toTime(quiet.start, defaults.quietHours.start),
+            end: toTime(quiet.end, defaults.quietHours.end),
+            fallbackTimezone: String(quiet.fallbackTimezone ?? quiet.fallback_timezone ?? defaults.quietHours.fallbackTimezone),
+        },
+    };
+};
+
+export const validateDeliveryRules = ({ frequencyCap, quietHours }: DeliveryRules): string[] => {
+    const issues: string[] = [];
+
+    if (frequencyCap.enabled) {
+        if (!Number.isInteger(frequencyCap.maxMessages) || frequencyCap.maxMessages < 1 || frequencyCap.maxMessages > MAX_CAP_MESSAGES) {
+            issues.push(`The frequency cap must allow between 1 and ${MAX_CAP_MESSAGES} messages`);
+        }
+        if (!Number.isInteger(frequencyCap.periodDays) || frequencyCap.periodDays < 1) {
+            issues.push('The frequency cap period must be at least one day');
+        }
+    }
+
+    if (quietHours.enabled) {
+        if (!/^\d{2}:\d{2}$/.test(quietHours.start) || !/^\d{2}:\d{2}$/.test(quietHours.end)) {
+            issues.push('Quiet hours need a start and end time');
+        } else if (quietHours.start === quietHours.end) {
+            issues.push('Quiet hours must start and end at different times');
+        }
+    }
+
+    return issues;
+};
+
+const toMinutes = (time: string): number => {
+    const [hour, minute] = time.split(':').map(Number);
+    return hour * 60 + minute;
+};
+
+// Whether a local HH:mm time falls inside quiet hours (start inclusive, end exclusive)
+export const isInQuietHours = (time: string, quietHours: QuietHours): boolean => {
+    if (!quietHours.enabled) return false;
+    const [minute, start, end] = [toMinutes(time), toMinutes(quietHours.start), toMinutes(quietHours.end)];
+    return start < end ? minute >= start && minute < end : minute >= start || minute < end;
+};
+
+export const describeFrequencyCap = (cap: FrequencyCap): string => {
+    if (!cap.enabled) return 'No frequency cap';
+    const messages = `${cap.maxMessages} message${cap.maxMessages === 1 ? '' : 's'}`;
+    const period = cap.periodDays === 1 ? 'day' : `${cap.periodDays} days`;
+    return `Max ${messages} per customer per ${period}`;
+};
+
+export const describeQuietHours = (quietHours: QuietHours): string =>
+    quietHours.enabled
+        ? `No sends ${quietHours.start}–${quietHours.end} in customer local time`
+        : 'No quiet hours';
+
+export const parseSuppressionPreview = (raw: unknown): SuppressionPreview | null => {
+    if (!raw || typeof raw !== 'object') return null;
+
+    const data = raw as Record<string, unknown>;
+    const audienceSize = data.audienceSize ?? data.audience_size;
+    const suppressed = data.suppressed ?? data.suppressedCount ?? data.suppressed_count;
+    if (typeof audienceSize !== 'number' || typeof suppressed !== 'number') return null;
+
+    const deferred = data.deferred ?? data.deferredCount ?? data.deferred_count;
+    return { audienceSize, suppressed, deferred: typeof deferred === 'number' ? deferred : 0 };
+};
@@ -0,0 +1,58 @@
+// Holdout (control) groups for campaigns
+//
+// A holdout keeps a percentage of a campaign's audience from being messaged so its
+// order behaviour can be compared with the customers who were. Assignment hashes the
+// campaign's seed with each customer id, so the same customer always lands in the same
+// group for a campaign, and the split can be recomputed anywhere from the member ids.
+
+export interface HoldoutSettings {
+    // Share of the audience held out, 0-100
+    percentage: number;
+    seed: string;
+}
+
+export interface HoldoutSplit {
+    treatment: number;
+    control: number;
+}
+
+export const DEFAULT_HOLDOUT_PERCENTAGE = 10;
+
+export const MAX_HOLDOUT_PERCENTAGE = 50;
+
+export const createHoldoutSeed = (): string => Math.random().toString(36).slice(2, 10);
+
+// FNV-1a over "seed:customerId", scaled to [0, 1). The final mixing step spreads
+// sequential ids (c1, c2, ...) evenly, which plain FNV-1a does not.
+const hashToUnit = (seed: string, customerId: string): number => {
+    let hash = 0x811c9dc5;
+    const input = `${seed}:${customerId}`;
+
+    for (let i = 0; i < input.length; i++) {
+        hash ^= input.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+
+    hash ^= hash >>> 16;
+    hash = Math.imul(hash, 0x85ebca6b);
+    hash ^= hash >>> 13;
+    hash = Math.imul(hash, 0xc2b2ae35);
+    hash ^= hash >>> 16;
+
+    return (hash >>> 0) / 0x100000000;
+};
+
+export const isInHoldout = (customerId: string, holdout: HoldoutSettings): boolean =>
+    hashToUnit(holdout.seed, String(customerId)) < holdout.percentage / 100;
+
+// Exact group sizes for a known member list
+export const splitAudience = (customerIds: string[], holdout: HoldoutSettings): HoldoutSplit => {
+    const control = customerIds.filter((id) => isInHoldout(id, holdout)).length;
+    return { treatment: customerIds.length - control, control };
+};
+
+// Expected group sizes when only the audience size is known
+export const estimateHoldoutSplit = (audienceSize: number, percentage: number): HoldoutSplit => {
+    const control = Math.round((audienceSize * percentage) / 100);
+    return { treatment: audienceSize - control, control };
+};
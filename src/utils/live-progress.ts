@@ -0,0 +1,109 @@
+// Live progress for campaign pages
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useApiClient } from '@/utils/api-client';
+import {
+    EventSourceFactory,
+    FINISHED_STATUSES,
+    ProgressUpdate,
+    THROUGHPUT_WINDOW_MS,
+    estimateThroughput,
+    subscribeToProgress,
+} from '@/utils/progress-stream';
+
+export interface LiveProgress {
+    sent: number;
+    failed: number;
+    total?: number;
+    status?: string;
+    // Messages processed per second, null until measurable
+    throughput: number | null;
+}
+
+interface LiveProgressOptions {
+    // Called once per campaign when an update reports it has stopped sending
+    onFinished?: (campaignId: string) => void;
+    // Defaults to the browser's EventSource. An injected one, such as
+    // `() => createStubEventSource(updates)`, is opened without a stream token, so it
+    // runs with no backend.
+    createEventSource?: EventSourceFactory | null;
+}
+
+// Subscribes to progress for the given campaigns while the component is mounted
+export function useLiveProgress(campaignIds: string[], { onFinished, createEventSource }: LiveProgressOptions = {}) {
+    const api = useApiClient();
+    const [history, setHistory] = useState<Record<string, ProgressUpdate[]>>({});
+    const [mode, setMode] = useState<'stream' | 'polling' | null>(null);
+
+    // Kept in refs so a new callback doesn't reopen the stream
+    const onFinishedRef = useRef(onFinished);
+    onFinishedRef.current = onFinished;
+    const factoryRef = useRef(createEventSource);
+    factoryRef.current = createEventSource;
+
+    const idsKey = [...campaignIds].sort().join(',');
+
+    useEffect(() => {
+        const ids = idsKey ? idsKey.split(',') : [];
+        if (ids.length === 0) {
+            setMode(null);
+            return;
+        }
+
+        // Anything left from an earlier send of these campaigns is stale
+        setHistory((current) => Object.fromEntries(Object.entries(current).filter(([id]) => !ids.includes(id))));
+
+        const finished = new Set<string>();
+        return subscribeToProgress({
+            getUrl: async () =>
+                factoryRef.current
+                    ? api.campaigns.getProgressStreamUrl(ids)
+                    : api.campaigns.getProgressStreamUrl(ids, await api.campaigns.getProgressStreamToken(ids)),
+            createEventSource: factoryRef.current,
+            poll: () => api.campaigns.getCampaignsProgress(ids),
+            onModeChange: setMode,
+            onUpdate: (update) => {
+                if (!ids.includes(update.campaignId)) return;
+
+                setHistory((current) => ({
+                    ...current,
+                    [update.campaignId]: [
+                        ...(current[update.campaignId] || []).filter((previous) => update.at - previous.at <= THROUGHPUT_WINDOW_MS),
+                        update,
+                    ],
+                }));
+
+                if (update.status && FINISHED_STATUSES.includes(update.status) && !finished.has(update.campaignId)) {
+                    finished.add(update.campaignId);
+                    onFinishedRef.current?.(update.campaignId);
+                }
+            },
+        });
+    }, [idsKey, api.campaigns]);
+
+    const progress = useMemo(() => {
+        const latest: Record<string, LiveProgress> = {};
+        Object.entries(history).forEach(([id, updates]) => {
+            const last = updates[updates.length - 1];
+            latest[id] = { sent: last.sent, failed: last.failed, total: last.total, status: last.status, throughput: estimateThroughput(updates) };
+        });
+        return latest;
+    }, [history]);
+
+    return { progress, mode };
+}
+
+// A campaign record with the live counts and status laid over it
+export const withLiveProgress = <T extends { status: string }>(campaign: T, live?: LiveProgress): T =>
+    live
+        ? {
+            ...campaign,
+            sent_count: live.sent,
+            sentCount: live.sent,
+            failed_count: live.failed,
+            failedCount: live.failed,
+            ...(live.total !== undefined ? { total_count: live.total } : {}),
+            status: (live.status ?? campaign.status) as T['status'],
+        }
+        : campaign;
@@ -0,0 +1,360 @@
+// Personalized message templates
+//
+//   Hi {{first_name | default: "there"}}, you've spent {{total_spend | currency}} with us.
+//   We last saw you {{last_visit_date | relative}}.
+//
+// A variable is a customer field followed by optional filters, applied left to right.
+// `default` replaces an empty value; every other filter leaves empty values empty.
+// `parseTemplate` throws on broken syntax, `validateTemplate` collects every problem
+// (including unknown fields and filters) without throwing.
+
+import { Customer } from '@/utils/rule-evaluator';
+
+export type TemplateFieldType = 'string' | 'number' | 'date' | 'array';
+
+export interface TemplateField {
+    value: string;
+    label: string;
+    type: TemplateFieldType;
+}
+
+export interface TemplateFilterDefinition {
+    value: string;
+    label: string;
+    // Field types the filter makes sense for; empty means any
+    appliesTo: TemplateFieldType[];
+    argument?: 'required' | 'optional';
+}
+
+export interface TemplateFilter {
+    name: string;
+    argument?: string;
+}
+
+export type TemplateNode =
+    | { type: 'text'; value: string; start: number }
+    | { type: 'variable'; field: string; filters: TemplateFilter[]; raw: string; start: number };
+
+export interface RenderedPart {
+    text: string;
+    // Set for parts produced by a variable
+    field?: string;
+    // The variable rendered as an empty string
+    empty?: boolean;
+    // The value was empty and `default` filled it in
+    fallback?: boolean;
+}
+
+export interface RenderedTemplate {
+    text: string;
+    parts: RenderedPart[];
+    // Fields that rendered empty, in template order
+    emptyFields: string[];
+}
+
+export interface TemplateIssue {
+    message: string;
+    position: number;
+}
+
+export const TEMPLATE_FIELDS: TemplateField[] = [
+    { value: 'first_name', label: 'First Name', type: 'string' },
+    { value: 'last_name', label: 'Last Name', type: 'string' },
+    { value: 'email', label: 'Email', type: 'string' },
+    { value: 'phone', label: 'Phone', type: 'string' },
+    { value: 'total_spend', label: 'Total Spend', type: 'number' },
+    { value: 'total_visits', label: 'Total Visits', type: 'number' },
+    { value: 'last_visit_date', label: 'Last Visit Date', type: 'date' },
+    { value: 'tags', label: 'Tags', type: 'array' },
+];
+
+export const TEMPLATE_FILTERS: TemplateFilterDefinition[] = [
+    { value: 'default', label: 'Fallback if empty', appliesTo: [], argument: 'required' },
+    { value: 'currency', label: 'Currency (₹1,234)', appliesTo: ['number'], argument: 'optional' },
+    { value: 'relative', label: 'Relative date (3 days ago)', appliesTo: ['date'] },
+    { value: 'date', label: 'Date (Oct 19, 2026)', appliesTo: ['date'] },
+    { value: 'upper', label: 'UPPERCASE', appliesTo: ['string'] },
+    { value: 'lower', label: 'lowercase', appliesTo: ['string'] },
+    { value: 'capitalize', label: 'Capitalize', appliesTo: ['string'] },
+];
+
+// Single-brace placeholders from the old template format and their replacement
+const LEGACY_PLACEHOLDERS: Record<string, string> = {
+    firstName: 'first_name',
+    lastName: 'last_name',
+    email: 'email',
+};
+
+const DEFAULT_CURRENCY = 'INR';
+
+let supportedCurrencies: Set<string> | null = null;
+
+// ISO 4217 codes the runtime can format, in any case. Runtimes without
+// `Intl.supportedValuesOf` accept any three-letter code, as Intl.NumberFormat does.
+export const isSupportedCurrency = (code: string): boolean => {
+    const currency = code.toUpperCase();
+    if (typeof Intl.supportedValuesOf !== 'function') return /^[A-Z]{3}$/.test(currency);
+    supportedCurrencies ??= new Set(Intl.supportedValuesOf('currency'));
+    return supportedCurrencies.has(currency);
+};
+
+// Parse error with the offending position in the template
+export class TemplateSyntaxError extends Error {
+    position: number;
+
+    constructor(message: string, position: number) {
+        super(message);
+        this.name = 'TemplateSyntaxError';
+        this.position = position;
+    }
+}
+
+export const getTemplateField = (field: string): TemplateField | undefined =>
+    TEMPLATE_FIELDS.find((f) => f.value === field);
+
+// Filters offered for a field in the picker
+export const getFiltersForField = (field: string): TemplateFilterDefinition[] => {
+    const type = getTemplateField(field)?.type;
+    return TEMPLATE_FILTERS.filter((filter) => filter.appliesTo.length === 0 || (type && filter.appliesTo.includes(type)));
+};
+
+// Split on `|` outside quotes
+const splitPipes = (expression: string): { text: string; offset: number }[] => {
+    const segments: { text: string; offset: number }[] = [];
+    let quote: string | null = null;
+    let start = 0;
+
+    for (let i = 0; i < expression.length; i++) {
+        const char = expression[i];
+        if (quote) {
+            if (char === quote) quote = null;
+        } else if (char === '"' || char === "'") {
+            quote = char;
+        } else if (char === '|') {
+            segments.push({ text: expression.slice(start, i), offset: start });
+            start = i + 1;
+        }
+    }
+
+    segments.push({ text: expression.slice(start), offset: start });
+    return segments;
+};
+
+const parseFilter = (text: string, position: number): TemplateFilter => {
+    const match = text.trim().match(/^([a-z_]+)\s*(?::\s*(?:"([^"]*)"|'([^']*)'|([^\s"']+)))?$/i);
+    if (!match) {
+        throw new TemplateSyntaxError(`Invalid filter "${text.trim()}"`, position);
+    }
+
+    const argument = match[2] ?? match[3] ?? match[4];
+    return argument === undefined ? { name: match[1] } : { name: match[1], argument };
+};
+
+export const parseTemplate = (template: string): TemplateNode[] => {
+    const nodes: TemplateNode[] = [];
+    let position = 0;
+
+    while (position < template.length) {
+        const open = template.indexOf('{{', position);
+        if (open === -1) {
+            nodes.push({ type: 'text', value: template.slice(position), start: position });
+            break;
+        }
+
+        if (open > position) {
+            nodes.push({ type: 'text', value: template.slice(position, open), start: position });
+        }
+
+        const close = template.indexOf('}}', open + 2);
+        if (close === -1) {
+            throw new TemplateSyntaxError('Unclosed "{{"', open);
+        }
+
+        const expression = template.slice(open + 2, close);
+        const [fieldSegment, ...filterSegments] = splitPipes(expression);
+        const field = fieldSegment.text.trim();
+
+        if (!field) {
+            throw new TemplateSyntaxError('Empty variable', open);
+        }
+        if (!/^[a-z_][a-z0-9_]*$/i.test(field)) {
+            throw new TemplateSyntaxError(`Invalid variable name "${field}"`, open);
+        }
+
+        nodes.push({
+            type: 'variable',
+            field,
+            filters: filterSegments.map((segment) => parseFilter(segment.text, open + 2 + segment.offset)),
+            raw: template.slice(open, close + 2),
+            start: open,
+        });
+        position = close + 2;
+    }
+
+    return nodes;
+};
+
+// All problems in a template; an empty list means it is safe to send
+export const validateTemplate = (template: string): TemplateIssue[] => {
+    let nodes: TemplateNode[];
+    try {
+        nodes = parseTemplate(template);
+    } catch (error) {
+        if (error instanceof TemplateSyntaxError) {
+            return [{ message: error.message, position: error.position }];
+        }
+        throw error;
+    }
+
+    const issues: TemplateIssue[] = [];
+
+    for (const node of nodes) {
+        if (node.type === 'text') {
+            for (const match of node.value.matchAll(/\{(\w+)\}/g)) {
+                const replacement = LEGACY_PLACEHOLDERS[match[1]];
+                if (replacement) {
+                    issues.push({
+                        message: `"{${match[1]}}" is no longer supported, use "{{${replacement}}}"`,
+                        position: node.start + (match.index ?? 0),
+                    });
+                }
+            }
+            continue;
+        }
+
+        if (!getTemplateField(node.field)) {
+            issues.push({ message: `Unknown variable "${node.field}"`, position: node.start });
+        }
+
+        for (const filter of node.filters) {
+            const definition = TEMPLATE_FILTERS.find((f) => f.value === filter.name);
+            if (!definition) {
+                issues.push({ message: `Unknown filter "${filter.name}" on "${node.field}"`, position: node.start });
+            } else if (definition.argument === 'required' && filter.argument === undefined) {
+                issues.push({ message: `Filter "${filter.name}" on "${node.field}" needs a value, e.g. ${filter.name}: "..."`, position: node.start });
+            } else if (!definition.argument && filter.argument !== undefined) {
+                issues.push({ message: `Filter "${filter.name}" on "${node.field}" doesn't take a value`, position: node.start });
+            } else if (filter.name === 'currency' && filter.argument !== undefined && !isSupportedCurrency(filter.argument)) {
+                issues.push({ message: `Unknown currency "${filter.argument}" on "${node.field}", use a code like "USD"`, position: node.start });
+            }
+        }
+    }
+
+    return issues;
+};
+
+const isBlank = (value: unknown): boolean =>
+    value === undefined ||
+    value === null ||
+    (typeof value === 'string' && value.trim() === '') ||
+    (Array.isArray(value) && value.length === 0);
+
+const toDate = (value: unknown): Date | null => {
+    if (isBlank(value)) return null;
+    const date = new Date(String(value));
+    return isNaN(date.getTime()) ? null : date;
+};
+
+// e.g. "today", "yesterday", "3 days ago", "2 weeks ago", "in 5 days"
+const formatRelative = (date: Date, now: Date): string => {
+    const startOfDay = (d: Date) => new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime();
+    const days = Math.round((startOfDay(now) - startOfDay(date)) / (24 * 60 * 60 * 1000));
+    const distance = Math.abs(days);
+
+    if (days === 0) return 'today';
+    if (days === 1) return 'yesterday';
+    if (days === -1) return 'tomorrow';
+
+    const [amount, unit] =
+        distance < 14 ? [distance, 'day']
+        : distance < 60 ? [Math.round(distance / 7), 'week']
+        : distance < 730 ? [Math.round(distance / 30), 'month']
+        : [Math.round(distance / 365), 'year'];
+    const text = `${amount} ${unit}${amount === 1 ? '' : 's'}`;
+
+    return days > 0 ? `${text} ago` : `in ${text}`;
+};
+
+const applyFilter = (value: unknown, filter: TemplateFilter, now: Date): unknown => {
+    if (filter.name === 'default') {
+        return isBlank(value) ? filter.argument ?? '' : value;
+    }
+    if (isBlank(value)) return value;
+
+    switch (filter.name) {
+        case 'currency': {
+            const amount = Number(value);
+            if (isNaN(amount)) return value;
+            const currency = (filter.argument || DEFAULT_CURRENCY).toUpperCase();
+            // Intl.NumberFormat throws on an unknown code; `validateTemplate` reports it
+            if (!isSupportedCurrency(currency)) return value;
+            return new Intl.NumberFormat(currency === 'INR' ? 'en-IN' : 'en-US', {
+                style: 'currency',
+                currency,
+                maximumFractionDigits: Number.isInteger(amount) ? 0 : 2,
+            }).format(amount);
+        }
+        case 'relative': {
+            const date = toDate(value);
+            return date ? formatRelative(date, now) : value;
+        }
+        case 'date': {
+            const date = toDate(value);
+            return date ? date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' }) : value;
+        }
+        case 'upper':
+            return String(value).toUpperCase();
+        case 'lower':
+            return String(value).toLowerCase();
+        case 'capitalize': {
+            const text = String(value);
+            return text.charAt(0).toUpperCase() + text.slice(1).toLowerCase();
+        }
+        default:
+            return value;
+    }
+};
+
+const stringify = (value: unknown): string => {
+    if (isBlank(value)) return '';
+    return Array.isArray(value) ? value.join(', ') : String(value);
+};
+
+// Render a template for one customer. Unknown fields render empty; call
+// `validateTemplate` first to catch them.
+export const renderTemplate = (
+    template: string | TemplateNode[],
+    customer: Partial<Customer>,
+    now: Date = new Date()
+): RenderedTemplate => {
+    const nodes = typeof template === 'string' ? parseTemplate(template) : template;
+    const parts: RenderedPart[] = nodes.map((node) => {
+        if (node.type === 'text') return { text: node.value };
+
+        const raw = (customer as Record<string, unknown>)[node.field];
+        const value = node.filters.reduce((current, filter) => applyFilter(current, filter, now), raw);
+        const text = stringify(value);
+
+        return {
+            text,
+            field: node.field,
+            empty: text === '',
+            fallback: isBlank(raw) && text !== '',
+        };
+    });
+
+    return {
+        text: parts.map((part) => part.text).join(''),
+        parts,
+        emptyFields: parts.filter((part) => part.empty).map((part) => part.field as string),
+    };
+};
+
+// Text for a variable, e.g. {{first_name | default: "there"}}
+export const formatVariable = (field: string, filters: TemplateFilter[] = []): string =>
+    `{{${[
+        field,
+        ...filters.map((filter) =>
+            filter.argument === undefined ? filter.name : `${filter.name}: "${filter.argument.replace(/"/g, "'")}"`
+        ),
+    ].join(' | ')}}}`;
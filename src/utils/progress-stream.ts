@@ -0,0 +1,239 @@
+// Live send progress
+//
+// The backend pushes progress for in-flight campaigns as Server-Sent Events, one JSON
+// payload per update. Where the stream can't be opened (no EventSource, a proxy that
+// buffers, the endpoint missing, a connection that keeps dropping) the subscription
+// falls back to polling. The event source is created through a factory so a local stub
+// can stand in for the backend.
+
+export interface ProgressUpdate {
+    campaignId: string;
+    sent: number;
+    failed: number;
+    total?: number;
+    status?: string;
+    // Epoch milliseconds the counts were taken
+    at: number;
+}
+
+// The subset of EventSource the subscription relies on
+export interface EventSourceLike {
+    onmessage: ((event: MessageEvent) => void) | null;
+    onerror: ((event: Event) => void) | null;
+    addEventListener(type: string, listener: (event: MessageEvent) => void): void;
+    close(): void;
+    readyState: number;
+}
+
+export type EventSourceFactory = (url: string) => EventSourceLike;
+
+export interface ProgressSubscription {
+    // Resolves the stream URL just before it is opened
+    getUrl: () => Promise<string>;
+    // Current counts for the polling fallback
+    poll: () => Promise<unknown>;
+    onUpdate: (update: ProgressUpdate) => void;
+    // Which transport is in use, for display
+    onModeChange?: (mode: 'stream' | 'polling') => void;
+    createEventSource?: EventSourceFactory | null;
+    pollIntervalMs?: number;
+}
+
+// Statuses after which no more progress arrives
+export const FINISHED_STATUSES = ['completed', 'failed', 'cancelled', 'paused'];
+
+export const DEFAULT_POLL_INTERVAL_MS = 5000;
+
+// Errors in a row, while the browser keeps reconnecting, before giving up on the stream
+export const MAX_STREAM_ERRORS = 3;
+
+// Throughput is measured over this much recent history
+export const THROUGHPUT_WINDOW_MS = 60 * 1000;
+
+// EventSource.CLOSED
+const CLOSED = 2;
+
+const toCount = (value: unknown): number | undefined => {
+    const count = typeof value === 'string' ? Number(value) : value;
+    return typeof count === 'number' && isFinite(count) ? count : undefined;
+};
+
+// One update from a stream payload or poll result, in either casing
+export const parseProgressEvent = (raw: unknown, now: number = Date.now()): ProgressUpdate | null => {
+    let data = raw;
+    if (typeof data === 'string') {
+        try {
+            data = JSON.parse(data);
+        } catch {
+            return null;
+        }
+    }
+    if (!data || typeof data !== 'object') return null;
+
+    const record = data as Record<string, unknown>;
+    const campaignId = record.campaignId ?? record.campaign_id ?? record.id;
+    const sent = toCount(record.sent ?? record.sent_count ?? record.sentCount);
+    if (campaignId === undefined || campaignId === null || sent === undefined) return null;
+
+    const timestamp = record.at ?? record.timestamp ?? record.updated_at;
+    const at = typeof timestamp === 'string' || typeof timestamp === 'number' ? new Date(timestamp).getTime() : NaN;
+
+    return {
+        campaignId: String(campaignId),
+        sent,
+        failed: toCount(record.failed ?? record.failed_count ?? record.failedCount) ?? 0,
+        total: toCount(record.total ?? record.total_count ?? record.totalCount ?? record.audience_size),
+        status: typeof record.status === 'string' ? record.status : undefined,
+        at: isNaN(at) ? now : at,
+    };
+};
+
+// Poll results come back as a list, an object keyed by campaign id, or a single record
+export const parseProgressList = (raw: unknown, now: number = Date.now()): ProgressUpdate[] => {
+    if (!raw || typeof raw !== 'object') return [];
+    const entries = Array.isArray(raw)
+        ? raw
+        : 'campaignId' in raw || 'campaign_id' in raw
+            ? [raw]
+            : Object.entries(raw as Record<string, unknown>).map(([id, value]) =>
+                value && typeof value === 'object' ? { campaignId: id, ...value } : null
+            );
+    return entries.map((entry) => parseProgressEvent(entry, now)).filter((update): update is ProgressUpdate => update !== null);
+};
+
+// Messages processed per second across the recent updates of one campaign, or null
+// until there are two updates far enough apart to tell
+export const estimateThroughput = (history: ProgressUpdate[], windowMs: number = THROUGHPUT_WINDOW_MS): number | null => {
+    if (history.length < 2) return null;
+    const latest = history[history.length - 1];
+    const earliest = history.find((update) => latest.at - update.at <= windowMs) ?? history[0];
+    const elapsed = (latest.at - earliest.at) / 1000;
+    if (elapsed <= 0) return null;
+    return Math.max(latest.sent + latest.failed - earliest.sent - earliest.failed, 0) / elapsed;
+};
+
+// "45s", "12m", "1h 20m"
+export const formatDuration = (seconds: number): string => {
+    if (seconds < 60) return `${Math.max(Math.round(seconds), 1)}s`;
+    const minutes = Math.round(seconds / 60);
+    if (minutes < 60) return `${minutes}m`;
+    return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+export const formatThroughput = (perSecond: number): string =>
+    perSecond >= 1 ? `${Math.round(perSecond * 60).toLocaleString()}/min` : `${(perSecond * 3600).toFixed(0)}/hr`;
+
+const getDefaultFactory = (): EventSourceFactory | null =>
+    typeof EventSource === 'undefined' ? null : (url) => new EventSource(url);
+
+// Opens the stream and falls back to polling if it fails. Returns a function that
+// stops both.
+export const subscribeToProgress = ({
+    getUrl,
+    poll,
+    onUpdate,
+    onModeChange,
+    createEventSource = getDefaultFactory(),
+    pollIntervalMs = DEFAULT_POLL_INTERVAL_MS,
+}: ProgressSubscription): (() => void) => {
+    let source: EventSourceLike | null = null;
+    let timer: ReturnType<typeof setInterval> | null = null;
+    let stopped = false;
+
+    const runPoll = async () => {
+        try {
+            const response = await poll() as { data?: unknown } | null;
+            if (stopped) return;
+            parseProgressList(response?.data ?? response).forEach(onUpdate);
+        } catch (error) {
+            console.error('Error polling campaign progress:', error);
+        }
+    };
+
+    const startPolling = () => {
+        if (stopped || timer) return;
+        source?.close();
+        source = null;
+        onModeChange?.('polling');
+        runPoll();
+        timer = setInterval(runPoll, pollIntervalMs);
+    };
+
+    let errors = 0;
+    const handleEvent = (event: MessageEvent) => {
+        errors = 0;
+        const update = parseProgressEvent(event.data);
+        if (update) onUpdate(update);
+    };
+
+    const openStream = async (factory: EventSourceFactory) => {
+        try {
+            const url = await getUrl();
+            if (stopped) return;
+            source = factory(url);
+            source.onmessage = handleEvent;
+            source.addEventListener('progress', handleEvent);
+            // The browser retries dropped connections on its own; a closed source won't,
+            // and one that keeps failing to reconnect is no better
+            source.onerror = () => {
+                errors++;
+                if (source?.readyState === CLOSED || errors >= MAX_STREAM_ERRORS) startPolling();
+            };
+            onModeChange?.('stream');
+        } catch (error) {
+            console.error('Error opening progress stream:', error);
+            startPolling();
+        }
+    };
+
+    if (createEventSource) {
+        openStream(createEventSource);
+    } else {
+        startPolling();
+    }
+
+    return () => {
+        stopped = true;
+        source?.close();
+        if (timer) clearInterval(timer);
+    };
+};
+
+// An event source that replays canned updates on a timer, for running the live
+// progress UI without a backend: pass `() => createStubEventSource(updates)` as the
+// factory. `fail` makes it close straight away, to exercise the polling fallback.
+export const createStubEventSource = (
+    updates: Omit<ProgressUpdate, 'at'>[],
+    { intervalMs = 1000, fail = false }: { intervalMs?: number; fail?: boolean } = {}
+): EventSourceLike => {
+    let index = 0;
+    let timer: ReturnType<typeof setInterval> | null = null;
+
+    const stub: EventSourceLike = {
+        onmessage: null,
+        onerror: null,
+        readyState: 0,
+        // Stub updates all arrive as plain messages
+        addEventListener: () => undefined,
+        close: () => {
+            stub.readyState = CLOSED;
+            if (timer) clearInterval(timer);
+        },
+    };
+
+    timer = setInterval(() => {
+        if (fail) {
+            stub.close();
+            stub.onerror?.(new Event('error'));
+            return;
+        }
+        stub.readyState = 1;
+        if (index >= updates.length) {
+            stub.close();
+            return;
+        }
+        stub.onmessage?.(new MessageEvent('message', { data: JSON.stringify({ ...updates[index++], at: Date.now() }) }));
+    }, intervalMs);
+
+    return stub;
+};
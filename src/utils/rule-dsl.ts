@@ -0,0 +1,450 @@
+// Text syntax for segment rules
+//
+//   total_spend > 5000 AND (tags contains "vip" OR last_visit_date < 2026-01-01)
+//   last_visit_date within last 30 days
+//   last_visit_date between 30 and 90 days ago
+//   purchased_product contains "Coffee Beans" AND has_cancelled_order = false
+//   segment in "seg_vip" AND segment not in "seg_complainers"
+//
+// AND binds tighter than OR, parentheses create a nested group, and keywords are
+// case-insensitive. `parseRuleDsl` and `printRuleDsl` round-trip the canonical tree,
+// except that empty groups are dropped and a group with one member comes back as AND.
+
+import {
+    Condition,
+    ConditionGroup,
+    RuleValue,
+    RULE_FIELDS,
+    RULE_OPERATIONS,
+    generateRuleId,
+    getFieldType,
+    isConditionGroup,
+    isRelativeDateOperation,
+    operationNeedsValue,
+} from '@/utils/segment-rules';
+
+// Parse error with the offending position in the source text
+export class RuleDslError extends Error {
+    position: number;
+    line: number;
+    column: number;
+
+    constructor(message: string, source: string, position: number) {
+        const before = source.slice(0, position).split('\n');
+        const line = before.length;
+        const column = before[before.length - 1].length + 1;
+
+        super(`${message} (line ${line}, column ${column})`);
+        this.name = 'RuleDslError';
+        this.position = position;
+        this.line = line;
+        this.column = column;
+    }
+}
+
+type TokenType = 'word' | 'number' | 'date' | 'string' | 'symbol' | 'end';
+
+interface Token {
+    type: TokenType;
+    text: string;
+    value: string | number;
+    start: number;
+}
+
+// Comparison symbols and the operation they stand for
+const SYMBOL_OPERATIONS: Record<string, string> = {
+    '=': 'equals',
+    '!=': 'notEquals',
+    '>': 'greaterThan',
+    '>=': 'greaterThanOrEqual',
+    '<': 'lessThan',
+    '<=': 'lessThanOrEqual',
+};
+
+// Keyword phrases and the operation they stand for (longest phrases first)
+const KEYWORD_OPERATIONS: [string[], string][] = [
+    [['is', 'not', 'empty'], 'isNotEmpty'],
+    [['is', 'empty'], 'isEmpty'],
+    [['not', 'contains'], 'notContains'],
+    [['not', 'in'], 'notInSegment'],
+    [['in'], 'inSegment'],
+    [['contains'], 'contains'],
+    [['starts', 'with'], 'startsWith'],
+    [['ends', 'with'], 'endsWith'],
+    [['between'], 'between'],
+    [['within', 'last'], 'withinLastDays'],
+    [['more', 'than'], 'moreThanDaysAgo'],
+];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}/;
+
+const tokenize = (source: string): Token[] => {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < source.length) {
+        const char = source[i];
+
+        if (/\s/.test(char)) {
+            i++;
+            continue;
+        }
+
+        const start = i;
+
+        // Quoted strings, with backslash escapes
+        if (char === '"' || char === "'") {
+            let text = '';
+            i++;
+            while (i < source.length && source[i] !== char) {
+                if (source[i] === '\\' && i + 1 < source.length) i++;
+                text += source[i];
+                i++;
+            }
+            if (i >= source.length) {
+                throw new RuleDslError('Unterminated string', source, start);
+            }
+            i++;
+            tokens.push({ type: 'string', text: source.slice(start, i), value: text, start });
+            continue;
+        }
+
+        // Dates (YYYY-MM-DD) are checked before plain numbers
+        const dateMatch = source.slice(i).match(/^\d{4}-\d{2}-\d{2}(?![\w-])/);
+        if (dateMatch) {
+            i += dateMatch[0].length;
+            tokens.push({ type: 'date', text: dateMatch[0], value: dateMatch[0], start });
+            continue;
+        }
+
+        const numberMatch = source.slice(i).match(/^-?\d+(\.\d+)?(?![\w.])/);
+        if (numberMatch) {
+            i += numberMatch[0].length;
+            tokens.push({ type: 'number', text: numberMatch[0], value: Number(numberMatch[0]), start });
+            continue;
+        }
+
+        const wordMatch = source.slice(i).match(/^[A-Za-z_][\w.]*/);
+        if (wordMatch) {
+            i += wordMatch[0].length;
+            tokens.push({ type: 'word', text: wordMatch[0], value: wordMatch[0], start });
+            continue;
+        }
+
+        const symbolMatch = source.slice(i).match(/^(>=|<=|!=|[=<>()])/);
+        if (symbolMatch) {
+            i += symbolMatch[0].length;
+            tokens.push({ type: 'symbol', text: symbolMatch[0], value: symbolMatch[0], start });
+            continue;
+        }
+
+        throw new RuleDslError(`Unexpected character "${char}"`, source, start);
+    }
+
+    tokens.push({ type: 'end', text: '', value: '', start: source.length });
+    return tokens;
+};
+
+class Parser {
+    private tokens: Token[];
+    private index = 0;
+    // Groups written in parentheses, as opposed to bare AND/OR chains
+    private parenthesized = new WeakSet<ConditionGroup>();
+
+    constructor(private source: string) {
+        this.tokens = tokenize(source);
+    }
+
+    parse(): ConditionGroup {
+        if (this.peek().type === 'end') {
+            return { id: 'root', operator: 'AND', conditions: [] };
+        }
+
+        const node = this.parseOr();
+        const next = this.peek();
+        if (next.type !== 'end') {
+            throw this.error(next.text === ')' ? 'Unmatched ")"' : `Expected AND or OR, found "${next.text}"`, next);
+        }
+
+        // A bare chain is the root itself; a parenthesized group is nested inside it
+        return isConditionGroup(node) && !this.parenthesized.has(node)
+            ? { ...node, id: 'root' }
+            : { id: 'root', operator: 'AND', conditions: [node] };
+    }
+
+    private peek(offset = 0): Token {
+        return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+    }
+
+    private next(): Token {
+        const token = this.peek();
+        this.index++;
+        return token;
+    }
+
+    private isKeyword(token: Token, keyword: string): boolean {
+        return token.type === 'word' && token.text.toLowerCase() === keyword;
+    }
+
+    private error(message: string, token: Token): RuleDslError {
+        return new RuleDslError(message, this.source, token.start);
+    }
+
+    private describe(token: Token): string {
+        if (token.type === 'end') return 'end of input';
+        return token.type === 'string' ? token.text : `"${token.text}"`;
+    }
+
+    // Parse a chain of `part (KEYWORD part)*` into a single group when it has more than one part
+    private parseChain(
+        keyword: 'and' | 'or',
+        parsePart: () => Condition | ConditionGroup
+    ): Condition | ConditionGroup {
+        const parts = [parsePart()];
+
+        while (this.isKeyword(this.peek(), keyword)) {
+            this.next();
+            parts.push(parsePart());
+        }
+
+        if (parts.length === 1) return parts[0];
+
+        return {
+            id: generateRuleId(),
+            operator: keyword === 'and' ? 'AND' : 'OR',
+            conditions: parts,
+        };
+    }
+
+    private parseOr(): Condition | ConditionGroup {
+        return this.parseChain('or', () => this.parseAnd());
+    }
+
+    private parseAnd(): Condition | ConditionGroup {
+        return this.parseChain('and', () => this.parsePrimary());
+    }
+
+    private parsePrimary(): Condition | ConditionGroup {
+        const token = this.peek();
+
+        if (token.text === '(') {
+            this.next();
+            const inner = this.parseOr();
+            const closing = this.next();
+            if (closing.text !== ')') {
+                throw this.error(`Expected ")" but found ${this.describe(closing)}`, closing);
+            }
+
+            // Parentheses always produce a group of their own so nesting survives a round
+            // trip, including a group whose only member is another parenthesized group
+            const group: ConditionGroup = isConditionGroup(inner) && !this.parenthesized.has(inner)
+                ? inner
+                : { id: generateRuleId(), operator: 'AND', conditions: [inner] };
+            this.parenthesized.add(group);
+            return group;
+        }
+
+        return this.parseCondition();
+    }
+
+    private parseOperation(): string {
+        const token = this.peek();
+
+        if (token.type === 'symbol' && SYMBOL_OPERATIONS[token.text]) {
+            this.next();
+            return SYMBOL_OPERATIONS[token.text];
+        }
+
+        for (const [words, operation] of KEYWORD_OPERATIONS) {
+            if (words.every((word, i) => this.isKeyword(this.peek(i), word))) {
+                this.index += words.length;
+                return operation;
+            }
+        }
+
+        throw this.error(`Expected an operator but found ${this.describe(token)}`, token);
+    }
+
+    private parseValue(field: string): string | number | boolean {
+        const token = this.next();
+        const fieldType = getFieldType(field);
+
+        if (fieldType === 'boolean') {
+            if (this.isKeyword(token, 'true') || this.isKeyword(token, 'false')) {
+                return token.text.toLowerCase() === 'true';
+            }
+            throw this.error(`Expected true or false for ${field} but found ${this.describe(token)}`, token);
+        }
+
+        if (fieldType === 'number') {
+            if (token.type !== 'number') {
+                throw this.error(`Expected a number for ${field} but found ${this.describe(token)}`, token);
+            }
+            return token.value;
+        }
+
+        if (fieldType === 'date') {
+            if (token.type === 'date' || (token.type === 'string' && DATE_PATTERN.test(String(token.value)))) {
+                return String(token.value);
+            }
+            throw this.error(`Expected a date (YYYY-MM-DD) for ${field} but found ${this.describe(token)}`, token);
+        }
+
+        if (token.type === 'string' || token.type === 'number' || token.type === 'date') {
+            return String(token.value);
+        }
+
+        throw this.error(`Expected a quoted value for ${field} but found ${this.describe(token)}`, token);
+    }
+
+    // Parse a whole number of days
+    private parseDays(): number {
+        const token = this.next();
+
+        if (token.type !== 'number' || !Number.isInteger(token.value) || Number(token.value) < 0) {
+            throw this.error(`Expected a number of days but found ${this.describe(token)}`, token);
+        }
+
+        return Number(token.value);
+    }
+
+    // Consume a fixed keyword phrase such as `days ago`
+    private expectWords(words: string[]): void {
+        for (const word of words) {
+            const token = this.next();
+            if (!this.isKeyword(token, word)) {
+                throw this.error(`Expected "${words.join(' ')}" but found ${this.describe(token)}`, token);
+            }
+        }
+    }
+
+    private parseCondition(): Condition {
+        const fieldToken = this.next();
+
+        if (fieldToken.type !== 'word') {
+            throw this.error(`Expected a field name but found ${this.describe(fieldToken)}`, fieldToken);
+        }
+
+        const field = fieldToken.text;
+        if (!RULE_FIELDS.some((f) => f.value === field)) {
+            throw this.error(`Unknown field "${field}"`, fieldToken);
+        }
+
+        const operationToken = this.peek();
+        let operation = this.parseOperation();
+        const fieldType = getFieldType(field);
+
+        // `between 30 and 90 days ago` on a date field is the relative form of between
+        if (operation === 'between' && fieldType === 'date' && this.peek().type === 'number') {
+            operation = 'betweenDaysAgo';
+        }
+
+        if (!RULE_OPERATIONS[fieldType].some((op) => op.value === operation)) {
+            throw this.error(`"${operationToken.text}" cannot be used with ${fieldType} field ${field}`, operationToken);
+        }
+
+        let value: RuleValue = '';
+        if (operation === 'withinLastDays') {
+            value = this.parseDays();
+            this.expectWords(['days']);
+        } else if (operation === 'moreThanDaysAgo') {
+            value = this.parseDays();
+            this.expectWords(['days', 'ago']);
+        } else if (operation === 'betweenDaysAgo') {
+            const low = this.parseDays();
+            this.expectWords(['and']);
+            value = [low, this.parseDays()];
+            this.expectWords(['days', 'ago']);
+        } else if (operation === 'between') {
+            // Only number and date fields allow between, so both ends are never booleans
+            const low = this.parseValue(field) as string | number;
+            const andToken = this.next();
+            if (!this.isKeyword(andToken, 'and')) {
+                throw this.error(`Expected AND in between but found ${this.describe(andToken)}`, andToken);
+            }
+            value = [low, this.parseValue(field) as string | number];
+        } else if (operationNeedsValue(operation)) {
+            value = this.parseValue(field);
+        }
+
+        return { id: generateRuleId(), field, operation, value };
+    }
+}
+
+// Parse DSL text into a condition group; throws RuleDslError on invalid input
+export const parseRuleDsl = (source: string): ConditionGroup => new Parser(source).parse();
+
+const OPERATION_TEXT: Record<string, string> = {
+    ...Object.fromEntries(Object.entries(SYMBOL_OPERATIONS).map(([symbol, operation]) => [operation, symbol])),
+    ...Object.fromEntries(KEYWORD_OPERATIONS.map(([words, operation]) => [operation, words.join(' ')])),
+};
+
+const printValue = (field: string, value: string | number | boolean): string => {
+    const fieldType = getFieldType(field);
+
+    if (typeof value === 'boolean') return String(value);
+
+    // Values typed into the visual builder can be stored as strings; print them the way
+    // the parser expects for the field's type
+    if (typeof value === 'string' && fieldType === 'number' && value.trim() !== '' && !isNaN(Number(value))) {
+        return String(Number(value));
+    }
+    if (typeof value === 'string' && fieldType === 'boolean' && /^(true|false)$/i.test(value.trim())) {
+        return value.trim().toLowerCase();
+    }
+
+    if (typeof value === 'number' && fieldType !== 'string' && fieldType !== 'array') {
+        return String(value);
+    }
+
+    const text = String(value);
+    if (fieldType === 'date' && /^\d{4}-\d{2}-\d{2}$/.test(text)) {
+        return text;
+    }
+
+    return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+};
+
+const printCondition = (condition: Condition): string => {
+    const operation = OPERATION_TEXT[condition.operation] || condition.operation;
+
+    if (!operationNeedsValue(condition.operation)) {
+        return `${condition.field} ${operation}`;
+    }
+
+    if (isRelativeDateOperation(condition.operation)) {
+        if (condition.operation === 'betweenDaysAgo' && Array.isArray(condition.value)) {
+            const [low, high] = condition.value;
+            return `${condition.field} between ${low} and ${high} days ago`;
+        }
+        if (condition.operation === 'withinLastDays') {
+            return `${condition.field} within last ${condition.value} days`;
+        }
+        if (condition.operation === 'moreThanDaysAgo') {
+            return `${condition.field} more than ${condition.value} days ago`;
+        }
+    }
+
+    if (condition.operation === 'between' && Array.isArray(condition.value)) {
+        const [low, high] = condition.value;
+        return `${condition.field} between ${printValue(condition.field, low)} and ${printValue(condition.field, high)}`;
+    }
+
+    const value = Array.isArray(condition.value) ? condition.value.join(', ') : condition.value;
+    return `${condition.field} ${operation} ${printValue(condition.field, value)}`;
+};
+
+// Groups with no conditions anywhere inside print as nothing; `()` wouldn't parse
+const hasConditions = (node: Condition | ConditionGroup): boolean =>
+    !isConditionGroup(node) || node.conditions.some(hasConditions);
+
+// Print a condition group as DSL text
+export const printRuleDsl = (group: ConditionGroup): string => {
+    const printNode = (node: Condition | ConditionGroup): string =>
+        isConditionGroup(node) ? `(${printGroup(node)})` : printCondition(node);
+
+    const printGroup = (g: ConditionGroup): string =>
+        g.conditions.filter(hasConditions).map(printNode).join(` ${g.operator} `);
+
+    return printGroup(group);
+};
@@ -0,0 +1,308 @@
+// Client-side evaluation of segment rules against loaded customers
+//
+// Used for instant audience estimates while rules are being edited. The server
+// preview (`previewAudience` / `previewCampaignAudience`) stays the number of record.
+
+import {
+    Condition,
+    ConditionGroup,
+    OrderAggregate,
+    RuleValue,
+    getFieldType,
+    getOrderAggregate,
+    isConditionGroup,
+    isRelativeDateOperation,
+} from '@/utils/segment-rules';
+
+// Order shape as returned by the orders API, reduced to what aggregates read
+export interface CustomerOrder {
+    customer_id: string;
+    amount: number;
+    status: string;
+    order_date: string;
+    items?: { name: string }[];
+}
+
+// Customer shape as returned by the customers API
+export interface Customer {
+    id: string;
+    first_name: string;
+    last_name: string;
+    email: string;
+    phone?: string;
+    address?: string;
+    total_spend?: number;
+    total_visits?: number;
+    last_visit_date?: string | null;
+    tags?: string[];
+    created_at: string;
+    // Attached with `withOrders` when rules use order aggregates
+    orders?: CustomerOrder[];
+}
+
+export interface EvaluationContext {
+    // Rules of saved segments, for segment membership conditions
+    segmentRules?: Record<string, ConditionGroup>;
+    // Segments currently being evaluated, so reference cycles stop instead of recursing
+    visiting?: string[];
+}
+
+export interface AudienceEstimate {
+    matched: number;
+    sampleSize: number;
+    // Matches scaled up to the full customer base, when its size is known
+    estimatedTotal: number | null;
+    matches: Customer[];
+}
+
+const isBlank = (value: unknown): boolean =>
+    value === undefined ||
+    value === null ||
+    value === '' ||
+    (Array.isArray(value) && value.length === 0);
+
+// Normalize a date-ish value to YYYY-MM-DD so comparisons ignore time of day
+const toDay = (value: unknown): string | null => {
+    if (isBlank(value)) return null;
+    const date = new Date(String(value));
+    return isNaN(date.getTime()) ? null : date.toISOString().slice(0, 10);
+};
+
+// The YYYY-MM-DD day a number of days before today
+const daysAgo = (days: number): string =>
+    new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+const toNumber = (value: unknown): number | null => {
+    if (isBlank(value)) return null;
+    const number = Number(value);
+    return isNaN(number) ? null : number;
+};
+
+// Split a comma separated tag list into lowercase tags
+const toTagList = (value: RuleValue): string[] =>
+    String(value)
+        .split(',')
+        .map((tag) => tag.trim().toLowerCase())
+        .filter(Boolean);
+
+// Compare two values of the same kind, returning -1, 0 or 1
+const compare = <T extends string | number>(a: T, b: T): number => (a < b ? -1 : a > b ? 1 : 0);
+
+const evaluateOrdered = <T extends string | number>(
+    actual: T | null,
+    operation: string,
+    expected: T | null,
+    range: [T | null, T | null]
+): boolean => {
+    if (actual === null) return operation === 'notEquals';
+
+    if (operation === 'between') {
+        const [low, high] = range;
+        if (low === null || high === null) return false;
+        const [min, max] = compare(low, high) <= 0 ? [low, high] : [high, low];
+        return compare(actual, min) >= 0 && compare(actual, max) <= 0;
+    }
+
+    if (expected === null) return false;
+    const result = compare(actual, expected);
+
+    switch (operation) {
+        case 'equals':
+            return result === 0;
+        case 'notEquals':
+            return result !== 0;
+        case 'greaterThan':
+            return result > 0;
+        case 'greaterThanOrEqual':
+            return result >= 0;
+        case 'lessThan':
+            return result < 0;
+        case 'lessThanOrEqual':
+            return result <= 0;
+        default:
+            return false;
+    }
+};
+
+// Compute an order aggregate from a customer's orders
+const computeOrderAggregate = (aggregate: OrderAggregate, orders: CustomerOrder[]): unknown => {
+    const inWindow = aggregate.windowDays === undefined
+        ? orders
+        : orders.filter((order) => (toDay(order.order_date) || '') >= daysAgo(aggregate.windowDays as number));
+
+    switch (aggregate.measure) {
+        case 'productNames':
+            return inWindow.flatMap((order) => (order.items || []).map((item) => item.name));
+        case 'orderCount':
+            return inWindow.length;
+        case 'averageOrderValue': {
+            const counted = inWindow.filter((order) => order.status !== 'cancelled');
+            if (counted.length === 0) return null;
+            return counted.reduce((sum, order) => sum + (Number(order.amount) || 0), 0) / counted.length;
+        }
+        case 'hasStatus':
+            return inWindow.some((order) => order.status === aggregate.status);
+        default:
+            return null;
+    }
+};
+
+// Read a field from a customer, computing it when it is an order aggregate
+const getFieldValue = (field: string, customer: Customer): unknown => {
+    const aggregate = getOrderAggregate(field);
+    if (aggregate) return computeOrderAggregate(aggregate, customer.orders || []);
+
+    return (customer as unknown as Record<string, unknown>)[field];
+};
+
+// Evaluate a relative date operation; `value` is a day count or [min, max] day counts
+const evaluateRelativeDate = (actual: string | null, operation: string, value: RuleValue): boolean => {
+    if (actual === null) return false;
+
+    if (operation === 'betweenDaysAgo') {
+        if (!Array.isArray(value)) return false;
+        const [low, high] = [toNumber(value[0]), toNumber(value[1])];
+        if (low === null || high === null) return false;
+        const [min, max] = low <= high ? [low, high] : [high, low];
+        return actual >= daysAgo(max) && actual <= daysAgo(min);
+    }
+
+    const days = Array.isArray(value) ? null : toNumber(value);
+    if (days === null) return false;
+
+    if (operation === 'withinLastDays') return actual >= daysAgo(days);
+    if (operation === 'moreThanDaysAgo') return actual < daysAgo(days);
+    return false;
+};
+
+// Evaluate a single condition against a customer
+export const evaluateCondition = (
+    condition: Condition,
+    customer: Customer,
+    context: EvaluationContext = {}
+): boolean => {
+    const actual = getFieldValue(condition.field, customer);
+    const { operation, value } = condition;
+
+    if (operation === 'isEmpty') return isBlank(actual);
+    if (operation === 'isNotEmpty') return !isBlank(actual);
+
+    const range = Array.isArray(value) ? value : [null, null];
+
+    switch (getFieldType(condition.field)) {
+        case 'segment': {
+            const segmentId = String(value);
+            const segmentRules = context.segmentRules?.[segmentId];
+            if (!segmentRules || context.visiting?.includes(segmentId)) return false;
+
+            const isMember = matchesRules(segmentRules, customer, {
+                ...context,
+                visiting: [...(context.visiting || []), segmentId],
+            });
+            if (operation === 'inSegment') return isMember;
+            if (operation === 'notInSegment') return !isMember;
+            return false;
+        }
+
+        case 'number':
+            return evaluateOrdered(
+                toNumber(actual),
+                operation,
+                Array.isArray(value) ? null : toNumber(value),
+                [toNumber(range[0]), toNumber(range[1])]
+            );
+
+        case 'date':
+            if (isRelativeDateOperation(operation)) {
+                return evaluateRelativeDate(toDay(actual), operation, value);
+            }
+
+            return evaluateOrdered(
+                toDay(actual),
+                operation,
+                Array.isArray(value) ? null : toDay(value),
+                [toDay(range[0]), toDay(range[1])]
+            );
+
+        case 'boolean': {
+            const expected = value === true || String(value).toLowerCase() === 'true';
+            if (operation === 'equals') return Boolean(actual) === expected;
+            if (operation === 'notEquals') return Boolean(actual) !== expected;
+            return false;
+        }
+
+        case 'array': {
+            const tags = (Array.isArray(actual) ? actual : []).map((tag) => String(tag).toLowerCase());
+            const wanted = toTagList(value);
+            const hasAny = wanted.some((tag) => tags.includes(tag));
+
+            if (operation === 'contains') return hasAny;
+            if (operation === 'notContains') return !hasAny;
+            return false;
+        }
+
+        default: {
+            const text = isBlank(actual) ? '' : String(actual).toLowerCase();
+            const expected = String(value).toLowerCase();
+
+            switch (operation) {
+                case 'equals':
+                    return text === expected;
+                case 'notEquals':
+                    return text !== expected;
+                case 'contains':
+                    return text.includes(expected);
+                case 'notContains':
+                    return !text.includes(expected);
+                case 'startsWith':
+                    return text.startsWith(expected);
+                case 'endsWith':
+                    return text.endsWith(expected);
+                default:
+                    return false;
+            }
+        }
+    }
+};
+
+// Evaluate a condition group (recursively) against a customer
+export const matchesRules = (
+    group: ConditionGroup,
+    customer: Customer,
+    context: EvaluationContext = {}
+): boolean => {
+    const check = (node: Condition | ConditionGroup) =>
+        isConditionGroup(node) ? matchesRules(node, customer, context) : evaluateCondition(node, customer, context);
+
+    return group.operator === 'OR' ? group.conditions.some(check) : group.conditions.every(check);
+};
+
+// Attach each customer's orders so order aggregates can be evaluated
+export const withOrders = (customers: Customer[], orders: CustomerOrder[]): Customer[] => {
+    const byCustomer = new Map<string, CustomerOrder[]>();
+    for (const order of orders) {
+        byCustomer.set(order.customer_id, [...(byCustomer.get(order.customer_id) || []), order]);
+    }
+
+    return customers.map((customer) => ({ ...customer, orders: byCustomer.get(customer.id) || [] }));
+};
+
+// Run rules over a customer sample and extrapolate to the full customer base
+export const estimateAudience = (
+    group: ConditionGroup,
+    customers: Customer[],
+    totalCustomers?: number,
+    context: EvaluationContext = {}
+): AudienceEstimate => {
+    const matches = customers.filter((customer) => matchesRules(group, customer, context));
+    const sampleSize = customers.length;
+
+    let estimatedTotal: number | null = null;
+    if (totalCustomers !== undefined && sampleSize > 0) {
+        estimatedTotal = sampleSize >= totalCustomers
+            ? matches.length
+            : Math.round((matches.length / sampleSize) * totalCustomers);
+    }
+
+    return { matched: matches.length, sampleSize, estimatedTotal, matches };
+};
@@ -0,0 +1,223 @@
+// Scheduled sends
+//
+// A schedule is a wall-clock date and time in a named IANA timezone. It is stored as the
+// UTC instant plus the timezone, so the backend can fire it without knowing about zones
+// and the UI can show it back in the zone it was picked in.
+
+export interface CampaignSchedule {
+    // UTC ISO timestamp
+    scheduledAt: string;
+    timezone: string;
+}
+
+export interface ZonedDateTime {
+    // YYYY-MM-DD
+    date: string;
+    // HH:mm, 24-hour
+    time: string;
+}
+
+export interface ScheduleSuggestion extends ZonedDateTime {
+    reason?: string;
+}
+
+// Campaigns must be scheduled at least this far ahead so the backend can pick them up
+export const MIN_SCHEDULE_LEAD_MINUTES = 5;
+
+export const COMMON_TIMEZONES = [
+    'Asia/Kolkata',
+    'Asia/Dubai',
+    'Asia/Singapore',
+    'Asia/Tokyo',
+    'Australia/Sydney',
+    'Europe/London',
+    'Europe/Berlin',
+    'America/New_York',
+    'America/Chicago',
+    'America/Los_Angeles',
+    'UTC',
+];
+
+const DAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+export const getBrowserTimezone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+// The user's zone first, then the common ones
+export const getTimezoneOptions = (current?: string): string[] =>
+    Array.from(new Set([current, getBrowserTimezone(), ...COMMON_TIMEZONES].filter((zone): zone is string => Boolean(zone))));
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Wall-clock parts of an instant in a timezone
+const getZonedParts = (instant: Date, timeZone: string) => {
+    const parts = Object.fromEntries(
+        new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            hourCycle: 'h23',
+            year: 'numeric',
+            month: '2-digit',
+            day: '2-digit',
+            hour: '2-digit',
+            minute: '2-digit',
+            second: '2-digit',
+        })
+            .formatToParts(instant)
+            .map((part) => [part.type, part.value])
+    );
+    return {
+        year: Number(parts.year),
+        month: Number(parts.month),
+        day: Number(parts.day),
+        hour: Number(parts.hour),
+        minute: Number(parts.minute),
+        second: Number(parts.second),
+    };
+};
+
+// Milliseconds the timezone is ahead of UTC at an instant
+const getOffset = (instant: Date, timeZone: string): number => {
+    const parts = getZonedParts(instant, timeZone);
+    const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+    return asUtc - Math.floor(instant.getTime() / 1000) * 1000;
+};
+
+// UTC instant for a wall-clock time in a timezone. Times skipped by a DST jump move
+// forward by the length of the jump, in either hemisphere: 02:30 on the day clocks
+// go forward is 03:30 in Europe/Berlin, America/New_York and Australia/Sydney alike.
+export const zonedTimeToUtc = ({ date, time }: ZonedDateTime, timeZone: string): Date => {
+    const [year, month, day] = date.split('-').map(Number);
+    const [hour, minute] = time.split(':').map(Number);
+    const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+
+    // Guess with the offset at the wall-clock time read as UTC, then correct once
+    const guessOffset = getOffset(new Date(wallClock), timeZone);
+    const firstGuess = wallClock - guessOffset;
+    const correctedOffset = getOffset(new Date(firstGuess), timeZone);
+    const corrected = new Date(wallClock - correctedOffset);
+
+    const zoned = utcToZonedTime(corrected, timeZone);
+    if (zoned.date === date && zoned.time === time) return corrected;
+
+    // In a DST gap the two offsets are the ones either side of the jump. Reading the
+    // time with the earlier (smaller) offset gives the later instant, past the jump.
+    return new Date(wallClock - Math.min(guessOffset, correctedOffset));
+};
+
+export const utcToZonedTime = (instant: Date | string, timeZone: string): ZonedDateTime => {
+    const parts = getZonedParts(new Date(instant), timeZone);
+    return {
+        date: `${parts.year}-${pad(parts.month)}-${pad(parts.day)}`,
+        time: `${pad(parts.hour)}:${pad(parts.minute)}`,
+    };
+};
+
+// Campaign records carry the schedule as snake_case or camelCase fields
+export const getCampaignSchedule = (campaign: {
+    scheduled_at?: string | null;
+    scheduledAt?: string | null;
+    timezone?: string | null;
+    schedule_timezone?: string | null;
+}): CampaignSchedule | null => {
+    const scheduledAt = campaign.scheduled_at || campaign.scheduledAt;
+    if (!scheduledAt) return null;
+    return { scheduledAt, timezone: campaign.schedule_timezone || campaign.timezone || 'UTC' };
+};
+
+export const createSchedule = (zoned: ZonedDateTime, timezone: string): CampaignSchedule => ({
+    scheduledAt: zonedTimeToUtc(zoned, timezone).toISOString(),
+    timezone,
+});
+
+// A sensible default: on the hour, 30-90 minutes from now
+export const getDefaultScheduleTime = (timeZone: string, now: Date = new Date()): ZonedDateTime => {
+    const zoned = utcToZonedTime(new Date(now.getTime() + 90 * 60 * 1000), timeZone);
+    return { date: zoned.date, time: `${zoned.time.slice(0, 2)}:00` };
+};
+
+export const validateSchedule = (zoned: ZonedDateTime, timeZone: string, now: Date = new Date()): string | null => {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(zoned.date) || !/^\d{2}:\d{2}$/.test(zoned.time)) {
+        return 'Pick a date and time';
+    }
+    const instant = zonedTimeToUtc(zoned, timeZone);
+    if (isNaN(instant.getTime())) {
+        return 'Pick a valid date and time';
+    }
+    if (instant.getTime() < now.getTime() + MIN_SCHEDULE_LEAD_MINUTES * 60 * 1000) {
+        return `Schedule at least ${MIN_SCHEDULE_LEAD_MINUTES} minutes from now`;
+    }
+    return null;
+};
+
+export const formatSchedule = (schedule: CampaignSchedule): string =>
+    new Date(schedule.scheduledAt).toLocaleString('en-US', {
+        timeZone: schedule.timezone,
+        weekday: 'short',
+        month: 'short',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: '2-digit',
+        timeZoneName: 'short',
+    });
+
+// "10:00", "10 AM", "2:30pm" → "HH:mm"
+const parseTime = (value: unknown): string | null => {
+    if (typeof value === 'number' && value >= 0 && value < 24) return `${pad(Math.floor(value))}:00`;
+    if (typeof value !== 'string') return null;
+
+    const match = value.trim().match(/^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/i);
+    if (!match) return null;
+
+    let hour = Number(match[1]);
+    const minute = Number(match[2] ?? 0);
+    const meridiem = match[3]?.toLowerCase();
+    if (meridiem === 'pm' && hour < 12) hour += 12;
+    if (meridiem === 'am' && hour === 12) hour = 0;
+
+    return hour < 24 && minute < 60 ? `${pad(hour)}:${pad(minute)}` : null;
+};
+
+// Next date (today included) that falls on a weekday, in a timezone
+const nextWeekday = (day: string, time: string, timeZone: string, now: Date): string | null => {
+    const target = DAYS.indexOf(day.toLowerCase());
+    if (target === -1) return null;
+
+    for (let offset = 0; offset < 8; offset++) {
+        const candidate = utcToZonedTime(new Date(now.getTime() + offset * 24 * 60 * 60 * 1000), timeZone);
+        const [year, month, date] = candidate.date.split('-').map(Number);
+        const weekday = new Date(Date.UTC(year, month - 1, date)).getUTCDay();
+        if (weekday === target && !validateSchedule({ date: candidate.date, time }, timeZone, now)) {
+            return candidate.date;
+        }
+    }
+    return null;
+};
+
+// The AI endpoints return either an exact timestamp or a day and time of week, at the
+// top level or as the first of a `suggestions` list. Returns the next matching slot.
+export const parseScheduleSuggestion = (
+    response: unknown,
+    timeZone: string,
+    now: Date = new Date()
+): ScheduleSuggestion | null => {
+    if (!response || typeof response !== 'object') return null;
+
+    const data = response as Record<string, unknown>;
+    const candidate = (Array.isArray(data.suggestions) ? data.suggestions[0] : data) as Record<string, unknown> | undefined;
+    if (!candidate || typeof candidate !== 'object') return null;
+
+    const reason = [candidate.reason, candidate.reasoning, candidate.explanation, data.reasoning]
+        .find((value): value is string => typeof value === 'string');
+
+    const timestamp = [candidate.scheduledAt, candidate.datetime, candidate.suggestedTime, candidate.optimalTime]
+        .find((value): value is string => typeof value === 'string' && !isNaN(Date.parse(value)) && /\d{4}-\d{2}-\d{2}/.test(value));
+    if (timestamp) {
+        return { ...utcToZonedTime(timestamp, timeZone), reason };
+    }
+
+    const time = parseTime(candidate.time ?? candidate.hour ?? candidate.bestTime ?? candidate.suggestedTime);
+    const day = [candidate.day, candidate.dayOfWeek, candidate.bestDay].find((value): value is string => typeof value === 'string');
+    if (!time || !day) return null;
+
+    const date = nextWeekday(day, time, timeZone, now);
+    return date ? { date, time, reason } : null;
+};
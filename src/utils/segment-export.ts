@@ -0,0 +1,55 @@
+// Segment member export formats
+//
+// Shared by the export modal and the `/api/segments/[id]/export` route handler, which
+// streams the backend's member list page by page instead of building the file in the browser.
+
+import { Customer } from '@/utils/rule-evaluator';
+
+export type ExportFormat = 'csv' | 'json';
+
+export type ExportColumn = Exclude<keyof Customer, 'orders'>;
+
+export const EXPORT_COLUMNS: { value: ExportColumn; label: string }[] = [
+    { value: 'id', label: 'ID' },
+    { value: 'first_name', label: 'First Name' },
+    { value: 'last_name', label: 'Last Name' },
+    { value: 'email', label: 'Email' },
+    { value: 'phone', label: 'Phone' },
+    { value: 'address', label: 'Address' },
+    { value: 'total_spend', label: 'Total Spend' },
+    { value: 'total_visits', label: 'Total Visits' },
+    { value: 'last_visit_date', label: 'Last Visit Date' },
+    { value: 'tags', label: 'Tags' },
+    { value: 'created_at', label: 'Created At' },
+];
+
+export const DEFAULT_EXPORT_COLUMNS: ExportColumn[] = ['first_name', 'last_name', 'email', 'phone', 'total_spend'];
+
+// Keep only known columns, in the order they are listed above
+export const parseExportColumns = (columns: string[]): ExportColumn[] =>
+    EXPORT_COLUMNS.map((column) => column.value).filter((column) => columns.includes(column));
+
+// Text a spreadsheet would run as a formula gets a leading ' so it opens as plain text.
+// Numbers come from the backend rather than from customers and are left alone.
+export const escapeCsv = (value: unknown): string => {
+    if (value === undefined || value === null) return '';
+
+    const raw = Array.isArray(value) ? value.join('; ') : String(value);
+    const text = typeof value !== 'number' && /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsvHeader = (columns: ExportColumn[]): string =>
+    columns.map((column) => escapeCsv(EXPORT_COLUMNS.find((c) => c.value === column)?.label || column)).join(',') + '\r\n';
+
+export const toCsvRow = (customer: Customer, columns: ExportColumn[]): string =>
+    columns.map((column) => escapeCsv(customer[column])).join(',') + '\r\n';
+
+export const toJsonRecord = (customer: Customer, columns: ExportColumn[]): Record<string, unknown> =>
+    Object.fromEntries(columns.map((column) => [column, customer[column] ?? null]));
+
+// e.g. "high-value-customers-2026-10-19.csv"
+export const exportFileName = (segmentName: string, format: ExportFormat, date: Date = new Date()): string => {
+    const slug = segmentName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'segment';
+    return `${slug}-${date.toISOString().slice(0, 10)}.${format}`;
+};
@@ -0,0 +1,111 @@
+// Overlap between saved segments
+//
+// Overlap is described as exclusive regions: each region counts the customers that
+// belong to exactly that combination of segments, which is what an UpSet chart plots.
+// Counts come from `segments.getSegmentOverlap` when the backend supports it, or are
+// computed locally from the member ids returned by segment previews.
+
+export interface OverlapRegion {
+    segmentIds: string[];
+    count: number;
+}
+
+export interface SegmentOverlap {
+    // Total members per segment
+    sizes: Record<string, number>;
+    regions: OverlapRegion[];
+    source: 'api' | 'preview';
+    // True when previews returned fewer member ids than the segment size
+    partial: boolean;
+}
+
+// Largest regions first; ties broken by fewer segments
+const sortRegions = (regions: OverlapRegion[]): OverlapRegion[] =>
+    regions
+        .filter((region) => region.count > 0)
+        .sort((a, b) => b.count - a.count || a.segmentIds.length - b.segmentIds.length);
+
+// Member ids from a segment preview response; falls back to the sample (keyed by id,
+// or email when the sample has no ids) when the backend does not return the id list
+export const getPreviewMemberIds = (preview: unknown): string[] => {
+    if (!preview || typeof preview !== 'object') return [];
+    const data = preview as { memberIds?: unknown; sample?: unknown };
+
+    if (Array.isArray(data.memberIds)) {
+        return data.memberIds.map(String);
+    }
+
+    if (Array.isArray(data.sample)) {
+        return data.sample
+            .map((customer: { id?: unknown; email?: unknown }) => customer?.id ?? customer?.email)
+            .filter((key): key is string | number => key !== undefined && key !== null && key !== '')
+            .map(String);
+    }
+
+    return [];
+};
+
+// Total size reported by a segment preview response
+export const getPreviewTotal = (preview: unknown): number => {
+    if (!preview || typeof preview !== 'object') return 0;
+    const data = preview as { total?: number; count?: number };
+    return data.total || data.count || 0;
+};
+
+// Build exclusive overlap regions from each segment's member ids
+export const computeOverlapFromMembers = (
+    members: Record<string, string[]>,
+    totals: Record<string, number> = {}
+): SegmentOverlap => {
+    const segmentIds = Object.keys(members);
+    const membership = new Map<string, string[]>();
+
+    for (const segmentId of segmentIds) {
+        for (const customerId of new Set(members[segmentId])) {
+            membership.set(customerId, [...(membership.get(customerId) || []), segmentId]);
+        }
+    }
+
+    const counts = new Map<string, OverlapRegion>();
+    for (const ids of membership.values()) {
+        const key = ids.join('|');
+        const region = counts.get(key) || { segmentIds: ids, count: 0 };
+        region.count++;
+        counts.set(key, region);
+    }
+
+    const sizes = Object.fromEntries(segmentIds.map((id) => [id, new Set(members[id]).size]));
+    const partial = segmentIds.some((id) => (totals[id] || 0) > sizes[id]);
+
+    return {
+        sizes: partial ? { ...sizes, ...totals } : sizes,
+        regions: sortRegions(Array.from(counts.values())),
+        source: 'preview',
+        partial,
+    };
+};
+
+// Validate an overlap response from the API, returning null when it is unusable
+export const parseOverlapResponse = (data: unknown): SegmentOverlap | null => {
+    if (!data || typeof data !== 'object') return null;
+    const { sizes, regions } = data as { sizes?: unknown; regions?: unknown };
+
+    if (!sizes || typeof sizes !== 'object' || !Array.isArray(regions)) return null;
+
+    return {
+        sizes: sizes as Record<string, number>,
+        regions: sortRegions(
+            regions
+                .filter((region) => Array.isArray(region?.segmentIds))
+                .map((region) => ({ segmentIds: region.segmentIds.map(String), count: Number(region.count) || 0 }))
+        ),
+        source: 'api',
+        partial: false,
+    };
+};
+
+// Customers in all of the given segments (and possibly others)
+export const intersectionSize = (overlap: SegmentOverlap, segmentIds: string[]): number =>
+    overlap.regions
+        .filter((region) => segmentIds.every((id) => region.segmentIds.includes(id)))
+        .reduce((sum, region) => sum + region.count, 0);
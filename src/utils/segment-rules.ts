@@ -0,0 +1,386 @@
+// Canonical segment rule format shared by the rule builders and the API client
+//
+// Every rule set is a tree of condition groups. The flat `{ logic, conditions }`
+// shape produced by the original segment builder is still accepted on input and
+// converted with `fromFlatRules` / `toFlatRules`.
+
+// Type definitions
+export type RuleValue = string | number | boolean | [string | number, string | number];
+
+export interface Condition {
+    id: string;
+    field: string;
+    operation: string;
+    value: RuleValue;
+}
+
+export interface ConditionGroup {
+    id: string;
+    operator: 'AND' | 'OR';
+    conditions: (Condition | ConditionGroup)[];
+}
+
+export interface FlatRule {
+    field: string;
+    operator: string;
+    value: RuleValue;
+}
+
+export interface FlatSegmentRules {
+    logic: 'AND' | 'OR';
+    conditions: FlatRule[];
+}
+
+// Anything the backend or older segments may hand back
+export type RuleInput = ConditionGroup | FlatSegmentRules;
+
+export type FieldType = 'string' | 'number' | 'date' | 'array' | 'boolean' | 'segment';
+
+// Value computed from a customer's orders instead of read from a customer column
+export interface OrderAggregate {
+    source: 'orders';
+    measure: 'productNames' | 'orderCount' | 'averageOrderValue' | 'hasStatus';
+    // Only consider orders placed within this many days
+    windowDays?: number;
+    // Order status looked for by `hasStatus`
+    status?: string;
+}
+
+export interface RuleField {
+    value: string;
+    label: string;
+    type: FieldType;
+    aggregate?: OrderAggregate;
+}
+
+export interface RuleOperation {
+    value: string;
+    label: string;
+}
+
+// Field registry used by both rule builders
+export const RULE_FIELDS: RuleField[] = [
+    { value: 'total_spend', label: 'Total Spend', type: 'number' },
+    { value: 'total_visits', label: 'Total Visits', type: 'number' },
+    { value: 'last_visit_date', label: 'Last Visit Date', type: 'date' },
+    { value: 'tags', label: 'Tags', type: 'array' },
+    { value: 'first_name', label: 'First Name', type: 'string' },
+    { value: 'last_name', label: 'Last Name', type: 'string' },
+    { value: 'email', label: 'Email', type: 'string' },
+    {
+        value: 'purchased_product',
+        label: 'Purchased Product',
+        type: 'array',
+        aggregate: { source: 'orders', measure: 'productNames' },
+    },
+    {
+        value: 'order_count_90d',
+        label: 'Orders (Last 90 Days)',
+        type: 'number',
+        aggregate: { source: 'orders', measure: 'orderCount', windowDays: 90 },
+    },
+    {
+        value: 'average_order_value',
+        label: 'Average Order Value',
+        type: 'number',
+        aggregate: { source: 'orders', measure: 'averageOrderValue' },
+    },
+    {
+        value: 'has_cancelled_order',
+        label: 'Has Cancelled Order',
+        type: 'boolean',
+        aggregate: { source: 'orders', measure: 'hasStatus', status: 'cancelled' },
+    },
+    // Membership in another saved segment; the value is that segment's id
+    { value: 'segment', label: 'Saved Segment', type: 'segment' },
+];
+
+// Fields split into customer columns and order-history aggregates, for grouped pickers
+export const RULE_FIELD_GROUPS: { key: 'customer' | 'orders' | 'segments'; label: string; fields: RuleField[] }[] = [
+    {
+        key: 'customer',
+        label: 'Customer',
+        fields: RULE_FIELDS.filter((field) => !field.aggregate && field.type !== 'segment'),
+    },
+    { key: 'orders', label: 'Order History', fields: RULE_FIELDS.filter((field) => field.aggregate) },
+    { key: 'segments', label: 'Segments', fields: RULE_FIELDS.filter((field) => field.type === 'segment') },
+];
+
+// Operations available for each field type
+export const RULE_OPERATIONS: Record<FieldType, RuleOperation[]> = {
+    string: [
+        { value: 'equals', label: 'Equals' },
+        { value: 'notEquals', label: 'Not Equals' },
+        { value: 'contains', label: 'Contains' },
+        { value: 'notContains', label: 'Not Contains' },
+        { value: 'startsWith', label: 'Starts With' },
+        { value: 'endsWith', label: 'Ends With' },
+        { value: 'isEmpty', label: 'Is Empty' },
+        { value: 'isNotEmpty', label: 'Is Not Empty' },
+    ],
+    number: [
+        { value: 'equals', label: 'Equals' },
+        { value: 'notEquals', label: 'Not Equals' },
+        { value: 'greaterThan', label: 'Greater Than' },
+        { value: 'greaterThanOrEqual', label: 'Greater Than or Equal' },
+        { value: 'lessThan', label: 'Less Than' },
+        { value: 'lessThanOrEqual', label: 'Less Than or Equal' },
+        { value: 'between', label: 'Between' },
+        { value: 'isEmpty', label: 'Is Empty' },
+        { value: 'isNotEmpty', label: 'Is Not Empty' },
+    ],
+    date: [
+        { value: 'equals', label: 'On Date' },
+        { value: 'notEquals', label: 'Not On Date' },
+        { value: 'greaterThan', label: 'After' },
+        { value: 'greaterThanOrEqual', label: 'On or After' },
+        { value: 'lessThan', label: 'Before' },
+        { value: 'lessThanOrEqual', label: 'On or Before' },
+        { value: 'between', label: 'Between' },
+        { value: 'withinLastDays', label: 'Within Last N Days' },
+        { value: 'moreThanDaysAgo', label: 'More Than N Days Ago' },
+        { value: 'betweenDaysAgo', label: 'Between N and M Days Ago' },
+        { value: 'isEmpty', label: 'Is Empty' },
+        { value: 'isNotEmpty', label: 'Is Not Empty' },
+    ],
+    array: [
+        { value: 'contains', label: 'Contains' },
+        { value: 'notContains', label: 'Not Contains' },
+        { value: 'isEmpty', label: 'Is Empty' },
+        { value: 'isNotEmpty', label: 'Is Not Empty' },
+    ],
+    boolean: [
+        { value: 'equals', label: 'Is' },
+        { value: 'notEquals', label: 'Is Not' },
+    ],
+    segment: [
+        { value: 'inSegment', label: 'Is In' },
+        { value: 'notInSegment', label: 'Is Not In' },
+    ],
+};
+
+// Flat format operator -> canonical operation
+const FLAT_TO_CANONICAL: Record<string, string> = {
+    '=': 'equals',
+    '!=': 'notEquals',
+    '>': 'greaterThan',
+    '>=': 'greaterThanOrEqual',
+    '<': 'lessThan',
+    '<=': 'lessThanOrEqual',
+    between: 'between',
+    contains: 'contains',
+    not_contains: 'notContains',
+    starts_with: 'startsWith',
+    ends_with: 'endsWith',
+    is_empty: 'isEmpty',
+    is_not_empty: 'isNotEmpty',
+    within_last_days: 'withinLastDays',
+    more_than_days_ago: 'moreThanDaysAgo',
+    between_days_ago: 'betweenDaysAgo',
+    in_segment: 'inSegment',
+    not_in_segment: 'notInSegment',
+};
+
+const CANONICAL_TO_FLAT: Record<string, string> = Object.fromEntries(
+    Object.entries(FLAT_TO_CANONICAL).map(([flat, canonical]) => [canonical, flat])
+);
+
+// Helper to generate unique IDs
+export const generateRuleId = (): string => Math.random().toString(36).substring(2, 11);
+
+// Helper function to get field type
+export const getFieldType = (field: string): FieldType =>
+    RULE_FIELDS.find((f) => f.value === field)?.type || 'string';
+
+// Order aggregate behind a field, if it is not a plain customer column
+export const getOrderAggregate = (field: string): OrderAggregate | undefined =>
+    RULE_FIELDS.find((f) => f.value === field)?.aggregate;
+
+export const isConditionGroup = (node: Condition | ConditionGroup): node is ConditionGroup =>
+    'conditions' in node && Array.isArray(node.conditions);
+
+export const isFlatSegmentRules = (rules: RuleInput): rules is FlatSegmentRules =>
+    'logic' in rules;
+
+// Condition that references another saved segment
+export const isSegmentReference = (node: Condition | ConditionGroup): node is Condition =>
+    !isConditionGroup(node) && getFieldType(node.field) === 'segment';
+
+// Operations that compare against nothing
+export const operationNeedsValue = (operation: string): boolean =>
+    operation !== 'isEmpty' && operation !== 'isNotEmpty';
+
+// Date operations whose value is a day count relative to today (or a [min, max] pair),
+// so dynamic segments roll forward instead of pinning a calendar date
+export const RELATIVE_DATE_OPERATIONS = ['withinLastDays', 'moreThanDaysAgo', 'betweenDaysAgo'];
+
+export const isRelativeDateOperation = (operation: string): boolean =>
+    RELATIVE_DATE_OPERATIONS.includes(operation);
+
+// Operations whose value is a [min, max] pair
+export const isRangeOperation = (operation: string): boolean =>
+    operation === 'between' || operation === 'betweenDaysAgo';
+
+// Whether switching operations leaves the current value in the wrong shape
+export const shouldResetValue = (from: string, to: string): boolean =>
+    !operationNeedsValue(to) ||
+    isRangeOperation(from) !== isRangeOperation(to) ||
+    isRelativeDateOperation(from) !== isRelativeDateOperation(to);
+
+// Default value for a field/operation pair, used when either one changes
+export const getDefaultValue = (field: string, operation: string): RuleValue => {
+    const fieldType = getFieldType(field);
+
+    if (!operationNeedsValue(operation)) return '';
+
+    if (fieldType === 'number') {
+        return operation === 'between' ? [0, 0] : 0;
+    }
+
+    if (fieldType === 'boolean') return true;
+
+    if (fieldType === 'date' && isRelativeDateOperation(operation)) {
+        return operation === 'betweenDaysAgo' ? [30, 90] : 30;
+    }
+
+    if (fieldType === 'date') {
+        const today = new Date().toISOString().slice(0, 10);
+        return operation === 'between' ? [today, today] : today;
+    }
+
+    return '';
+};
+
+export const createDefaultCondition = (): Condition => ({
+    id: generateRuleId(),
+    field: 'total_spend',
+    operation: 'greaterThan',
+    value: 0,
+});
+
+export const createDefaultRules = (): ConditionGroup => ({
+    id: 'root',
+    operator: 'AND',
+    conditions: [createDefaultCondition()],
+});
+
+// Convert the flat segment format into a condition group
+export const fromFlatRules = (rules: FlatSegmentRules): ConditionGroup => ({
+    id: 'root',
+    operator: rules.logic === 'OR' ? 'OR' : 'AND',
+    conditions: (rules.conditions || []).map((rule) => ({
+        id: generateRuleId(),
+        field: rule.field,
+        operation: FLAT_TO_CANONICAL[rule.operator] || rule.operator,
+        value: rule.value,
+    })),
+});
+
+// Convert a condition group into the flat format, or null if it has nested groups
+export const toFlatRules = (group: ConditionGroup): FlatSegmentRules | null => {
+    const rules: FlatRule[] = [];
+
+    for (const node of group.conditions) {
+        if (isConditionGroup(node)) return null;
+
+        rules.push({
+            field: node.field,
+            operator: CANONICAL_TO_FLAT[node.operation] || node.operation,
+            value: node.value,
+        });
+    }
+
+    return { logic: group.operator, conditions: rules };
+};
+
+// Make sure every node in a tree has an id (AI and backend responses may omit them)
+const withIds = (group: ConditionGroup): ConditionGroup => ({
+    id: group.id || generateRuleId(),
+    operator: group.operator === 'OR' ? 'OR' : 'AND',
+    conditions: (group.conditions || []).map((node) =>
+        isConditionGroup(node) ? withIds(node) : { ...node, id: node.id || generateRuleId() }
+    ),
+});
+
+// Accept rules in either format and return the canonical tree
+export const normalizeRules = (rules: RuleInput | null | undefined): ConditionGroup => {
+    if (!rules || typeof rules !== 'object') return createDefaultRules();
+
+    return isFlatSegmentRules(rules) ? fromFlatRules(rules) : withIds(rules);
+};
+
+// Total number of leaf conditions in a tree
+export const countConditions = (group: ConditionGroup): number =>
+    group.conditions.reduce(
+        (count, node) => count + (isConditionGroup(node) ? countConditions(node) : 1),
+        0
+    );
+
+// Order aggregates referenced anywhere in a tree, keyed by field; sent with previews
+// so the backend knows how to compute them. Referenced segments are followed when
+// their rules are given.
+export const collectOrderAggregates = (
+    group: ConditionGroup,
+    segmentRules: Record<string, ConditionGroup> = {}
+): Record<string, OrderAggregate> => {
+    const aggregates: Record<string, OrderAggregate> = {};
+    const seenSegments = new Set<string>();
+
+    const collect = (node: Condition | ConditionGroup) => {
+        if (isConditionGroup(node)) {
+            node.conditions.forEach(collect);
+            return;
+        }
+
+        const aggregate = getOrderAggregate(node.field);
+        if (aggregate) aggregates[node.field] = aggregate;
+
+        const segmentId = isSegmentReference(node) ? String(node.value) : '';
+        if (segmentId && segmentRules[segmentId] && !seenSegments.has(segmentId)) {
+            seenSegments.add(segmentId);
+            collect(segmentRules[segmentId]);
+        }
+    };
+
+    collect(group);
+    return aggregates;
+};
+
+// Ids of saved segments referenced anywhere in a tree
+export const getReferencedSegmentIds = (group: ConditionGroup): string[] => {
+    const ids = group.conditions.flatMap((node): string[] => {
+        if (isConditionGroup(node)) return getReferencedSegmentIds(node);
+        return isSegmentReference(node) && node.value ? [String(node.value)] : [];
+    });
+
+    return Array.from(new Set(ids));
+};
+
+// Follow segment references from `rules` and return the first cycle found as a path of
+// segment ids (starting and ending with the same id), or null when there is none.
+// `ownerId` is the saved segment the rules belong to, if any.
+export const findSegmentCycle = (
+    rules: ConditionGroup,
+    segmentRules: Record<string, ConditionGroup>,
+    ownerId?: string
+): string[] | null => {
+    const root = ownerId || '';
+    const finished = new Set<string>();
+
+    const visit = (id: string, path: string[]): string[] | null => {
+        const index = path.indexOf(id);
+        if (index !== -1) return [...path.slice(index), id];
+        if (finished.has(id)) return null;
+
+        const group = id === root ? rules : segmentRules[id];
+        for (const referencedId of group ? getReferencedSegmentIds(group) : []) {
+            const cycle = visit(referencedId, [...path, id]);
+            if (cycle) return cycle;
+        }
+
+        finished.add(id);
+        return null;
+    };
+
+    return visit(root, []);
+};
@@ -0,0 +1,19 @@
+// Static snapshot segments
+//
+// A snapshot is a static segment holding the customer ids a dynamic segment matched at
+// a point in time (`segments.freezeSegment`), so a campaign can be resent to, or audited
+// against, exactly the same people. Members can then be added or removed by hand.
+
+export interface SnapshotFields {
+    is_dynamic?: boolean;
+    customer_ids?: string[];
+    snapshot_at?: string;
+    source_segment_id?: string;
+}
+
+export const isSnapshot = (segment: SnapshotFields): boolean =>
+    segment.is_dynamic === false && Array.isArray(segment.customer_ids);
+
+// Member ids of a snapshot, or null for segments defined by rules
+export const getSnapshotMemberIds = (segment: SnapshotFields): string[] | null =>
+    isSnapshot(segment) ? Array.from(new Set((segment.customer_ids || []).map(String))) : null;
@@ -0,0 +1,176 @@
+// Segment rule versions and readable diffs between them
+//
+// A version is recorded by the API client after every segment save. Diffs pair up
+// conditions within each group (exact match, then same id, then same field) so edits
+// show up as "changed" rather than a remove plus an add.
+
+import {
+    Condition,
+    ConditionGroup,
+    RULE_FIELDS,
+    RULE_OPERATIONS,
+    RuleInput,
+    getFieldType,
+    isConditionGroup,
+    isRelativeDateOperation,
+    normalizeRules,
+    operationNeedsValue,
+} from '@/utils/segment-rules';
+
+export interface SegmentVersionAuthor {
+    id: string;
+    name: string;
+    email: string;
+}
+
+export interface SegmentVersion {
+    id: string;
+    version: number;
+    author: SegmentVersionAuthor | null;
+    createdAt: string;
+    rules: ConditionGroup;
+    // Version this one was restored from, if it is a rollback
+    restoredFrom?: number;
+}
+
+export interface RuleChange {
+    type: 'added' | 'removed' | 'changed';
+    // Where the change happened, e.g. "Group 2"; empty for the top level
+    location: string;
+    before?: string;
+    after?: string;
+}
+
+// Normalize a versions response from the API, newest first
+export const parseVersionsResponse = (data: unknown): SegmentVersion[] => {
+    if (!Array.isArray(data)) return [];
+
+    return data
+        .map((entry, index) => ({
+            id: String(entry?.id ?? index),
+            version: Number(entry?.version ?? index + 1),
+            author: entry?.author ?? entry?.created_by ?? null,
+            createdAt: String(entry?.createdAt ?? entry?.created_at ?? ''),
+            rules: normalizeRules(entry?.rules as RuleInput | undefined),
+            restoredFrom: entry?.restoredFrom ?? entry?.restored_from ?? undefined,
+        }))
+        .sort((a, b) => b.version - a.version);
+};
+
+const formatValue = (condition: Condition): string => {
+    if (getFieldType(condition.field) === 'boolean') return condition.value ? 'Yes' : 'No';
+    if (Array.isArray(condition.value)) return `${condition.value[0]} and ${condition.value[1]}`;
+    return typeof condition.value === 'string' ? `"${condition.value}"` : String(condition.value);
+};
+
+// Readable sentence for a condition, e.g. "Total Spend greater than 5000"
+export const describeCondition = (
+    condition: Condition,
+    segmentName: (id: string) => string = (id) => id
+): string => {
+    const fieldType = getFieldType(condition.field);
+    const field = RULE_FIELDS.find((f) => f.value === condition.field)?.label || condition.field;
+    const operation = (
+        RULE_OPERATIONS[fieldType].find((op) => op.value === condition.operation)?.label || condition.operation
+    ).toLowerCase();
+
+    if (!operationNeedsValue(condition.operation)) return `${field} ${operation}`;
+
+    if (isRelativeDateOperation(condition.operation)) {
+        const [low, high] = Array.isArray(condition.value) ? condition.value : [condition.value, ''];
+        return `${field} ${operation.replace(/\bn\b/, String(low)).replace(/\bm\b/, String(high))}`;
+    }
+
+    if (fieldType === 'segment') return `${operation} segment "${segmentName(String(condition.value))}"`;
+
+    return `${field} ${operation} ${formatValue(condition)}`;
+};
+
+const sameCondition = (a: Condition, b: Condition): boolean =>
+    a.field === b.field &&
+    a.operation === b.operation &&
+    JSON.stringify(a.value) === JSON.stringify(b.value);
+
+// Pair items from two lists, trying each matcher in turn on what is still unpaired
+const pairUp = <T>(before: T[], after: T[], matchers: ((a: T, b: T) => boolean)[]) => {
+    const pairs: [T, T][] = [];
+    const remainingBefore = [...before];
+    const remainingAfter = [...after];
+
+    for (const matches of matchers) {
+        for (const item of [...remainingBefore]) {
+            const index = remainingAfter.findIndex((candidate) => matches(item, candidate));
+            if (index === -1) continue;
+
+            pairs.push([item, remainingAfter[index]]);
+            remainingAfter.splice(index, 1);
+            remainingBefore.splice(remainingBefore.indexOf(item), 1);
+        }
+    }
+
+    return { pairs, removed: remainingBefore, added: remainingAfter };
+};
+
+const OPERATOR_TEXT = { AND: 'all conditions', OR: 'any condition' };
+
+// Conditions added, removed or changed between two rule trees
+export const diffRules = (
+    before: ConditionGroup,
+    after: ConditionGroup,
+    segmentName?: (id: string) => string,
+    location = ''
+): RuleChange[] => {
+    const changes: RuleChange[] = [];
+    const describe = (condition: Condition) => describeCondition(condition, segmentName);
+    const describeGroup = (group: ConditionGroup): string =>
+        group.conditions
+            .map((node) => (isConditionGroup(node) ? `(${describeGroup(node)})` : describe(node)))
+            .join(` ${group.operator} `);
+
+    if (before.operator !== after.operator) {
+        changes.push({
+            type: 'changed',
+            location,
+            before: `Match ${OPERATOR_TEXT[before.operator]}`,
+            after: `Match ${OPERATOR_TEXT[after.operator]}`,
+        });
+    }
+
+    const conditionsBefore = before.conditions.filter((node): node is Condition => !isConditionGroup(node));
+    const conditionsAfter = after.conditions.filter((node): node is Condition => !isConditionGroup(node));
+    const conditionPairs = pairUp(conditionsBefore, conditionsAfter, [
+        sameCondition,
+        (a, b) => a.id === b.id,
+        (a, b) => a.field === b.field,
+    ]);
+
+    for (const [a, b] of conditionPairs.pairs) {
+        if (!sameCondition(a, b)) {
+            changes.push({ type: 'changed', location, before: describe(a), after: describe(b) });
+        }
+    }
+    conditionPairs.removed.forEach((a) => changes.push({ type: 'removed', location, before: describe(a) }));
+    conditionPairs.added.forEach((b) => changes.push({ type: 'added', location, after: describe(b) }));
+
+    // Nested groups pair by id, then by position
+    const groupsBefore = before.conditions.filter(isConditionGroup);
+    const groupsAfter = after.conditions.filter(isConditionGroup);
+    const groupPairs = pairUp(groupsBefore, groupsAfter, [
+        (a, b) => a.id === b.id,
+        (a, b) => groupsBefore.indexOf(a) === groupsAfter.indexOf(b),
+    ]);
+    const groupLocation = (group: ConditionGroup, groups: ConditionGroup[]) =>
+        `${location ? `${location} › ` : ''}Group ${groups.indexOf(group) + 1}`;
+
+    for (const [a, b] of groupPairs.pairs) {
+        changes.push(...diffRules(a, b, segmentName, groupLocation(b, groupsAfter)));
+    }
+    groupPairs.removed.forEach((a) =>
+        changes.push({ type: 'removed', location: groupLocation(a, groupsBefore), before: describeGroup(a) })
+    );
+    groupPairs.added.forEach((b) =>
+        changes.push({ type: 'added', location: groupLocation(b, groupsAfter), after: describeGroup(b) })
+    );
+
+    return changes;
+};
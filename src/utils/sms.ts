@@ -0,0 +1,62 @@
+// SMS length and segment counting
+//
+// Messages that fit the GSM 03.38 alphabet are sent as GSM-7: 160 characters in one
+// segment, 153 per segment once split. Anything else (emoji, ₹, most non-Latin scripts)
+// forces UCS-2 for the whole message: 70 characters, or 67 per segment when split.
+// Characters in the GSM extension table take two slots.
+
+export type SmsEncoding = 'GSM-7' | 'UCS-2';
+
+export interface SmsCount {
+    encoding: SmsEncoding;
+    // Characters as the user sees them
+    characters: number;
+    // Slots used in the chosen encoding (extension characters count twice in GSM-7)
+    units: number;
+    segments: number;
+    // Slots available per segment at the current segment count
+    perSegment: number;
+    // Slots left before another segment is needed
+    remaining: number;
+}
+
+const GSM_BASIC =
+    '@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?' +
+    '¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà';
+
+const GSM_EXTENDED = '^{}\\[~]|€\f';
+
+const LIMITS: Record<SmsEncoding, { single: number; multi: number }> = {
+    'GSM-7': { single: 160, multi: 153 },
+    'UCS-2': { single: 70, multi: 67 },
+};
+
+export const isGsm7 = (text: string): boolean =>
+    Array.from(text).every((char) => GSM_BASIC.includes(char) || GSM_EXTENDED.includes(char));
+
+// Characters that force UCS-2, deduplicated, for pointing out what to replace
+export const getNonGsmCharacters = (text: string): string[] =>
+    Array.from(new Set(Array.from(text).filter((char) => !GSM_BASIC.includes(char) && !GSM_EXTENDED.includes(char))));
+
+export const countSms = (text: string): SmsCount => {
+    const characters = Array.from(text);
+    const encoding: SmsEncoding = isGsm7(text) ? 'GSM-7' : 'UCS-2';
+
+    // UCS-2 counts UTF-16 code units, so emoji outside the BMP take two
+    const units = encoding === 'GSM-7'
+        ? characters.reduce((sum, char) => sum + (GSM_EXTENDED.includes(char) ? 2 : 1), 0)
+        : text.length;
+
+    const { single, multi } = LIMITS[encoding];
+    const segments = units === 0 ? 0 : units <= single ? 1 : Math.ceil(units / multi);
+    const perSegment = segments > 1 ? multi : single;
+
+    return {
+        encoding,
+        characters: characters.length,
+        units,
+        segments,
+        perSegment,
+        remaining: Math.max(segments, 1) * perSegment - units,
+    };
+};